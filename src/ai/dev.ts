@@ -1 +1,4 @@
 // Flows will be imported for their side effects in this file.
+import '@/ai/flows/suggest-envelope';
+import '@/ai/flows/parse-transaction';
+import '@/ai/flows/ledger-assistant';
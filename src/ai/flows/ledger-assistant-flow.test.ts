@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { genkit, type GenerateRequest, type Part } from "genkit";
+import { defineLedgerAssistantFlow, type LedgerAssistantInput } from "./ledger-assistant-flow";
+import { runLedgerTool, type LedgerToolSource } from "@/lib/ledger-tools";
+import type { Transaction } from "@/types";
+
+const TRANSACTIONS: Transaction[] = [
+  { id: "t1", userId: "user", accountId: "chk", payeeId: "tacos", amount: 4500, type: "outflow", envelopeId: "restaurants", date: "2026-05-02", createdAt: "" },
+  { id: "t2", userId: "user", accountId: "chk", payeeId: "tacos", amount: 1500, type: "outflow", envelopeId: "restaurants", date: "2026-05-20", createdAt: "" },
+];
+
+const source = {
+  accounts: [{ id: "chk", userId: "user", name: "Checking", initialBalance: 0, createdAt: "" }],
+  envelopes: [{ id: "restaurants", userId: "user", name: "Restaurants", budgetAmount: 0, category: "Food", orderIndex: 0, createdAt: "" }],
+  payees: [{ id: "tacos", userId: "user", name: "Tacos El Rey", createdAt: "" }],
+  currencySettings: { baseCurrency: "USD", ledgerCurrency: "USD", exchangeRates: {} },
+  getAccountCurrency: () => "USD",
+  getTransactionsInRange: async () => [...TRANSACTIONS].reverse(),
+  getEnvelopeBalanceAsOfEOM: () => 0,
+  getEnvelopeSpending: () => 0,
+  getMonthlyOutflowTotal: () => 0,
+  getMonthlyActualIncomeTotal: () => 0,
+} satisfies LedgerToolSource;
+
+const CONTEXT: Omit<LedgerAssistantInput, "messages"> = {
+  today: "2026-06-01",
+  currency: "USD",
+  accounts: [{ id: "chk", name: "Checking" }],
+  envelopes: [{ id: "restaurants", name: "Restaurants", category: "Food" }],
+  payees: [{ id: "tacos", name: "Tacos El Rey" }],
+};
+
+/**
+ * A flow on a model that asks for the given tool calls, one round each, then answers. It keeps the requests
+ * it was sent so tests can see what the tools told it.
+ */
+function createFlow(rounds: Part[][], answer: string) {
+  const ai = genkit({});
+  const requests: GenerateRequest[] = [];
+  const model = ai.defineModel({ name: "test/fake", supports: { tools: true, multiturn: true, systemRole: true } }, async request => {
+    requests.push(request);
+    const round = request.messages.filter(message => message.role === "tool").length;
+    const content = round < rounds.length ? rounds[round] : [{ text: answer }];
+    return { message: { role: "model", content }, finishReason: "stop" };
+  });
+  return { flow: defineLedgerAssistantFlow(ai, model), requests };
+}
+
+// Runs the conversation the way the assistant panel does: tools run here, results go back with the next call
+async function ask(flow: ReturnType<typeof createFlow>["flow"], question: string) {
+  let messages: LedgerAssistantInput["messages"] = [{ role: "user", content: [{ text: question }] }];
+  for (let round = 0; round < 5; round++) {
+    const result = await flow({ ...CONTEXT, messages });
+    if (result.toolRequests.length === 0) return result;
+    const content = await Promise.all(result.toolRequests.map(async request => ({
+      toolResponse: { name: request.name, ...(request.ref && { ref: request.ref }), output: await runLedgerTool(source, request.name, request.input) },
+    })));
+    messages = [...result.messages, { role: "tool", content }];
+  }
+  throw new Error("The model never answered.");
+}
+
+const findMay = (ref: string, input: object = { from: "2026-05-01", to: "2026-05-31", payeeId: "tacos" }): Part =>
+  ({ toolRequest: { name: "findTransactions", ref, input } });
+
+describe("ledgerAssistantFlow", () => {
+  it("hands tool requests to the caller before answering", async () => {
+    const { flow } = createFlow([[findMay("1")]], "unused");
+    const result = await flow({ ...CONTEXT, messages: [{ role: "user", content: [{ text: "Tacos in May?" }] }] });
+    expect(result.toolRequests).toEqual([{ name: "findTransactions", ref: "1", input: { from: "2026-05-01", to: "2026-05-31", payeeId: "tacos" } }]);
+    expect(result.answer).toBeUndefined();
+    expect(result.messages.map(message => message.role)).toEqual(["user", "model"]);
+  });
+
+  it("answers from the tool results, citing only transactions they listed", async () => {
+    const { flow, requests } = createFlow([[findMay("1")]], "You spent $60 at Tacos El Rey [[t1]] [[t2]], more than the $10 at Burger Barn [[t9]].");
+    const result = await ask(flow, "How much did we spend at Tacos El Rey in May?");
+
+    expect(result.answer).toBe("You spent $60 at Tacos El Rey [[t1]] [[t2]], more than the $10 at Burger Barn.");
+    expect(result.citations).toEqual(["t1", "t2"]);
+    const toolOutput = requests[1].messages.find(message => message.role === "tool")!.content[0].toolResponse!.output;
+    expect(toolOutput).toMatchObject({ count: 2, totalOutflow: 60 });
+  });
+
+  it("sends a bad tool request back as an error the model can read", async () => {
+    const { flow, requests } = createFlow([[findMay("1", { from: "May", to: 31 })], [findMay("2")]], "That's $60 [[t1]].");
+    const result = await ask(flow, "Tacos in May?");
+
+    const firstOutput = requests[1].messages.find(message => message.role === "tool")!.content[0].toolResponse!.output;
+    expect(firstOutput).toEqual({ error: "Invalid input. to: Expected string, received number." });
+    expect(result.citations).toEqual(["t1"]);
+  });
+
+  it("tells the model about the budget's accounts, envelopes and payees", async () => {
+    const { flow, requests } = createFlow([], "Nothing to look up.");
+    await ask(flow, "Hi");
+    const system = requests[0].messages.find(message => message.role === "system")!.content.map(part => part.text).join("");
+    expect(system).toContain("Today is 2026-06-01");
+    expect(system).toContain("- id: chk | name: Checking");
+    expect(system).toContain("- id: restaurants | name: Restaurants | category: Food");
+    expect(system).toContain("- id: tacos | name: Tacos El Rey");
+  });
+});
@@ -0,0 +1,113 @@
+import { z, MessageSchema, type Genkit, type MessageData, type ModelArgument } from 'genkit';
+import {
+  EnvelopeBalancesInputSchema,
+  FindTransactionsInputSchema,
+  MonthlyTotalsInputSchema,
+  collectToolTransactionIds,
+  extractCitations,
+} from '@/lib/ledger-tools';
+
+export const LedgerAssistantInputSchema = z.object({
+  messages: z.array(MessageSchema).describe('The conversation so far, ending with a question or tool results.'),
+  today: z.string().describe("The user's local date, yyyy-MM-dd."),
+  currency: z.string().describe('The currency totals and balances are given in.'),
+  accounts: z.array(z.object({ id: z.string(), name: z.string() })),
+  envelopes: z.array(z.object({ id: z.string(), name: z.string(), category: z.string() })),
+  payees: z.array(z.object({ id: z.string(), name: z.string() })),
+});
+export type LedgerAssistantInput = z.infer<typeof LedgerAssistantInputSchema>;
+
+export const LedgerToolRequestSchema = z.object({
+  name: z.string(),
+  ref: z.string().optional(),
+  input: z.unknown(),
+});
+export type LedgerToolRequest = z.infer<typeof LedgerToolRequestSchema>;
+
+export const LedgerAssistantOutputSchema = z.object({
+  messages: z.array(MessageSchema).describe('The conversation including the reply, to send back with the next turn.'),
+  toolRequests: z.array(LedgerToolRequestSchema).describe('Tools to run and answer with before the reply is final.'),
+  answer: z.string().optional().describe('The reply, once no tools are needed. Cites transactions as [[id]].'),
+  citations: z.array(z.string()).describe('Ids of the transactions the answer cites, in order.'),
+});
+export type LedgerAssistantOutput = z.infer<typeof LedgerAssistantOutputSchema>;
+
+const buildSystemPrompt = (input: LedgerAssistantInput): string => {
+  const list = (items: { id: string; name: string }[], extra?: (item: any) => string) =>
+    items.length > 0 ? items.map(item => `- id: ${item.id} | name: ${item.name}${extra ? extra(item) : ''}`).join('\n') : '(none)';
+  return `You answer questions about the user's budget using the tools, which read their actual transactions, envelope balances and monthly totals. Never guess a figure: look it up. Today is ${input.today}; quarters are calendar quarters. Amounts are in ${input.currency} unless a transaction says otherwise.
+
+Keep answers short and lead with the numbers asked for. When an answer rests on particular transactions, cite each one right after the claim it supports by writing its id in double brackets, e.g. [[abc123]], using only ids a tool returned. Totals from getMonthlyTotals or the totals of findTransactions don't need every transaction cited; cite the largest few when they explain the total. If the tools can't answer the question, say so.
+
+Accounts:
+${list(input.accounts)}
+
+Envelopes:
+${list(input.envelopes, envelope => ` | category: ${envelope.category}`)}
+
+Payees:
+${list(input.payees)}`;
+};
+
+/**
+ * Defines the ledger assistant flow on the given Genkit instance. The model defaults to the instance's own;
+ * pass one to run the flow against another model, e.g. a fake one that answers without a network.
+ *
+ * The tools read the user's data, which lives in the browser, so the flow doesn't run them: it returns the
+ * model's tool requests, and the caller runs them (see runLedgerTool) and calls the flow again with the
+ * results appended to `messages` as a tool message. Once the model has what it needs, the reply comes back
+ * as `answer`.
+ */
+export function defineLedgerAssistantFlow(ai: Genkit, model?: ModelArgument) {
+  const answeredByCaller = async (): Promise<never> => {
+    throw new Error('Ledger tools are run by the caller, not the flow.');
+  };
+  const tools = [
+    ai.defineTool({
+      name: 'findTransactions',
+      description: 'Lists transactions in a date range matching a filter, newest first, with the total in and out of every match.',
+      inputSchema: FindTransactionsInputSchema,
+      outputSchema: z.any(),
+    }, answeredByCaller),
+    ai.defineTool({
+      name: 'getEnvelopeBalances',
+      description: "Each envelope's balance at the end of a month and what was spent from it that month.",
+      inputSchema: EnvelopeBalancesInputSchema,
+      outputSchema: z.any(),
+    }, answeredByCaller),
+    ai.defineTool({
+      name: 'getMonthlyTotals',
+      description: 'Total money out (transfers excluded) and actual income for each month in a range, optionally with one envelope\'s spending.',
+      inputSchema: MonthlyTotalsInputSchema,
+      outputSchema: z.any(),
+    }, answeredByCaller),
+  ];
+
+  return ai.defineFlow(
+    {
+      name: 'ledgerAssistantFlow',
+      inputSchema: LedgerAssistantInputSchema,
+      outputSchema: LedgerAssistantOutputSchema,
+    },
+    async input => {
+      const response = await ai.generate({
+        ...(model && { model }),
+        system: buildSystemPrompt(input),
+        messages: input.messages as MessageData[],
+        tools,
+        returnToolRequests: true,
+      });
+      const messages = response.messages.filter(message => message.role !== 'system');
+      const toolRequests = response.toolRequests.map(({ toolRequest }) => ({
+        name: toolRequest.name,
+        ...(toolRequest.ref && { ref: toolRequest.ref }),
+        input: toolRequest.input,
+      }));
+      if (toolRequests.length > 0) return { messages, toolRequests, citations: [] };
+
+      const toolOutputs = messages.flatMap(message => message.content.map(part => part.toolResponse?.output));
+      const { answer, citations } = extractCitations(response.text, collectToolTransactionIds(toolOutputs));
+      return { messages, toolRequests, answer, citations };
+    },
+  );
+}
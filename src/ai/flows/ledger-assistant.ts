@@ -0,0 +1,28 @@
+'use server';
+/**
+ * @fileOverview Answers questions about the user's budget.
+ *
+ * - askLedgerAssistant - Takes one turn of the conversation: either tools for the caller to run, or the answer.
+ */
+
+import { ai, isModelConfigured } from '@/ai/genkit';
+import {
+  defineLedgerAssistantFlow,
+  type LedgerAssistantInput,
+  type LedgerAssistantOutput,
+} from '@/ai/flows/ledger-assistant-flow';
+
+const ledgerAssistantFlow = defineLedgerAssistantFlow(ai);
+
+export async function askLedgerAssistant(input: LedgerAssistantInput): Promise<LedgerAssistantOutput> {
+  if (!isModelConfigured()) {
+    // Unlike quick entry there's no rule-based fallback, so say why rather than fail
+    return {
+      messages: input.messages,
+      toolRequests: [],
+      answer: "The assistant isn't set up yet: it needs GEMINI_API_KEY to be set on the server.",
+      citations: [],
+    };
+  }
+  return ledgerAssistantFlow(input);
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { genkit } from "genkit";
+import { defineParseTransactionFlow, toQuickEntryDraft, type ParseTransactionInput } from "./parse-transaction-flow";
+
+const INPUT: ParseTransactionInput = {
+  text: "coffee 4.75 sbux yesterday from checking",
+  today: "2026-10-19",
+  accounts: [{ id: "chk", name: "Chase Checking" }],
+  payees: [
+    { id: "sb", name: "Starbucks", aliases: [{ match: "contains", pattern: "SBUX" }] },
+    { id: "acme", name: "Acme Corp" },
+  ],
+  envelopes: [{ id: "coffee", name: "Coffee", category: "Food" }],
+};
+
+describe("toQuickEntryDraft", () => {
+  it("converts the amount to cents and keeps ids that exist", () => {
+    expect(toQuickEntryDraft({
+      amount: 4.75, type: "outflow", date: "2026-10-18", accountId: "chk", payeeId: "sb", envelopeId: "coffee", description: " coffee ",
+    }, INPUT)).toEqual({
+      amount: 475, type: "outflow", date: "2026-10-18", accountId: "chk", payeeId: "sb", envelopeId: "coffee", description: "coffee",
+    });
+  });
+
+  it("drops ids the model made up", () => {
+    const draft = toQuickEntryDraft({ amount: 4.75, type: "outflow", accountId: "wallet", payeeId: "dunkin", envelopeId: "snacks" }, INPUT);
+    expect(draft).not.toHaveProperty("accountId");
+    expect(draft).not.toHaveProperty("payeeId");
+    expect(draft).not.toHaveProperty("envelopeId");
+  });
+
+  it("resolves a payee name to an existing payee by name or alias", () => {
+    expect(toQuickEntryDraft({ type: "outflow", payeeName: "SBUX 1234" }, INPUT)).toMatchObject({ payeeId: "sb" });
+    expect(toQuickEntryDraft({ type: "outflow", payeeId: "made-up", payeeName: "acme corp" }, INPUT)).toMatchObject({ payeeId: "acme" });
+  });
+
+  it("keeps a payee name that doesn't resolve", () => {
+    const draft = toQuickEntryDraft({ type: "outflow", payeeName: " Tacos El Rey " }, INPUT);
+    expect(draft).toMatchObject({ payeeName: "Tacos El Rey" });
+    expect(draft).not.toHaveProperty("payeeId");
+  });
+
+  it("falls back to today for a malformed date", () => {
+    expect(toQuickEntryDraft({ type: "outflow", date: "10/18/2026" }, INPUT).date).toBe("2026-10-19");
+    expect(toQuickEntryDraft({ type: "outflow", date: "2026-02-30" }, INPUT).date).toBe("2026-10-19");
+    expect(toQuickEntryDraft({ type: "outflow" }, INPUT).date).toBe("2026-10-19");
+  });
+
+  it("makes amounts positive and leaves out zero and missing ones", () => {
+    expect(toQuickEntryDraft({ type: "outflow", amount: -12.5 }, INPUT).amount).toBe(1250);
+    expect(toQuickEntryDraft({ type: "outflow", amount: 0 }, INPUT)).not.toHaveProperty("amount");
+    expect(toQuickEntryDraft({ type: "outflow" }, INPUT)).not.toHaveProperty("amount");
+  });
+
+  it("keeps income for inflows only, and out of envelopes", () => {
+    const income = toQuickEntryDraft({ type: "inflow", isActualIncome: true, envelopeId: "coffee" }, INPUT);
+    expect(income).toMatchObject({ type: "inflow", isActualIncome: true });
+    expect(income).not.toHaveProperty("envelopeId");
+    expect(toQuickEntryDraft({ type: "outflow", isActualIncome: true }, INPUT)).not.toHaveProperty("isActualIncome");
+  });
+});
+
+describe("parseTransactionFlow", () => {
+  it("checks the model's reading against the records", async () => {
+    const ai = genkit({});
+    const model = ai.defineModel({ name: "test/fake" }, async () => ({
+      message: {
+        role: "model",
+        content: [{ text: JSON.stringify({ amount: 4.75, type: "outflow", date: "2026-10-18", accountId: "chk", payeeId: "starbucks", payeeName: "SBUX", envelopeId: "coffee", description: "coffee" }) }],
+      },
+      finishReason: "stop",
+    }));
+    const flow = defineParseTransactionFlow(ai, model);
+    expect(await flow(INPUT)).toEqual({
+      amount: 475, type: "outflow", date: "2026-10-18", accountId: "chk", payeeId: "sb", envelopeId: "coffee", description: "coffee",
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { z, type Genkit, type ModelArgument } from 'genkit';
+import { isValid, parseISO } from 'date-fns';
+import { toMoney } from '@/lib/money';
+import { resolvePayee } from '@/lib/payees';
+import type { QuickEntryDraft } from '@/types';
+
+export const ParseTransactionInputSchema = z.object({
+  text: z.string().describe('What the user typed, e.g. "coffee 4.75 starbucks yesterday from checking".'),
+  today: z.string().describe("The user's local date, yyyy-MM-dd, for relative dates like yesterday."),
+  accounts: z.array(z.object({ id: z.string(), name: z.string() })),
+  payees: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    aliases: z.array(z.object({ match: z.enum(['exact', 'contains', 'regex']), pattern: z.string() })).optional(),
+  })),
+  envelopes: z.array(z.object({ id: z.string(), name: z.string(), category: z.string() })),
+});
+export type ParseTransactionInput = z.infer<typeof ParseTransactionInputSchema>;
+
+// What the model is asked for; amounts are in whole currency units, as people type them
+const ModelDraftSchema = z.object({
+  amount: z.number().optional().describe('The amount in whole currency units, e.g. 4.75. Always positive.'),
+  type: z.enum(['inflow', 'outflow']).describe('inflow for money received, outflow for money spent.'),
+  date: z.string().optional().describe('yyyy-MM-dd.'),
+  accountId: z.string().optional().describe('The id of the account named, if any.'),
+  payeeId: z.string().optional().describe('The id of the existing payee named, if any.'),
+  payeeName: z.string().optional().describe('The payee as written, when it is not an existing payee.'),
+  envelopeId: z.string().optional().describe('The id of the envelope it belongs in, if one clearly fits.'),
+  isActualIncome: z.boolean().optional().describe('True for earned income such as salary; false for refunds.'),
+  description: z.string().optional().describe('What was bought or received, without the amount, date, account or payee.'),
+});
+type ModelDraft = z.infer<typeof ModelDraftSchema>;
+
+export const ParseTransactionOutputSchema = z.object({
+  amount: z.number().int().optional(),
+  type: z.enum(['inflow', 'outflow']).optional(),
+  date: z.string().optional(),
+  accountId: z.string().optional(),
+  payeeId: z.string().optional(),
+  payeeName: z.string().optional(),
+  envelopeId: z.string().nullable().optional(),
+  isActualIncome: z.boolean().optional(),
+  description: z.string().optional(),
+});
+
+/**
+ * The model's reading checked against the records it was given: ids that don't exist are dropped, a payee
+ * name that matches an existing payee or alias becomes its id, the amount is converted to minor units and
+ * a malformed date falls back to today. Models do invent ids and mix up formats.
+ */
+export function toQuickEntryDraft(raw: ModelDraft, input: ParseTransactionInput): QuickEntryDraft {
+  const knows = (list: { id: string }[], id?: string) => !!id && list.some(item => item.id === id);
+  const payeeId = knows(input.payees, raw.payeeId)
+    ? raw.payeeId
+    : raw.payeeName ? resolvePayee(raw.payeeName, input.payees)?.id : undefined;
+  const payeeName = !payeeId && raw.payeeName?.trim() ? raw.payeeName.trim() : undefined;
+  const date = raw.date && /^\d{4}-\d{2}-\d{2}$/.test(raw.date) && isValid(parseISO(raw.date)) ? raw.date : input.today;
+  const amount = raw.amount !== undefined && Number.isFinite(raw.amount) ? toMoney(Math.abs(raw.amount)) : 0;
+  const isActualIncome = raw.type === 'inflow' && !!raw.isActualIncome;
+  const description = raw.description?.trim().slice(0, 200);
+
+  return {
+    type: raw.type === 'inflow' ? 'inflow' : 'outflow',
+    date,
+    ...(amount > 0 && { amount }),
+    ...(knows(input.accounts, raw.accountId) && { accountId: raw.accountId }),
+    ...(payeeId && { payeeId }),
+    ...(payeeName && { payeeName }),
+    ...(!isActualIncome && knows(input.envelopes, raw.envelopeId) && { envelopeId: raw.envelopeId }),
+    ...(isActualIncome && { isActualIncome }),
+    ...(description && { description }),
+  };
+}
+
+const buildPrompt = (input: ParseTransactionInput): string => {
+  const list = (items: { id: string; name: string }[]) =>
+    items.length > 0 ? items.map(item => `- id: ${item.id} | name: ${item.name}`).join('\n') : '(none)';
+  const payeeLines = input.payees.length > 0
+    ? input.payees.map(payee => {
+      const aliases = payee.aliases?.map(alias => alias.pattern).join(', ');
+      return `- id: ${payee.id} | name: ${payee.name}${aliases ? ` | also written: ${aliases}` : ''}`;
+    }).join('\n')
+    : '(none)';
+  return `You turn a short note about a personal finance transaction into structured fields.
+
+Today is ${input.today}. Resolve relative dates such as "yesterday" or "last friday" against it; use today when no date is given.
+
+Accounts:
+${list(input.accounts)}
+
+Payees:
+${payeeLines}
+
+Envelopes:
+${list(input.envelopes)}
+
+Only use ids from the lists above. If the payee isn't listed, leave payeeId out and give payeeName as written. Only set envelopeId when an envelope clearly fits. Money spent is an outflow; money received, refunds and income are inflows.
+
+Note: ${input.text}`;
+};
+
+/**
+ * Defines the quick-entry parsing flow on the given Genkit instance. The model defaults to the instance's own;
+ * pass one to run the flow against another model, e.g. a fake one that answers without a network.
+ */
+export function defineParseTransactionFlow(ai: Genkit, model?: ModelArgument) {
+  return ai.defineFlow(
+    {
+      name: 'parseTransactionFlow',
+      inputSchema: ParseTransactionInputSchema,
+      outputSchema: ParseTransactionOutputSchema,
+    },
+    async input => {
+      const { output } = await ai.generate({
+        ...(model && { model }),
+        prompt: buildPrompt(input),
+        output: { schema: ModelDraftSchema },
+      });
+      if (!output) throw new Error('The model did not return a transaction.');
+      return toQuickEntryDraft(output, input);
+    },
+  );
+}
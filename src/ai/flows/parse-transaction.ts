@@ -0,0 +1,26 @@
+'use server';
+/**
+ * @fileOverview Reads a transaction from a line of quick-entry text.
+ *
+ * - parseTransaction - Parses the text into a draft for the add form, with the model when one is configured and
+ *   with the rule-based parser otherwise.
+ */
+
+import { ai, isModelConfigured } from '@/ai/genkit';
+import { defineParseTransactionFlow, type ParseTransactionInput } from '@/ai/flows/parse-transaction-flow';
+import { parseQuickEntry } from '@/lib/quick-entry';
+import type { QuickEntryDraft } from '@/types';
+
+const parseTransactionFlow = defineParseTransactionFlow(ai);
+
+export async function parseTransaction(
+  input: ParseTransactionInput,
+): Promise<{ draft: QuickEntryDraft; source: 'model' | 'rules' }> {
+  if (!isModelConfigured()) return { draft: parseQuickEntry(input.text, input), source: 'rules' };
+  try {
+    return { draft: await parseTransactionFlow(input), source: 'model' };
+  } catch {
+    // A draft from the rules beats no draft; the form is reviewed either way
+    return { draft: parseQuickEntry(input.text, input), source: 'rules' };
+  }
+}
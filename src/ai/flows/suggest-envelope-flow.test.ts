@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { genkit, type GenerateRequest } from "genkit";
+import { defineSuggestEnvelopeFlow, rankEnvelopeSuggestions, type SuggestEnvelopeInput } from "./suggest-envelope-flow";
+
+const ENVELOPES = [
+  { id: "groceries", name: "Groceries", category: "Food" },
+  { id: "dining", name: "Dining Out", category: "Food" },
+  { id: "fuel", name: "Fuel", category: "Transport" },
+  { id: "gifts", name: "Gifts", category: "Other" },
+];
+
+const INPUT: SuggestEnvelopeInput = {
+  payeeName: "Corner Cafe",
+  description: "Lunch",
+  amount: 1250,
+  currency: "USD",
+  type: "outflow",
+  envelopes: ENVELOPES,
+};
+
+// A flow on a model that answers with the given JSON, keeping the requests it was sent
+function createFlow(reply: unknown) {
+  const ai = genkit({});
+  const requests: GenerateRequest[] = [];
+  const model = ai.defineModel({ name: "test/fake", supports: { multiturn: true, systemRole: true } }, async request => {
+    requests.push(request);
+    return { message: { role: "model", content: [{ text: JSON.stringify(reply) }] }, finishReason: "stop" };
+  });
+  return { flow: defineSuggestEnvelopeFlow(ai, model), requests };
+}
+
+describe("rankEnvelopeSuggestions", () => {
+  it("keeps known envelopes once, most confident first, up to the limit", () => {
+    expect(rankEnvelopeSuggestions([
+      { envelopeId: "groceries", confidence: 0.4 },
+      { envelopeId: "dining", confidence: 0.9 },
+      { envelopeId: "groceries", confidence: 0.6 },
+      { envelopeId: "fuel", confidence: 0.2 },
+      { envelopeId: "gifts", confidence: 0.1 },
+    ], ENVELOPES)).toEqual([
+      { envelopeId: "dining", confidence: 0.9 },
+      { envelopeId: "groceries", confidence: 0.6 },
+      { envelopeId: "fuel", confidence: 0.2 },
+    ]);
+  });
+
+  it("clamps confidence to 0–1", () => {
+    expect(rankEnvelopeSuggestions([
+      { envelopeId: "fuel", confidence: 7 },
+      { envelopeId: "gifts", confidence: -1 },
+      { envelopeId: "dining", confidence: NaN },
+    ], ENVELOPES, 5)).toEqual([
+      { envelopeId: "fuel", confidence: 1 },
+      { envelopeId: "gifts", confidence: 0 },
+      { envelopeId: "dining", confidence: 0 },
+    ]);
+  });
+});
+
+describe("suggestEnvelopeFlow", () => {
+  it("ranks the model's suggestions and drops ids it made up", async () => {
+    const { flow } = createFlow({
+      suggestions: [
+        { envelopeId: "groceries", confidence: 0.3 },
+        { envelopeId: "restaurants", confidence: 0.95 },
+        { envelopeId: "dining", confidence: 0.8 },
+      ],
+    });
+    expect(await flow(INPUT)).toEqual({
+      suggestions: [
+        { envelopeId: "dining", confidence: 0.8 },
+        { envelopeId: "groceries", confidence: 0.3 },
+      ],
+    });
+  });
+
+  it("returns no suggestions when every id is made up", async () => {
+    const { flow } = createFlow({ suggestions: [{ envelopeId: "coffee", confidence: 0.9 }] });
+    expect(await flow(INPUT)).toEqual({ suggestions: [] });
+  });
+
+  it("describes the transaction and lists the envelopes by id", async () => {
+    const { flow, requests } = createFlow({ suggestions: [] });
+    await flow(INPUT);
+    const prompt = requests[0].messages.flatMap(message => message.content.map(part => part.text ?? "")).join("\n");
+    expect(prompt).toContain("Payee: Corner Cafe");
+    expect(prompt).toContain("Description: Lunch");
+    ENVELOPES.forEach(envelope => expect(prompt).toContain(`id: ${envelope.id} | name: ${envelope.name}`));
+  });
+
+  it("doesn't ask the model when there are no envelopes", async () => {
+    const { flow, requests } = createFlow({ suggestions: [{ envelopeId: "groceries", confidence: 1 }] });
+    expect(await flow({ ...INPUT, envelopes: [] })).toEqual({ suggestions: [] });
+    expect(requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,93 @@
+import { z, type Genkit, type ModelArgument } from 'genkit';
+import { formatMoney } from '@/lib/currency';
+
+// Suggestions beyond the first few are rarely right and only crowd the form
+export const MAX_ENVELOPE_SUGGESTIONS = 3;
+
+export const SuggestEnvelopeInputSchema = z.object({
+  description: z.string().optional().describe('The transaction description or memo, as entered or imported.'),
+  payeeName: z.string().optional().describe('Who was paid, or who paid.'),
+  amount: z.number().int().describe('The amount in minor units (cents), always positive.'),
+  currency: z.string().describe('ISO 4217 code of the amount.'),
+  type: z.enum(['inflow', 'outflow']),
+  envelopes: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    category: z.string(),
+  })).describe('The envelopes the transaction can be filed under.'),
+});
+export type SuggestEnvelopeInput = z.infer<typeof SuggestEnvelopeInputSchema>;
+
+export const EnvelopeSuggestionSchema = z.object({
+  envelopeId: z.string().describe('The id of one of the listed envelopes.'),
+  confidence: z.number().describe('How likely this envelope is the right one, from 0 to 1.'),
+});
+export type EnvelopeSuggestion = z.infer<typeof EnvelopeSuggestionSchema>;
+
+export const SuggestEnvelopeOutputSchema = z.object({
+  suggestions: z.array(EnvelopeSuggestionSchema).describe('Best suggestion first.'),
+});
+export type SuggestEnvelopeOutput = z.infer<typeof SuggestEnvelopeOutputSchema>;
+
+/**
+ * The model's suggestions made safe to show: only envelopes that exist, each once, confidence clamped to 0–1,
+ * most confident first and no more than the limit. Models do invent ids and overrun ranges.
+ */
+export function rankEnvelopeSuggestions(
+  suggestions: EnvelopeSuggestion[],
+  envelopes: SuggestEnvelopeInput['envelopes'],
+  limit = MAX_ENVELOPE_SUGGESTIONS,
+): EnvelopeSuggestion[] {
+  const known = new Set(envelopes.map(envelope => envelope.id));
+  const best = new Map<string, number>();
+  for (const { envelopeId, confidence } of suggestions) {
+    if (!known.has(envelopeId)) continue;
+    const clamped = Number.isFinite(confidence) ? Math.min(1, Math.max(0, confidence)) : 0;
+    best.set(envelopeId, Math.max(best.get(envelopeId) ?? 0, clamped));
+  }
+  return [...best.entries()]
+    .map(([envelopeId, confidence]) => ({ envelopeId, confidence }))
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, limit);
+}
+
+const buildPrompt = (input: SuggestEnvelopeInput): string => {
+  const envelopeLines = input.envelopes
+    .map(envelope => `- id: ${envelope.id} | name: ${envelope.name} | category: ${envelope.category}`)
+    .join('\n');
+  return `You file personal finance transactions into budget envelopes.
+
+Transaction:
+- Direction: ${input.type === 'inflow' ? 'money in (a refund, reimbursement or deposit)' : 'money out (a purchase or payment)'}
+- Payee: ${input.payeeName || 'unknown'}
+- Description: ${input.description || 'none'}
+- Amount: ${formatMoney(input.amount, input.currency)}
+
+Envelopes:
+${envelopeLines}
+
+Suggest up to ${MAX_ENVELOPE_SUGGESTIONS} envelopes this transaction most likely belongs in, best first. Use only ids from the list above. Give each a confidence from 0 to 1; keep it low when the payee and description say little about what was bought. Return no suggestions if none of the envelopes fit.`;
+};
+
+/**
+ * Defines the envelope suggestion flow on the given Genkit instance. The model defaults to the instance's own;
+ * pass one to run the flow against another model, e.g. a fake one that answers without a network.
+ */
+export function defineSuggestEnvelopeFlow(ai: Genkit, model?: ModelArgument) {
+  return ai.defineFlow(
+    {
+      name: 'suggestEnvelopeFlow',
+      inputSchema: SuggestEnvelopeInputSchema,
+      outputSchema: SuggestEnvelopeOutputSchema,
+    },
+    async input => {
+      if (input.envelopes.length === 0) return { suggestions: [] };
+      const { output } = await ai.generate({
+        ...(model && { model }),
+        prompt: buildPrompt(input),
+        output: { schema: SuggestEnvelopeOutputSchema },
+      });
+      return { suggestions: rankEnvelopeSuggestions(output?.suggestions ?? [], input.envelopes) };
+    },
+  );
+}
@@ -0,0 +1,25 @@
+'use server';
+/**
+ * @fileOverview Suggests envelopes for a transaction that hasn't been filed yet.
+ *
+ * - suggestEnvelope - Ranks the user's envelopes for a transaction, with a confidence for each.
+ * - isEnvelopeSuggestionAvailable - Whether a model is configured to make suggestions.
+ */
+
+import { ai, isModelConfigured } from '@/ai/genkit';
+import {
+  defineSuggestEnvelopeFlow,
+  type SuggestEnvelopeInput,
+  type SuggestEnvelopeOutput,
+} from '@/ai/flows/suggest-envelope-flow';
+
+const suggestEnvelopeFlow = defineSuggestEnvelopeFlow(ai);
+
+export async function suggestEnvelope(input: SuggestEnvelopeInput): Promise<SuggestEnvelopeOutput> {
+  if (!isModelConfigured()) return { suggestions: [] };
+  return suggestEnvelopeFlow(input);
+}
+
+export async function isEnvelopeSuggestionAvailable(): Promise<boolean> {
+  return isModelConfigured();
+}
@@ -5,3 +5,7 @@ export const ai = genkit({
   plugins: [googleAI()],
   model: 'googleai/gemini-2.0-flash',
 });
+
+// The Google AI plugin reads its key from any of these
+export const isModelConfigured = (): boolean =>
+  !!(process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY || process.env.GOOGLE_GENAI_API_KEY);
@@ -1,25 +1,44 @@
 
 "use client";
 
+import { useState } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { TransactionList } from "@/components/transactions/transaction-list";
 import { PageHeader } from "@/components/PageHeader";
 import { Button } from "@/components/ui/button";
 import Link from "next/link";
-import { ArrowLeft, PlusCircle } from "lucide-react";
+import { ArrowLeft, PlusCircle, Upload, CheckSquare, TableProperties, History } from "lucide-react";
 import { useAppContext } from "@/context/AppContext";
+import { isLiabilityAccount } from "@/lib/accounts";
+import { formatMoney } from "@/lib/currency";
 import { Skeleton } from "@/components/ui/skeleton";
-import type { Transaction } from '@/types'; // Import Transaction type
+import { useScopedTransactions } from "@/hooks/use-scoped-transactions";
+import { ImportStatementForm } from "@/components/transactions/import-statement-form";
+import { ReconcileAccountPanel } from "@/components/accounts/reconcile-account-panel";
+import { LoanAmortizationPanel } from "@/components/accounts/loan-amortization-panel";
+import { DocumentHistoryDialog } from "@/components/history/document-history-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogTrigger,
+} from "@/components/ui/dialog";
 
 export default function AccountTransactionsPage() {
   const params = useParams();
   const router = useRouter();
-  const { isLoading, transactions, getAccountById } = useAppContext(); // Assuming getAccountById exists
+  const { isLoading, getAccountById, getAccountBalance, getAccountClearedBalance, getAccountCurrency } = useAppContext(); // Assuming getAccountById exists
   const accountId = params.accountId as string;
+  // Queried on their own, so older transactions are a page away rather than outside the loaded window
+  const { transactions: accountTransactions, isLoading: isLoadingTransactions, hasMore, isLoadingMore, loadMore } = useScopedTransactions({ accountId });
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const [openPanel, setOpenPanel] = useState<"reconcile" | "amortization" | null>(null); // Shown in place of the list
 
   const account = getAccountById(accountId); // Fetch account details
 
-  if (isLoading) {
+  if (isLoading || isLoadingTransactions) {
      return (
       <div className="space-y-6 flex flex-col h-full">
         <PageHeader title="Account Transactions" description="Loading transactions..." />
@@ -46,13 +65,15 @@ export default function AccountTransactionsPage() {
      )
   }
 
-  const accountTransactions: Transaction[] = transactions.filter(tx => tx.accountId === accountId);
+  const formatAccountMoney = (amount: number) => formatMoney(amount, getAccountCurrency(accountId));
 
   return (
     <div className="space-y-6 flex flex-col h-full">
       <PageHeader
         title={`${account.name} Transactions`}
-        description={`Showing all transactions for the account: ${account.name}`}
+        description={isLiabilityAccount(account)
+          ? `Owed ${formatAccountMoney(-getAccountBalance(accountId) || 0)} · Cleared ${formatAccountMoney(-getAccountClearedBalance(accountId) || 0)}`
+          : `Balance ${formatAccountMoney(getAccountBalance(accountId))} · Cleared ${formatAccountMoney(getAccountClearedBalance(accountId))}`}
         actions={
           <div className='flex gap-2'>
              <Link href="/dashboard/accounts" passHref>
@@ -60,6 +81,37 @@ export default function AccountTransactionsPage() {
                 <ArrowLeft className="mr-2 h-4 w-4" /> Back to Accounts
                 </Button>
             </Link>
+            {account.loan && (
+              <Button variant="outline" onClick={() => setOpenPanel("amortization")} disabled={openPanel === "amortization"}>
+                <TableProperties className="mr-2 h-4 w-4" /> Amortization
+              </Button>
+            )}
+            <DocumentHistoryDialog
+              documentId={accountId}
+              title={`${account.name} History`}
+              trigger={<Button variant="outline"><History className="mr-2 h-4 w-4" /> History</Button>}
+            />
+            <Button variant="outline" onClick={() => setOpenPanel("reconcile")} disabled={openPanel === "reconcile"}>
+              <CheckSquare className="mr-2 h-4 w-4" /> Reconcile
+            </Button>
+            <Dialog open={isImportDialogOpen} onOpenChange={setIsImportDialogOpen}>
+              <DialogTrigger asChild>
+                <Button variant="outline">
+                  <Upload className="mr-2 h-4 w-4" /> Import File
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="sm:max-w-[860px] max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>Import Bank Statement</DialogTitle>
+                  <DialogDescription>
+                    Import a CSV, OFX, QFX or QIF export, review the rows and add them to {account.name}.
+                  </DialogDescription>
+                </DialogHeader>
+                <div className="py-4">
+                  <ImportStatementForm accountId={accountId} onSuccess={() => setIsImportDialogOpen(false)} />
+                </div>
+              </DialogContent>
+            </Dialog>
             <Link href={`/dashboard/transactions/new?accountId=${accountId}`} passHref>
               <Button>
                 <PlusCircle className="mr-2 h-4 w-4" /> Add Transaction
@@ -68,7 +120,22 @@ export default function AccountTransactionsPage() {
           </div>
         }
       />
-      <TransactionList transactions={accountTransactions} showCaption={false} />
+      {openPanel === "reconcile" ? (
+        <ReconcileAccountPanel accountId={accountId} onDone={() => setOpenPanel(null)} />
+      ) : openPanel === "amortization" ? (
+        <LoanAmortizationPanel accountId={accountId} onDone={() => setOpenPanel(null)} />
+      ) : (
+        <>
+          <TransactionList transactions={accountTransactions} showCaption={false} selectable />
+          {hasMore && (
+            <div className="flex justify-center">
+              <Button variant="outline" onClick={loadMore} disabled={isLoadingMore}>
+                {isLoadingMore ? "Loading..." : "Load More"}
+              </Button>
+            </div>
+          )}
+        </>
+      )}
     </div>
   );
 }
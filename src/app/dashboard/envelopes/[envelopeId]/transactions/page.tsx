@@ -6,17 +6,18 @@ import { TransactionList } from "@/components/transactions/transaction-list";
 import { PageHeader } from "@/components/PageHeader";
 import { Button } from "@/components/ui/button";
 import Link from "next/link";
-import { ArrowLeft, Package } from "lucide-react";
+import { ArrowLeft, History, Package } from "lucide-react";
 import { useAppContext } from "@/context/AppContext";
+import { DocumentHistoryDialog } from "@/components/history/document-history-dialog";
 import { Skeleton } from "@/components/ui/skeleton";
-import type { Transaction } from '@/types';
-import { format, parseISO, startOfMonth, endOfMonth, isValid } from 'date-fns'; // Import date-fns
+import { useScopedTransactions } from "@/hooks/use-scoped-transactions";
+import { format, parseISO, startOfMonth, isValid } from 'date-fns'; // Import date-fns
 
 export default function EnvelopeTransactionsPage() {
   const params = useParams();
   const router = useRouter();
   const searchParams = useSearchParams(); // For reading month from query
-  const { isLoading, transactions, getEnvelopeById } = useAppContext();
+  const { isLoading, getEnvelopeById } = useAppContext();
   const envelopeId = params.envelopeId as string;
 
   // Determine the month to display transactions for
@@ -31,8 +32,11 @@ export default function EnvelopeTransactionsPage() {
   }
 
   const envelope = getEnvelopeById(envelopeId);
+  // Only the month's transactions are queried
+  const { transactions: envelopeTransactions, isLoading: isLoadingTransactions, hasMore, isLoadingMore, loadMore } =
+    useScopedTransactions({ envelopeId, month: format(targetMonthDate, "yyyy-MM") });
 
-  if (isLoading) {
+  if (isLoading || isLoadingTransactions) {
      return (
       <div className="space-y-6 flex flex-col h-full">
         <PageHeader title="Envelope Transactions" description="Loading transactions..." />
@@ -52,16 +56,6 @@ export default function EnvelopeTransactionsPage() {
      )
   }
 
-  // Filter transactions for the specific envelope AND the target month
-  const monthStart = startOfMonth(targetMonthDate);
-  const monthEnd = endOfMonth(targetMonthDate);
-
-  const envelopeTransactions: Transaction[] = transactions.filter(tx => {
-    if (tx.envelopeId !== envelopeId) return false;
-    const txDate = parseISO(tx.date);
-    return isValid(txDate) && txDate >= monthStart && txDate <= monthEnd;
-  });
-
   return (
     <div className="space-y-6 flex flex-col h-full">
       <PageHeader
@@ -71,9 +65,25 @@ export default function EnvelopeTransactionsPage() {
           </span>
         }
         description={`Showing transactions for ${envelope.name} in ${format(targetMonthDate, "MMMM yyyy")}`}
-        actions={ <Link href="/dashboard/envelopes" passHref><Button variant="outline"><ArrowLeft className="mr-2 h-4 w-4" /> Back to Envelopes</Button></Link> }
+        actions={
+          <div className='flex gap-2'>
+            <Link href="/dashboard/envelopes" passHref><Button variant="outline"><ArrowLeft className="mr-2 h-4 w-4" /> Back to Envelopes</Button></Link>
+            <DocumentHistoryDialog
+              documentId={envelope.id}
+              title={`${envelope.name} History`}
+              trigger={<Button variant="outline"><History className="mr-2 h-4 w-4" /> History</Button>}
+            />
+          </div>
+        }
       />
-      <TransactionList transactions={envelopeTransactions} showCaption={false} />
+      <TransactionList transactions={envelopeTransactions} showCaption={false} selectable />
+      {hasMore && (
+        <div className="flex justify-center">
+          <Button variant="outline" onClick={loadMore} disabled={isLoadingMore}>
+            {isLoadingMore ? "Loading..." : "Load More"}
+          </Button>
+        </div>
+      )}
     </div>
   );
 }
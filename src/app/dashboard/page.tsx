@@ -9,17 +9,17 @@ import Link from "next/link";
 import { DollarSign, PlusCircle, Wallet, TrendingUp, TrendingDown, Package, CalendarCheck, Edit3, ChevronLeft, ChevronRight } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
 import EnvelopeSummaryList from "@/components/envelopes/envelope-summary-list";
-import { format, parseISO, isValid as isValidDate, addMonths, subMonths } from 'date-fns';
-
-const formatCurrency = (amount: number): string => {
-  return amount.toLocaleString(undefined, { style: 'currency', currency: 'USD', minimumFractionDigits: 2, maximumFractionDigits: 2 });
-};
+import { format, parseISO, isValid as isValidDate, addMonths, subMonths, startOfYear } from 'date-fns';
+import { isLiabilityAccount } from "@/lib/accounts";
+import { formatMoney } from "@/lib/currency";
+import { getMonthDateFilters, getTransactionsHref } from "@/lib/transaction-filters";
 
 export default function DashboardPage() {
   const {
     accounts,
     envelopes,
-    getAccountBalance,
+    getAccountBaseBalance,
+    currencySettings,
     isLoading,
     getMonthlyActualIncomeTotal, // Renamed
     getMonthlyOutflowTotal,    // Renamed
@@ -51,7 +51,14 @@ export default function DashboardPage() {
     );
   }
 
-  const totalBalance = accounts.reduce((sum, acc) => sum + getAccountBalance(acc.id), 0);
+  // Every total is in the base currency; foreign accounts are converted at today's rates
+  const formatCurrency = (amount: number) => formatMoney(amount, currencySettings.baseCurrency);
+  const assetAccounts = accounts.filter(acc => !isLiabilityAccount(acc));
+  const liabilityAccounts = accounts.filter(acc => isLiabilityAccount(acc));
+  const totalAssets = assetAccounts.reduce((sum, acc) => sum + getAccountBaseBalance(acc.id), 0);
+  // Liability balances are negative while money is owed, so the total owed is their negation
+  const totalLiabilities = -liabilityAccounts.reduce((sum, acc) => sum + getAccountBaseBalance(acc.id), 0) || 0;
+  const netWorth = totalAssets - totalLiabilities;
   const monthlyActualIncome = getMonthlyActualIncomeTotal(currentViewMonth); // Renamed
   const monthlyOutflows = getMonthlyOutflowTotal(currentViewMonth); // Renamed
 
@@ -63,7 +70,8 @@ export default function DashboardPage() {
     return sum + Math.max(0, getEnvelopeBalanceAsOfEOM(envelope.id, currentViewMonth));
   }, 0);
 
-  const availableToSpend = totalBalance - totalCurrentFundsInEnvelopes;
+  // Card debt is already set aside in each card's payment envelope, so only asset accounts count here
+  const availableToSpend = totalAssets - totalCurrentFundsInEnvelopes;
 
   const ytdActualIncome = getYtdActualIncomeTotal(); // Renamed
 
@@ -106,7 +114,9 @@ export default function DashboardPage() {
             <TrendingUp className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-lg font-bold text-green-600 dark:text-green-500">{formatCurrency(monthlyActualIncome)}</div>
+            <Link href={getTransactionsHref({ ...getMonthDateFilters(currentViewMonth), type: 'inflow', income: 'only', transfers: 'exclude' })} className="hover:underline">
+              <div className="text-lg font-bold text-green-600 dark:text-green-500">{formatCurrency(monthlyActualIncome)}</div>
+            </Link>
             <p className="text-xs text-muted-foreground">For {format(currentViewMonth, "MMMM")}</p>
           </CardContent>
         </Card>
@@ -116,7 +126,9 @@ export default function DashboardPage() {
             <TrendingDown className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-lg font-bold text-red-600 dark:text-red-500">{formatCurrency(monthlyOutflows)}</div>
+            <Link href={getTransactionsHref({ ...getMonthDateFilters(currentViewMonth), type: 'outflow', transfers: 'exclude' })} className="hover:underline">
+              <div className="text-lg font-bold text-red-600 dark:text-red-500">{formatCurrency(monthlyOutflows)}</div>
+            </Link>
             <p className="text-xs text-muted-foreground">For {format(currentViewMonth, "MMMM")}</p>
           </CardContent>
         </Card>
@@ -136,7 +148,9 @@ export default function DashboardPage() {
             <CalendarCheck className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-lg font-bold">{formatCurrency(ytdActualIncome)}</div>
+            <Link href={getTransactionsHref({ from: format(startOfYear(new Date()), "yyyy-MM-dd"), to: format(new Date(), "yyyy-MM-dd"), type: 'inflow', income: 'only', transfers: 'exclude' })} className="hover:underline">
+              <div className="text-lg font-bold">{formatCurrency(ytdActualIncome)}</div>
+            </Link>
             <p className="text-xs text-muted-foreground">Since start of year</p>
           </CardContent>
         </Card>
@@ -145,12 +159,16 @@ export default function DashboardPage() {
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         <Card className="shadow-lg hover:shadow-xl transition-shadow duration-300">
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Account Balance</CardTitle>
+            <CardTitle className="text-sm font-medium">Net Worth</CardTitle>
             <DollarSign className="h-5 w-5 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{formatCurrency(totalBalance)}</div>
-            <p className="text-xs text-muted-foreground">Across {accounts.length} accounts (current)</p>
+            <div className={`text-2xl font-bold ${netWorth < 0 ? 'text-destructive dark:text-red-400' : ''}`}>{formatCurrency(netWorth)}</div>
+            <p className="text-xs text-muted-foreground">
+              {liabilityAccounts.length > 0
+                ? `Assets ${formatCurrency(totalAssets)} minus debts ${formatCurrency(totalLiabilities)} across ${accounts.length} accounts (current)`
+                : `Across ${accounts.length} accounts (current)`}
+            </p>
           </CardContent>
         </Card>
         <Card className="shadow-lg hover:shadow-xl transition-shadow duration-300">
@@ -163,7 +181,7 @@ export default function DashboardPage() {
               {formatCurrency(availableToSpend)}
             </div>
             <p className="text-xs text-muted-foreground">
-              Total balance minus current positive funds held in envelopes for {format(currentViewMonth, "MMMM")}.
+              Cash account balances minus current positive funds held in envelopes for {format(currentViewMonth, "MMMM")}.
             </p>
           </CardContent>
         </Card>
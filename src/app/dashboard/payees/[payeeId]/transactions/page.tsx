@@ -9,17 +9,18 @@ import Link from "next/link";
 import { ArrowLeft, User } from "lucide-react";
 import { useAppContext } from "@/context/AppContext";
 import { Skeleton } from "@/components/ui/skeleton";
-import type { Transaction } from '@/types'; // Import Transaction type
+import { useScopedTransactions } from "@/hooks/use-scoped-transactions";
 
 export default function PayeeTransactionsPage() {
   const params = useParams();
   const router = useRouter();
-  const { isLoading, transactions, payees, getPayeeTransactions } = useAppContext();
+  const { isLoading, payees } = useAppContext();
   const payeeId = params.payeeId as string;
+  const { transactions: payeeTransactions, isLoading: isLoadingTransactions, hasMore, isLoadingMore, loadMore } = useScopedTransactions({ payeeId });
 
   const payee = payees.find(p => p.id === payeeId); // Find the payee
 
-  if (isLoading) {
+  if (isLoading || isLoadingTransactions) {
      return (
       <div className="space-y-6 flex flex-col h-full">
         <PageHeader title="Payee Transactions" description="Loading transactions..." />
@@ -46,8 +47,6 @@ export default function PayeeTransactionsPage() {
      )
   }
 
-  const payeeTransactions: Transaction[] = getPayeeTransactions(payeeId);
-
   return (
     <div className="space-y-6 flex flex-col h-full">
       <PageHeader
@@ -65,7 +64,14 @@ export default function PayeeTransactionsPage() {
             </Link>
         }
       />
-      <TransactionList transactions={payeeTransactions} showCaption={false} />
+      <TransactionList transactions={payeeTransactions} showCaption={false} selectable />
+      {hasMore && (
+        <div className="flex justify-center">
+          <Button variant="outline" onClick={loadMore} disabled={isLoadingMore}>
+            {isLoadingMore ? "Loading..." : "Load More"}
+          </Button>
+        </div>
+      )}
     </div>
   );
 }
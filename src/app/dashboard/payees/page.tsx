@@ -16,6 +16,7 @@ import {
 import { AddPayeeForm } from "@/components/payees/add-payee-form";
 import { PayeeList } from "@/components/payees/payee-list";
 import { EditPayeeForm } from "@/components/payees/edit-payee-form"; // Import EditPayeeForm
+import { DuplicatePayeeSuggestions } from "@/components/payees/duplicate-payee-suggestions";
 import { useAppContext } from "@/context/AppContext";
 import { Skeleton } from "@/components/ui/skeleton";
 import type { Payee } from "@/types"; // Import Payee type
@@ -79,6 +80,8 @@ export default function PayeesPage() {
         }
       />
 
+      <DuplicatePayeeSuggestions />
+
       {/* Changed: Added flex-grow flex flex-col overflow-hidden to Card */}
       <Card className="shadow-lg flex-grow flex flex-col overflow-hidden">
         <CardHeader>
@@ -0,0 +1,112 @@
+"use client";
+
+import { useState } from "react";
+import { PageHeader } from "@/components/PageHeader";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Repeat, PlusCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { RecurringTransactionForm } from "@/components/recurring/recurring-transaction-form";
+import { RecurringTransactionList } from "@/components/recurring/recurring-transaction-list";
+import { UpcomingTransactionsList } from "@/components/recurring/upcoming-transactions-list";
+import { useAppContext } from "@/context/AppContext";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { RecurringTransaction } from "@/types";
+
+export default function RecurringTransactionsPage() {
+  const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<RecurringTransaction | null>(null);
+  const { recurringTransactions, isLoading } = useAppContext();
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <PageHeader title="Recurring" description="Bills, income and subscriptions that repeat on a schedule." />
+        <Skeleton className="h-[200px] w-full rounded-lg" />
+        <Skeleton className="h-[200px] w-full rounded-lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title="Recurring"
+        description="Bills, income and subscriptions that repeat on a schedule."
+        actions={
+          <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
+            <DialogTrigger asChild>
+              <Button>
+                <PlusCircle className="mr-2 h-4 w-4" /> Add Recurring
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>Add Recurring Transaction</DialogTitle>
+                <DialogDescription>
+                  Set up a transaction that repeats. Missed occurrences are caught up the next time you open the app.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="py-4">
+                <RecurringTransactionForm onSuccess={() => setIsAddDialogOpen(false)} />
+              </div>
+            </DialogContent>
+          </Dialog>
+        }
+      />
+
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle>Upcoming</CardTitle>
+          <CardDescription>What's due in the next 30 days. Post early or skip an occurrence.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <UpcomingTransactionsList />
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle>Schedules</CardTitle>
+          <CardDescription>All recurring transactions.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {recurringTransactions.length > 0 ? (
+            <RecurringTransactionList onEdit={setEditingRule} />
+          ) : (
+            <div className="flex flex-col items-center justify-center text-center border-2 border-dashed rounded-lg p-4 bg-muted/20">
+              <Repeat className="h-16 w-16 text-muted-foreground mb-4" />
+              <h3 className="text-lg font-semibold text-foreground">No Recurring Transactions Yet</h3>
+              <p className="text-muted-foreground mt-2">
+                Click "Add Recurring" to schedule rent, paychecks or subscriptions.
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!editingRule} onOpenChange={(open) => { if (!open) setEditingRule(null); }}>
+        <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Edit Recurring Transaction</DialogTitle>
+            <DialogDescription>
+              Changes apply to future occurrences. Transactions already posted are not changed.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="py-4">
+            {editingRule && (
+              <RecurringTransactionForm recurringTransaction={editingRule} onSuccess={() => setEditingRule(null)} />
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
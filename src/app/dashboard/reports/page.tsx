@@ -54,7 +54,7 @@ export default function ReportsPage() {
         <CardHeader>
           <CardTitle>Spending by Envelope ({format(currentViewMonth, "MMMM")})</CardTitle>
           <CardDescription>
-            Expense distribution across budget categories for {format(currentViewMonth, "MMMM yyyy")}.
+            Expense distribution across budget categories for {format(currentViewMonth, "MMMM yyyy")}. Click a bar to see its transactions.
           </CardDescription>
         </CardHeader>
         <CardContent className="h-[400px] p-2 sm:p-4 md:p-6">
@@ -0,0 +1,112 @@
+"use client";
+
+import { useState } from "react";
+import { PageHeader } from "@/components/PageHeader";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Wand2, PlusCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { TransactionRuleForm } from "@/components/rules/transaction-rule-form";
+import { TransactionRuleList } from "@/components/rules/transaction-rule-list";
+import { RunTransactionRules } from "@/components/rules/run-transaction-rules";
+import { useAppContext } from "@/context/AppContext";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { TransactionRule } from "@/types";
+
+export default function RulesPage() {
+  const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<TransactionRule | null>(null);
+  const { transactionRules, isLoading } = useAppContext();
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <PageHeader title="Rules" description="File transactions automatically as they're added or imported." />
+        <Skeleton className="h-[200px] w-full rounded-lg" />
+        <Skeleton className="h-[200px] w-full rounded-lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title="Rules"
+        description="File transactions automatically as they're added or imported."
+        actions={
+          <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
+            <DialogTrigger asChild>
+              <Button>
+                <PlusCircle className="mr-2 h-4 w-4" /> Add Rule
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>Add Rule</DialogTitle>
+                <DialogDescription>
+                  Choose what a transaction looks like and what to do with it. The rule runs on transactions added or imported from now on.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="py-4">
+                <TransactionRuleForm onSuccess={() => setIsAddDialogOpen(false)} />
+              </div>
+            </DialogContent>
+          </Dialog>
+        }
+      />
+
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle>Your Rules</CardTitle>
+          <CardDescription>Rules run from top to bottom; the first one to set an envelope or payee wins it.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {transactionRules.length > 0 ? (
+            <TransactionRuleList onEdit={setEditingRule} />
+          ) : (
+            <div className="flex flex-col items-center justify-center text-center border-2 border-dashed rounded-lg p-4 bg-muted/20">
+              <Wand2 className="h-16 w-16 text-muted-foreground mb-4" />
+              <h3 className="text-lg font-semibold text-foreground">No Rules Yet</h3>
+              <p className="text-muted-foreground mt-2">
+                Click "Add Rule" to file coffee shops under Dining Out or mark your paycheck as income.
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle>Run Rules on Existing Transactions</CardTitle>
+          <CardDescription>Preview what the enabled rules would change in a date range, then apply it.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <RunTransactionRules />
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!editingRule} onOpenChange={(open) => { if (!open) setEditingRule(null); }}>
+        <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Edit Rule</DialogTitle>
+            <DialogDescription>
+              Changes apply to transactions added from now on. Run the rules again to update existing ones.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="py-4">
+            {editingRule && (
+              <TransactionRuleForm rule={editingRule} onSuccess={() => setEditingRule(null)} />
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
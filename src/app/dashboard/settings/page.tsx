@@ -0,0 +1,48 @@
+"use client";
+
+import { PageHeader } from "@/components/PageHeader";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { CurrencySettingsForm } from "@/components/settings/currency-settings-form";
+import { SharedBudgetSettings } from "@/components/settings/shared-budget-settings";
+import { BudgetMembers } from "@/components/settings/budget-members";
+import { useAppContext } from "@/context/AppContext";
+
+export default function SettingsPage() {
+  const { isLoading, sharedBudgets, activeBudgetId } = useAppContext();
+  const activeSharedBudget = sharedBudgets.find(budget => budget.id === activeBudgetId);
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <PageHeader title="Settings" description="Preferences for your budget." />
+        <Skeleton className="h-[300px] w-full rounded-lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <PageHeader title="Settings" description="Preferences for your budget." />
+      <Card className="shadow-md">
+        <CardHeader>
+          <CardTitle>Currency</CardTitle>
+          <CardDescription>Accounts can be held in any currency. Everything is added up in the base currency.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <CurrencySettingsForm />
+        </CardContent>
+      </Card>
+      <Card className="shadow-md">
+        <CardHeader>
+          <CardTitle>Sharing</CardTitle>
+          <CardDescription>Budget together with your household. Everyone in a shared budget sees the same accounts, envelopes and transactions.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-8">
+          <SharedBudgetSettings />
+          {activeSharedBudget && <BudgetMembers budget={activeSharedBudget} />}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -4,12 +4,14 @@ import { Suspense, useState, useEffect } from 'react'; // Combine React imports
 import { useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import { AddTransactionForm } from "@/components/transactions/add-transaction-form";
+import { QuickEntry } from "@/components/transactions/quick-entry";
 import { PageHeader } from "@/components/PageHeader";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { ArrowLeft } from "lucide-react";
 import { useAppContext } from "@/context/AppContext";
 import { Skeleton } from "@/components/ui/skeleton";
+import type { QuickEntryDraft } from "@/types";
 
 // This component contains the logic that uses useSearchParams
 function NewTransactionPageContent() {
@@ -18,6 +20,7 @@ function NewTransactionPageContent() {
 
   const [derivedAccountId, setDerivedAccountId] = useState<string | null>(null);
   const [linksReady, setLinksReady] = useState(false);
+  const [draft, setDraft] = useState<QuickEntryDraft | undefined>(undefined);
 
   useEffect(() => {
     // This effect runs on the client after initial render and when dependencies change.
@@ -70,13 +73,22 @@ function NewTransactionPageContent() {
           </Link>
         }
       />
+      <Card className="max-w-2xl mx-auto">
+        <CardHeader>
+          <CardTitle>Quick Entry</CardTitle>
+          <CardDescription>Type it the way you&apos;d jot it down to fill in the form below.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <QuickEntry onDraft={setDraft} />
+        </CardContent>
+      </Card>
       <Card className="max-w-2xl mx-auto shadow-lg">
         <CardHeader>
           <CardTitle>Enter Transaction Details</CardTitle>
         </CardHeader>
         <CardContent>
           {/* Pass navigateToTransactions so it redirects correctly */}
-          <AddTransactionForm navigateToTransactions={true} />
+          <AddTransactionForm navigateToTransactions={true} draft={draft} onSuccess={() => setDraft(undefined)} />
         </CardContent>
       </Card>
     </div>
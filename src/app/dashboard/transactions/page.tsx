@@ -1,29 +1,69 @@
-
 "use client";
 
+import { Suspense } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
 import { TransactionList } from "@/components/transactions/transaction-list";
+import { TransactionFilterBar } from "@/components/transactions/transaction-filter-bar";
 import { PageHeader } from "@/components/PageHeader";
 import { Button } from "@/components/ui/button";
 import { PlusCircle } from "lucide-react";
 import Link from "next/link";
 import { useAppContext } from "@/context/AppContext";
 import { Skeleton } from "@/components/ui/skeleton";
+import { countActiveFilters, filterTransactions, parseTransactionFilters, serializeTransactionFilters } from "@/lib/transaction-filters";
+import { formatMoney } from "@/lib/currency";
+import type { TransactionFilters } from "@/types";
+import { cn } from "@/lib/utils";
+import { format, parseISO } from "date-fns";
 
-export default function TransactionsPage() {
-  const { isLoading } = useAppContext();
+function TransactionsLoading() {
+  return (
+    <div className="space-y-6 flex flex-col h-full">
+      <PageHeader title="All Transactions" description="A complete history of your financial activities." />
+      <Skeleton className="h-[400px] w-full rounded-lg flex-grow" />
+    </div>
+  );
+}
+
+// Filters live in the URL so other pages can link straight to a filtered list
+function TransactionsPageContent() {
+  const {
+    isLoading, transactions: loadedTransactions, payees, envelopes, currencySettings, getTransactionBaseAmount,
+    transactionWindowStart, olderTransactionCount, loadOlderTransactions, isLoadingOlderTransactions,
+  } = useAppContext();
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
 
   // Note: The edit dialog logic is currently inside TransactionList.
   // If needed, it could be moved here for better separation.
 
   if (isLoading) {
-     return (
-      <div className="space-y-6 flex flex-col h-full">
-        <PageHeader title="All Transactions" description="A complete history of your financial activities." />
-        <Skeleton className="h-[400px] w-full rounded-lg flex-grow" />
-      </div>
-    )
+    return <TransactionsLoading />;
   }
 
+  // Loan accounts are loaded in full, but only the window is listed here
+  const transactions = transactionWindowStart
+    ? loadedTransactions.filter(tx => tx.date >= transactionWindowStart)
+    : loadedTransactions;
+  const filters = parseTransactionFilters(searchParams);
+  const isFiltered = countActiveFilters(filters) > 0;
+  const filteredTransactions = isFiltered ? filterTransactions(transactions, filters, { payees, envelopes }) : transactions;
+
+  const handleFiltersChange = (next: TransactionFilters) => {
+    const query = serializeTransactionFilters(next);
+    router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false });
+  };
+
+  const totals = filteredTransactions.reduce((sum, tx) => {
+    const amount = getTransactionBaseAmount(tx);
+    if (tx.type === 'inflow') sum.inflows += amount;
+    else sum.outflows += amount;
+    return sum;
+  }, { inflows: 0, outflows: 0 });
+  const net = totals.inflows - totals.outflows;
+  const formatAmount = (amount: number) => formatMoney(amount, currencySettings.baseCurrency);
+
   return (
     <div className="space-y-6 flex flex-col h-full">
       <PageHeader
@@ -37,8 +77,40 @@ export default function TransactionsPage() {
           </Link>
         }
       />
+      <TransactionFilterBar filters={filters} onChange={handleFiltersChange} />
+      <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm -mt-2">
+        <span className="text-muted-foreground">
+          {isFiltered
+            ? `${filteredTransactions.length} of ${transactions.length} transactions`
+            : `${transactions.length} transactions`}
+        </span>
+        <span>Inflows: <span className="font-semibold text-green-600 dark:text-green-500">{formatAmount(totals.inflows)}</span></span>
+        <span>Outflows: <span className="font-semibold text-red-600 dark:text-red-500">{formatAmount(totals.outflows)}</span></span>
+        <span>Net: <span className={cn("font-semibold", net < 0 && "text-destructive")}>{formatAmount(net)}</span></span>
+      </div>
       {/* TransactionList now contains the Edit dialog and its Card will flex-grow */}
-      <TransactionList />
+      <TransactionList transactions={filteredTransactions} showRunningTotal selectable />
+      {transactionWindowStart && (
+        <div className="flex flex-wrap items-center justify-center gap-3 text-sm text-muted-foreground">
+          <span>
+            Showing transactions from {format(parseISO(transactionWindowStart), "MMMM d, yyyy")} on
+            {olderTransactionCount > 0 && ` · ${olderTransactionCount} older`}
+          </span>
+          {olderTransactionCount > 0 && (
+            <Button variant="outline" size="sm" onClick={loadOlderTransactions} disabled={isLoadingOlderTransactions}>
+              {isLoadingOlderTransactions ? "Loading..." : "Load Older Transactions"}
+            </Button>
+          )}
+        </div>
+      )}
     </div>
   );
 }
+
+export default function TransactionsPage() {
+  return (
+    <Suspense fallback={<TransactionsLoading />}>
+      <TransactionsPageContent />
+    </Suspense>
+  );
+}
@@ -4,8 +4,11 @@
 import type { Account } from "@/types";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button"; // Import Button
-import { Landmark, DollarSign, CalendarDays, Pencil } from "lucide-react"; // Import Pencil
+import { Landmark, DollarSign, CalendarDays, Pencil, CreditCard } from "lucide-react"; // Import Pencil
 import { useAppContext } from "@/context/AppContext";
+import { isCreditCardAccount, isLiabilityAccount } from "@/lib/accounts";
+import { getLoanPaymentBreakdowns, getTypicalLoanPayment, projectLoanPayoff } from "@/lib/loans";
+import { formatMoney } from "@/lib/currency";
 import { format, parseISO, isValid } from "date-fns";
 import Link from "next/link";
 
@@ -15,8 +18,19 @@ interface AccountCardProps {
 }
 
 export function AccountCard({ account, onEdit }: AccountCardProps) {
-  const { getAccountBalance } = useAppContext();
+  const { transactions, currencySettings, getAccountBalance, getAccountBaseBalance, getAccountCurrency } = useAppContext();
   const balance = getAccountBalance(account.id);
+  const currency = getAccountCurrency(account.id);
+  const isForeign = currency !== currencySettings.baseCurrency;
+  const isLiability = isLiabilityAccount(account);
+  // Debt is stored as a negative balance; available credit is what's left of the limit
+  const availableCredit = isCreditCardAccount(account) && account.creditLimit !== undefined
+    ? account.creditLimit + balance
+    : undefined;
+  const loanPayoff = account.loan
+    ? projectLoanPayoff(account.loan, -balance, getTypicalLoanPayment(account.loan, getLoanPaymentBreakdowns(account, transactions)), new Date())
+    : undefined;
+  const formatAmount = (amount: number) => formatMoney(amount, currency);
 
   const createdAtDate = parseISO(account.createdAt);
   const formattedDate = isValid(createdAtDate) ? format(createdAtDate, "MMM d, yyyy") : "Invalid Date";
@@ -43,7 +57,9 @@ export function AccountCard({ account, onEdit }: AccountCardProps) {
           <CardHeader>
             <div className="flex items-center justify-between">
               <CardTitle className="text-lg flex items-center pr-8"> {/* Add padding for button */}
-                <Landmark className="mr-2 h-5 w-5 text-primary" />
+                {isCreditCardAccount(account)
+                  ? <CreditCard className="mr-2 h-5 w-5 text-primary" />
+                  : <Landmark className="mr-2 h-5 w-5 text-primary" />}
                 {account.name}
               </CardTitle>
               {account.type && (
@@ -57,10 +73,36 @@ export function AccountCard({ account, onEdit }: AccountCardProps) {
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-2 flex-grow"> {/* Allow content to grow */}
-            <div className="flex items-center text-xl font-semibold">
-              <DollarSign className="mr-1 h-5 w-5 text-green-500" />
-              Current Balance: ${balance.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
-            </div>
+            {isLiability ? (
+              <div className="flex items-center text-xl font-semibold">
+                <DollarSign className="mr-1 h-5 w-5 text-red-500" />
+                {balance > 0
+                  ? `In Credit: ${formatAmount(balance)}`
+                  : `Owed: ${formatAmount(-balance || 0)}`}
+              </div>
+            ) : (
+              <div className="flex items-center text-xl font-semibold">
+                <DollarSign className="mr-1 h-5 w-5 text-green-500" />
+                Current Balance: {formatAmount(balance)}
+              </div>
+            )}
+            {isForeign && (
+              <p className="text-sm text-muted-foreground">
+                ≈ {formatMoney(isLiability ? -getAccountBaseBalance(account.id) || 0 : getAccountBaseBalance(account.id), currencySettings.baseCurrency)}
+              </p>
+            )}
+            {availableCredit !== undefined && (
+              <p className="text-sm text-muted-foreground">
+                Available Credit: {formatAmount(availableCredit)} of {formatAmount(account.creditLimit ?? 0)}
+              </p>
+            )}
+            {loanPayoff !== undefined && (
+              <p className="text-sm text-muted-foreground">
+                {loanPayoff
+                  ? `Projected payoff: ${format(parseISO(loanPayoff.payoffDate), "MMM yyyy")}`
+                  : "Payments don't cover the interest"}
+              </p>
+            )}
             {/* Initial Balance Removed */}
             {/*
             <p className="text-sm text-muted-foreground">
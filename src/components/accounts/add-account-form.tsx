@@ -11,10 +11,12 @@ import {
   FormControl,
   FormField,
   FormItem,
+  FormDescription,
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { MoneyInput } from "@/components/ui/money-input";
 import {
   Select,
   SelectContent,
@@ -24,16 +26,20 @@ import {
 } from "@/components/ui/select"; // Import Select components
 import { accountSchema, accountTypes } from "@/lib/schemas"; // Import accountTypes
 import { useAppContext } from "@/context/AppContext";
+import { convertOwedAmount, isCreditCardAccount, isLiabilityAccount } from "@/lib/accounts";
+import { LoanDetailsFields } from "@/components/accounts/loan-details-fields";
+import { CurrencySelect } from "@/components/settings/currency-select";
 import type { AccountFormData } from "@/types";
 import { PlusCircle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { UndoToastAction } from "@/components/layout/undo-redo";
 
 interface AddAccountFormProps {
   onSuccess?: () => void;
 }
 
 export function AddAccountForm({ onSuccess }: AddAccountFormProps) {
-  const { addAccount } = useAppContext();
+  const { addAccount, currencySettings } = useAppContext();
   const { toast } = useToast();
 
   const form = useForm<z.infer<typeof accountSchema>>({
@@ -42,14 +48,31 @@ export function AddAccountForm({ onSuccess }: AddAccountFormProps) {
       name: "",
       initialBalance: 0,
       type: undefined, // Default to undefined for optional field
+      creditLimit: undefined,
+      currency: undefined, // The base currency until one is picked
+      loan: undefined,
     },
   });
 
-  function onSubmit(values: z.infer<typeof accountSchema>) {
-    addAccount(values as AccountFormData);
+  const selectedType = form.watch("type");
+  const isLiability = isLiabilityAccount({ type: selectedType });
+  const isCreditCard = isCreditCardAccount({ type: selectedType });
+  const isLoan = selectedType === "Loan";
+
+  async function onSubmit(values: z.infer<typeof accountSchema>) {
+    await addAccount({
+      name: values.name,
+      initialBalance: convertOwedAmount(values.type, values.initialBalance),
+      type: values.type,
+      creditLimit: isCreditCard ? values.creditLimit : undefined,
+      currency: values.currency ?? currencySettings.baseCurrency,
+      // The amount owed when the loan starts is its principal
+      loan: isLoan && values.loan ? { ...values.loan, principal: values.initialBalance } : undefined,
+    } as AccountFormData);
     toast({
       title: "Account Added",
       description: `Account "${values.name}" has been successfully added.`,
+      action: <UndoToastAction />,
     });
     form.reset();
     if (onSuccess) onSuccess();
@@ -71,20 +94,6 @@ export function AddAccountForm({ onSuccess }: AddAccountFormProps) {
             </FormItem>
           )}
         />
-        <FormField
-          control={form.control}
-          name="initialBalance"
-          render={({ field }) => (
-            <FormItem>
-              <FormLabel>Initial Balance</FormLabel>
-              <FormControl>
-                {/* Ensure field value is handled correctly, especially after reset */}
-                <Input type="number" placeholder="0.00" {...field} value={field.value ?? 0} onChange={e => field.onChange(parseFloat(e.target.value) || 0)} />
-              </FormControl>
-              <FormMessage />
-            </FormItem>
-          )}
-        />
         <FormField
           control={form.control}
           name="type"
@@ -111,6 +120,52 @@ export function AddAccountForm({ onSuccess }: AddAccountFormProps) {
             </FormItem>
           )}
         />
+        <FormField
+          control={form.control}
+          name="currency"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Currency</FormLabel>
+              <FormControl>
+                <CurrencySelect value={field.value ?? currencySettings.baseCurrency} onValueChange={field.onChange} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="initialBalance"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{isLiability ? "Amount Owed" : "Initial Balance"}</FormLabel>
+              <FormControl>
+                {/* Ensure field value is handled correctly, especially after reset */}
+                <MoneyInput placeholder="0.00" {...field} />
+              </FormControl>
+              {isLiability && (
+                <FormDescription>What you owe today. Enter a negative amount if the account is in credit.</FormDescription>
+              )}
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {isCreditCard && (
+          <FormField
+            control={form.control}
+            name="creditLimit"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Credit Limit (Optional)</FormLabel>
+                <FormControl>
+                  <MoneyInput placeholder="e.g., 5000" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+        {isLoan && <LoanDetailsFields />}
         <Button type="submit" className="w-full sm:w-auto">
           <PlusCircle className="mr-2 h-4 w-4" /> Add Account
         </Button>
@@ -0,0 +1,158 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useAppContext } from "@/context/AppContext";
+import type { Account } from "@/types";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { UndoToastAction } from "@/components/layout/undo-redo";
+import { Trash2 } from "lucide-react";
+
+interface DeleteAccountDialogProps {
+  account: Account;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onDeleted?: () => void;
+}
+
+/**
+ * Confirms deleting an account, saying how many transactions use it and whether they move to another account
+ * or go with it. Only accounts in the same currency can take them.
+ */
+export function DeleteAccountDialog({ account, open, onOpenChange, onDeleted }: DeleteAccountDialogProps) {
+  const { accounts, countTransactions, deleteAccount, getAccountCurrency } = useAppContext();
+  const { toast } = useToast();
+  const [transactionCount, setTransactionCount] = useState<number | null>(null);
+  const [countError, setCountError] = useState<string | null>(null);
+  const [action, setAction] = useState<"reassign" | "delete">("reassign");
+  const [targetId, setTargetId] = useState("");
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const currency = getAccountCurrency(account.id);
+  const targets = accounts.filter(acc => acc.id !== account.id && getAccountCurrency(acc.id) === currency);
+
+  // Only read when the dialog opens, so changes from other devices while it's open don't reset the choice
+  const openingRef = useRef({ hasTargets: targets.length > 0, countTransactions });
+  openingRef.current = { hasTargets: targets.length > 0, countTransactions };
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setTransactionCount(null);
+    setCountError(null);
+    setAction(openingRef.current.hasTargets ? "reassign" : "delete");
+    setTargetId("");
+    openingRef.current.countTransactions({ accountId: account.id })
+      .then(count => { if (!cancelled) setTransactionCount(count); })
+      .catch(error => {
+        // Counting needs the server; without it the choice is still offered
+        if (!cancelled) setCountError((error as Error)?.message || "Unknown error");
+      });
+    return () => { cancelled = true; };
+  }, [open, account.id]);
+
+  const hasTransactions = transactionCount !== 0;
+  const canConfirm = !isDeleting && (!hasTransactions || action === "delete" || !!targetId);
+
+  const handleDelete = async () => {
+    setIsDeleting(true);
+    try {
+      const affected = await deleteAccount(account.id, action === "reassign" && hasTransactions
+        ? { action: "reassign", targetId }
+        : { action: "delete" });
+      const targetName = accounts.find(acc => acc.id === targetId)?.name;
+      toast({
+        title: "Account Deleted",
+        description: affected === 0
+          ? `Account "${account.name}" has been deleted.`
+          : action === "reassign"
+            ? `Account "${account.name}" has been deleted and ${affected} transaction${affected === 1 ? "" : "s"} moved to "${targetName}".`
+            : `Account "${account.name}" and ${affected} transaction${affected === 1 ? "" : "s"} have been deleted.`,
+        action: <UndoToastAction />,
+      });
+      onOpenChange(false);
+      onDeleted?.();
+    } catch (error) {
+      toast({ title: "Error Deleting Account", description: (error as Error)?.message || "Could not delete the account. Please try again.", variant: "destructive" });
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete &quot;{account.name}&quot;?</AlertDialogTitle>
+          <AlertDialogDescription>
+            {countError !== null
+              ? `Couldn't count the transactions in this account: ${countError}`
+              : transactionCount === null
+                ? "Counting the transactions in this account..."
+                : transactionCount === 0
+                  ? "No transactions use this account."
+                  : `${transactionCount} transaction${transactionCount === 1 ? " uses" : "s use"} this account.`}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {hasTransactions && (
+          <div className="space-y-4">
+            <RadioGroup value={action} onValueChange={value => setAction(value as "reassign" | "delete")}>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="reassign" id="delete-account-reassign" disabled={targets.length === 0} />
+                <Label htmlFor="delete-account-reassign" className="font-normal">
+                  Move them to another account{targets.length === 0 && ` (none in ${currency})`}
+                </Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="delete" id="delete-account-transactions" />
+                <Label htmlFor="delete-account-transactions" className="font-normal">Delete them with the account</Label>
+              </div>
+            </RadioGroup>
+            {action === "reassign" && targets.length > 0 && (
+              <Select value={targetId} onValueChange={setTargetId}>
+                <SelectTrigger aria-label="Account to move transactions to">
+                  <SelectValue placeholder="Select an account" />
+                </SelectTrigger>
+                <SelectContent>
+                  {targets.map(acc => (
+                    <SelectItem key={acc.id} value={acc.id}>{acc.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <p className="text-xs text-muted-foreground">
+              {action === "reassign"
+                ? "Transfers between the two accounts are deleted, as they'd no longer move any money."
+                : "Transfers to other accounts stay in those accounts as ordinary transactions, so their balances don't change."}
+            </p>
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+          <Button variant="destructive" onClick={handleDelete} disabled={!canConfirm || transactionCount === null}>
+            <Trash2 className="mr-2 h-4 w-4" /> {isDeleting ? "Deleting..." : "Delete Account"}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -4,7 +4,7 @@
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import type * as z from "zod";
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 
 import { Button } from "@/components/ui/button";
 import {
@@ -12,10 +12,12 @@ import {
   FormControl,
   FormField,
   FormItem,
+  FormDescription,
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { MoneyInput } from "@/components/ui/money-input";
 import {
   Select,
   SelectContent,
@@ -25,9 +27,14 @@ import {
 } from "@/components/ui/select";
 import { accountSchema, accountTypes } from "@/lib/schemas";
 import { useAppContext } from "@/context/AppContext";
+import { convertOwedAmount, isCreditCardAccount, isLiabilityAccount } from "@/lib/accounts";
+import { LoanDetailsFields } from "@/components/accounts/loan-details-fields";
+import { CurrencySelect } from "@/components/settings/currency-select";
+import { DeleteAccountDialog } from "@/components/accounts/delete-account-dialog";
 import type { Account, AccountFormData } from "@/types";
-import { CheckCircle } from "lucide-react";
+import { CheckCircle, Trash2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { UndoToastAction } from "@/components/layout/undo-redo";
 
 interface EditAccountFormProps {
   account: Account;
@@ -35,8 +42,12 @@ interface EditAccountFormProps {
 }
 
 export function EditAccountForm({ account, onSuccess }: EditAccountFormProps) {
-  const { updateAccount } = useAppContext();
+  const { transactions, transactionSummaries, currencySettings, updateAccount, getAccountCurrency } = useAppContext();
+  // Older transactions aren't loaded, but the month summaries count them
+  const hasTransactions = transactions.some(tx => tx.accountId === account.id)
+    || transactionSummaries.some(summary => (summary.accounts[account.id]?.transactionCount ?? 0) > 0);
   const { toast } = useToast();
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
 
   const form = useForm<z.infer<typeof accountSchema>>({
     resolver: zodResolver(accountSchema),
@@ -47,23 +58,42 @@ export function EditAccountForm({ account, onSuccess }: EditAccountFormProps) {
     if (account) {
       form.reset({
         name: account.name,
-        initialBalance: account.initialBalance,
+        initialBalance: convertOwedAmount(account.type, account.initialBalance),
         type: account.type as typeof accountTypes[number] | undefined, // Cast to ensure compatibility
+        creditLimit: account.creditLimit,
+        currency: getAccountCurrency(account.id),
+        loan: account.loan && {
+          apr: account.loan.apr,
+          termMonths: account.loan.termMonths,
+          paymentDay: account.loan.paymentDay,
+          startDate: account.loan.startDate,
+          interestEnvelopeId: account.loan.interestEnvelopeId,
+        },
       });
     }
-  }, [account, form]);
+  }, [account, form, getAccountCurrency]);
 
-  function onSubmit(values: z.infer<typeof accountSchema>) {
+  const selectedType = form.watch("type");
+  const isLiability = isLiabilityAccount({ type: selectedType });
+  const isCreditCard = isCreditCardAccount({ type: selectedType });
+  const isLoan = selectedType === "Loan";
+
+  async function onSubmit(values: z.infer<typeof accountSchema>) {
     const updatedAccountData: Partial<AccountFormData> & { id: string } = {
       id: account.id, // Include the ID for the update function
       name: values.name,
-      initialBalance: values.initialBalance,
+      initialBalance: convertOwedAmount(values.type, values.initialBalance),
       type: values.type,
+      creditLimit: isCreditCard ? values.creditLimit : undefined,
+      currency: values.currency ?? currencySettings.baseCurrency,
+      // The amount owed when the loan starts is its principal
+      loan: isLoan && values.loan ? { ...values.loan, principal: values.initialBalance } : undefined,
     };
-    updateAccount(updatedAccountData);
+    await updateAccount(updatedAccountData);
     toast({
       title: "Account Updated",
       description: `Account "${values.name}" has been successfully updated.`,
+      action: <UndoToastAction />,
     });
     if (onSuccess) onSuccess();
   }
@@ -84,19 +114,6 @@ export function EditAccountForm({ account, onSuccess }: EditAccountFormProps) {
             </FormItem>
           )}
         />
-        <FormField
-          control={form.control}
-          name="initialBalance"
-          render={({ field }) => (
-            <FormItem>
-              <FormLabel>Initial Balance</FormLabel>
-              <FormControl>
-                <Input type="number" placeholder="0.00" {...field} value={field.value ?? 0} onChange={e => field.onChange(parseFloat(e.target.value) || 0)} />
-              </FormControl>
-              <FormMessage />
-            </FormItem>
-          )}
-        />
         <FormField
           control={form.control}
           name="type"
@@ -121,10 +138,64 @@ export function EditAccountForm({ account, onSuccess }: EditAccountFormProps) {
             </FormItem>
           )}
         />
-        <Button type="submit" className="w-full sm:w-auto">
-          <CheckCircle className="mr-2 h-4 w-4" /> Save Changes
-        </Button>
+        <FormField
+          control={form.control}
+          name="currency"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Currency</FormLabel>
+              <FormControl>
+                <CurrencySelect value={field.value ?? currencySettings.baseCurrency} onValueChange={field.onChange} disabled={hasTransactions} />
+              </FormControl>
+              {hasTransactions && (
+                <FormDescription>The currency can't change once the account has transactions.</FormDescription>
+              )}
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="initialBalance"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{isLiability ? "Amount Owed" : "Initial Balance"}</FormLabel>
+              <FormControl>
+                <MoneyInput placeholder="0.00" {...field} />
+              </FormControl>
+              {isLiability && (
+                <FormDescription>What you owe when you started tracking it. Enter a negative amount if the account is in credit.</FormDescription>
+              )}
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {isCreditCard && (
+          <FormField
+            control={form.control}
+            name="creditLimit"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Credit Limit (Optional)</FormLabel>
+                <FormControl>
+                  <MoneyInput placeholder="e.g., 5000" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+        {isLoan && <LoanDetailsFields />}
+        <div className="flex flex-col-reverse gap-2 sm:flex-row sm:justify-between">
+          <Button type="button" variant="outline" className="text-destructive hover:text-destructive" onClick={() => setIsDeleteDialogOpen(true)}>
+            <Trash2 className="mr-2 h-4 w-4" /> Delete Account
+          </Button>
+          <Button type="submit" className="w-full sm:w-auto">
+            <CheckCircle className="mr-2 h-4 w-4" /> Save Changes
+          </Button>
+        </div>
       </form>
+      <DeleteAccountDialog account={account} open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen} onDeleted={onSuccess} />
     </Form>
   );
 }
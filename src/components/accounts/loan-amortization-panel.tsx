@@ -0,0 +1,166 @@
+"use client";
+
+import { format, parseISO, isValid } from "date-fns";
+import { useAppContext } from "@/context/AppContext";
+import {
+  buildAmortizationSchedule,
+  getLoanPaymentBreakdowns,
+  getScheduledPayment,
+  getTypicalLoanPayment,
+  projectLoanPayoff,
+} from "@/lib/loans";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { formatMoney } from "@/lib/currency";
+
+interface LoanAmortizationPanelProps {
+  accountId: string;
+  onDone: () => void;
+}
+
+const formatDate = (date: string, pattern = "MMM d, yyyy") =>
+  isValid(parseISO(date)) ? format(parseISO(date), pattern) : "Invalid Date";
+
+/**
+ * The loan's original amortization schedule next to what has actually been paid, with
+ * the remaining balance and a payoff date projected from the recent payments.
+ */
+export function LoanAmortizationPanel({ accountId, onDone }: LoanAmortizationPanelProps) {
+  const { transactions, getAccountById, getAccountBalance, getAccountCurrency } = useAppContext();
+  const formatAmount = (amount: number) => formatMoney(amount, getAccountCurrency(accountId));
+  const account = getAccountById(accountId);
+  const loan = account?.loan;
+  if (!account || !loan) return null;
+
+  const owed = -getAccountBalance(accountId) || 0;
+  const schedule = buildAmortizationSchedule(loan);
+  const payments = getLoanPaymentBreakdowns(account, transactions);
+  const interestPaid = payments.reduce((sum, payment) => sum + payment.interest, 0);
+  const typicalPayment = getTypicalLoanPayment(loan, payments);
+  const projection = projectLoanPayoff(loan, owed, typicalPayment, new Date());
+  const scheduledPayoffDate = schedule[schedule.length - 1]?.date;
+
+  const summary = [
+    { label: "Remaining Balance", value: formatAmount(owed) },
+    { label: "Scheduled Payment", value: `${formatAmount(getScheduledPayment(loan))} / mo` },
+    { label: "Interest Paid", value: formatAmount(interestPaid) },
+    {
+      label: "Projected Payoff",
+      value: projection ? formatDate(projection.payoffDate, "MMM yyyy") : "Never",
+      detail: projection
+        ? `At ${formatAmount(typicalPayment)} / mo, ${formatAmount(projection.totalInterest)} more interest`
+        : `${formatAmount(typicalPayment)} / mo doesn't cover the interest`,
+    },
+    { label: "Scheduled Payoff", value: scheduledPayoffDate ? formatDate(scheduledPayoffDate, "MMM yyyy") : "-" },
+  ];
+
+  return (
+    <Card className="shadow-md flex-grow flex flex-col overflow-hidden">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>{account.name} Amortization</CardTitle>
+            <CardDescription>
+              {formatAmount(loan.principal)} at {loan.apr}% APR over {loan.termMonths} months from {formatDate(loan.startDate)}, due on day {loan.paymentDay}.
+            </CardDescription>
+          </div>
+          <Button variant="ghost" size="icon" onClick={onDone}>
+            <X className="h-4 w-4" />
+            <span className="sr-only">Close amortization</span>
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="flex-grow flex flex-col gap-4 overflow-hidden">
+        <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
+          {summary.map(item => (
+            <div key={item.label} className="space-y-1">
+              <p className="text-sm text-muted-foreground">{item.label}</p>
+              <p className={cn("text-lg font-semibold", item.label === "Projected Payoff" && !projection && "text-destructive")}>{item.value}</p>
+              {item.detail && <p className="text-xs text-muted-foreground">{item.detail}</p>}
+            </div>
+          ))}
+        </div>
+
+        <Tabs defaultValue="payments" className="flex-grow flex flex-col overflow-hidden">
+          <TabsList className="self-start">
+            <TabsTrigger value="payments">Payments ({payments.length})</TabsTrigger>
+            <TabsTrigger value="schedule">Schedule ({schedule.length})</TabsTrigger>
+          </TabsList>
+          <TabsContent value="payments" className="flex-grow overflow-hidden">
+            <ScrollArea className="h-full rounded-md border">
+              <Table>
+                <TableHeader className="sticky top-0 bg-card z-10">
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead className="text-right">Payment</TableHead>
+                    <TableHead className="text-right">Interest</TableHead>
+                    <TableHead className="text-right">Principal</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {payments.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground">
+                        No payments yet. Transfer money into this account to record one.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {payments.map(payment => (
+                    <TableRow key={payment.transaction.id}>
+                      <TableCell className="whitespace-nowrap text-sm">{formatDate(payment.transaction.date)}</TableCell>
+                      <TableCell className="text-right">{formatAmount(payment.transaction.amount)}</TableCell>
+                      <TableCell className="text-right text-red-600 dark:text-red-500">{formatAmount(payment.interest)}</TableCell>
+                      <TableCell className={cn("text-right", payment.principal < 0 && "text-destructive")}>{formatAmount(payment.principal)}</TableCell>
+                      <TableCell className="text-right font-semibold">{formatAmount(payment.balance)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+          </TabsContent>
+          <TabsContent value="schedule" className="flex-grow overflow-hidden">
+            <ScrollArea className="h-full rounded-md border">
+              <Table>
+                <TableHeader className="sticky top-0 bg-card z-10">
+                  <TableRow>
+                    <TableHead className="w-[48px]">#</TableHead>
+                    <TableHead>Due</TableHead>
+                    <TableHead className="text-right">Payment</TableHead>
+                    <TableHead className="text-right">Interest</TableHead>
+                    <TableHead className="text-right">Principal</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {schedule.map(row => (
+                    <TableRow key={row.number}>
+                      <TableCell className="text-muted-foreground">{row.number}</TableCell>
+                      <TableCell className="whitespace-nowrap text-sm">{formatDate(row.date)}</TableCell>
+                      <TableCell className="text-right">{formatAmount(row.payment)}</TableCell>
+                      <TableCell className="text-right text-red-600 dark:text-red-500">{formatAmount(row.interest)}</TableCell>
+                      <TableCell className="text-right">{formatAmount(row.principal)}</TableCell>
+                      <TableCell className="text-right font-semibold">{formatAmount(row.balance)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,140 @@
+"use client";
+
+import { useFormContext } from "react-hook-form";
+import type * as z from "zod";
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { accountSchema } from "@/lib/schemas";
+import { getScheduledPayment } from "@/lib/loans";
+import { toMajorUnits } from "@/lib/money";
+import { useAppContext } from "@/context/AppContext";
+
+const NO_ENVELOPE = "none"; // Select items can't have an empty value
+
+const toOptionalNumber = (value: string) => value === "" ? undefined : Number(value);
+
+/**
+ * Loan terms for a "Loan" account. Must be rendered inside a <Form> for the account
+ * schema; the form's amount owed is the principal. Leaving every field empty tracks
+ * the account as a plain liability without amortization.
+ */
+export function LoanDetailsFields() {
+  const { envelopes } = useAppContext();
+  const form = useFormContext<z.infer<typeof accountSchema>>();
+
+  const principal = Number(form.watch("initialBalance")) || 0;
+  const apr = form.watch("loan.apr");
+  const termMonths = form.watch("loan.termMonths");
+  const scheduledPayment = principal > 0 && apr !== undefined && termMonths
+    ? getScheduledPayment({ principal, apr: Number(apr), termMonths: Number(termMonths) })
+    : null;
+
+  return (
+    <div className="space-y-4 rounded-md border p-4">
+      <div>
+        <p className="text-sm font-medium">Loan Terms (Optional)</p>
+        <p className="text-xs text-muted-foreground">
+          Payments into this account are split into interest and principal automatically. For a loan you already have,
+          enter today's balance as the amount owed, today as the start date and the months left as the term.
+        </p>
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <FormField
+          control={form.control}
+          name="loan.apr"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>APR (%)</FormLabel>
+              <FormControl>
+                <Input type="number" step="0.001" placeholder="e.g., 6.5" {...field} value={field.value ?? ""} onChange={e => field.onChange(toOptionalNumber(e.target.value))} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="loan.termMonths"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Term (Months)</FormLabel>
+              <FormControl>
+                <Input type="number" step="1" placeholder="e.g., 60" {...field} value={field.value ?? ""} onChange={e => field.onChange(toOptionalNumber(e.target.value))} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="loan.startDate"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Start Date</FormLabel>
+              <FormControl>
+                <Input type="date" {...field} value={field.value ?? ""} onChange={e => field.onChange(e.target.value || undefined)} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="loan.paymentDay"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Payment Day</FormLabel>
+              <FormControl>
+                <Input type="number" min={1} max={31} placeholder="1-31" {...field} value={field.value ?? ""} onChange={e => field.onChange(toOptionalNumber(e.target.value))} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+      <FormField
+        control={form.control}
+        name="loan.interestEnvelopeId"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Interest Envelope (Optional)</FormLabel>
+            <Select onValueChange={value => field.onChange(value === NO_ENVELOPE ? undefined : value)} value={field.value || NO_ENVELOPE}>
+              <FormControl>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select an envelope" />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                <SelectItem value={NO_ENVELOPE}>No envelope</SelectItem>
+                {envelopes.map(envelope => (
+                  <SelectItem key={envelope.id} value={envelope.id}>{envelope.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FormDescription>Interest is recorded as spending from this envelope.</FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      {scheduledPayment !== null && (
+        <p className="text-sm text-muted-foreground">
+          Scheduled payment: <span className="font-semibold text-foreground">${toMajorUnits(scheduledPayment).toFixed(2)}</span> a month
+        </p>
+      )}
+    </div>
+  );
+}
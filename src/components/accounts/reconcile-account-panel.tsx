@@ -0,0 +1,229 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { format, parseISO, isValid } from "date-fns";
+import { useAppContext } from "@/context/AppContext";
+import { getSignedAmount, getTransactionStatus } from "@/lib/transactions";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Lock, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { formatMoney } from "@/lib/currency";
+import { parseMoney } from "@/lib/money";
+import { useToast } from "@/hooks/use-toast";
+import { UndoToastAction } from "@/components/layout/undo-redo";
+import type { Transaction } from "@/types";
+
+interface ReconcileAccountPanelProps {
+  accountId: string;
+  onDone: () => void; // Called after finishing or cancelling
+}
+
+/**
+ * Reconcile mode: tick off the transactions on a bank statement until the cleared
+ * balance matches the statement's ending balance, then lock them as reconciled.
+ * Ticking saves the cleared status right away, so a session can be left and resumed.
+ */
+export function ReconcileAccountPanel({ accountId, onDone }: ReconcileAccountPanelProps) {
+  const { watchUnreconciledTransactions, payees, getAccountById, getAccountClearedBalance, getAccountCurrency, setTransactionStatus, reconcileAccount } = useAppContext();
+  const formatAmount = (amount: number) => formatMoney(amount, getAccountCurrency(accountId));
+  const { toast } = useToast();
+  const account = getAccountById(accountId);
+
+  const [statementDate, setStatementDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [statementBalanceInput, setStatementBalanceInput] = useState("");
+  const [isAdjustmentDialogOpen, setIsAdjustmentDialogOpen] = useState(false);
+  const [isFinishing, setIsFinishing] = useState(false);
+  // Queried on their own, since a transaction can wait for its statement longer than the loaded months
+  const [unreconciled, setUnreconciled] = useState<{ accountId: string; transactions: Transaction[] } | null>(null);
+
+  useEffect(() => {
+    return watchUnreconciledTransactions(accountId, transactions => setUnreconciled({ accountId, transactions }));
+  }, [accountId, watchUnreconciledTransactions]);
+
+  const statementBalance = parseMoney(statementBalanceInput) ?? 0;
+  const hasStatementBalance = parseMoney(statementBalanceInput) !== undefined;
+  const isStatementDateValid = /^\d{4}-\d{2}-\d{2}$/.test(statementDate) && isValid(parseISO(statementDate));
+
+  const isLoadingTransactions = unreconciled?.accountId !== accountId;
+  const openTransactions = (isLoadingTransactions ? [] : unreconciled.transactions)
+    .slice()
+    .sort((a, b) => parseISO(a.date).getTime() - parseISO(b.date).getTime());
+  const clearedTransactions = openTransactions.filter(tx => getTransactionStatus(tx) === 'cleared');
+
+  const clearedBalance = getAccountClearedBalance(accountId);
+  const difference = hasStatementBalance ? statementBalance - clearedBalance : 0;
+
+  const toggleCleared = (transactionId: string, cleared: boolean) => {
+    setTransactionStatus([transactionId], cleared ? 'cleared' : 'uncleared').catch((error) => {
+      toast({ title: "Error Updating Transaction", description: (error as Error)?.message, variant: "destructive" });
+    });
+  };
+
+  const finish = async (withAdjustment: boolean) => {
+    setIsFinishing(true);
+    try {
+      await reconcileAccount({
+        accountId,
+        statementDate,
+        statementBalance,
+        transactionIds: clearedTransactions.map(tx => tx.id),
+        adjustmentAmount: withAdjustment ? difference : undefined,
+      });
+      toast({
+        title: "Account Reconciled",
+        description: `${clearedTransactions.length} transaction${clearedTransactions.length === 1 ? "" : "s"} locked${withAdjustment ? ` and a ${formatAmount(difference)} adjustment added` : ""}.`,
+        action: <UndoToastAction />,
+      });
+      onDone();
+    } catch (error) {
+      toast({
+        title: "Error Reconciling Account",
+        description: (error as Error)?.message || "Nothing was changed. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsFinishing(false);
+      setIsAdjustmentDialogOpen(false);
+    }
+  };
+
+  const handleFinishClick = () => {
+    if (difference !== 0) {
+      setIsAdjustmentDialogOpen(true);
+    } else {
+      finish(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-md flex-grow flex flex-col overflow-hidden">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>Reconcile {account?.name}</CardTitle>
+            <CardDescription>
+              Enter your statement's ending balance, then tick each transaction that appears on it.
+              {account?.lastReconciledDate && ` Last reconciled ${format(parseISO(account.lastReconciledDate), "MMM d, yyyy")}.`}
+            </CardDescription>
+          </div>
+          <Button variant="ghost" size="icon" onClick={onDone}>
+            <X className="h-4 w-4" />
+            <span className="sr-only">Exit reconcile mode</span>
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="flex-grow flex flex-col gap-4 overflow-hidden">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4 items-end">
+          <div className="space-y-1">
+            <Label htmlFor="statement-date">Statement Date</Label>
+            <Input id="statement-date" type="date" value={statementDate} onChange={e => setStatementDate(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="statement-balance">Statement Ending Balance</Label>
+            <Input id="statement-balance" type="number" step="0.01" placeholder="0.00" value={statementBalanceInput} onChange={e => setStatementBalanceInput(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <p className="text-sm text-muted-foreground">Cleared Balance</p>
+            <p className="text-lg font-semibold">{formatAmount(clearedBalance)}</p>
+          </div>
+          <div className="space-y-1">
+            <p className="text-sm text-muted-foreground">Difference</p>
+            <p className={cn("text-lg font-semibold", hasStatementBalance && difference !== 0 ? "text-destructive" : "text-green-600 dark:text-green-500")}>
+              {hasStatementBalance ? formatAmount(difference) : "-"}
+            </p>
+          </div>
+          <Button onClick={handleFinishClick} disabled={!hasStatementBalance || !isStatementDateValid || isFinishing}>
+            <Lock className="mr-2 h-4 w-4" /> {isFinishing ? "Finishing..." : "Finish Reconciling"}
+          </Button>
+        </div>
+
+        <ScrollArea className="flex-grow rounded-md border">
+          <Table>
+            <TableHeader className="sticky top-0 bg-card z-10">
+              <TableRow>
+                <TableHead className="w-[48px]">Cleared</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead>Payee</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {openTransactions.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-muted-foreground">
+                    {isLoadingTransactions ? "Loading transactions..." : "Every transaction in this account is reconciled."}
+                  </TableCell>
+                </TableRow>
+              )}
+              {openTransactions.map(tx => {
+                const isCleared = getTransactionStatus(tx) === 'cleared';
+                const txDate = parseISO(tx.date);
+                const isAfterStatement = isStatementDateValid && isValid(txDate) && format(txDate, "yyyy-MM-dd") > statementDate;
+                return (
+                  <TableRow key={tx.id} className={cn(isAfterStatement && "opacity-50")}>
+                    <TableCell>
+                      <Checkbox checked={isCleared} onCheckedChange={(checked) => toggleCleared(tx.id, checked === true)} aria-label="Cleared" />
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap text-sm">{isValid(txDate) ? format(txDate, "MMM d, yyyy") : "Invalid Date"}</TableCell>
+                    <TableCell>
+                      <div className="text-sm font-medium">{payees.find(p => p.id === tx.payeeId)?.name || "No Payee"}</div>
+                      {tx.description && <div className="text-xs text-muted-foreground">{tx.description}</div>}
+                    </TableCell>
+                    <TableCell className={cn(
+                      "text-right font-semibold whitespace-nowrap",
+                      tx.type === 'inflow' ? 'text-green-600 dark:text-green-500' : 'text-red-600 dark:text-red-500'
+                    )}>
+                      {formatAmount(getSignedAmount(tx))}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+      </CardContent>
+
+      <AlertDialog open={isAdjustmentDialogOpen} onOpenChange={setIsAdjustmentDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Balances don't match</AlertDialogTitle>
+            <AlertDialogDescription>
+              The cleared balance is {formatAmount(difference)} away from the statement. You can keep looking for the
+              missing transaction, or add a {difference > 0 ? "inflow" : "outflow"} of {formatAmount(Math.abs(difference))} dated {statementDate} to
+              make them agree and finish.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isFinishing}>Keep Looking</AlertDialogCancel>
+            <AlertDialogAction disabled={isFinishing} onClick={(e) => { e.preventDefault(); finish(true); }}>
+              Add Adjustment & Finish
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
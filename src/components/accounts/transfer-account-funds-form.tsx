@@ -10,12 +10,14 @@ import { Button } from "@/components/ui/button";
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { MoneyInput } from "@/components/ui/money-input";
 import {
   Select,
   SelectContent,
@@ -27,17 +29,20 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { Calendar } from "@/components/ui/calendar";
 import { transferAccountFundsSchema } from "@/lib/schemas";
 import { useAppContext } from "@/context/AppContext";
+import { isLiabilityAccount } from "@/lib/accounts";
+import { convertAmount, formatMoney } from "@/lib/currency";
 import type { TransferAccountFundsFormData } from "@/types";
 import { ArrowRightLeft, CalendarIcon } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
+import { UndoToastAction } from "@/components/layout/undo-redo";
 
 interface TransferAccountFundsFormProps {
   onSuccess?: () => void;
 }
 
 export function TransferAccountFundsForm({ onSuccess }: TransferAccountFundsFormProps) {
-  const { accounts, transferBetweenAccounts, getAccountBalance } = useAppContext();
+  const { accounts, currencySettings, transferBetweenAccounts, getAccountBalance, getAccountCurrency } = useAppContext();
   const { toast } = useToast();
   const [sourceAccountBalance, setSourceAccountBalance] = useState<number | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false); // Added loading state
@@ -55,18 +60,29 @@ export function TransferAccountFundsForm({ onSuccess }: TransferAccountFundsForm
   });
 
   const fromAccountId = form.watch("fromAccountId");
+  const toAccountId = form.watch("toAccountId");
+  const fromCurrency = fromAccountId ? getAccountCurrency(fromAccountId) : undefined;
+  const toCurrency = toAccountId ? getAccountCurrency(toAccountId) : undefined;
+  const isCrossCurrency = !!fromCurrency && !!toCurrency && fromCurrency !== toCurrency;
+  const convertedAmount = isCrossCurrency ? convertAmount(currencySettings, Number(form.watch("amount")) || 0, fromCurrency, toCurrency) : undefined;
 
   useEffect(() => {
     if (fromAccountId) {
       const balance = getAccountBalance(fromAccountId);
-      setSourceAccountBalance(balance);
+      const fromAccount = accounts.find(acc => acc.id === fromAccountId);
+      if (isLiabilityAccount(fromAccount)) {
+        // Drawing on a card or loan is limited by the credit left, if a limit is known
+        setSourceAccountBalance(fromAccount?.creditLimit !== undefined ? fromAccount.creditLimit + balance : null);
+      } else {
+        setSourceAccountBalance(balance);
+      }
       if (form.getValues("amount") > 0) {
         form.trigger("amount");
       }
     } else {
       setSourceAccountBalance(null);
     }
-  }, [fromAccountId, getAccountBalance, form]);
+  }, [fromAccountId, accounts, getAccountBalance, form]);
 
   const refinedTransferSchema = transferAccountFundsSchema.refine(
     (data) => {
@@ -99,7 +115,8 @@ export function TransferAccountFundsForm({ onSuccess }: TransferAccountFundsForm
       const toAccName = accounts.find(acc => acc.id === values.toAccountId)?.name;
       toast({
         title: "Transfer Successful",
-        description: `$${values.amount.toFixed(2)} transferred from "${fromAccName}" to "${toAccName}".`,
+        description: `${formatMoney(values.amount, getAccountCurrency(values.fromAccountId))} transferred from "${fromAccName}" to "${toAccName}".`,
+        action: <UndoToastAction />,
       });
       form.reset({
         fromAccountId: "",
@@ -141,14 +158,14 @@ export function TransferAccountFundsForm({ onSuccess }: TransferAccountFundsForm
                   {accounts.length === 0 && <SelectItem value="no-accounts-placeholder" disabled>No accounts available</SelectItem>}
                   {accounts.map(account => (
                     <SelectItem key={account.id} value={account.id} disabled={account.id === form.watch("toAccountId")}>
-                      {account.name} (Balance: ${getAccountBalance(account.id).toFixed(2)})
+                      {account.name} (Balance: {formatMoney(getAccountBalance(account.id), getAccountCurrency(account.id))})
                     </SelectItem>
                   ))}
                 </SelectContent>
               </Select>
               {sourceAccountBalance !== null && (
                 <p className="text-xs text-muted-foreground mt-1">
-                  Available balance: ${sourceAccountBalance.toFixed(2)}
+                  {isLiabilityAccount(accounts.find(acc => acc.id === fromAccountId)) ? "Available credit" : "Available balance"}: {formatMoney(sourceAccountBalance, fromCurrency)}
                 </p>
               )}
               <FormMessage />
@@ -189,11 +206,15 @@ export function TransferAccountFundsForm({ onSuccess }: TransferAccountFundsForm
             <FormItem>
               <FormLabel>Amount</FormLabel>
               <FormControl>
-                <Input type="number" placeholder="0.00" {...field} step="0.01"
-                       onChange={e => field.onChange(parseFloat(e.target.value) || 0)}
-                       value={field.value ?? 0}
-                />
+                <MoneyInput placeholder="0.00" {...field} />
               </FormControl>
+              {isCrossCurrency && (
+                <FormDescription>
+                  {convertedAmount !== undefined
+                    ? `In ${fromCurrency}. Arrives as ${formatMoney(convertedAmount, toCurrency)} at today's rate.`
+                    : `No exchange rate from ${fromCurrency} to ${toCurrency} yet. Add one in Settings.`}
+                </FormDescription>
+              )}
               <FormMessage />
             </FormItem>
           )}
@@ -0,0 +1,153 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import Link from "next/link";
+import { format, parseISO } from "date-fns";
+import { useLedgerAssistant, type AssistantExchange, type CitedTransaction } from "@/hooks/use-ledger-assistant";
+import { splitCitations } from "@/lib/ledger-tools";
+import { getTransactionsHref } from "@/lib/transaction-filters";
+import { formatMoney } from "@/lib/currency";
+import { toMoney } from "@/lib/money";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { MessageCircleQuestion, RotateCcw, Send } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+const EXAMPLE_QUESTIONS = [
+  "How much did we spend on restaurants in Q2 vs Q1?",
+  "What were our five biggest purchases last month?",
+  "Which envelopes are overspent this month?",
+];
+
+// A cited transaction, linked to the All Transactions page filtered down to it
+function CitationSource({ number, transaction }: { number: number; transaction?: CitedTransaction }) {
+  if (!transaction) return null;
+  const href = getTransactionsHref({ from: transaction.date, to: transaction.date, query: transaction.payee || transaction.description });
+  return (
+    <li className="text-xs">
+      <Link href={href} className="hover:underline">
+        <span className="font-medium">[{number}]</span>{" "}
+        {format(parseISO(transaction.date), "MMM d, yyyy")} · {transaction.payee || transaction.description || "Transaction"} ·{" "}
+        <span className={transaction.type === 'inflow' ? "text-green-600 dark:text-green-500" : "text-red-600 dark:text-red-500"}>
+          {transaction.type === 'inflow' ? "+" : "-"}{formatMoney(toMoney(transaction.amount), transaction.currency)}
+        </span>
+      </Link>
+    </li>
+  );
+}
+
+function ExchangeView({ exchange, citedTransactions }: { exchange: AssistantExchange; citedTransactions: Record<string, CitedTransaction> }) {
+  const numberOf = (transactionId: string) => exchange.citations.indexOf(transactionId) + 1;
+  return (
+    <div className="space-y-2">
+      <div className="ml-8 rounded-lg bg-primary text-primary-foreground px-3 py-2 text-sm">{exchange.question}</div>
+      {exchange.error ? (
+        <p className="text-sm text-destructive">{exchange.error}</p>
+      ) : exchange.answer === undefined ? (
+        <p className="text-sm text-muted-foreground animate-pulse">Looking through your budget...</p>
+      ) : (
+        <div className="mr-8 rounded-lg bg-muted px-3 py-2 space-y-2">
+          <p className="text-sm whitespace-pre-wrap">
+            {splitCitations(exchange.answer).map((part, index) => typeof part === "string" ? part : (
+              <sup key={index} className="font-medium text-primary">[{numberOf(part.transactionId)}]</sup>
+            ))}
+          </p>
+          {exchange.citations.length > 0 && (
+            <ol className="space-y-1 border-t pt-2">
+              {exchange.citations.map((transactionId, index) => (
+                <CitationSource key={transactionId} number={index + 1} transaction={citedTransactions[transactionId]} />
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Ask questions about the budget in plain words; answers cite the transactions they're based on. */
+export function AssistantPanel() {
+  const { exchanges, citedTransactions, isAnswering, ask, reset } = useLedgerAssistant();
+  const [question, setQuestion] = useState("");
+
+  const submit = (text: string) => {
+    if (!text.trim() || isAnswering) return;
+    setQuestion("");
+    ask(text.trim());
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    submit(question);
+  };
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="icon" title="Ask About Your Budget">
+          <MessageCircleQuestion className="h-5 w-5" />
+          <span className="sr-only">Ask About Your Budget</span>
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="flex flex-col w-full sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle>Ask About Your Budget</SheetTitle>
+          <SheetDescription>Answers are worked out from your transactions, envelopes and monthly totals.</SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="flex-1 -mx-2 px-2">
+          {exchanges.length === 0 ? (
+            <div className="space-y-2 py-4">
+              <p className="text-xs text-muted-foreground">Try asking:</p>
+              {EXAMPLE_QUESTIONS.map(example => (
+                <Button key={example} variant="outline" size="sm" className="h-auto w-full justify-start whitespace-normal text-left text-xs py-2" onClick={() => submit(example)}>
+                  {example}
+                </Button>
+              ))}
+            </div>
+          ) : (
+            <div className="space-y-4 py-4">
+              {exchanges.map((exchange, index) => (
+                <ExchangeView key={index} exchange={exchange} citedTransactions={citedTransactions} />
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+
+        <form onSubmit={handleSubmit} className="flex items-center gap-2">
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className={cn("shrink-0", exchanges.length === 0 && "invisible")}
+            onClick={reset}
+            disabled={isAnswering}
+            title="Start Over"
+          >
+            <RotateCcw className="h-4 w-4" />
+            <span className="sr-only">Start Over</span>
+          </Button>
+          <Input
+            value={question}
+            onChange={event => setQuestion(event.target.value)}
+            placeholder="Ask a question..."
+            aria-label="Your question"
+          />
+          <Button type="submit" size="icon" className="shrink-0" disabled={isAnswering || !question.trim()}>
+            <Send className="h-4 w-4" />
+            <span className="sr-only">Ask</span>
+          </Button>
+        </form>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -10,15 +10,20 @@ import {
 import { useAppContext } from "@/context/AppContext";
 import type { ChartConfig } from "@/components/ui/chart"
 import { format } from "date-fns"; // Import format
+import { useRouter } from "next/navigation";
+import { getMonthDateFilters, getTransactionsHref } from "@/lib/transaction-filters";
+import { toMajorUnits } from "@/lib/money";
 
 export default function SpendingByEnvelopeChart() {
-  const { envelopes, getEnvelopeSpending, getMonthlyAllocation, currentViewMonth } = useAppContext(); // Added getMonthlyAllocation and currentViewMonth
+  const { envelopes, getEnvelopeSpending, getMonthlyAllocation, currentViewMonth, currencySettings } = useAppContext(); // Added getMonthlyAllocation and currentViewMonth
 
-  // Data for the currentViewMonth
+  // Data for the currentViewMonth, in whole currency units for the axis and tooltip
+  const router = useRouter();
   const chartData = envelopes.map(envelope => ({
+    id: envelope.id,
     name: envelope.name,
-    spent: getEnvelopeSpending(envelope.id, currentViewMonth), // Use currentViewMonth
-    budgeted: getMonthlyAllocation(envelope.id, currentViewMonth), // Get allocation for currentViewMonth
+    spent: toMajorUnits(getEnvelopeSpending(envelope.id, currentViewMonth)), // Use currentViewMonth
+    budgeted: toMajorUnits(getMonthlyAllocation(envelope.id, currentViewMonth)), // Get allocation for currentViewMonth
   }));
 
   const chartConfig = {
@@ -50,7 +55,7 @@ export default function SpendingByEnvelopeChart() {
             tickFormatter={(value) => value.length > 10 ? `${value.substring(0,10)}...` : value}
           />
           <YAxis
-            tickFormatter={(value) => `$${value}`}
+            tickFormatter={(value) => Number(value).toLocaleString(undefined, { style: 'currency', currency: currencySettings.baseCurrency, maximumFractionDigits: 0 })}
             tickLine={false}
             axisLine={false}
             tickMargin={8}
@@ -59,7 +64,13 @@ export default function SpendingByEnvelopeChart() {
             cursor={false}
             content={<ChartTooltipContent indicator="dot" />}
           />
-          <Bar dataKey="spent" fill="var(--color-spent)" radius={4} />
+          {/* Clicking a bar lists the envelope's spending for the month */}
+          <Bar
+            dataKey="spent" fill="var(--color-spent)" radius={4} className="cursor-pointer"
+            onClick={(data: { id?: string }) => {
+              if (data?.id) router.push(getTransactionsHref({ ...getMonthDateFilters(currentViewMonth), envelopeId: data.id, type: 'outflow' }));
+            }}
+          />
           {/* Optional: Show budgeted amount as a reference bar if needed */}
           {/* <Bar dataKey="budgeted" fill="var(--color-budgeted)" radius={4} /> */}
         </BarChart>
@@ -17,6 +17,7 @@ import {
 import { Input } from "@/components/ui/input";
 import { PlusCircle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { UndoToastAction } from "@/components/layout/undo-redo";
 import { useAppContext } from "@/context/AppContext"; // Import context
 
 // Schema for the category form
@@ -39,7 +40,7 @@ export function AddCategoryForm({ onSuccess }: AddCategoryFormProps) {
     },
   });
 
-  function onSubmit(values: z.infer<typeof categorySchema>) {
+  async function onSubmit(values: z.infer<typeof categorySchema>) {
     const categoryName = values.name.trim(); // Trim whitespace
     
     // Check for duplicates (case-insensitive) before adding
@@ -50,10 +51,11 @@ export function AddCategoryForm({ onSuccess }: AddCategoryFormProps) {
             variant: "destructive"
         });
     } else {
-        addCategory(categoryName); // Call the context function
+        await addCategory(categoryName); // Call the context function
         toast({
           title: "Category Group Added",
           description: `Category group "${categoryName}" has been successfully added.`,
+          action: <UndoToastAction />,
         });
         form.reset();
         if (onSuccess) onSuccess();
@@ -15,6 +15,7 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { MoneyInput } from "@/components/ui/money-input";
 import {
   Select,
   SelectContent,
@@ -27,6 +28,7 @@ import { useAppContext } from "@/context/AppContext";
 import type { EnvelopeFormData } from "@/types";
 import { PlusCircle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { UndoToastAction } from "@/components/layout/undo-redo";
 
 interface AddEnvelopeFormProps {
   onSuccess?: () => void;
@@ -49,7 +51,7 @@ export function AddEnvelopeForm({ onSuccess }: AddEnvelopeFormProps) {
     },
   });
 
-  function onSubmit(values: z.infer<typeof envelopeSchema>) {
+  async function onSubmit(values: z.infer<typeof envelopeSchema>) {
     // Category is now guaranteed by the schema
     const dataToAdd: EnvelopeFormData = {
       name: values.name,
@@ -58,10 +60,11 @@ export function AddEnvelopeForm({ onSuccess }: AddEnvelopeFormProps) {
       category: values.category,
       dueDate: values.dueDate, // Add dueDate
     };
-    addEnvelope(dataToAdd);
+    await addEnvelope(dataToAdd);
     toast({
       title: "Envelope Added",
       description: `Envelope "${values.name}" has been successfully added to category "${values.category}".`,
+      action: <UndoToastAction />,
     });
     form.reset();
     if (onSuccess) onSuccess();
@@ -90,7 +93,7 @@ export function AddEnvelopeForm({ onSuccess }: AddEnvelopeFormProps) {
             <FormItem>
               <FormLabel>Monthly Budget Amount</FormLabel>
               <FormControl>
-                <Input type="number" placeholder="0.00" {...field} step="0.01" onChange={e => field.onChange(parseFloat(e.target.value) || 0)} value={field.value ?? 0} />
+                <MoneyInput placeholder="0.00" {...field} />
               </FormControl>
               <FormMessage />
             </FormItem>
@@ -103,20 +106,7 @@ export function AddEnvelopeForm({ onSuccess }: AddEnvelopeFormProps) {
             <FormItem>
               <FormLabel>Estimated Amount (Optional)</FormLabel>
               <FormControl>
-                <Input
-                  type="number"
-                  placeholder="e.g., 150.00"
-                  {...field}
-                  step="0.01"
-                  // Always provide a string value to the input
-                  value={field.value ?? ""}
-                  onChange={e => {
-                    const value = e.target.value;
-                    const parsedValue = parseFloat(value);
-                    // Set to undefined if empty or parsing fails (NaN)
-                    field.onChange(value === "" || isNaN(parsedValue) ? undefined : parsedValue);
-                  }}
-                />
+                <MoneyInput placeholder="e.g., 150.00" {...field} />
               </FormControl>
               <FormMessage />
             </FormItem>
@@ -16,6 +16,7 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { MoneyInput } from "@/components/ui/money-input";
 import {
   Select,
   SelectContent,
@@ -28,6 +29,7 @@ import { useAppContext } from "@/context/AppContext";
 import type { Envelope } from "@/types";
 import { CheckCircle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { UndoToastAction } from "@/components/layout/undo-redo";
 
 interface EditEnvelopeFormProps {
   envelope: Envelope;
@@ -69,7 +71,7 @@ export function EditEnvelopeForm({ envelope, onSuccess }: EditEnvelopeFormProps)
   }, [envelope, form]);
 
 
-  function onSubmit(values: z.infer<typeof envelopeSchema>) {
+  async function onSubmit(values: z.infer<typeof envelopeSchema>) {
     console.log("[EditEnvelopeForm] Submitting values:", JSON.stringify(values));
     const updatedEnvelopeData: Partial<Envelope> & { id: string } = {
       id: envelope.id,
@@ -79,10 +81,11 @@ export function EditEnvelopeForm({ envelope, onSuccess }: EditEnvelopeFormProps)
       category: values.category,
       dueDate: values.dueDate,
     };
-    updateEnvelope(updatedEnvelopeData);
+    await updateEnvelope(updatedEnvelopeData);
     toast({
       title: "Envelope Updated",
       description: `Envelope "${values.name}" has been successfully updated.`,
+      action: <UndoToastAction />,
     });
     if (onSuccess) onSuccess();
   }
@@ -113,17 +116,7 @@ export function EditEnvelopeForm({ envelope, onSuccess }: EditEnvelopeFormProps)
               <FormItem>
                 <FormLabel>Monthly Budget Amount</FormLabel>
                 <FormControl>
-                  <Input
-                    type="number"
-                    placeholder="0.00"
-                    {...field}
-                    step="0.01"
-                    onChange={e => {
-                      const val = parseFloat(e.target.value);
-                      field.onChange(isNaN(val) ? 0 : val); // Ensure it's always a number, default to 0
-                    }}
-                    value={field.value ?? 0} // Ensure input value is always a number
-                  />
+                  <MoneyInput placeholder="0.00" {...field} />
                 </FormControl>
                 <FormMessage />
               </FormItem>
@@ -137,18 +130,7 @@ export function EditEnvelopeForm({ envelope, onSuccess }: EditEnvelopeFormProps)
             <FormItem>
               <FormLabel>Estimated Amount (Optional)</FormLabel>
               <FormControl>
-                <Input
-                  type="number"
-                  placeholder="e.g., 150.00"
-                  {...field}
-                  step="0.01"
-                  value={field.value ?? ""}
-                  onChange={e => {
-                    const value = e.target.value;
-                    const parsedValue = parseFloat(value);
-                    field.onChange(value === "" || isNaN(parsedValue) ? undefined : parsedValue);
-                  }}
-                />
+                <MoneyInput placeholder="e.g., 150.00" {...field} />
               </FormControl>
               <FormMessage />
             </FormItem>
@@ -12,11 +12,14 @@ import { useAppContext } from "@/context/AppContext";
 import { format, parseISO } from "date-fns";
 import Link from "next/link";
 import { cn } from "@/lib/utils";
+import { formatMoney } from "@/lib/currency";
+import { formatMoneyInput, parseMoney } from "@/lib/money";
 import {
   AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
   AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
+import { UndoToastAction } from "@/components/layout/undo-redo";
 import { Tooltip, TooltipContent, TooltipTrigger, TooltipProvider } from "@/components/ui/tooltip";
 
 interface SortableEnvelopeItemProps {
@@ -40,8 +43,10 @@ export function SortableEnvelopeItem({ id, envelope, onEditClick, currentViewMon
     deleteEnvelope,
     setMonthlyAllocation,
     getMonthlyAllocation,
-    getEffectiveMonthlyBudgetWithRollover
+    getEffectiveMonthlyBudgetWithRollover,
+    currencySettings
   } = useAppContext();
+  const formatAmount = (amount: number) => formatMoney(amount, currencySettings.baseCurrency);
   const { toast } = useToast();
   const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({ id: id });
 
@@ -55,7 +60,7 @@ export function SortableEnvelopeItem({ id, envelope, onEditClick, currentViewMon
   const availableBalance = getEnvelopeBalanceAsOfEOM(envelope.id, currentViewMonth);
 
   useEffect(() => {
-    setMonthlyBudgetValue(specificAllocationForThisMonth.toFixed(2));
+    setMonthlyBudgetValue(formatMoneyInput(specificAllocationForThisMonth));
   }, [specificAllocationForThisMonth, currentViewMonth]);
 
 
@@ -72,7 +77,7 @@ export function SortableEnvelopeItem({ id, envelope, onEditClick, currentViewMon
     event.stopPropagation();
     try {
       await deleteEnvelope(envelope.id);
-      toast({ title: "Envelope Deleted", description: `Envelope "${envelope.name}" has been deleted.`, variant: "default" });
+      toast({ title: "Envelope Deleted", description: `Envelope "${envelope.name}" has been deleted.`, variant: "default", action: <UndoToastAction /> });
     } catch (error) {
       console.error("Failed to delete envelope:", error);
       toast({ title: "Error Deleting Envelope", description: (error as Error)?.message || "Could not delete the envelope. Please try again.", variant: "destructive" });
@@ -88,7 +93,7 @@ export function SortableEnvelopeItem({ id, envelope, onEditClick, currentViewMon
     if (isEditingMonthlyBudget) {
       handleSaveMonthlyBudget();
     } else {
-      setMonthlyBudgetValue(specificAllocationForThisMonth.toFixed(2));
+      setMonthlyBudgetValue(formatMoneyInput(specificAllocationForThisMonth));
     }
     setIsEditingMonthlyBudget(!isEditingMonthlyBudget);
   };
@@ -96,18 +101,18 @@ export function SortableEnvelopeItem({ id, envelope, onEditClick, currentViewMon
   const handleCancelMonthlyBudgetEdit = (e: React.MouseEvent) => {
     e.stopPropagation(); e.preventDefault();
     setIsEditingMonthlyBudget(false);
-    setMonthlyBudgetValue(specificAllocationForThisMonth.toFixed(2));
+    setMonthlyBudgetValue(formatMoneyInput(specificAllocationForThisMonth));
   };
 
   const handleSaveMonthlyBudget = async () => {
-    const amount = parseFloat(monthlyBudgetValue);
-    if (isNaN(amount) || amount < 0) {
+    const amount = parseMoney(monthlyBudgetValue);
+    if (amount === undefined || amount < 0) {
       toast({ title: "Invalid Amount", description: "Please enter a valid positive number for the budget.", variant: "destructive"});
       return;
     }
     try {
       await setMonthlyAllocation(envelope.id, format(currentViewMonth, "yyyy-MM"), amount);
-      toast({ title: "Monthly Budget Updated", description: `Budget for ${envelope.name} for ${format(currentViewMonth, "MMMM yyyy")} set to $${amount.toFixed(2)}.` });
+      toast({ title: "Monthly Budget Updated", description: `Budget for ${envelope.name} for ${format(currentViewMonth, "MMMM yyyy")} set to ${formatAmount(amount)}.`, action: <UndoToastAction /> });
       setIsEditingMonthlyBudget(false);
     } catch (error) {
       toast({ title: "Error", description: "Failed to update monthly budget.", variant: "destructive"});
@@ -136,7 +141,7 @@ export function SortableEnvelopeItem({ id, envelope, onEditClick, currentViewMon
                     </Button>
                   </AlertDialogTrigger>
                   <AlertDialogContent>
-                    <AlertDialogHeader><AlertDialogTitle>Are you sure?</AlertDialogTitle><AlertDialogDescription>This action cannot be undone. This will permanently delete "{envelope.name}".</AlertDialogDescription></AlertDialogHeader>
+                    <AlertDialogHeader><AlertDialogTitle>Are you sure?</AlertDialogTitle><AlertDialogDescription>This will delete "{envelope.name}" and remove it from its transactions.</AlertDialogDescription></AlertDialogHeader>
                     <AlertDialogFooter><AlertDialogCancel onClick={(e) => e.stopPropagation()}>Cancel</AlertDialogCancel><AlertDialogAction onClick={confirmDelete} className={cn("bg-destructive text-destructive-foreground hover:bg-destructive/90")}>Delete</AlertDialogAction></AlertDialogFooter>
                   </AlertDialogContent>
                 </AlertDialog>
@@ -146,27 +151,25 @@ export function SortableEnvelopeItem({ id, envelope, onEditClick, currentViewMon
                     <div className="flex justify-between items-start mb-1 pr-16">
                     <div className="flex-1 min-w-0">
                         <span className="font-medium truncate block text-sm" title={envelope.name}>{envelope.name}</span>
-                        {hasEstimatedAmount && (<span className="ml-1.5 text-xs text-muted-foreground">(Est: ${envelope.estimatedAmount?.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })})</span>)}
+                        {hasEstimatedAmount && (<span className="ml-1.5 text-xs text-muted-foreground">(Est: {formatAmount(envelope.estimatedAmount ?? 0)})</span>)}
                         {dueDateString && (<span className="text-xs text-muted-foreground flex items-center mt-0.5"><CalendarClock className="mr-1 h-3 w-3" /> Due: {dueDateString}</span>)}
                     </div>
                     <span className={cn(
                         "text-sm",
-                        Math.abs(availableBalance) < 0.001 
-                          ? "font-semibold text-green-600 dark:text-green-500" // Treat values very close to zero as positive
-                          : availableBalance < 0
-                            ? "font-bold text-destructive dark:text-red-400"
-                            : "font-semibold text-green-600 dark:text-green-500"
+                        availableBalance < 0
+                          ? "font-bold text-destructive dark:text-red-400"
+                          : "font-semibold text-green-600 dark:text-green-500"
                       )}>
-                        ${(Math.abs(availableBalance) < 0.001 ? 0 : availableBalance).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                        {formatAmount(availableBalance)}
                     </span>
                     </div>
                 </div>
               </Link>
               <Progress value={Math.min(progress, 100)} className="h-2 mt-1" />
               <div className="flex justify-between items-center text-xs text-muted-foreground mt-1">
-                <span>Spent: ${spentThisMonth.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                <span>Spent: {formatAmount(spentThisMonth)}</span>
                 <div className="flex items-center gap-1">
-                  <span>Budgeted ({format(currentViewMonth, "MMM")}): ${effectiveBudgetForThisMonth.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                  <span>Budgeted ({format(currentViewMonth, "MMM")}): {formatAmount(effectiveBudgetForThisMonth)}</span>
                   {isEditingMonthlyBudget ? (
                     <>
                       <Input
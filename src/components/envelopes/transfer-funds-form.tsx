@@ -16,6 +16,8 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { MoneyInput } from "@/components/ui/money-input";
+import { toMajorUnits } from "@/lib/money";
 import {
   Select,
   SelectContent,
@@ -31,6 +33,7 @@ import type { TransferEnvelopeFundsFormData } from "@/types";
 import { ArrowRightLeft, CalendarIcon } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
+import { UndoToastAction } from "@/components/layout/undo-redo";
 
 interface TransferFundsFormProps {
   onSuccess?: () => void;
@@ -95,13 +98,14 @@ export function TransferFundsForm({ onSuccess }: TransferFundsFormProps) {
    }, [sourceEnvelopeBalance]); // Re-run when sourceEnvelopeBalance updates. form not needed in deps.
 
 
-  function onSubmit(values: z.infer<typeof transferEnvelopeFundsSchema>) {
-    transferBetweenEnvelopes(values as TransferEnvelopeFundsFormData);
+  async function onSubmit(values: z.infer<typeof transferEnvelopeFundsSchema>) {
+    await transferBetweenEnvelopes(values as TransferEnvelopeFundsFormData);
     const fromEnvName = envelopes.find(e => e.id === values.fromEnvelopeId)?.name;
     const toEnvName = envelopes.find(e => e.id === values.toEnvelopeId)?.name;
     toast({
       title: "Transfer Successful",
-      description: `$${values.amount.toFixed(2)} transferred from "${fromEnvName}" to "${toEnvName}".`,
+      description: `$${toMajorUnits(values.amount).toFixed(2)} transferred from "${fromEnvName}" to "${toEnvName}".`,
+      action: <UndoToastAction />,
     });
     form.reset({
       fromEnvelopeId: "",
@@ -134,10 +138,9 @@ export function TransferFundsForm({ onSuccess }: TransferFundsFormProps) {
                   {envelopes.length === 0 && <SelectItem value="no-envelopes-placeholder" disabled>No envelopes available</SelectItem>}
                   {envelopes.map(envelope => {
                     const balance = getEnvelopeBalanceWithRollover(envelope.id);
-                    const displayBalance = Math.abs(balance) < 0.001 ? 0 : balance;
                     return (
                       <SelectItem key={envelope.id} value={envelope.id} disabled={envelope.id === form.watch("toEnvelopeId")}>
-                        {envelope.name} (Balance: ${displayBalance.toFixed(2)})
+                        {envelope.name} (Balance: ${toMajorUnits(balance).toFixed(2)})
                       </SelectItem>
                     );
                   })}
@@ -145,7 +148,7 @@ export function TransferFundsForm({ onSuccess }: TransferFundsFormProps) {
               </Select>
               {sourceEnvelopeBalance !== null && (
                 <p className="text-xs text-muted-foreground mt-1">
-                  Available to transfer: ${(Math.abs(sourceEnvelopeBalance) < 0.001 ? 0 : sourceEnvelopeBalance).toFixed(2)}
+                  Available to transfer: ${toMajorUnits(sourceEnvelopeBalance).toFixed(2)}
                 </p>
               )}
               <FormMessage />
@@ -186,10 +189,7 @@ export function TransferFundsForm({ onSuccess }: TransferFundsFormProps) {
             <FormItem>
               <FormLabel>Amount</FormLabel>
               <FormControl>
-                <Input type="number" placeholder="0.00" {...field} step="0.01"
-                       onChange={e => field.onChange(parseFloat(e.target.value) || 0)}
-                       value={field.value ?? 0}
-                />
+                <MoneyInput placeholder="0.00" {...field} />
               </FormControl>
               <FormMessage />
             </FormItem>
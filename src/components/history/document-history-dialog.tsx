@@ -0,0 +1,121 @@
+"use client";
+
+import { useEffect, useState, type ReactNode } from "react";
+import { format, parseISO, isValid } from "date-fns";
+import { useAppContext } from "@/context/AppContext";
+import { diffDocuments, formatHistoryValue, getHistorySource } from "@/lib/history";
+import type { HistoryEntry } from "@/types";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Laptop } from "lucide-react";
+
+interface DocumentHistoryDialogProps {
+  documentId: string;
+  title: string;
+  trigger: ReactNode;
+}
+
+const actionLabels: Record<HistoryEntry['action'], string> = { create: "Created", update: "Updated", delete: "Deleted" };
+
+/** Every recorded change to one document, newest first, with the fields that changed and where it was made. */
+export function DocumentHistoryDialog({ documentId, title, trigger }: DocumentHistoryDialogProps) {
+  const { accounts, envelopes, payees, getDocumentHistory } = useAppContext();
+  const [isOpen, setIsOpen] = useState(false);
+  const [entries, setEntries] = useState<HistoryEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const currentSessionId = getHistorySource().sessionId;
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let isCurrent = true;
+    setEntries(null);
+    setError(null);
+    getDocumentHistory(documentId)
+      .then(result => { if (isCurrent) setEntries(result); })
+      .catch(err => { if (isCurrent) setError((err as Error)?.message || "Could not load the history."); });
+    return () => { isCurrent = false; };
+  }, [isOpen, documentId, getDocumentHistory]);
+
+  // Ids read better as the names they point at
+  const describeValue = (field: string, value: unknown) => {
+    if (typeof value === 'string') {
+      if (field === 'accountId') return accounts.find(acc => acc.id === value)?.name ?? value;
+      if (field === 'envelopeId') return envelopes.find(env => env.id === value)?.name ?? value;
+      if (field === 'payeeId') return payees.find(p => p.id === value)?.name ?? value;
+    }
+    return formatHistoryValue(value);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>Changes made in AlloBudget, newest first.</DialogDescription>
+        </DialogHeader>
+        {error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : entries === null ? (
+          <Skeleton className="h-[200px] w-full" />
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No changes have been recorded yet.</p>
+        ) : (
+          <ScrollArea className="max-h-[60vh] pr-3">
+            <ol className="space-y-4">
+              {entries.map(entry => {
+                const createdAt = parseISO(entry.createdAt);
+                const changes = diffDocuments(entry.before, entry.after);
+                return (
+                  <li key={entry.id} className="rounded-md border p-3 space-y-2">
+                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                      <span className="font-medium">{isValid(createdAt) ? format(createdAt, "MMM d, yyyy h:mm a") : entry.createdAt}</span>
+                      <Badge variant={entry.action === 'delete' ? "destructive" : entry.action === 'create' ? "default" : "secondary"}>
+                        {actionLabels[entry.action]}
+                      </Badge>
+                      <span className="text-muted-foreground">{entry.label}</span>
+                    </div>
+                    <div className="flex items-center text-xs text-muted-foreground">
+                      <Laptop className="mr-1.5 h-3 w-3" />
+                      {entry.deviceName} · session {entry.sessionId.slice(0, 8)}
+                      {entry.sessionId === currentSessionId && " (this session)"}
+                    </div>
+                    {changes.length > 0 && (
+                      <table className="w-full text-xs">
+                        <thead>
+                          <tr className="text-muted-foreground text-left">
+                            <th className="font-normal pr-2">Field</th>
+                            <th className="font-normal pr-2">Before</th>
+                            <th className="font-normal">After</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {changes.map(change => (
+                            <tr key={change.field} className="align-top">
+                              <td className="pr-2 font-mono">{change.field}</td>
+                              <td className="pr-2 break-all text-red-600 dark:text-red-500">{describeValue(change.field, change.before)}</td>
+                              <td className="break-all text-green-600 dark:text-green-500">{describeValue(change.field, change.after)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </li>
+                );
+              })}
+            </ol>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,6 +3,10 @@
 
 import Link from "next/link";
 import { ThemeToggle } from "@/components/layout/theme-toggle";
+import { UndoRedoControls } from "@/components/layout/undo-redo";
+import { SyncStatusIndicator } from "@/components/layout/sync-status-indicator";
+import { BudgetSwitcher } from "@/components/layout/budget-switcher";
+import { AssistantPanel } from "@/components/assistant/assistant-panel";
 import { SidebarTrigger } from "@/components/ui/sidebar";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/context/AuthContext"; // Import useAuth
@@ -40,6 +44,10 @@ export function AppHeader() {
            <div className="md:hidden">
             <SidebarTrigger />
           </div>
+          {currentUser && <BudgetSwitcher />}
+          {currentUser && <SyncStatusIndicator />}
+          {currentUser && <UndoRedoControls />}
+          {currentUser && <AssistantPanel />}
           <ThemeToggle />
           {currentUser && (
             <Button variant="ghost" size="icon" onClick={signOut} title="Sign Out">
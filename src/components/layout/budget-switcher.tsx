@@ -0,0 +1,69 @@
+"use client";
+
+import Link from "next/link";
+import { useAppContext } from "@/context/AppContext";
+import { PERSONAL_BUDGET_NAME, budgetRoleLabels } from "@/lib/budgets";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ChevronsUpDown, Mail, Users } from "lucide-react";
+
+// Radio items need a string value for the personal budget, whose id is null
+const PERSONAL_VALUE = "personal";
+
+/**
+ * Names the budget on screen and switches between the user's own budget and the shared ones they're in.
+ * Shows when the open budget is view-only, and points to invites waiting in settings.
+ */
+export function BudgetSwitcher() {
+  const { sharedBudgets, activeBudgetId, budgetRole, canEditBudget, switchBudget, receivedBudgetInvites } = useAppContext();
+  const activeName = activeBudgetId ? sharedBudgets.find(budget => budget.id === activeBudgetId)?.name ?? "Shared Budget" : PERSONAL_BUDGET_NAME;
+
+  // Nothing to switch to until the user shares a budget or is invited to one
+  if (sharedBudgets.length === 0 && receivedBudgetInvites.length === 0 && !activeBudgetId) return null;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="gap-1.5 max-w-[14rem]" title="Switch budget">
+          <Users className="h-4 w-4 shrink-0" />
+          <span className="truncate">{activeName}</span>
+          {!canEditBudget && <Badge variant="secondary" className="shrink-0">View only</Badge>}
+          {receivedBudgetInvites.length > 0 && <span className="h-2 w-2 shrink-0 rounded-full bg-primary" aria-label="Invites waiting" />}
+          <ChevronsUpDown className="h-3 w-3 shrink-0 opacity-60" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-60">
+        <DropdownMenuLabel>Budgets</DropdownMenuLabel>
+        <DropdownMenuRadioGroup value={activeBudgetId ?? PERSONAL_VALUE} onValueChange={value => switchBudget(value === PERSONAL_VALUE ? null : value)}>
+          <DropdownMenuRadioItem value={PERSONAL_VALUE}>{PERSONAL_BUDGET_NAME}</DropdownMenuRadioItem>
+          {sharedBudgets.map(budget => (
+            <DropdownMenuRadioItem key={budget.id} value={budget.id}>
+              <span className="truncate">{budget.name}</span>
+              {budget.id === activeBudgetId && <span className="ml-auto pl-2 text-xs text-muted-foreground">{budgetRoleLabels[budgetRole]}</span>}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem asChild>
+          <Link href="/dashboard/settings">
+            {receivedBudgetInvites.length > 0 ? (
+              <><Mail className="mr-2 h-4 w-4" /> {receivedBudgetInvites.length === 1 ? "1 invite waiting" : `${receivedBudgetInvites.length} invites waiting`}</>
+            ) : (
+              <><Users className="mr-2 h-4 w-4" /> Manage sharing</>
+            )}
+          </Link>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -10,6 +10,9 @@ import {
   BarChart3,
   Users,
   Package,
+  Repeat,
+  Settings,
+  Wand2,
 } from "lucide-react";
 
 import { cn } from "@/lib/utils";
@@ -25,8 +28,11 @@ export const navItems = [
   { href: "/dashboard/accounts", label: "Accounts", icon: Landmark },
   { href: "/dashboard/envelopes", label: "Envelopes", icon: Package },
   { href: "/dashboard/transactions", label: "Transactions", icon: ArrowRightLeft },
+  { href: "/dashboard/recurring", label: "Recurring", icon: Repeat },
+  { href: "/dashboard/rules", label: "Rules", icon: Wand2 },
   { href: "/dashboard/payees", label: "Payees", icon: Users },
   { href: "/dashboard/reports", label: "Reports", icon: BarChart3 },
+  { href: "/dashboard/settings", label: "Settings", icon: Settings },
 ];
 
 export function MainNav() {
@@ -0,0 +1,153 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { format, parseISO, isValid } from "date-fns";
+import { useAppContext } from "@/context/AppContext";
+import type { PendingWrite, SyncStatus } from "@/types";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ToastAction } from "@/components/ui/toast";
+import { useToast } from "@/hooks/use-toast";
+import { AlertTriangle, Cloud, CloudOff, RefreshCw, X, type LucideIcon } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+const statusDisplay: Record<SyncStatus, { icon: LucideIcon; label: string; description: string; className?: string }> = {
+  connecting: { icon: RefreshCw, label: "Connecting", description: "Loading your budget.", className: "animate-spin" },
+  synced: { icon: Cloud, label: "Synced", description: "All changes are saved and up to date." },
+  saving: { icon: RefreshCw, label: "Saving", description: "Saving your latest changes.", className: "animate-spin" },
+  offline: { icon: CloudOff, label: "Offline", description: "Showing saved data. Changes will sync when you're back online.", className: "text-amber-500" },
+  error: { icon: AlertTriangle, label: "Sync error", description: "Live updates stopped. Reload the page to reconnect.", className: "text-destructive" },
+};
+
+const formatTime = (value: string) => {
+  const date = parseISO(value);
+  return isValid(date) ? format(date, "MMM d, h:mm a") : value;
+};
+
+// What happened to a change that needs the user's attention
+function describePendingWrite(write: PendingWrite): string {
+  if (write.status === 'failed') return `"${write.label}" couldn't be saved and was undone: ${write.error}`;
+  if (write.status === 'conflict') {
+    const changes = (write.conflicts ?? []).map(entry => `"${entry.label}" on ${entry.deviceName} at ${formatTime(entry.createdAt)}`);
+    return `"${write.label}" was saved while offline over ${changes.length === 1 ? "a change" : "changes"} made elsewhere: ${changes.join(", ")}. Check its history if the other change should be kept.`;
+  }
+  return `"${write.label}" is waiting to sync.`;
+}
+
+/**
+ * Shows whether the budget on screen is live, still saving, or working from the offline cache, and opens
+ * the list of changes waiting to sync. Changes the server rejected or that overwrote someone else's are
+ * announced with a toast and kept in the list until dismissed. So is a budget whose amounts couldn't be
+ * converted to cents, with a way to try again.
+ */
+export function SyncStatusIndicator() {
+  const { syncStatus, pendingWrites, dismissPendingWrite, isNetworkEnabled, setNetworkEnabled, moneyMigrationError, retryMoneyMigration } = useAppContext();
+  const { toast } = useToast();
+  const announcedRef = useRef(new Set<string>());
+  const [isRetrying, setIsRetrying] = useState(false);
+  const { icon: Icon, label, description, className } = statusDisplay[syncStatus];
+  const waitingCount = pendingWrites.filter(write => write.status === 'pending').length;
+  const attentionCount = pendingWrites.length - waitingCount;
+
+  useEffect(() => {
+    pendingWrites.filter(write => write.status !== 'pending' && !announcedRef.current.has(write.id)).forEach(write => {
+      announcedRef.current.add(write.id);
+      toast({
+        title: write.status === 'failed' ? "Change Not Saved" : "Conflicting Change",
+        description: describePendingWrite(write),
+        variant: "destructive",
+      });
+    });
+  }, [pendingWrites, toast]);
+
+  const handleRetryMigration = async () => {
+    setIsRetrying(true);
+    try {
+      await retryMoneyMigration();
+    } catch {
+      // The new reason shows in place of the old one
+    } finally {
+      setIsRetrying(false);
+    }
+  };
+
+  // The toast outlives the render that showed it, so its button calls the latest retry
+  const retryRef = useRef(handleRetryMigration);
+  retryRef.current = handleRetryMigration;
+  useEffect(() => {
+    if (!moneyMigrationError) return;
+    toast({
+      title: "Budget Is View-Only",
+      description: moneyMigrationError,
+      variant: "destructive",
+      action: <ToastAction altText="Try again" onClick={() => retryRef.current()}>Try Again</ToastAction>,
+    });
+  }, [moneyMigrationError, toast]);
+
+  const handleNetworkChange = async (enabled: boolean) => {
+    try {
+      await setNetworkEnabled(enabled);
+    } catch (error) {
+      toast({ title: "Error Changing Connection", description: (error as Error)?.message || "Please try again.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-9 gap-1.5 px-2 text-xs text-muted-foreground" title={description}>
+          <Icon className={cn("h-4 w-4", className)} />
+          <span className="hidden lg:inline">{label}</span>
+          {waitingCount > 0 && <span className="rounded-full bg-muted px-1.5 font-medium text-foreground">{waitingCount}</span>}
+          {(attentionCount > 0 || moneyMigrationError) && <AlertTriangle className="h-4 w-4 text-destructive" />}
+          <span className="sr-only">Sync status: {label}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-3">
+        <div>
+          <p className="text-sm font-medium">{label}</p>
+          <p className="text-xs text-muted-foreground">{description}</p>
+        </div>
+        {moneyMigrationError && (
+          <div className="space-y-2 rounded-md border border-destructive/50 p-2 text-xs">
+            <p className="text-destructive">{moneyMigrationError}</p>
+            <Button variant="outline" size="sm" className="h-7 text-xs" onClick={handleRetryMigration} disabled={isRetrying}>
+              {isRetrying ? "Trying..." : "Try Again"}
+            </Button>
+          </div>
+        )}
+        {pendingWrites.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No changes waiting to sync.</p>
+        ) : (
+          <ul className="max-h-64 space-y-2 overflow-y-auto">
+            {pendingWrites.map(write => (
+              <li key={write.id} className={cn("rounded-md border p-2 text-xs", write.status !== 'pending' && "border-destructive/50")}>
+                <div className="flex items-start justify-between gap-2">
+                  <div className="space-y-0.5">
+                    <p className="font-medium">{write.label}</p>
+                    <p className="text-muted-foreground">
+                      {formatTime(write.queuedAt)} · {write.documentCount} document{write.documentCount === 1 ? "" : "s"}
+                    </p>
+                  </div>
+                  {write.status !== 'pending' && (
+                    <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => dismissPendingWrite(write.id)}>
+                      <X className="h-3 w-3" />
+                      <span className="sr-only">Dismiss</span>
+                    </Button>
+                  )}
+                </div>
+                {write.status !== 'pending' && <p className="mt-1 text-destructive">{describePendingWrite(write)}</p>}
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex items-center justify-between border-t pt-3">
+          <Label htmlFor="work-offline" className="text-sm">Work offline</Label>
+          <Switch id="work-offline" checked={!isNetworkEnabled} onCheckedChange={checked => handleNetworkChange(!checked)} />
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
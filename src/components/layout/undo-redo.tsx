@@ -0,0 +1,85 @@
+"use client";
+
+import { useEffect } from "react";
+import { useAppContext } from "@/context/AppContext";
+import { Button } from "@/components/ui/button";
+import { ToastAction } from "@/components/ui/toast";
+import { useToast } from "@/hooks/use-toast";
+import { Redo2, Undo2 } from "lucide-react";
+
+// Undo and redo with a toast saying what was reversed, offering to reverse it again
+function useUndoRedo() {
+  const { undo, redo, undoLabel, redoLabel } = useAppContext();
+  const { toast } = useToast();
+
+  const runUndo = async () => {
+    try {
+      const label = await undo();
+      if (label) toast({ title: "Change Undone", description: `Undid "${label}".`, action: <RedoToastAction /> });
+    } catch (error) {
+      toast({ title: "Error Undoing Change", description: (error as Error)?.message || "Please try again.", variant: "destructive" });
+    }
+  };
+
+  const runRedo = async () => {
+    try {
+      const label = await redo();
+      if (label) toast({ title: "Change Redone", description: `Redid "${label}".`, action: <UndoToastAction /> });
+    } catch (error) {
+      toast({ title: "Error Redoing Change", description: (error as Error)?.message || "Please try again.", variant: "destructive" });
+    }
+  };
+
+  return { runUndo, runRedo, undoLabel, redoLabel };
+}
+
+/** "Undo" button for the toast that confirms a change. Undoes the latest change, which is the one just made. */
+export function UndoToastAction() {
+  const { runUndo } = useUndoRedo();
+  return <ToastAction altText="Undo the last change" onClick={runUndo}>Undo</ToastAction>;
+}
+
+function RedoToastAction() {
+  const { runRedo } = useUndoRedo();
+  return <ToastAction altText="Redo the change" onClick={runRedo}>Redo</ToastAction>;
+}
+
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+/**
+ * Header buttons for undo and redo, plus their shortcuts: Ctrl/Cmd+Z to undo and Ctrl/Cmd+Shift+Z or
+ * Ctrl+Y to redo. Shortcuts are left to the browser while typing in a field.
+ */
+export function UndoRedoControls() {
+  const { runUndo, runRedo, undoLabel, redoLabel } = useUndoRedo();
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || isEditableTarget(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        runUndo();
+      } else if ((key === 'z' && event.shiftKey) || (key === 'y' && !event.shiftKey)) {
+        event.preventDefault();
+        runRedo();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
+
+  return (
+    <>
+      <Button variant="ghost" size="icon" onClick={runUndo} disabled={!undoLabel} title={undoLabel ? `Undo "${undoLabel}"` : "Nothing to undo"}>
+        <Undo2 className="h-5 w-5" />
+        <span className="sr-only">Undo</span>
+      </Button>
+      <Button variant="ghost" size="icon" onClick={runRedo} disabled={!redoLabel} title={redoLabel ? `Redo "${redoLabel}"` : "Nothing to redo"}>
+        <Redo2 className="h-5 w-5" />
+        <span className="sr-only">Redo</span>
+      </Button>
+    </>
+  );
+}
@@ -16,10 +16,12 @@ import {
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { payeeSchema } from "@/lib/schemas";
+import { PayeeAliasFields } from "@/components/payees/payee-alias-fields";
 import { useAppContext } from "@/context/AppContext";
 import type { PayeeFormData } from "@/types";
 import { PlusCircle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { UndoToastAction } from "@/components/layout/undo-redo";
 
 interface AddPayeeFormProps {
   onSuccess?: () => void;
@@ -34,19 +36,22 @@ export function AddPayeeForm({ onSuccess }: AddPayeeFormProps) {
     defaultValues: {
       name: "",
       category: "", // Defaulting to "" makes it controlled
+      aliases: [],
     },
   });
 
-  function onSubmit(values: z.infer<typeof payeeSchema>) {
+  async function onSubmit(values: z.infer<typeof payeeSchema>) {
     // Filter out empty optional fields if necessary, or let the schema handle it
     const dataToAdd: PayeeFormData = {
         name: values.name,
         ...(values.category && { category: values.category }), // Only include category if provided
+        ...(values.aliases && values.aliases.length > 0 && { aliases: values.aliases }),
     }
-    addPayee(dataToAdd);
+    await addPayee(dataToAdd);
     toast({
       title: "Payee Added",
       description: `Payee "${values.name}" has been successfully added.`,
+      action: <UndoToastAction />,
     });
     form.reset();
     if (onSuccess) onSuccess();
@@ -82,6 +87,7 @@ export function AddPayeeForm({ onSuccess }: AddPayeeFormProps) {
             </FormItem>
           )}
         />
+        <PayeeAliasFields />
         <Button type="submit" className="w-full sm:w-auto">
           <PlusCircle className="mr-2 h-4 w-4" /> Add Payee
         </Button>
@@ -0,0 +1,159 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useAppContext } from "@/context/AppContext";
+import type { Payee } from "@/types";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { UndoToastAction } from "@/components/layout/undo-redo";
+import { Merge, Trash2 } from "lucide-react";
+
+interface DeletePayeeDialogProps {
+  payee: Payee;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onDeleted?: () => void;
+}
+
+/**
+ * Deletes a payee or merges it into another one. Says how many transactions use it; merging moves them and
+ * any recurring transactions to the other payee, and deleting takes them with it.
+ */
+export function DeletePayeeDialog({ payee, open, onOpenChange, onDeleted }: DeletePayeeDialogProps) {
+  const { payees, countTransactions, deletePayee, mergePayees } = useAppContext();
+  const { toast } = useToast();
+  const [transactionCount, setTransactionCount] = useState<number | null>(null);
+  const [countError, setCountError] = useState<string | null>(null);
+  const [action, setAction] = useState<"merge" | "delete">("merge");
+  const [targetId, setTargetId] = useState("");
+  const [isWorking, setIsWorking] = useState(false);
+
+  const targets = payees.filter(p => p.id !== payee.id);
+
+  // Only read when the dialog opens, so changes from other devices while it's open don't reset the choice
+  const openingRef = useRef({ hasTargets: targets.length > 0, countTransactions });
+  openingRef.current = { hasTargets: targets.length > 0, countTransactions };
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setTransactionCount(null);
+    setCountError(null);
+    setAction(openingRef.current.hasTargets ? "merge" : "delete");
+    setTargetId("");
+    openingRef.current.countTransactions({ payeeId: payee.id })
+      .then(count => { if (!cancelled) setTransactionCount(count); })
+      .catch(error => {
+        // Counting needs the server; without it the choice is still offered
+        if (!cancelled) setCountError((error as Error)?.message || "Unknown error");
+      });
+    return () => { cancelled = true; };
+  }, [open, payee.id]);
+
+  const hasTransactions = transactionCount !== 0;
+  const isMerging = action === "merge" && hasTransactions;
+  const canConfirm = !isWorking && (transactionCount !== null || countError !== null) && (!isMerging || !!targetId);
+
+  const handleConfirm = async () => {
+    setIsWorking(true);
+    try {
+      const targetName = payees.find(p => p.id === targetId)?.name;
+      const affected = isMerging ? await mergePayees(payee.id, targetId) : await deletePayee(payee.id, { action: "delete" });
+      const plural = affected === 1 ? "" : "s";
+      toast({
+        title: isMerging ? "Payees Merged" : "Payee Deleted",
+        description: isMerging
+          ? `"${payee.name}" has been merged into "${targetName}", moving ${affected} transaction${plural}.`
+          : affected === 0
+            ? `Payee "${payee.name}" has been deleted.`
+            : `Payee "${payee.name}" and ${affected} transaction${plural} have been deleted.`,
+        action: <UndoToastAction />,
+      });
+      onOpenChange(false);
+      onDeleted?.();
+    } catch (error) {
+      toast({
+        title: isMerging ? "Error Merging Payees" : "Error Deleting Payee",
+        description: (error as Error)?.message || "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete or Merge &quot;{payee.name}&quot;?</AlertDialogTitle>
+          <AlertDialogDescription>
+            {countError !== null
+              ? `Couldn't count the transactions that use this payee: ${countError}`
+              : transactionCount === null
+                ? "Counting the transactions that use this payee..."
+                : transactionCount === 0
+                  ? "No transactions use this payee."
+                  : `${transactionCount} transaction${transactionCount === 1 ? " uses" : "s use"} this payee.`}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {hasTransactions && (
+          <div className="space-y-4">
+            <RadioGroup value={action} onValueChange={value => setAction(value as "merge" | "delete")}>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="merge" id="delete-payee-merge" disabled={targets.length === 0} />
+                <Label htmlFor="delete-payee-merge" className="font-normal">Merge into another payee, moving its transactions</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="delete" id="delete-payee-transactions" />
+                <Label htmlFor="delete-payee-transactions" className="font-normal">Delete its transactions with it</Label>
+              </div>
+            </RadioGroup>
+            {action === "merge" && targets.length > 0 && (
+              <Select value={targetId} onValueChange={setTargetId}>
+                <SelectTrigger aria-label="Payee to merge into">
+                  <SelectValue placeholder="Select a payee" />
+                </SelectTrigger>
+                <SelectContent>
+                  {targets.map(p => (
+                    <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {action === "delete" && (
+              <p className="text-xs text-muted-foreground">Deleting a transfer deletes both of its sides.</p>
+            )}
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isWorking}>Cancel</AlertDialogCancel>
+          <Button variant="destructive" onClick={handleConfirm} disabled={!canConfirm}>
+            {isMerging
+              ? <><Merge className="mr-2 h-4 w-4" /> {isWorking ? "Merging..." : "Merge Payee"}</>
+              : <><Trash2 className="mr-2 h-4 w-4" /> {isWorking ? "Deleting..." : "Delete Payee"}</>}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
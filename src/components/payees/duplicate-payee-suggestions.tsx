@@ -0,0 +1,159 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useAppContext } from "@/context/AppContext";
+import { findDuplicatePayees, type DuplicatePayeeSuggestion } from "@/lib/payees";
+import type { Payee } from "@/types";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { UndoToastAction } from "@/components/layout/undo-redo";
+import { Merge, X } from "lucide-react";
+
+// Pairs the user said aren't the same payee, kept on this browser
+const DISMISSED_STORAGE_KEY = 'allobudget.dismissedPayeeDuplicates';
+
+const getPairKey = (suggestion: DuplicatePayeeSuggestion) => suggestion.payees.map(payee => payee.id).sort().join("|");
+
+const getDismissedPairs = (): string[] => {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(DISMISSED_STORAGE_KEY) ?? "[]");
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+const setDismissedPairs = (pairs: string[]) => {
+  try {
+    window.localStorage.setItem(DISMISSED_STORAGE_KEY, JSON.stringify(pairs));
+  } catch {
+    // Without storage, dismissed pairs come back on the next visit
+  }
+};
+
+/**
+ * Payees whose names look like the same one written differently, with a way to merge each pair. The payee
+ * kept takes on the other's transactions, name and aliases.
+ */
+export function DuplicatePayeeSuggestions() {
+  const { payees, mergePayees } = useAppContext();
+  const { toast } = useToast();
+  const [dismissed, setDismissed] = useState<string[]>([]);
+  const [merging, setMerging] = useState<DuplicatePayeeSuggestion | null>(null);
+  const [keepId, setKeepId] = useState("");
+  const [isMerging, setIsMerging] = useState(false);
+
+  useEffect(() => setDismissed(getDismissedPairs()), []);
+
+  const suggestions = useMemo(
+    () => findDuplicatePayees(payees).filter(suggestion => !dismissed.includes(getPairKey(suggestion))),
+    [payees, dismissed]
+  );
+
+  if (suggestions.length === 0) return null;
+
+  const dismiss = (suggestion: DuplicatePayeeSuggestion) => {
+    const next = [...dismissed, getPairKey(suggestion)];
+    setDismissed(next);
+    setDismissedPairs(next);
+  };
+
+  const openMerge = (suggestion: DuplicatePayeeSuggestion) => {
+    setMerging(suggestion);
+    setKeepId(suggestion.payees[0].id);
+  };
+
+  const handleMerge = async () => {
+    if (!merging) return;
+    const keep = merging.payees.find(payee => payee.id === keepId)!;
+    const source = merging.payees.find(payee => payee.id !== keepId)!;
+    setIsMerging(true);
+    try {
+      const moved = await mergePayees(source.id, keep.id);
+      toast({
+        title: "Payees Merged",
+        description: `"${source.name}" has been merged into "${keep.name}", moving ${moved} transaction${moved === 1 ? "" : "s"}.`,
+        action: <UndoToastAction />,
+      });
+      setMerging(null);
+    } catch (error) {
+      toast({ title: "Error Merging Payees", description: (error as Error)?.message || "Please try again.", variant: "destructive" });
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  const renderName = (payee: Payee) => (
+    <span className="font-medium truncate" title={payee.name}>{payee.name}</span>
+  );
+
+  return (
+    <Card className="shadow-md">
+      <CardHeader>
+        <CardTitle>Possible Duplicates</CardTitle>
+        <CardDescription>These payees look like the same one written differently.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {suggestions.map(suggestion => (
+          <div key={getPairKey(suggestion)} className="flex flex-wrap items-center justify-between gap-2 rounded-md border p-3">
+            <p className="flex min-w-0 items-center gap-2 text-sm">
+              {renderName(suggestion.payees[0])}
+              <span className="text-muted-foreground">and</span>
+              {renderName(suggestion.payees[1])}
+              <span className="shrink-0 text-xs text-muted-foreground">{Math.round(suggestion.similarity * 100)}% alike</span>
+            </p>
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" onClick={() => openMerge(suggestion)}>
+                <Merge className="mr-1 h-4 w-4" /> Merge
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => dismiss(suggestion)}>
+                <X className="mr-1 h-4 w-4" /> Not the Same
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+
+      <AlertDialog open={!!merging} onOpenChange={(open) => { if (!open) setMerging(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Merge Payees</AlertDialogTitle>
+            <AlertDialogDescription>
+              Choose the payee to keep. The other one&apos;s transactions and recurring transactions move to it, and
+              its name is kept as an alias.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {merging && (
+            <RadioGroup value={keepId} onValueChange={setKeepId}>
+              {merging.payees.map(payee => (
+                <div key={payee.id} className="flex items-center space-x-2">
+                  <RadioGroupItem value={payee.id} id={`keep-payee-${payee.id}`} />
+                  <Label htmlFor={`keep-payee-${payee.id}`} className="font-normal">Keep &quot;{payee.name}&quot;</Label>
+                </div>
+              ))}
+            </RadioGroup>
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isMerging}>Cancel</AlertDialogCancel>
+            <Button onClick={handleMerge} disabled={isMerging}>
+              <Merge className="mr-2 h-4 w-4" /> {isMerging ? "Merging..." : "Merge"}
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -4,7 +4,7 @@
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import type * as z from "zod";
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 
 import { Button } from "@/components/ui/button";
 import {
@@ -17,10 +17,13 @@ import {
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { payeeSchema } from "@/lib/schemas";
+import { PayeeAliasFields } from "@/components/payees/payee-alias-fields";
 import { useAppContext } from "@/context/AppContext";
 import type { Payee, PayeeWithId } from "@/types"; // Import Payee and PayeeWithId
-import { CheckCircle } from "lucide-react";
+import { CheckCircle, Trash2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { UndoToastAction } from "@/components/layout/undo-redo";
+import { DeletePayeeDialog } from "@/components/payees/delete-payee-dialog";
 
 interface EditPayeeFormProps {
   payee: Payee;
@@ -30,6 +33,7 @@ interface EditPayeeFormProps {
 export function EditPayeeForm({ payee, onSuccess }: EditPayeeFormProps) {
   const { updatePayee } = useAppContext(); // Use updatePayee from context
   const { toast } = useToast();
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
 
   const form = useForm<z.infer<typeof payeeSchema>>({
     resolver: zodResolver(payeeSchema),
@@ -37,6 +41,7 @@ export function EditPayeeForm({ payee, onSuccess }: EditPayeeFormProps) {
     defaultValues: { // Provide defaults to ensure controlled state initially
       name: "",
       category: "",
+      aliases: [],
     }
   });
 
@@ -46,20 +51,23 @@ export function EditPayeeForm({ payee, onSuccess }: EditPayeeFormProps) {
       form.reset({
         name: payee.name,
         category: payee.category || "", // Ensure category is an empty string if undefined
+        aliases: payee.aliases ?? [],
       });
     }
   }, [payee, form]);
 
-  function onSubmit(values: z.infer<typeof payeeSchema>) {
+  async function onSubmit(values: z.infer<typeof payeeSchema>) {
     const updatedPayeeData: PayeeWithId = {
       id: payee.id, // Include the ID for the update function
       name: values.name,
       ...(values.category && { category: values.category }), // Only include category if provided
+      aliases: values.aliases ?? [],
     };
-    updatePayee(updatedPayeeData);
+    await updatePayee(updatedPayeeData);
     toast({
       title: "Payee Updated",
       description: `Payee "${values.name}" has been successfully updated.`,
+      action: <UndoToastAction />,
     });
     if (onSuccess) onSuccess();
   }
@@ -94,10 +102,17 @@ export function EditPayeeForm({ payee, onSuccess }: EditPayeeFormProps) {
             </FormItem>
           )}
         />
-        <Button type="submit" className="w-full sm:w-auto">
-          <CheckCircle className="mr-2 h-4 w-4" /> Save Changes
-        </Button>
+        <PayeeAliasFields />
+        <div className="flex flex-col-reverse gap-2 sm:flex-row sm:justify-between">
+          <Button type="button" variant="outline" className="text-destructive hover:text-destructive" onClick={() => setIsDeleteDialogOpen(true)}>
+            <Trash2 className="mr-2 h-4 w-4" /> Delete or Merge
+          </Button>
+          <Button type="submit" className="w-full sm:w-auto">
+            <CheckCircle className="mr-2 h-4 w-4" /> Save Changes
+          </Button>
+        </div>
       </form>
+      <DeletePayeeDialog payee={payee} open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen} onDeleted={onSuccess} />
     </Form>
   );
 }
@@ -0,0 +1,95 @@
+"use client";
+
+import { useFieldArray, useFormContext } from "react-hook-form";
+import type * as z from "zod";
+import { Button } from "@/components/ui/button";
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { payeeSchema } from "@/lib/schemas";
+import { payeeAliasMatchLabels, payeeAliasMatches } from "@/lib/payees";
+import { PlusCircle, Trash2 } from "lucide-react";
+
+/**
+ * Line editor for the other names a payee goes by. Must be rendered inside a <Form> for the payee schema;
+ * imported and typed payee names that match an alias resolve to this payee.
+ */
+export function PayeeAliasFields() {
+  const form = useFormContext<z.infer<typeof payeeSchema>>();
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: "aliases" });
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <FormLabel>Aliases (Optional)</FormLabel>
+        <FormDescription>Other names this payee appears as, such as on bank statements.</FormDescription>
+      </div>
+      {fields.map((alias, index) => (
+        <div key={alias.id} className="grid grid-cols-[130px_1fr_auto] gap-2 items-start">
+          <FormField
+            control={form.control}
+            name={`aliases.${index}.match`}
+            render={({ field }) => (
+              <FormItem>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger aria-label="How the alias matches">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {payeeAliasMatches.map(match => (
+                      <SelectItem key={match} value={match}>{payeeAliasMatchLabels[match]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name={`aliases.${index}.pattern`}
+            render={({ field }) => (
+              <FormItem>
+                <FormControl>
+                  <Input
+                    placeholder={form.watch(`aliases.${index}.match`) === "regex" ? "e.g., ^amzn\\s+mktp" : "e.g., AMZN Mktp"}
+                    {...field}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="text-muted-foreground hover:text-destructive"
+            onClick={() => remove(index)}
+          >
+            <Trash2 className="h-4 w-4" />
+            <span className="sr-only">Remove alias</span>
+          </Button>
+        </div>
+      ))}
+      <Button type="button" variant="outline" size="sm" onClick={() => append({ match: "contains", pattern: "" })}>
+        <PlusCircle className="mr-2 h-4 w-4" /> Add Alias
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,406 @@
+"use client";
+
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import type * as z from "zod";
+import { format, parseISO } from "date-fns";
+import { useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { MoneyInput } from "@/components/ui/money-input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Calendar } from "@/components/ui/calendar";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { recurringTransactionSchema } from "@/lib/schemas";
+import { recurrenceFrequencyOptions } from "@/lib/recurrence";
+import { toMajorUnits } from "@/lib/money";
+import { useAppContext } from "@/context/AppContext";
+import type { RecurringTransaction, RecurringTransactionFormData, TransactionType } from "@/types";
+import { CalendarIcon, Save } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { UndoToastAction } from "@/components/layout/undo-redo";
+
+type RecurringFormValues = z.infer<typeof recurringTransactionSchema>;
+
+interface RecurringTransactionFormProps {
+  recurringTransaction?: RecurringTransaction; // Edit this rule instead of creating one
+  onSuccess?: () => void;
+}
+
+export function RecurringTransactionForm({ recurringTransaction, onSuccess }: RecurringTransactionFormProps) {
+  const { accounts, envelopes, payees, addRecurringTransaction, updateRecurringTransaction } = useAppContext();
+  const { toast } = useToast();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const form = useForm<RecurringFormValues>({
+    resolver: zodResolver(recurringTransactionSchema),
+    defaultValues: recurringTransaction ? {
+      accountId: recurringTransaction.accountId,
+      payeeId: recurringTransaction.payeeId,
+      envelopeId: recurringTransaction.envelopeId || null,
+      amount: recurringTransaction.amount,
+      type: recurringTransaction.type,
+      description: recurringTransaction.description || "",
+      isActualIncome: recurringTransaction.isActualIncome || false,
+      frequency: recurringTransaction.frequency,
+      dayOfMonth: recurringTransaction.dayOfMonth,
+      intervalMonths: recurringTransaction.intervalMonths,
+      startDate: recurringTransaction.startDate,
+      endDate: recurringTransaction.endDate || "",
+      autoPost: recurringTransaction.autoPost,
+    } : {
+      accountId: accounts.length > 0 ? accounts[0].id : "",
+      payeeId: payees.length > 0 ? payees[0].id : "",
+      envelopeId: null,
+      amount: 0,
+      type: "outflow",
+      description: "",
+      isActualIncome: false,
+      frequency: "monthly",
+      dayOfMonth: undefined,
+      intervalMonths: undefined,
+      startDate: format(new Date(), "yyyy-MM-dd"),
+      endDate: "",
+      autoPost: false,
+    },
+  });
+
+  const transactionType = form.watch("type");
+  const frequency = form.watch("frequency");
+  const isActualIncome = form.watch("isActualIncome");
+  const isMonthBased = frequency === "monthly" || frequency === "everyNMonths";
+
+  // Bills usually follow the envelope's due day, so offer it when none is set yet
+  const handleEnvelopeChange = (envelopeId: string) => {
+    form.setValue("envelopeId", envelopeId || null);
+    const envelope = envelopes.find(env => env.id === envelopeId);
+    if (envelope?.dueDate && !form.getValues("dayOfMonth")) {
+      form.setValue("dayOfMonth", envelope.dueDate);
+    }
+  };
+
+  async function onSubmit(values: RecurringFormValues) {
+    setIsSubmitting(true);
+    const ruleData: RecurringTransactionFormData = {
+      ...values,
+      description: values.description || undefined,
+      envelopeId: values.type === 'inflow' && values.isActualIncome ? null : values.envelopeId,
+      isActualIncome: values.type === 'inflow' ? (values.isActualIncome || false) : false,
+      dayOfMonth: isMonthBased ? values.dayOfMonth : undefined,
+      intervalMonths: values.frequency === 'everyNMonths' ? values.intervalMonths : undefined,
+      endDate: values.endDate || undefined,
+    };
+
+    try {
+      if (recurringTransaction) {
+        await updateRecurringTransaction({ ...ruleData, id: recurringTransaction.id });
+      } else {
+        await addRecurringTransaction(ruleData);
+      }
+      toast({
+        title: recurringTransaction ? "Recurring Transaction Updated" : "Recurring Transaction Added",
+        description: `$${toMajorUnits(values.amount).toFixed(2)} ${recurrenceFrequencyOptions.find(o => o.value === values.frequency)?.label.toLowerCase()} has been saved.`,
+        action: <UndoToastAction />,
+      });
+      if (onSuccess) onSuccess();
+    } catch (error) {
+      toast({
+        title: "Error Saving Recurring Transaction",
+        description: (error as Error)?.message || "Could not save the recurring transaction. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  const renderDatePicker = (name: "startDate" | "endDate", label: string, placeholder: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem className="flex flex-col">
+          <FormLabel>{label}</FormLabel>
+          <Popover>
+            <PopoverTrigger asChild>
+              <FormControl>
+                <Button
+                  variant={"outline"}
+                  className={cn("w-full pl-3 text-left font-normal", !field.value && "text-muted-foreground")}
+                >
+                  {field.value ? format(parseISO(field.value), "PPP") : <span>{placeholder}</span>}
+                  <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                </Button>
+              </FormControl>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="start">
+              <Calendar
+                mode="single"
+                selected={field.value ? parseISO(field.value) : undefined}
+                onSelect={(date) => field.onChange(date ? format(date, "yyyy-MM-dd") : "")}
+                initialFocus
+              />
+            </PopoverContent>
+          </Popover>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <FormField
+          control={form.control}
+          name="type"
+          render={({ field }) => (
+            <FormItem className="space-y-3">
+              <FormLabel>Transaction Type</FormLabel>
+              <FormControl>
+                <RadioGroup
+                  onValueChange={(value) => {
+                    field.onChange(value as TransactionType);
+                    form.setValue("isActualIncome", false);
+                  }}
+                  value={field.value}
+                  className="flex flex-row space-x-4"
+                >
+                  <FormItem className="flex items-center space-x-3 space-y-0">
+                    <FormControl><RadioGroupItem value="outflow" /></FormControl>
+                    <FormLabel className="font-normal">Outflow</FormLabel>
+                  </FormItem>
+                  <FormItem className="flex items-center space-x-3 space-y-0">
+                    <FormControl><RadioGroupItem value="inflow" /></FormControl>
+                    <FormLabel className="font-normal">Inflow</FormLabel>
+                  </FormItem>
+                </RadioGroup>
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {transactionType === 'inflow' && (
+          <FormField
+            control={form.control}
+            name="isActualIncome"
+            render={({ field }) => (
+              <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4 shadow-sm">
+                <FormControl>
+                  <Checkbox checked={field.value} onCheckedChange={field.onChange} />
+                </FormControl>
+                <div className="space-y-1 leading-none">
+                  <FormLabel>Mark as Actual Income?</FormLabel>
+                  <FormDescription>Check this for income such as a salary.</FormDescription>
+                </div>
+              </FormItem>
+            )}
+          />
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="accountId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Account</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value ?? ""}>
+                  <FormControl>
+                    <SelectTrigger><SelectValue placeholder="Select an account" /></SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {accounts.map(account => (
+                      <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="payeeId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Payee</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value ?? ""}>
+                  <FormControl>
+                    <SelectTrigger><SelectValue placeholder="Select a payee" /></SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {payees.map(payee => (
+                      <SelectItem key={payee.id} value={payee.id}>{payee.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        {!(transactionType === 'inflow' && isActualIncome) && (
+          <FormField
+            control={form.control}
+            name="envelopeId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Envelope</FormLabel>
+                <Select onValueChange={handleEnvelopeChange} value={field.value ?? ""}>
+                  <FormControl>
+                    <SelectTrigger><SelectValue placeholder="Select an envelope" /></SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {envelopes.map(envelope => (
+                      <SelectItem key={envelope.id} value={envelope.id}>
+                        {envelope.name} ({envelope.category})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="amount"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Amount</FormLabel>
+                <FormControl>
+                  <MoneyInput placeholder="0.00" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="description"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Description (Optional)</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g., Rent, Netflix" {...field} value={field.value ?? ""} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="frequency"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Repeats</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {recurrenceFrequencyOptions.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {isMonthBased && (
+            <FormField
+              control={form.control}
+              name="dayOfMonth"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Day of Month</FormLabel>
+                  <FormControl>
+                    <Input type="number" min={1} max={31} placeholder="Start date's day" {...field} value={field.value ?? ""} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+        </div>
+
+        {frequency === 'everyNMonths' && (
+          <FormField
+            control={form.control}
+            name="intervalMonths"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Months Between Occurrences</FormLabel>
+                <FormControl>
+                  <Input type="number" min={2} max={24} placeholder="e.g., 3 for quarterly" {...field} value={field.value ?? ""} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {renderDatePicker("startDate", "Starts", "Pick a date")}
+          {renderDatePicker("endDate", "Ends (Optional)", "Never")}
+        </div>
+
+        <FormField
+          control={form.control}
+          name="autoPost"
+          render={({ field }) => (
+            <FormItem className="flex flex-row items-center justify-between rounded-md border p-4 shadow-sm">
+              <div className="space-y-1 leading-none">
+                <FormLabel>Post Automatically</FormLabel>
+                <FormDescription>
+                  Create the transaction on its due date. Otherwise it waits in Upcoming for you to confirm.
+                </FormDescription>
+              </div>
+              <FormControl>
+                <Switch checked={field.value} onCheckedChange={field.onChange} />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+
+        <Button type="submit" className="w-full sm:w-auto" disabled={isSubmitting || accounts.length === 0 || payees.length === 0}>
+          <Save className="mr-2 h-4 w-4" />
+          {isSubmitting ? "Saving..." : recurringTransaction ? "Save Changes" : "Add Recurring Transaction"}
+        </Button>
+      </form>
+    </Form>
+  );
+}
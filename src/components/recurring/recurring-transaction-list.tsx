@@ -0,0 +1,110 @@
+"use client";
+
+import { format, parseISO } from "date-fns";
+import { useAppContext } from "@/context/AppContext";
+import { describeRecurrence, isRecurrenceFinished } from "@/lib/recurrence";
+import { toMajorUnits } from "@/lib/money";
+import type { RecurringTransaction } from "@/types";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Pencil, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { UndoToastAction } from "@/components/layout/undo-redo";
+
+interface RecurringTransactionListProps {
+  onEdit: (recurringTransaction: RecurringTransaction) => void;
+}
+
+export function RecurringTransactionList({ onEdit }: RecurringTransactionListProps) {
+  const { recurringTransactions, payees, envelopes, accounts, deleteRecurringTransaction } = useAppContext();
+  const { toast } = useToast();
+
+  const handleDelete = (rule: RecurringTransaction) => {
+    deleteRecurringTransaction(rule.id)
+      .then(() => {
+        toast({ title: "Recurring Transaction Deleted", description: "Already posted transactions were kept.", variant: "destructive", action: <UndoToastAction /> });
+      })
+      .catch((error) => {
+        toast({
+          title: "Error Deleting Recurring Transaction",
+          description: (error as Error)?.message || "Please try again.",
+          variant: "destructive",
+        });
+      });
+  };
+
+  return (
+    <div className="space-y-3">
+      {recurringTransactions.map(rule => {
+        const payee = payees.find(p => p.id === rule.payeeId);
+        const envelope = envelopes.find(e => e.id === rule.envelopeId);
+        const account = accounts.find(a => a.id === rule.accountId);
+        const isFinished = isRecurrenceFinished(rule);
+
+        return (
+          <Card key={rule.id} className={cn("p-4 flex items-center justify-between gap-3", isFinished && "opacity-60")}>
+            <div className="min-w-0 flex-1">
+              <div className="flex items-center gap-2 flex-wrap">
+                <p className="text-sm font-medium truncate">{payee?.name || "Unknown payee"}</p>
+                {envelope && <Badge variant="outline">{envelope.name}</Badge>}
+                {rule.autoPost && <Badge variant="secondary">Auto-post</Badge>}
+                {isFinished && <Badge variant="secondary">Ended</Badge>}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {describeRecurrence(rule)} · {account?.name || "N/A"}
+                {!isFinished && ` · Next ${format(parseISO(rule.nextDueDate), "MMM d, yyyy")}`}
+              </p>
+            </div>
+            <span className={cn(
+              "text-sm font-semibold whitespace-nowrap",
+              rule.type === 'inflow' ? 'text-green-600 dark:text-green-500' : 'text-red-600 dark:text-red-500'
+            )}>
+              {rule.type === 'inflow' ? '+' : '-'}${toMajorUnits(rule.amount).toFixed(2)}
+            </span>
+            <div className="flex space-x-1">
+              <Button variant="ghost" size="icon" className="text-muted-foreground hover:text-primary h-7 w-7" onClick={() => onEdit(rule)}>
+                <Pencil className="h-4 w-4" />
+                <span className="sr-only">Edit Recurring Transaction</span>
+              </Button>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="ghost" size="icon" className="text-muted-foreground hover:text-destructive h-7 w-7">
+                    <Trash2 className="h-4 w-4" />
+                    <span className="sr-only">Delete Recurring Transaction</span>
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Delete this recurring transaction?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      No more transactions will be created for {payee ? `"${payee.name}"` : "this payee"}. Transactions it already posted are kept.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={() => handleDelete(rule)} className={cn("bg-destructive text-destructive-foreground hover:bg-destructive/90")}>
+                      Delete
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+"use client";
+
+import { useState } from "react";
+import { addDays, format, parseISO } from "date-fns";
+import { useAppContext } from "@/context/AppContext";
+import { getOccurrencesThrough } from "@/lib/recurrence";
+import { toMajorUnits } from "@/lib/money";
+import type { RecurringTransaction } from "@/types";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { CalendarClock, Check, SkipForward } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { UndoToastAction } from "@/components/layout/undo-redo";
+
+interface UpcomingOccurrence {
+  rule: RecurringTransaction;
+  date: string; // "YYYY-MM-DD"
+  isNext: boolean; // Only a rule's next occurrence can be posted or skipped
+}
+
+interface UpcomingTransactionsListProps {
+  days?: number; // How far ahead to look
+}
+
+export function UpcomingTransactionsList({ days = 30 }: UpcomingTransactionsListProps) {
+  const { recurringTransactions, payees, accounts, postRecurringTransaction, skipRecurringTransaction } = useAppContext();
+  const { toast } = useToast();
+  const [busyRuleId, setBusyRuleId] = useState<string | null>(null);
+
+  const today = format(new Date(), "yyyy-MM-dd");
+  const horizon = format(addDays(new Date(), days), "yyyy-MM-dd");
+
+  const occurrences: UpcomingOccurrence[] = recurringTransactions
+    .flatMap(rule => getOccurrencesThrough(rule, horizon, 10).map((date, index) => ({ rule, date, isNext: index === 0 })))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const handleAction = async (rule: RecurringTransaction, action: "post" | "skip") => {
+    setBusyRuleId(rule.id);
+    try {
+      if (action === "post") {
+        await postRecurringTransaction(rule.id);
+      } else {
+        await skipRecurringTransaction(rule.id);
+      }
+      toast({
+        title: action === "post" ? "Transaction Posted" : "Occurrence Skipped",
+        description: `${payees.find(p => p.id === rule.payeeId)?.name || "Transaction"} for ${format(parseISO(rule.nextDueDate), "MMM d")}.`,
+        action: <UndoToastAction />,
+      });
+    } catch (error) {
+      toast({
+        title: action === "post" ? "Error Posting Transaction" : "Error Skipping Occurrence",
+        description: (error as Error)?.message || "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyRuleId(null);
+    }
+  };
+
+  if (occurrences.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center text-center border-2 border-dashed rounded-lg p-6 bg-muted/20">
+        <CalendarClock className="h-10 w-10 text-muted-foreground mb-2" />
+        <p className="text-sm text-muted-foreground">Nothing due in the next {days} days.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {occurrences.map(({ rule, date, isNext }) => {
+        const payee = payees.find(p => p.id === rule.payeeId);
+        const account = accounts.find(a => a.id === rule.accountId);
+        const isOverdue = date < today;
+        const isDueToday = date === today;
+
+        return (
+          <div key={`${rule.id}-${date}`} className={cn("flex items-center justify-between gap-3 rounded-md border p-3", isOverdue && "border-destructive/50")}>
+            <div className="min-w-0 flex-1">
+              <div className="flex items-center gap-2">
+                <p className="text-sm font-medium truncate">{payee?.name || "Unknown payee"}</p>
+                {isOverdue && <Badge variant="destructive">Overdue</Badge>}
+                {isDueToday && <Badge>Due today</Badge>}
+                {rule.autoPost && <Badge variant="secondary">Auto</Badge>}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {format(parseISO(date), "EEE, MMM d, yyyy")} · {account?.name || "N/A"}
+                {rule.description ? ` · ${rule.description}` : ""}
+              </p>
+            </div>
+            <span className={cn(
+              "text-sm font-semibold whitespace-nowrap",
+              rule.type === 'inflow' ? 'text-green-600 dark:text-green-500' : 'text-red-600 dark:text-red-500'
+            )}>
+              {rule.type === 'inflow' ? '+' : '-'}${toMajorUnits(rule.amount).toFixed(2)}
+            </span>
+            {isNext && (
+              <div className="flex gap-1">
+                <Button size="sm" variant={isOverdue || isDueToday ? "default" : "outline"} disabled={busyRuleId === rule.id} onClick={() => handleAction(rule, "post")}>
+                  <Check className="mr-1 h-4 w-4" /> Post
+                </Button>
+                <Button size="icon" variant="ghost" className="h-8 w-8 text-muted-foreground" disabled={busyRuleId === rule.id} onClick={() => handleAction(rule, "skip")}>
+                  <SkipForward className="h-4 w-4" />
+                  <span className="sr-only">Skip this occurrence</span>
+                </Button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+"use client";
+
+import { useState } from "react";
+import { format, parseISO, startOfMonth, subMonths } from "date-fns";
+import { useAppContext } from "@/context/AppContext";
+import { toMajorUnits } from "@/lib/money";
+import type { TransactionRuleMatch } from "@/types";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Eye, Play } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { UndoToastAction } from "@/components/layout/undo-redo";
+
+/**
+ * Runs the rules over the transactions in a date range. Nothing is saved until the preview of what would change
+ * has been reviewed, and any row can be left out.
+ */
+export function RunTransactionRules() {
+  const { payees, envelopes, transactionRules, previewTransactionRules, applyTransactionRuleMatches } = useAppContext();
+  const { toast } = useToast();
+  const [from, setFrom] = useState(() => format(startOfMonth(subMonths(new Date(), 2)), "yyyy-MM-dd"));
+  const [to, setTo] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [overwrite, setOverwrite] = useState(false);
+  const [matches, setMatches] = useState<TransactionRuleMatch[] | null>(null);
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const hasEnabledRules = transactionRules.some(rule => rule.enabled);
+  const selected = (matches ?? []).filter(match => !excluded.has(match.transaction.id));
+
+  // A new range or mode needs a new preview
+  const resetPreview = () => {
+    setMatches(null);
+    setExcluded(new Set());
+  };
+
+  const payeeName = (id: string) => payees.find(payee => payee.id === id)?.name ?? "Unknown payee";
+  const envelopeName = (id?: string) => envelopes.find(envelope => envelope.id === id)?.name ?? "No envelope";
+
+  const describeChanges = ({ transaction, changes }: TransactionRuleMatch): string[] => {
+    const parts: string[] = [];
+    if (changes.isActualIncome) parts.push(`${transaction.envelopeId ? `${envelopeName(transaction.envelopeId)} → ` : ""}Actual income`);
+    else if (changes.envelopeId) {
+      parts.push(`${transaction.isActualIncome ? "Actual income" : envelopeName(transaction.envelopeId)} → ${envelopeName(changes.envelopeId)}`);
+    }
+    if (changes.payeeId) parts.push(`${payeeName(transaction.payeeId)} → ${payeeName(changes.payeeId)}`);
+    if (changes.description !== undefined) parts.push(`Description → "${changes.description}"`);
+    return parts;
+  };
+
+  const handlePreview = async () => {
+    setIsPreviewing(true);
+    try {
+      setMatches(await previewTransactionRules(from, to, overwrite));
+      setExcluded(new Set());
+    } catch (error) {
+      toast({ title: "Error Previewing Rules", description: (error as Error)?.message || "Please try again.", variant: "destructive" });
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    try {
+      const count = await applyTransactionRuleMatches(selected);
+      toast({
+        title: "Rules Applied",
+        description: `${count} transaction${count === 1 ? " was" : "s were"} updated.`,
+        action: <UndoToastAction />,
+      });
+      resetPreview();
+    } catch (error) {
+      toast({ title: "Error Applying Rules", description: (error as Error)?.message || "Please try again.", variant: "destructive" });
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const toggle = (transactionId: string, include: boolean) => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      if (include) next.delete(transactionId);
+      else next.add(transactionId);
+      return next;
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="rules-from">From</Label>
+          <Input id="rules-from" type="date" value={from} onChange={e => { setFrom(e.target.value); resetPreview(); }} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="rules-to">To</Label>
+          <Input id="rules-to" type="date" value={to} onChange={e => { setTo(e.target.value); resetPreview(); }} />
+        </div>
+        <Button onClick={handlePreview} disabled={isPreviewing || !from || !to || !hasEnabledRules} variant="outline">
+          <Eye className="mr-2 h-4 w-4" /> {isPreviewing ? "Checking..." : "Preview Changes"}
+        </Button>
+      </div>
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id="rules-overwrite"
+          checked={overwrite}
+          onCheckedChange={checked => { setOverwrite(checked === true); resetPreview(); }}
+        />
+        <Label htmlFor="rules-overwrite" className="font-normal">
+          Replace envelopes and payees already set, not only fill in missing ones
+        </Label>
+      </div>
+
+      {matches !== null && (matches.length === 0 ? (
+        <p className="text-sm text-muted-foreground">The rules wouldn&apos;t change any transactions in this range.</p>
+      ) : (
+        <>
+          <ScrollArea className="h-[320px] rounded-md border">
+            <Table>
+              <TableHeader className="sticky top-0 bg-card z-10">
+                <TableRow>
+                  <TableHead className="w-[40px]" />
+                  <TableHead>Date</TableHead>
+                  <TableHead>Transaction</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead>Changes</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {matches.map(match => {
+                  const { transaction } = match;
+                  const isIncluded = !excluded.has(transaction.id);
+                  const ruleNames = match.ruleIds.map(id => transactionRules.find(rule => rule.id === id)?.name).filter(Boolean);
+                  return (
+                    <TableRow key={transaction.id} className={cn(!isIncluded && "opacity-60")}>
+                      <TableCell>
+                        <Checkbox
+                          checked={isIncluded}
+                          onCheckedChange={checked => toggle(transaction.id, checked === true)}
+                          aria-label="Apply to this transaction"
+                        />
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap text-xs">{format(parseISO(transaction.date), "MMM d, yyyy")}</TableCell>
+                      <TableCell>
+                        <div className="text-sm font-medium">{payeeName(transaction.payeeId)}</div>
+                        {transaction.description && <div className="text-xs text-muted-foreground">{transaction.description}</div>}
+                      </TableCell>
+                      <TableCell className={cn(
+                        "text-right font-semibold whitespace-nowrap",
+                        transaction.type === 'inflow' ? 'text-green-600 dark:text-green-500' : 'text-red-600 dark:text-red-500'
+                      )}>
+                        {`${transaction.type === 'inflow' ? '+' : '-'}$${toMajorUnits(transaction.amount).toFixed(2)}`}
+                      </TableCell>
+                      <TableCell>
+                        {describeChanges(match).map(change => <div key={change} className="text-xs">{change}</div>)}
+                        <div className="text-xs text-muted-foreground">by {ruleNames.join(", ")}</div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+          <Button onClick={handleApply} disabled={isApplying || selected.length === 0} className="w-full sm:w-auto">
+            <Play className="mr-2 h-4 w-4" />
+            {isApplying ? "Applying..." : `Apply to ${selected.length} Transaction${selected.length === 1 ? "" : "s"}`}
+          </Button>
+        </>
+      ))}
+    </div>
+  );
+}
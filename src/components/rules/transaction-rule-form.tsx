@@ -0,0 +1,339 @@
+"use client";
+
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import type * as z from "zod";
+import { useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { MoneyInput } from "@/components/ui/money-input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { transactionRuleSchema } from "@/lib/schemas";
+import { transactionRuleTextMatchLabels, transactionRuleTextMatches } from "@/lib/transaction-rules";
+import { useAppContext } from "@/context/AppContext";
+import type { TransactionRule, TransactionRuleFormData } from "@/types";
+import { Save } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { UndoToastAction } from "@/components/layout/undo-redo";
+
+type RuleFormValues = z.infer<typeof transactionRuleSchema>;
+
+// Select value for conditions and actions the rule leaves alone
+const ANY_OPTION = "__any__";
+
+interface TransactionRuleFormProps {
+  rule?: TransactionRule; // Edit this rule instead of creating one
+  onSuccess?: () => void;
+}
+
+const toRuleData = (values: RuleFormValues): TransactionRuleFormData => ({
+  name: values.name,
+  enabled: values.enabled,
+  conditions: {
+    payeeId: values.conditions.payeeId || undefined,
+    description: values.conditions.description.pattern ? values.conditions.description : undefined,
+    type: values.conditions.type,
+    minAmount: values.conditions.minAmount,
+    maxAmount: values.conditions.maxAmount,
+    accountId: values.conditions.accountId || undefined,
+  },
+  actions: {
+    envelopeId: values.actions.envelopeId || undefined,
+    payeeId: values.actions.payeeId || undefined,
+    markAsIncome: values.actions.markAsIncome || undefined,
+    memo: values.actions.memo || undefined,
+  },
+});
+
+export function TransactionRuleForm({ rule, onSuccess }: TransactionRuleFormProps) {
+  const { accounts, envelopes, payees, addTransactionRule, updateTransactionRule } = useAppContext();
+  const { toast } = useToast();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const form = useForm<RuleFormValues>({
+    resolver: zodResolver(transactionRuleSchema),
+    defaultValues: {
+      name: rule?.name ?? "",
+      enabled: rule?.enabled ?? true,
+      conditions: {
+        payeeId: rule?.conditions.payeeId ?? "",
+        description: rule?.conditions.description ?? { match: "contains", pattern: "" },
+        type: rule?.conditions.type,
+        minAmount: rule?.conditions.minAmount,
+        maxAmount: rule?.conditions.maxAmount,
+        accountId: rule?.conditions.accountId ?? "",
+      },
+      actions: {
+        envelopeId: rule?.actions.envelopeId ?? "",
+        payeeId: rule?.actions.payeeId ?? "",
+        markAsIncome: rule?.actions.markAsIncome ?? false,
+        memo: rule?.actions.memo ?? "",
+      },
+    },
+  });
+
+  const descriptionMatch = form.watch("conditions.description.match");
+  const conditionsError = form.formState.errors.conditions?.message;
+  const actionsError = form.formState.errors.actions?.message;
+
+  async function onSubmit(values: RuleFormValues) {
+    setIsSubmitting(true);
+    const ruleData = toRuleData(values);
+    try {
+      if (rule) {
+        await updateTransactionRule({ ...ruleData, id: rule.id });
+      } else {
+        await addTransactionRule(ruleData);
+      }
+      toast({
+        title: rule ? "Rule Updated" : "Rule Added",
+        description: `"${ruleData.name}" has been saved.`,
+        action: <UndoToastAction />,
+      });
+      if (onSuccess) onSuccess();
+    } catch (error) {
+      toast({
+        title: "Error Saving Rule",
+        description: (error as Error)?.message || "Could not save the rule. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  // A Select bound to an optional id, with a first option for "no choice"
+  const renderOptionalSelect = (
+    name: "conditions.payeeId" | "conditions.accountId" | "actions.envelopeId" | "actions.payeeId",
+    label: string,
+    anyLabel: string,
+    options: { id: string; name: string }[],
+  ) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <Select onValueChange={value => field.onChange(value === ANY_OPTION ? "" : value)} value={field.value || ANY_OPTION}>
+            <FormControl>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              <SelectItem value={ANY_OPTION}>{anyLabel}</SelectItem>
+              {options.map(option => (
+                <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Rule Name</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g., Coffee shops" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="space-y-4 rounded-md border p-4">
+          <div>
+            <h3 className="text-sm font-semibold">When a transaction matches all of these</h3>
+            <p className="text-xs text-muted-foreground">Leave a condition empty to match anything.</p>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {renderOptionalSelect("conditions.payeeId", "Payee", "Any payee", payees)}
+            {renderOptionalSelect("conditions.accountId", "Account", "Any account", accounts)}
+          </div>
+
+          <div className="space-y-2">
+            <FormLabel>Description</FormLabel>
+            <div className="grid grid-cols-[150px_1fr] gap-2 items-start">
+              <FormField
+                control={form.control}
+                name="conditions.description.match"
+                render={({ field }) => (
+                  <FormItem>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger aria-label="How the description matches"><SelectValue /></SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {transactionRuleTextMatches.map(match => (
+                          <SelectItem key={match} value={match}>{transactionRuleTextMatchLabels[match]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="conditions.description.pattern"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl>
+                      <Input placeholder={descriptionMatch === "regex" ? "e.g., ^uber\\s+(eats|trip)" : "e.g., starbucks"} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <FormField
+              control={form.control}
+              name="conditions.type"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Direction</FormLabel>
+                  <Select onValueChange={value => field.onChange(value === ANY_OPTION ? undefined : value)} value={field.value ?? ANY_OPTION}>
+                    <FormControl>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={ANY_OPTION}>In or out</SelectItem>
+                      <SelectItem value="outflow">Outflow</SelectItem>
+                      <SelectItem value="inflow">Inflow</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="conditions.minAmount"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>At Least</FormLabel>
+                  <FormControl>
+                    <MoneyInput placeholder="Any" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="conditions.maxAmount"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>At Most</FormLabel>
+                  <FormControl>
+                    <MoneyInput placeholder="Any" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+          {conditionsError && <p className="text-sm font-medium text-destructive">{conditionsError}</p>}
+        </div>
+
+        <div className="space-y-4 rounded-md border p-4">
+          <div>
+            <h3 className="text-sm font-semibold">Then</h3>
+            <p className="text-xs text-muted-foreground">
+              New transactions only get an envelope or payee they don&apos;t already have.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {renderOptionalSelect("actions.envelopeId", "File Under Envelope", "Leave as is",
+              envelopes.map(envelope => ({ id: envelope.id, name: `${envelope.name} (${envelope.category})` })))}
+            {renderOptionalSelect("actions.payeeId", "Set Payee", "Leave as is", payees)}
+          </div>
+
+          <FormField
+            control={form.control}
+            name="actions.markAsIncome"
+            render={({ field }) => (
+              <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+                <FormControl>
+                  <Checkbox checked={field.value} onCheckedChange={checked => field.onChange(checked === true)} />
+                </FormControl>
+                <div className="space-y-1 leading-none">
+                  <FormLabel>Mark inflows as actual income</FormLabel>
+                  <FormDescription>Takes the place of an envelope for inflows; outflows are filed as above.</FormDescription>
+                  <FormMessage />
+                </div>
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="actions.memo"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Add Memo</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g., Work expense" {...field} value={field.value ?? ""} />
+                </FormControl>
+                <FormDescription>Added to the end of the description.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {actionsError && <p className="text-sm font-medium text-destructive">{actionsError}</p>}
+        </div>
+
+        <FormField
+          control={form.control}
+          name="enabled"
+          render={({ field }) => (
+            <FormItem className="flex flex-row items-center justify-between rounded-md border p-4 shadow-sm">
+              <div className="space-y-1 leading-none">
+                <FormLabel>Enabled</FormLabel>
+                <FormDescription>Disabled rules are kept but never run.</FormDescription>
+              </div>
+              <FormControl>
+                <Switch checked={field.value} onCheckedChange={field.onChange} />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+
+        <Button type="submit" className="w-full sm:w-auto" disabled={isSubmitting}>
+          <Save className="mr-2 h-4 w-4" />
+          {isSubmitting ? "Saving..." : rule ? "Save Changes" : "Add Rule"}
+        </Button>
+      </form>
+    </Form>
+  );
+}
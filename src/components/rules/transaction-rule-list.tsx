@@ -0,0 +1,176 @@
+"use client";
+
+import { useAppContext } from "@/context/AppContext";
+import { formatMoney } from "@/lib/currency";
+import { transactionRuleTextMatchLabels } from "@/lib/transaction-rules";
+import type { TransactionRule } from "@/types";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { ChevronDown, ChevronUp, Pencil, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { UndoToastAction } from "@/components/layout/undo-redo";
+
+interface TransactionRuleListProps {
+  onEdit: (rule: TransactionRule) => void;
+}
+
+/**
+ * The rules in the order they run, with what each one looks for and does. The first rule to set a field wins
+ * it, so moving a rule up gives it priority.
+ */
+export function TransactionRuleList({ onEdit }: TransactionRuleListProps) {
+  const {
+    transactionRules, payees, envelopes, accounts, currencySettings, getAccountCurrency,
+    updateTransactionRule, deleteTransactionRule, reorderTransactionRules,
+  } = useAppContext();
+  const { toast } = useToast();
+
+  const nameOf = (list: { id: string; name: string }[], id: string, fallback: string) =>
+    list.find(item => item.id === id)?.name ?? fallback;
+
+  const describeConditions = (rule: TransactionRule): string[] => {
+    const { conditions } = rule;
+    const currency = conditions.accountId ? getAccountCurrency(conditions.accountId) : currencySettings.baseCurrency;
+    const parts: string[] = [];
+    if (conditions.type) parts.push(conditions.type === "inflow" ? "Inflows" : "Outflows");
+    if (conditions.payeeId) parts.push(`payee is ${nameOf(payees, conditions.payeeId, "a deleted payee")}`);
+    if (conditions.description) {
+      parts.push(`description ${transactionRuleTextMatchLabels[conditions.description.match].toLowerCase()} "${conditions.description.pattern}"`);
+    }
+    if (conditions.minAmount !== undefined && conditions.maxAmount !== undefined) {
+      parts.push(`${formatMoney(conditions.minAmount, currency)} to ${formatMoney(conditions.maxAmount, currency)}`);
+    } else if (conditions.minAmount !== undefined) {
+      parts.push(`at least ${formatMoney(conditions.minAmount, currency)}`);
+    } else if (conditions.maxAmount !== undefined) {
+      parts.push(`at most ${formatMoney(conditions.maxAmount, currency)}`);
+    }
+    if (conditions.accountId) parts.push(`in ${nameOf(accounts, conditions.accountId, "a deleted account")}`);
+    return parts;
+  };
+
+  const describeActions = (rule: TransactionRule): string[] => {
+    const { actions } = rule;
+    const parts: string[] = [];
+    if (actions.envelopeId) parts.push(`file under ${nameOf(envelopes, actions.envelopeId, "a deleted envelope")}`);
+    if (actions.markAsIncome) parts.push("mark inflows as income");
+    if (actions.payeeId) parts.push(`set payee to ${nameOf(payees, actions.payeeId, "a deleted payee")}`);
+    if (actions.memo) parts.push(`add memo "${actions.memo}"`);
+    return parts;
+  };
+
+  const showError = (title: string, error: unknown) => {
+    toast({ title, description: (error as Error)?.message || "Please try again.", variant: "destructive" });
+  };
+
+  const handleToggle = (rule: TransactionRule, enabled: boolean) => {
+    const { id, name, conditions, actions } = rule;
+    updateTransactionRule({ id, name, conditions, actions, enabled })
+      .catch(error => showError("Error Updating Rule", error));
+  };
+
+  const handleMove = (index: number, offset: -1 | 1) => {
+    const ids = transactionRules.map(rule => rule.id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    reorderTransactionRules(ids).catch(error => showError("Error Reordering Rules", error));
+  };
+
+  const handleDelete = (rule: TransactionRule) => {
+    deleteTransactionRule(rule.id)
+      .then(() => {
+        toast({ title: "Rule Deleted", description: "Transactions it already filed are unchanged.", variant: "destructive", action: <UndoToastAction /> });
+      })
+      .catch(error => showError("Error Deleting Rule", error));
+  };
+
+  return (
+    <div className="space-y-3">
+      {transactionRules.map((rule, index) => {
+        const conditions = describeConditions(rule);
+        const actions = describeActions(rule);
+
+        return (
+          <Card key={rule.id} className={cn("p-4 flex items-center justify-between gap-3", !rule.enabled && "opacity-60")}>
+            <div className="flex flex-col">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 text-muted-foreground"
+                disabled={index === 0}
+                onClick={() => handleMove(index, -1)}
+              >
+                <ChevronUp className="h-4 w-4" />
+                <span className="sr-only">Run earlier</span>
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 text-muted-foreground"
+                disabled={index === transactionRules.length - 1}
+                onClick={() => handleMove(index, 1)}
+              >
+                <ChevronDown className="h-4 w-4" />
+                <span className="sr-only">Run later</span>
+              </Button>
+            </div>
+            <div className="min-w-0 flex-1">
+              <div className="flex items-center gap-2 flex-wrap">
+                <p className="text-sm font-medium truncate">{rule.name}</p>
+                {!rule.enabled && <Badge variant="secondary">Disabled</Badge>}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {conditions.length > 0 ? `${conditions.join(", ")} → ` : ""}{actions.join(", ")}
+              </p>
+            </div>
+            <Switch
+              checked={rule.enabled}
+              onCheckedChange={enabled => handleToggle(rule, enabled)}
+              aria-label={rule.enabled ? "Disable rule" : "Enable rule"}
+            />
+            <div className="flex space-x-1">
+              <Button variant="ghost" size="icon" className="text-muted-foreground hover:text-primary h-7 w-7" onClick={() => onEdit(rule)}>
+                <Pencil className="h-4 w-4" />
+                <span className="sr-only">Edit Rule</span>
+              </Button>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="ghost" size="icon" className="text-muted-foreground hover:text-destructive h-7 w-7">
+                    <Trash2 className="h-4 w-4" />
+                    <span className="sr-only">Delete Rule</span>
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Delete &quot;{rule.name}&quot;?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      New transactions won&apos;t be filed by this rule. Transactions it already filed are kept as they are.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={() => handleDelete(rule)} className={cn("bg-destructive text-destructive-foreground hover:bg-destructive/90")}>
+                      Delete
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
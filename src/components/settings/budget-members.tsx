@@ -0,0 +1,232 @@
+"use client";
+
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import type * as z from "zod";
+import { useAppContext } from "@/context/AppContext";
+import { useAuth } from "@/context/AuthContext";
+import { budgetInviteSchema } from "@/lib/schemas";
+import { budgetRoleLabels } from "@/lib/budgets";
+import type { BudgetMember, BudgetRole, SharedBudget } from "@/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { LogOut, Send, UserMinus, X } from "lucide-react";
+
+type MemberRole = Exclude<BudgetRole, 'owner'>;
+
+interface BudgetMembersProps {
+  budget: SharedBudget;
+}
+
+/**
+ * Who's in a shared budget and what they can do. The owner changes roles, removes members and invites new
+ * ones; everyone else can see the members and leave.
+ */
+export function BudgetMembers({ budget }: BudgetMembersProps) {
+  const { currentUser } = useAuth();
+  const { budgetRole, sentBudgetInvites, inviteBudgetMember, cancelBudgetInvite, setBudgetMemberRole, removeBudgetMember } = useAppContext();
+  const { toast } = useToast();
+  const [pendingRemoval, setPendingRemoval] = useState<{ userId: string; member: BudgetMember } | null>(null);
+  const isOwner = budgetRole === 'owner';
+
+  const form = useForm<z.infer<typeof budgetInviteSchema>>({
+    resolver: zodResolver(budgetInviteSchema),
+    defaultValues: { email: "", role: "editor" },
+  });
+
+  const members = Object.entries(budget.members)
+    .sort(([, a], [, b]) => (a.role === 'owner' ? -1 : b.role === 'owner' ? 1 : a.name.localeCompare(b.name)));
+
+  // Runs a sharing change and reports how it went; true when it succeeded
+  const run = async (action: () => Promise<void>, errorTitle: string, success?: { title: string; description: string }) => {
+    try {
+      await action();
+      if (success) toast(success);
+      return true;
+    } catch (error) {
+      toast({ title: errorTitle, description: (error as Error)?.message || "Please try again.", variant: "destructive" });
+      return false;
+    }
+  };
+
+  async function onSubmit(values: z.infer<typeof budgetInviteSchema>) {
+    const sent = await run(
+      () => inviteBudgetMember(values.email, values.role),
+      "Error Sending Invite",
+      { title: "Invite Sent", description: `${values.email} can accept it from their settings once they sign in.` },
+    );
+    if (sent) form.reset({ email: "", role: values.role });
+  }
+
+  const confirmRemoval = () => {
+    if (!pendingRemoval) return;
+    const { userId, member } = pendingRemoval;
+    const leaving = userId === currentUser?.uid;
+    run(
+      () => removeBudgetMember(userId),
+      leaving ? "Error Leaving Budget" : "Error Removing Member",
+      leaving
+        ? { title: "Left Budget", description: `You're no longer in "${budget.name}".` }
+        : { title: "Member Removed", description: `${member.name} is no longer in "${budget.name}".` },
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Members of {budget.name}</p>
+        {members.map(([userId, member]) => {
+          const isSelf = userId === currentUser?.uid;
+          return (
+            <div key={userId} className="flex flex-wrap items-center justify-between gap-2 rounded-md border p-3">
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate">{member.name}{isSelf && <span className="text-muted-foreground"> (you)</span>}</p>
+                <p className="text-xs text-muted-foreground truncate">{member.email}</p>
+              </div>
+              <div className="flex items-center gap-2">
+                {isOwner && member.role !== 'owner' ? (
+                  <Select
+                    value={member.role}
+                    onValueChange={value => run(() => setBudgetMemberRole(userId, value as MemberRole), "Error Changing Role")}
+                  >
+                    <SelectTrigger className="h-8 w-[110px]" aria-label={`Role for ${member.name}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="editor">{budgetRoleLabels.editor}</SelectItem>
+                      <SelectItem value="viewer">{budgetRoleLabels.viewer}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Badge variant={member.role === 'owner' ? "default" : "secondary"}>{budgetRoleLabels[member.role]}</Badge>
+                )}
+                {member.role !== 'owner' && (isOwner || isSelf) && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setPendingRemoval({ userId, member })}
+                    className="text-destructive hover:text-destructive"
+                  >
+                    {isSelf ? <><LogOut className="mr-1 h-4 w-4" /> Leave</> : <><UserMinus className="mr-1 h-4 w-4" /> Remove</>}
+                  </Button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+        <p className="text-xs text-muted-foreground">Editors can change anything in the budget. Viewers can only look.</p>
+      </div>
+
+      {isOwner && (
+        <>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="flex flex-wrap items-end gap-3">
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem className="w-full max-w-xs">
+                    <FormLabel>Invite by Email</FormLabel>
+                    <FormControl>
+                      <Input type="email" placeholder="name@example.com" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="role"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Role</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger className="w-[120px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="editor">{budgetRoleLabels.editor}</SelectItem>
+                        <SelectItem value="viewer">{budgetRoleLabels.viewer}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                <Send className="mr-2 h-4 w-4" /> Invite
+              </Button>
+            </form>
+          </Form>
+
+          {sentBudgetInvites.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Waiting to Accept</p>
+              {sentBudgetInvites.map(invite => (
+                <div key={invite.id} className="flex items-center justify-between gap-2 rounded-md border p-3">
+                  <p className="text-sm truncate">
+                    {invite.email} <span className="text-muted-foreground">as {budgetRoleLabels[invite.role].toLowerCase()}</span>
+                  </p>
+                  <Button variant="ghost" size="sm" onClick={() => run(() => cancelBudgetInvite(invite.id), "Error Cancelling Invite")}>
+                    <X className="mr-1 h-4 w-4" /> Cancel
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+
+      <AlertDialog open={!!pendingRemoval} onOpenChange={(open) => { if (!open) setPendingRemoval(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingRemoval?.userId === currentUser?.uid ? `Leave "${budget.name}"?` : `Remove ${pendingRemoval?.member.name}?`}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingRemoval?.userId === currentUser?.uid
+                ? "You'll lose access to this budget until the owner invites you again."
+                : "They'll lose access to this budget. Transactions they added stay in it."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction className="bg-destructive text-destructive-foreground hover:bg-destructive/90" onClick={confirmRemoval}>
+              {pendingRemoval?.userId === currentUser?.uid ? "Leave" : "Remove"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
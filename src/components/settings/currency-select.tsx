@@ -0,0 +1,36 @@
+"use client";
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { currencyCodes } from "@/lib/currency";
+
+interface CurrencySelectProps {
+  value: string;
+  onValueChange: (value: string) => void;
+  options?: readonly string[]; // Defaults to every supported currency
+  placeholder?: string;
+  disabled?: boolean;
+  id?: string;
+}
+
+export function CurrencySelect({ value, onValueChange, options = currencyCodes, placeholder = "Select a currency", disabled, id }: CurrencySelectProps) {
+  // Keep a stored code that's no longer offered selectable, so the value still shows
+  const codes = !value || options.includes(value) ? options : [value, ...options];
+  return (
+    <Select onValueChange={onValueChange} value={value} disabled={disabled}>
+      <SelectTrigger id={id}>
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {codes.map(code => (
+          <SelectItem key={code} value={code}>{code}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
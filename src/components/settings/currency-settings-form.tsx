@@ -0,0 +1,147 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAppContext } from "@/context/AppContext";
+import { currencyCodes, getExchangeRate, getLedgerRate } from "@/lib/currency";
+import { CurrencySelect } from "@/components/settings/currency-select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Save, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { UndoToastAction } from "@/components/layout/undo-redo";
+
+/**
+ * The base currency everything is reported in, and a table of today's exchange rates
+ * for the other currencies in use. Rates are entered as "1 XXX = ? base".
+ */
+export function CurrencySettingsForm() {
+  const { accounts, currencySettings, updateCurrencySettings, getAccountCurrency } = useAppContext();
+  const { toast } = useToast();
+  const hasStoredRates = Object.keys(currencySettings.exchangeRates).length > 0;
+
+  const [baseCurrency, setBaseCurrency] = useState(currencySettings.baseCurrency);
+  const [rateInputs, setRateInputs] = useState<Record<string, string>>({});
+  const [addedCurrencies, setAddedCurrencies] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Stored rates restated against the base currency being edited, where they can be
+  const ratesFor = (base: string) => {
+    const inputs: Record<string, string> = {};
+    [currencySettings.ledgerCurrency, ...Object.keys(currencySettings.exchangeRates)].forEach(currency => {
+      const rate = getExchangeRate(currencySettings, currency, base);
+      if (currency !== base && rate !== undefined) inputs[currency] = String(Number(rate.toPrecision(8)));
+    });
+    return inputs;
+  };
+
+  useEffect(() => {
+    setBaseCurrency(currencySettings.baseCurrency);
+    setRateInputs(ratesFor(currencySettings.baseCurrency));
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currencySettings]);
+
+  // Until rates are saved the ledger follows the base currency, so it needs no rate of its own
+  const ledgerCurrency = hasStoredRates ? currencySettings.ledgerCurrency : baseCurrency;
+  const currenciesInUse = [
+    ledgerCurrency,
+    ...accounts.map(acc => getAccountCurrency(acc.id)),
+    ...Object.keys(currencySettings.exchangeRates),
+    ...addedCurrencies,
+  ];
+  const rateRows = Array.from(new Set(currenciesInUse)).filter(currency => currency !== baseCurrency).sort();
+  const addableCurrencies = currencyCodes.filter(code => code !== baseCurrency && !rateRows.includes(code));
+
+  const handleBaseChange = (currency: string) => {
+    setBaseCurrency(currency);
+    setRateInputs(ratesFor(currency));
+  };
+
+  const handleSave = async () => {
+    const ratesToBase: Record<string, number> = {};
+    for (const currency of rateRows) {
+      const input = rateInputs[currency]?.trim();
+      if (!input) continue;
+      const rate = Number(input);
+      if (!(rate > 0)) {
+        toast({ title: "Invalid Rate", description: `Enter a positive rate for ${currency}, or leave it blank.`, variant: "destructive" });
+        return;
+      }
+      ratesToBase[currency] = rate;
+    }
+    // Stored rates left blank carry over, restated through the ledger currency's new rate
+    const ledgerToBase = baseCurrency === ledgerCurrency ? 1 : ratesToBase[ledgerCurrency];
+    if (ledgerToBase !== undefined) {
+      Object.keys(currencySettings.exchangeRates).forEach(currency => {
+        const ledgerRate = getLedgerRate(currencySettings, currency);
+        if (currency !== baseCurrency && ratesToBase[currency] === undefined && ledgerRate !== undefined) {
+          ratesToBase[currency] = ledgerRate * ledgerToBase;
+        }
+      });
+    }
+
+    setIsSaving(true);
+    try {
+      await updateCurrencySettings(baseCurrency, ratesToBase);
+      setAddedCurrencies([]);
+      toast({ title: "Currency Settings Saved", description: `Totals are now shown in ${baseCurrency}.`, action: <UndoToastAction /> });
+    } catch (error) {
+      toast({ title: "Error Saving Settings", description: (error as Error)?.message || "Please try again.", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-1 max-w-xs">
+        <Label htmlFor="base-currency">Base Currency</Label>
+        <CurrencySelect id="base-currency" value={baseCurrency} onValueChange={handleBaseChange} />
+        <p className="text-xs text-muted-foreground">
+          {hasStoredRates
+            ? "Dashboard totals, envelope balances and reports are shown in this currency."
+            : "Dashboard totals, envelope balances and reports are shown in this currency. Accounts created without a currency of their own use it too."}
+        </p>
+      </div>
+
+      <div className="space-y-3">
+        <div>
+          <p className="text-sm font-medium">Exchange Rates</p>
+          <p className="text-xs text-muted-foreground">
+            Used for new transactions and today's totals. Transactions keep the rate they were entered at.
+            Currencies without a rate count 1:1.
+          </p>
+        </div>
+        {rateRows.length === 0 && (
+          <p className="text-sm text-muted-foreground">All your accounts are in {baseCurrency}. Add a currency to enter a rate for it.</p>
+        )}
+        {rateRows.map(currency => (
+          <div key={currency} className="flex items-center gap-3">
+            <Label htmlFor={`rate-${currency}`} className="w-16 whitespace-nowrap">1 {currency} =</Label>
+            <Input
+              id={`rate-${currency}`} type="number" step="any" placeholder="Rate" className="w-40"
+              value={rateInputs[currency] ?? ""}
+              onChange={e => setRateInputs(prev => ({ ...prev, [currency]: e.target.value }))}
+            />
+            <span className="text-sm text-muted-foreground">{baseCurrency}</span>
+            {addedCurrencies.includes(currency) && (
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setAddedCurrencies(prev => prev.filter(c => c !== currency))}>
+                <X className="h-4 w-4" />
+                <span className="sr-only">Remove {currency}</span>
+              </Button>
+            )}
+          </div>
+        ))}
+        {addableCurrencies.length > 0 && (
+          <div className="max-w-xs">
+            <CurrencySelect value="" placeholder="Add a currency" options={addableCurrencies} onValueChange={currency => setAddedCurrencies(prev => [...prev, currency])} />
+          </div>
+        )}
+      </div>
+
+      <Button onClick={handleSave} disabled={isSaving}>
+        <Save className="mr-2 h-4 w-4" /> {isSaving ? "Saving..." : "Save Currency Settings"}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+"use client";
+
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import type * as z from "zod";
+import { useAppContext } from "@/context/AppContext";
+import { sharedBudgetSchema } from "@/lib/schemas";
+import { PERSONAL_BUDGET_NAME, budgetRoleLabels } from "@/lib/budgets";
+import type { BudgetInvite } from "@/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Check, PlusCircle, X } from "lucide-react";
+
+const PERSONAL_VALUE = "personal"; // Select items can't have an empty value
+
+/**
+ * Which budget is open, invitations to other people's budgets, and starting a new shared budget. The
+ * personal budget is always there; shared budgets are listed for everyone in them.
+ */
+export function SharedBudgetSettings() {
+  const { sharedBudgets, activeBudgetId, switchBudget, createSharedBudget, receivedBudgetInvites, acceptBudgetInvite, declineBudgetInvite } = useAppContext();
+  const { toast } = useToast();
+  const [isResponding, setIsResponding] = useState(false);
+
+  const form = useForm<z.infer<typeof sharedBudgetSchema>>({
+    resolver: zodResolver(sharedBudgetSchema),
+    defaultValues: { name: "" },
+  });
+
+  async function onSubmit(values: z.infer<typeof sharedBudgetSchema>) {
+    try {
+      await createSharedBudget(values.name);
+      toast({ title: "Shared Budget Created", description: `"${values.name}" is open. Invite members below.` });
+      form.reset();
+    } catch (error) {
+      toast({ title: "Error Creating Budget", description: (error as Error)?.message || "Please try again.", variant: "destructive" });
+    }
+  }
+
+  const respond = async (invite: BudgetInvite, accept: boolean) => {
+    setIsResponding(true);
+    try {
+      if (accept) {
+        await acceptBudgetInvite(invite);
+        toast({ title: "Invite Accepted", description: `"${invite.budgetName}" is open.` });
+      } else {
+        await declineBudgetInvite(invite);
+        toast({ title: "Invite Declined", description: `You won't join "${invite.budgetName}".` });
+      }
+    } catch (error) {
+      toast({ title: "Error Responding to Invite", description: (error as Error)?.message || "Please try again.", variant: "destructive" });
+    } finally {
+      setIsResponding(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-1 max-w-xs">
+        <Label htmlFor="active-budget">Open Budget</Label>
+        <Select value={activeBudgetId ?? PERSONAL_VALUE} onValueChange={value => switchBudget(value === PERSONAL_VALUE ? null : value)}>
+          <SelectTrigger id="active-budget">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={PERSONAL_VALUE}>{PERSONAL_BUDGET_NAME}</SelectItem>
+            {sharedBudgets.map(budget => (
+              <SelectItem key={budget.id} value={budget.id}>{budget.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">Accounts, envelopes and transactions belong to the budget they were added in.</p>
+      </div>
+
+      {receivedBudgetInvites.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Invites</p>
+          {receivedBudgetInvites.map(invite => (
+            <div key={invite.budgetId} className="flex flex-wrap items-center justify-between gap-2 rounded-md border p-3">
+              <p className="text-sm">
+                {invite.invitedBy} invited you to <span className="font-semibold">{invite.budgetName}</span> as {budgetRoleLabels[invite.role].toLowerCase()}.
+              </p>
+              <div className="flex gap-2">
+                <Button size="sm" onClick={() => respond(invite, true)} disabled={isResponding}>
+                  <Check className="mr-1 h-4 w-4" /> Accept
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => respond(invite, false)} disabled={isResponding}>
+                  <X className="mr-1 h-4 w-4" /> Decline
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="flex flex-wrap items-end gap-3">
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem className="w-full max-w-xs">
+                <FormLabel>New Shared Budget</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g., Household" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <Button type="submit" disabled={form.formState.isSubmitting}>
+            <PlusCircle className="mr-2 h-4 w-4" /> Create
+          </Button>
+        </form>
+      </Form>
+      <p className="text-xs text-muted-foreground">A new shared budget starts empty, with you as its owner.</p>
+    </div>
+  );
+}
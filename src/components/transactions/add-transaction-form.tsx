@@ -17,6 +17,7 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { MoneyInput } from "@/components/ui/money-input";
 import {
   Select,
   SelectContent,
@@ -30,19 +31,29 @@ import { Calendar } from "@/components/ui/calendar";
 import { Checkbox } from "@/components/ui/checkbox"; // Import Checkbox
 import { transactionSchema } from "@/lib/schemas";
 import { useAppContext } from "@/context/AppContext";
-import type { TransactionFormData, TransactionType } from "@/types";
+import { TransactionSplitsField } from "@/components/transactions/transaction-splits-field";
+import { TransactionCurrencyFields } from "@/components/transactions/transaction-currency-fields";
+import { EnvelopeSuggestions } from "@/components/transactions/envelope-suggestions";
+import { useEnvelopeSuggestions } from "@/hooks/use-envelope-suggestions";
+import { formatMoney, toLedgerRate } from "@/lib/currency";
+import type { QuickEntryDraft, TransactionFormData, TransactionType } from "@/types";
 import { PlusCircle, CalendarIcon } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
+import { UndoToastAction } from "@/components/layout/undo-redo";
 import { useRouter, useSearchParams } from "next/navigation";
 
 interface AddTransactionFormProps {
   onSuccess?: () => void;
   navigateToTransactions?: boolean;
+  draft?: QuickEntryDraft; // Fills the form in for review, e.g. from quick entry
 }
 
-export function AddTransactionForm({ onSuccess, navigateToTransactions = false }: AddTransactionFormProps) {
-  const { accounts, envelopes, payees, addTransaction, isLoading: isAppContextLoading } = useAppContext();
+export function AddTransactionForm({ onSuccess, navigateToTransactions = false, draft }: AddTransactionFormProps) {
+  const {
+    accounts, envelopes, payees, currencySettings, addTransaction, addPayee, resolvePayeeName, getAccountCurrency,
+    isLoading: isAppContextLoading,
+  } = useAppContext();
   const { toast } = useToast();
   const router = useRouter();
   const searchParams = useSearchParams();
@@ -50,6 +61,7 @@ export function AddTransactionForm({ onSuccess, navigateToTransactions = false }
   const [initialAccountId, setInitialAccountId] = useState<string | undefined>(undefined);
   const [formReady, setFormReady] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false); 
+  const [isAddingPayee, setIsAddingPayee] = useState(false);
 
   useEffect(() => {
     if (!isAppContextLoading) { 
@@ -70,24 +82,50 @@ export function AddTransactionForm({ onSuccess, navigateToTransactions = false }
     resolver: zodResolver(transactionSchema),
   });
 
+  // A drafted payee name is looked up again as payees change, so adding it as a payee fills it in
+  const draftPayeeId = draft?.payeeId || (draft?.payeeName ? resolvePayeeName(draft.payeeName)?.id : undefined);
+
   useEffect(() => {
     if (formReady) {
       form.reset({
-        accountId: initialAccountId || (accounts.length > 0 ? accounts[0].id : ""),
-        envelopeId: null,
-        payeeId: payees.length > 0 ? payees[0].id : "", 
-        amount: 0,
-        type: "outflow", // Default to outflow
-        description: "",
-        date: format(new Date(), "yyyy-MM-dd"),
+        accountId: draft?.accountId || initialAccountId || (accounts.length > 0 ? accounts[0].id : ""),
+        envelopeId: draft?.envelopeId ?? null,
+        // A draft that names no payee leaves it to be chosen rather than defaulting to the first
+        payeeId: draft ? (draftPayeeId ?? "") : (payees.length > 0 ? payees[0].id : ""), 
+        amount: draft?.amount ?? 0,
+        type: draft?.type ?? "outflow", // Default to outflow
+        description: draft?.description ?? "",
+        date: draft?.date ?? format(new Date(), "yyyy-MM-dd"),
         isTransfer: false,
-        isActualIncome: false, // Default isActualIncome
+        isActualIncome: draft?.isActualIncome ?? false, // Default isActualIncome
+        splits: [],
       });
     }
-  }, [formReady, initialAccountId, form, accounts, payees]);
+  }, [formReady, initialAccountId, form, accounts, payees, draft, draftPayeeId]);
+
+  const handleAddDraftPayee = async () => {
+    if (!draft?.payeeName) return;
+    setIsAddingPayee(true);
+    try {
+      await addPayee({ name: draft.payeeName });
+    } finally {
+      setIsAddingPayee(false);
+    }
+  };
 
 
   const transactionType = form.watch("type");
+  const isSplit = (form.watch("splits") || []).length > 0;
+
+  // Suggest an envelope once there's something to go on and none has been chosen
+  const [accountId, payeeId, envelopeId, amount, description, isActualIncome] =
+    form.watch(["accountId", "payeeId", "envelopeId", "amount", "description", "isActualIncome"]);
+  const needsEnvelope = formReady && !isSplit && !envelopeId && !(transactionType === 'inflow' && isActualIncome);
+  const { suggestions: envelopeSuggestions, isLoading: isSuggesting } = useEnvelopeSuggestions(
+    needsEnvelope && accountId && (description?.trim() || amount > 0)
+      ? { accountId, payeeId, description: description ?? undefined, amount: amount || 0, type: transactionType }
+      : null
+  );
 
   async function onSubmit(values: z.infer<typeof transactionSchema>) {
     setIsSubmitting(true);
@@ -96,16 +134,20 @@ export function AddTransactionForm({ onSuccess, navigateToTransactions = false }
         description: values.description || undefined,
         payeeId: values.payeeId,
         envelopeId: values.type === 'inflow' && values.isActualIncome ? null : values.envelopeId,
+        splits: values.type === 'inflow' && values.isActualIncome ? undefined : values.splits,
         date: values.date,
         isTransfer: values.isTransfer || false,
         isActualIncome: values.type === 'inflow' ? (values.isActualIncome || false) : false,
+        // The form takes the rate against the base currency; transactions store it against the ledger currency
+        exchangeRate: values.exchangeRate !== undefined ? toLedgerRate(currencySettings, values.exchangeRate) : undefined,
     };
 
     try {
         await addTransaction(transactionDataWithParsedDate);
         toast({
           title: "Transaction Added",
-          description: `Transaction for $${values.amount.toFixed(2)} has been successfully added.`,
+          description: `Transaction for ${formatMoney(values.amount, getAccountCurrency(values.accountId))} has been successfully added.`,
+          action: <UndoToastAction />,
         });
 
         let resetAccountId = form.getValues('accountId');
@@ -130,6 +172,10 @@ export function AddTransactionForm({ onSuccess, navigateToTransactions = false }
             date: format(new Date(), "yyyy-MM-dd"),
             isTransfer: false,
             isActualIncome: false,
+            splits: [],
+            exchangeRate: undefined,
+            originalAmount: undefined,
+            originalCurrency: undefined,
         });
 
         if (onSuccess) onSuccess();
@@ -283,12 +329,20 @@ export function AddTransactionForm({ onSuccess, navigateToTransactions = false }
                   ))}
                 </SelectContent>
               </Select>
+              {draft?.payeeName && !draftPayeeId && !field.value && (
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <span>&quot;{draft.payeeName}&quot; isn&apos;t a payee yet.</span>
+                  <Button type="button" variant="outline" size="sm" className="h-6 px-2 text-xs" onClick={handleAddDraftPayee} disabled={isAddingPayee}>
+                    {isAddingPayee ? "Adding..." : "Add Payee"}
+                  </Button>
+                </div>
+              )}
               <FormMessage />
             </FormItem>
           )}
         />
 
-        {(transactionType === 'outflow' || (transactionType === 'inflow' && !form.watch('isActualIncome'))) && (
+        {!isSplit && (transactionType === 'outflow' || (transactionType === 'inflow' && !form.watch('isActualIncome'))) && (
           <FormField
             control={form.control}
             name="envelopeId"
@@ -319,12 +373,23 @@ export function AddTransactionForm({ onSuccess, navigateToTransactions = false }
                      )}
                   </SelectContent>
                 </Select>
+                {!field.value && (
+                  <EnvelopeSuggestions
+                    suggestions={envelopeSuggestions}
+                    isLoading={isSuggesting}
+                    onSelect={id => form.setValue("envelopeId", id, { shouldValidate: true })}
+                  />
+                )}
                 <FormMessage />
               </FormItem>
             )}
           />
         )}
 
+        {(transactionType === 'outflow' || (transactionType === 'inflow' && !form.watch('isActualIncome'))) && (
+          <TransactionSplitsField />
+        )}
+
         <FormField
           control={form.control}
           name="amount"
@@ -332,13 +397,15 @@ export function AddTransactionForm({ onSuccess, navigateToTransactions = false }
             <FormItem>
               <FormLabel>Amount</FormLabel>
               <FormControl>
-                <Input type="number" placeholder="0.00" {...field} step="0.01" onChange={e => field.onChange(parseFloat(e.target.value) || 0)} value={field.value ?? 0} />
+                <MoneyInput placeholder="0.00" {...field} />
               </FormControl>
               <FormMessage />
             </FormItem>
           )}
         />
 
+        <TransactionCurrencyFields />
+
         <FormField
           control={form.control}
           name="description"
@@ -17,6 +17,7 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { MoneyInput } from "@/components/ui/money-input";
 import {
   Select,
   SelectContent,
@@ -30,10 +31,15 @@ import { Calendar } from "@/components/ui/calendar";
 import { Checkbox } from "@/components/ui/checkbox";
 import { transactionSchema } from "@/lib/schemas";
 import { useAppContext } from "@/context/AppContext";
+import { TransactionSplitsField } from "@/components/transactions/transaction-splits-field";
+import { TransactionCurrencyFields } from "@/components/transactions/transaction-currency-fields";
+import { fromLedgerRate, toLedgerRate } from "@/lib/currency";
+import { findTransferCounterpart } from "@/lib/transactions";
 import type { Transaction, TransactionFormData, TransactionType, TransactionWithId } from "@/types";
 import { CheckCircle, CalendarIcon } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
+import { UndoToastAction } from "@/components/layout/undo-redo";
 import { Skeleton } from "@/components/ui/skeleton";
 
 interface EditTransactionFormProps {
@@ -42,7 +48,7 @@ interface EditTransactionFormProps {
 }
 
 export function EditTransactionForm({ transaction, onSuccess }: EditTransactionFormProps) {
-  const { accounts, envelopes, payees, updateTransaction, isLoading: isAppContextLoading } = useAppContext();
+  const { accounts, envelopes, payees, transactions, currencySettings, updateTransaction, activeBudgetId, isLoading: isAppContextLoading } = useAppContext();
   const { toast } = useToast();
   const [isFormReady, setIsFormReady] = useState(false);
   const [showCalendar, setShowCalendar] = useState(false);
@@ -78,6 +84,10 @@ export function EditTransactionForm({ transaction, onSuccess }: EditTransactionF
       form.setValue('date', initialDateString);
       form.setValue('isTransfer', transaction.isTransfer || false);
       form.setValue('isActualIncome', transaction.isActualIncome || false);
+      form.setValue('splits', transaction.splits?.map(line => ({ envelopeId: line.envelopeId || "", amount: line.amount, memo: line.memo || "" })) || []);
+      form.setValue('exchangeRate', transaction.exchangeRate !== undefined ? fromLedgerRate(currencySettings, transaction.exchangeRate) : undefined);
+      form.setValue('originalAmount', transaction.originalAmount);
+      form.setValue('originalCurrency', transaction.originalCurrency);
       
       // console.log("[EditTF useEffect] Form values set. Current form values:", JSON.stringify(form.getValues()));
       setIsFormReady(true);
@@ -85,10 +95,13 @@ export function EditTransactionForm({ transaction, onSuccess }: EditTransactionF
       // console.log("[EditTF useEffect] Conditions not met for setting values or marking form ready.");
       setIsFormReady(false);
     }
-  }, [transaction, form, accounts, payees, envelopes, isAppContextLoading]);
+  }, [transaction, form, accounts, payees, envelopes, currencySettings, isAppContextLoading]);
 
 
   const transactionType = form.watch("type");
+  const isSplit = (form.watch("splits") || []).length > 0;
+  const isTransferLeg = !!findTransferCounterpart(transaction, transactions);
+  const isLoanInterest = !!transaction.loanPaymentId;
 
   function onSubmit(values: z.infer<typeof transactionSchema>) {
     // console.log("[EditTF onSubmit] Submitting values:", JSON.stringify(values));
@@ -98,14 +111,20 @@ export function EditTransactionForm({ transaction, onSuccess }: EditTransactionF
       description: values.description || undefined,
       // Only set envelope to null if it's an actual income inflow
       envelopeId: values.type === 'inflow' && values.isActualIncome ? null : values.envelopeId,
+      // An empty list clears any existing split
+      splits: values.type === 'inflow' && values.isActualIncome ? [] : (values.splits || []),
       isTransfer: values.isTransfer || false,
       isActualIncome: values.type === 'inflow' ? (values.isActualIncome || false) : false,
+      exchangeRate: values.exchangeRate !== undefined ? toLedgerRate(currencySettings, values.exchangeRate) : undefined,
+      originalAmount: values.originalCurrency ? values.originalAmount : undefined,
+      originalCurrency: values.originalCurrency || undefined,
     };
     updateTransaction(updatedTransactionData)
       .then(() => {
         toast({
           title: "Transaction Updated",
           description: `Transaction has been successfully updated.`,
+          action: <UndoToastAction />,
         });
         if (onSuccess) onSuccess();
       })
@@ -260,7 +279,7 @@ export function EditTransactionForm({ transaction, onSuccess }: EditTransactionF
         />
 
         {/* Show envelope selector for outflows OR for inflows that are NOT actual income */}
-        {(transactionType === 'outflow' || (transactionType === 'inflow' && !form.watch('isActualIncome'))) && (
+        {!isSplit && (transactionType === 'outflow' || (transactionType === 'inflow' && !form.watch('isActualIncome'))) && (
           <FormField
             control={form.control}
             name="envelopeId"
@@ -291,6 +310,10 @@ export function EditTransactionForm({ transaction, onSuccess }: EditTransactionF
           />
         )}
 
+        {(transactionType === 'outflow' || (transactionType === 'inflow' && !form.watch('isActualIncome'))) && (
+          <TransactionSplitsField />
+        )}
+
         {/* Amount Input */}
         <FormField
           control={form.control}
@@ -299,15 +322,21 @@ export function EditTransactionForm({ transaction, onSuccess }: EditTransactionF
             <FormItem>
               <FormLabel>Amount</FormLabel>
               <FormControl>
-                <Input type="number" placeholder="0.00" {...field} step="0.01"
-                       onChange={e => field.onChange(parseFloat(e.target.value) || 0)}
-                       value={field.value ?? 0} />
+                <MoneyInput placeholder="0.00" {...field} />
               </FormControl>
+              {isTransferLeg && (
+                <FormDescription>Part of a transfer: the amount and date of the other side change too.</FormDescription>
+              )}
+              {isLoanInterest && (
+                <FormDescription>Loan interest is calculated from its payment, so the amount and date follow the payment.</FormDescription>
+              )}
               <FormMessage />
             </FormItem>
           )}
         />
 
+        <TransactionCurrencyFields />
+
         {/* Description Input */}
         <FormField
           control={form.control}
@@ -373,6 +402,11 @@ export function EditTransactionForm({ transaction, onSuccess }: EditTransactionF
           )}
         />
 
+        {/* Only worth saying when others use the budget too */}
+        {activeBudgetId && transaction.createdBy && (
+          <p className="text-xs text-muted-foreground">Added by {transaction.createdBy.name}</p>
+        )}
+
         <Button
           type="submit"
           className="w-full sm:w-auto"
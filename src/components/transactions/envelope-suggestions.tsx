@@ -0,0 +1,49 @@
+"use client";
+
+import { useAppContext } from "@/context/AppContext";
+import type { EnvelopeSuggestion } from "@/ai/flows/suggest-envelope-flow";
+import { Button } from "@/components/ui/button";
+import { Sparkles } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface EnvelopeSuggestionsProps {
+  suggestions: EnvelopeSuggestion[];
+  isLoading?: boolean;
+  onSelect: (envelopeId: string) => void;
+  className?: string;
+}
+
+/** Suggested envelopes as buttons that file the transaction, each with how confident the suggestion is. */
+export function EnvelopeSuggestions({ suggestions, isLoading = false, onSelect, className }: EnvelopeSuggestionsProps) {
+  const { envelopes } = useAppContext();
+  // An envelope deleted since the suggestion was made can't be chosen
+  const shown = suggestions.filter(suggestion => envelopes.some(envelope => envelope.id === suggestion.envelopeId));
+
+  if (!isLoading && shown.length === 0) return null;
+
+  return (
+    <div className={cn("flex flex-wrap items-center gap-1 text-xs text-muted-foreground", className)}>
+      <Sparkles className="h-3 w-3" />
+      {isLoading ? (
+        <span>Finding an envelope...</span>
+      ) : (
+        <>
+          <span>Suggested:</span>
+          {shown.map(suggestion => (
+            <Button
+              key={suggestion.envelopeId}
+              type="button"
+              variant="outline"
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={() => onSelect(suggestion.envelopeId)}
+            >
+              {envelopes.find(envelope => envelope.id === suggestion.envelopeId)?.name}
+              <span className="ml-1 text-muted-foreground">{Math.round(suggestion.confidence * 100)}%</span>
+            </Button>
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,338 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { useAppContext } from "@/context/AppContext";
+import { transactionSchema } from "@/lib/schemas";
+import { findDuplicateTransaction } from "@/lib/import/duplicates";
+import { runTransactionRules } from "@/lib/transaction-rules";
+import { toMajorUnits } from "@/lib/money";
+import { useEnvelopeSuggester, useEnvelopeSuggestionsAvailable } from "@/hooks/use-envelope-suggestions";
+import type { EnvelopeSuggestion } from "@/ai/flows/suggest-envelope-flow";
+import type { ImportRowResult, Transaction, TransactionImportDraft } from "@/types";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { EnvelopeSuggestions } from "@/components/transactions/envelope-suggestions";
+import { Sparkles, Upload } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { UndoToastAction } from "@/components/layout/undo-redo";
+
+// Select value used for inflows that should be recorded as actual income rather than refilling an envelope.
+const INCOME_OPTION = "__income__";
+const NO_ENVELOPE_OPTION = "__none__";
+// Rows asked about at once, so a long file doesn't open a request per row
+const SUGGESTION_CONCURRENCY = 3;
+
+const applyChoice = (draft: TransactionImportDraft, choice: string): TransactionImportDraft => {
+  if (choice === INCOME_OPTION) return { ...draft, envelopeId: null, isActualIncome: true };
+  if (choice === NO_ENVELOPE_OPTION) return { ...draft, envelopeId: null, isActualIncome: false };
+  return { ...draft, envelopeId: choice, isActualIncome: false };
+};
+
+interface ImportReviewProps {
+  results: ImportRowResult[];
+  onImported?: (count: number) => void;
+}
+
+interface ReviewRow {
+  rowNumber: number;
+  draft?: TransactionImportDraft;
+  error?: string;
+  isDuplicate: boolean;
+  isAlreadyImported: boolean; // Same import id as an existing transaction; never re-imported
+  resolvedPayeeName?: string; // The existing payee the row's payee name resolves to, when it's written differently
+  ruleNames: string[]; // Rules that changed the row
+}
+
+export function ImportReview({ results, onImported }: ImportReviewProps) {
+  const { envelopes, payees, transactions, transactionRules, importTransactions, resolvePayeeName, getTransactionsInRange } = useAppContext();
+  const { toast } = useToast();
+  const [defaultEnvelopeId, setDefaultEnvelopeId] = useState<string>(NO_ENVELOPE_OPTION);
+  const [envelopeChoices, setEnvelopeChoices] = useState<Record<number, string>>({});
+  const [selection, setSelection] = useState<Record<number, boolean>>({});
+  const [isImporting, setIsImporting] = useState(false);
+  const [suggestions, setSuggestions] = useState<Record<number, EnvelopeSuggestion[]>>({});
+  const [isSuggesting, setIsSuggesting] = useState(false);
+  const suggestEnvelope = useEnvelopeSuggester();
+  const canSuggest = useEnvelopeSuggestionsAvailable();
+  // Everything stored over the file's dates, so rows older than the loaded months are checked too
+  const [storedTransactions, setStoredTransactions] = useState<Transaction[] | null>(null);
+  const [storedError, setStoredError] = useState<string | null>(null);
+
+  // New file or mapping: start the per-row choices over
+  useEffect(() => {
+    setEnvelopeChoices({});
+    setSelection({});
+    setSuggestions({});
+  }, [results]);
+
+  const dateRange = useMemo(() => {
+    const days = results.flatMap(row => row.draft ? [row.draft.date.slice(0, 10)] : []).sort();
+    return days.length > 0 ? { from: days[0], to: days[days.length - 1] } : null;
+  }, [results]);
+
+  useEffect(() => {
+    setStoredTransactions(null);
+    setStoredError(null);
+    if (!dateRange) return;
+    let cancelled = false;
+    getTransactionsInRange(dateRange.from, dateRange.to)
+      .then(stored => { if (!cancelled) setStoredTransactions(stored); })
+      .catch(error => { if (!cancelled) setStoredError((error as Error)?.message || "Unknown error"); });
+    return () => { cancelled = true; };
+  }, [dateRange, getTransactionsInRange]);
+
+  // Until the stored ones arrive, the loaded ones are all there is to check against
+  const existingTransactions = storedTransactions ?? transactions;
+
+  // What the rules do with each row before any choice made here; a choice on the row still wins
+  const ruleResults = useMemo(() => new Map(results.filter(row => row.draft).map(row => {
+    const draft = row.draft!;
+    const payeeId = draft.payeeId || (draft.payeeName ? resolvePayeeName(draft.payeeName)?.id : undefined) || "";
+    return [row.rowNumber, { payeeId, ...runTransactionRules({ ...draft, payeeId, envelopeId: null, isActualIncome: false }, transactionRules) }];
+  })), [results, transactionRules, resolvePayeeName]);
+
+  const choiceFor = useCallback((row: ImportRowResult): string => {
+    if (envelopeChoices[row.rowNumber]) return envelopeChoices[row.rowNumber];
+    const ruleChanges = ruleResults.get(row.rowNumber)?.changes;
+    if (ruleChanges?.isActualIncome) return INCOME_OPTION;
+    if (ruleChanges?.envelopeId) return ruleChanges.envelopeId;
+    if (row.draft?.type === 'inflow') return INCOME_OPTION;
+    return defaultEnvelopeId;
+  }, [envelopeChoices, ruleResults, defaultEnvelopeId]);
+
+  const reviewRows: ReviewRow[] = useMemo(() => results.map(row => {
+    if (!row.draft) return { rowNumber: row.rowNumber, error: row.error, isDuplicate: false, isAlreadyImported: false, ruleNames: [] };
+    const draft = applyChoice(row.draft, choiceFor(row));
+    // payeeId is resolved on import; a placeholder lets the schema check everything else
+    const validation = transactionSchema.safeParse({ ...draft, payeeId: draft.payeeId || "pending" });
+    const duplicate = findDuplicateTransaction(row.draft, existingTransactions);
+    const ruleResult = ruleResults.get(row.rowNumber);
+    const payeeId = ruleResult?.changes.payeeId ?? ruleResult?.payeeId;
+    const payee = payeeId ? payees.find(p => p.id === payeeId) : undefined;
+    return {
+      rowNumber: row.rowNumber,
+      draft,
+      error: validation.success ? undefined : validation.error.issues[0]?.message,
+      isDuplicate: !!duplicate,
+      isAlreadyImported: !!duplicate && !!row.draft.importId && duplicate.importId === row.draft.importId,
+      resolvedPayeeName: payee && payee.name !== row.draft.payeeName ? payee.name : undefined,
+      ruleNames: (ruleResult?.ruleIds ?? []).map(id => transactionRules.find(rule => rule.id === id)?.name ?? ""),
+    };
+  }), [results, choiceFor, existingTransactions, payees, transactionRules, ruleResults]);
+
+  // Rows that would be imported without an envelope, and haven't been asked about yet
+  const unfiledRows = reviewRows.filter(row =>
+    row.draft && !row.isAlreadyImported && !row.draft.envelopeId && !row.draft.isActualIncome && !suggestions[row.rowNumber]);
+
+  const handleSuggest = async () => {
+    setIsSuggesting(true);
+    const queue = [...unfiledRows];
+    let failed = 0;
+    const worker = async () => {
+      for (let row = queue.shift(); row; row = queue.shift()) {
+        const { rowNumber, draft } = row;
+        try {
+          const rowSuggestions = await suggestEnvelope({ ...draft!, payeeName: row.resolvedPayeeName ?? draft!.payeeName });
+          setSuggestions(prev => ({ ...prev, [rowNumber]: rowSuggestions }));
+        } catch {
+          // Counted and reported once every row has been asked about
+          failed++;
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: SUGGESTION_CONCURRENCY }, worker));
+    setIsSuggesting(false);
+    if (failed > 0) {
+      toast({
+        title: "Suggestions Unavailable",
+        description: `No envelope could be suggested for ${failed} row${failed === 1 ? "" : "s"}. Choose them by hand or try again.`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const isSelected = (row: ReviewRow) =>
+    !row.error && !row.isAlreadyImported && (selection[row.rowNumber] ?? !row.isDuplicate);
+
+  const acceptedDrafts = reviewRows.filter(isSelected).map(row => row.draft!);
+  const duplicateCount = reviewRows.filter(row => row.isDuplicate).length;
+  const errorCount = reviewRows.filter(row => row.error).length;
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      const count = await importTransactions(acceptedDrafts);
+      const skipped = acceptedDrafts.length - count;
+      toast({
+        title: "Transactions Imported",
+        description: `${count} transaction${count === 1 ? "" : "s"} imported successfully.` +
+          (skipped > 0 ? ` ${skipped} had been imported before and ${skipped === 1 ? "was" : "were"} skipped.` : ""),
+        // Nothing was saved when every row had been imported before, so there's nothing to undo
+        ...(count > 0 && { action: <UndoToastAction /> }),
+      });
+      if (onImported) onImported(count);
+    } catch (error) {
+      toast({
+        title: "Import Failed",
+        description: (error as Error)?.message || "Could not import the transactions. Nothing was saved.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  if (results.length === 0) {
+    return <p className="text-sm text-muted-foreground">No transactions found in this file.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+        <div className="space-y-1 flex-1">
+          <Label>Default envelope for outflows</Label>
+          <Select value={defaultEnvelopeId} onValueChange={setDefaultEnvelopeId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select an envelope" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_ENVELOPE_OPTION}>Choose per row</SelectItem>
+              {envelopes.map(envelope => (
+                <SelectItem key={envelope.id} value={envelope.id}>
+                  {envelope.name} ({envelope.category})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {canSuggest && (
+          <Button variant="outline" onClick={handleSuggest} disabled={isSuggesting || unfiledRows.length === 0 || envelopes.length === 0}>
+            <Sparkles className="mr-2 h-4 w-4" /> {isSuggesting ? "Suggesting..." : "Suggest Envelopes"}
+          </Button>
+        )}
+        <p className="text-xs text-muted-foreground sm:pb-2">
+          {reviewRows.length} rows · {duplicateCount} likely duplicates · {errorCount} need attention
+        </p>
+      </div>
+      {storedError && (
+        <p className="text-xs text-destructive">
+          Couldn&apos;t load the stored transactions over these dates ({storedError}), so rows were only checked for duplicates against the loaded months.
+        </p>
+      )}
+
+      <ScrollArea className="h-[320px] rounded-md border">
+        <Table>
+          <TableHeader className="sticky top-0 bg-card z-10">
+            <TableRow>
+              <TableHead className="w-[40px]" />
+              <TableHead>Date</TableHead>
+              <TableHead>Payee / Description</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+              <TableHead>Envelope</TableHead>
+              <TableHead>Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {reviewRows.map(row => (
+              <TableRow key={row.rowNumber} className={cn(!isSelected(row) && "opacity-60")}>
+                <TableCell>
+                  <Checkbox
+                    checked={isSelected(row)}
+                    disabled={!!row.error || row.isAlreadyImported}
+                    onCheckedChange={(checked) => setSelection(prev => ({ ...prev, [row.rowNumber]: checked === true }))}
+                    aria-label={`Import row ${row.rowNumber}`}
+                  />
+                </TableCell>
+                <TableCell className="whitespace-nowrap text-xs">
+                  {row.draft ? format(parseISO(row.draft.date), "MMM d, yyyy") : `Row ${row.rowNumber}`}
+                </TableCell>
+                <TableCell>
+                  {row.draft && (
+                    <>
+                      <div className="text-sm font-medium">{row.draft.payeeName || <span className="italic text-muted-foreground">No payee</span>}</div>
+                      {row.resolvedPayeeName && <div className="text-xs text-primary">as {row.resolvedPayeeName}</div>}
+                      {row.ruleNames.length > 0 && (
+                        <div className="text-xs text-muted-foreground">Matched {row.ruleNames.join(", ")}</div>
+                      )}
+                      {row.draft.description && row.draft.description !== row.draft.payeeName && (
+                        <div className="text-xs text-muted-foreground">{row.draft.description}</div>
+                      )}
+                    </>
+                  )}
+                </TableCell>
+                <TableCell className={cn(
+                  "text-right font-semibold whitespace-nowrap",
+                  row.draft?.type === 'inflow' ? 'text-green-600 dark:text-green-500' : 'text-red-600 dark:text-red-500'
+                )}>
+                  {row.draft && `${row.draft.type === 'inflow' ? '+' : '-'}$${toMajorUnits(row.draft.amount).toFixed(2)}`}
+                </TableCell>
+                <TableCell className="min-w-[160px]">
+                  {row.draft && (
+                    <Select
+                      value={choiceFor(row)}
+                      onValueChange={(value) => setEnvelopeChoices(prev => ({ ...prev, [row.rowNumber]: value }))}
+                    >
+                      <SelectTrigger className="h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_ENVELOPE_OPTION}>No envelope</SelectItem>
+                        {row.draft.type === 'inflow' && <SelectItem value={INCOME_OPTION}>Actual income</SelectItem>}
+                        {envelopes.map(envelope => (
+                          <SelectItem key={envelope.id} value={envelope.id}>{envelope.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  {row.draft && !row.draft.envelopeId && !row.draft.isActualIncome && (
+                    <EnvelopeSuggestions
+                      className="mt-1"
+                      suggestions={suggestions[row.rowNumber] ?? []}
+                      onSelect={id => setEnvelopeChoices(prev => ({ ...prev, [row.rowNumber]: id }))}
+                    />
+                  )}
+                </TableCell>
+                <TableCell>
+                  {row.error ? (
+                    <span className="text-xs text-destructive">{row.error}</span>
+                  ) : row.isAlreadyImported ? (
+                    <Badge variant="secondary">Already imported</Badge>
+                  ) : row.isDuplicate ? (
+                    <Badge variant="secondary">Likely duplicate</Badge>
+                  ) : (
+                    <Badge variant="outline">New</Badge>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </ScrollArea>
+
+      <Button onClick={handleImport} disabled={isImporting || acceptedDrafts.length === 0} className="w-full sm:w-auto">
+        <Upload className="mr-2 h-4 w-4" />
+        {isImporting ? "Importing..." : `Import ${acceptedDrafts.length} Transaction${acceptedDrafts.length === 1 ? "" : "s"}`}
+      </Button>
+    </div>
+  );
+}
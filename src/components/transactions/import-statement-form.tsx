@@ -0,0 +1,194 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { parseCsv, guessCsvColumnMapping, mapCsvRows, csvDateFormatOptions } from "@/lib/import/csv";
+import { detectStatementFormat, parseStatementFile, statementFileAccept, type StatementFileFormat } from "@/lib/import";
+import type { QifDateOrder } from "@/lib/import/qif";
+import type { CsvAmountMode, CsvColumnMapping, CsvDateFormat } from "@/types";
+import { ImportReview } from "./import-review";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+
+// Select value for optional columns that aren't in the file.
+const UNMAPPED = "-1";
+
+interface ImportStatementFormProps {
+  accountId: string;
+  onSuccess?: () => void;
+}
+
+export function ImportStatementForm({ accountId, onSuccess }: ImportStatementFormProps) {
+  const { toast } = useToast();
+  const [fileFormat, setFileFormat] = useState<StatementFileFormat | null>(null);
+  const [fileText, setFileText] = useState("");
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<CsvColumnMapping | null>(null);
+  const [qifDateOrder, setQifDateOrder] = useState<QifDateOrder>('MDY');
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    try {
+      const text = await file.text();
+      const detectedFormat = detectStatementFormat(file.name, text);
+      if (!detectedFormat) {
+        toast({ title: "Unsupported File", description: "Choose a CSV, OFX, QFX or QIF file.", variant: "destructive" });
+        return;
+      }
+      setFileFormat(detectedFormat);
+      setFileText(text);
+      if (detectedFormat === "csv") {
+        const parsedRows = parseCsv(text);
+        if (parsedRows.length === 0) {
+          toast({ title: "Empty File", description: "No rows were found in this CSV file.", variant: "destructive" });
+          return;
+        }
+        setRows(parsedRows);
+        setMapping(guessCsvColumnMapping(parsedRows));
+      } else {
+        setRows([]);
+        setMapping(null);
+      }
+    } catch (error) {
+      console.error("Failed to read statement file:", error);
+      toast({ title: "Error Reading File", description: "Could not read the selected file.", variant: "destructive" });
+    }
+  };
+
+  const results = useMemo(() => {
+    if (fileFormat === "csv") return mapping ? mapCsvRows(rows, mapping, accountId) : [];
+    if (fileFormat === "ofx" || fileFormat === "qif") return parseStatementFile(fileFormat, fileText, accountId, { qifDateOrder });
+    return [];
+  }, [fileFormat, fileText, rows, mapping, accountId, qifDateOrder]);
+
+  const columnCount = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  const columnOptions = Array.from({ length: columnCount }, (_, index) => ({
+    value: String(index),
+    label: mapping?.hasHeaderRow && rows[0][index] ? rows[0][index] : `Column ${index + 1}`,
+  }));
+
+  const updateMapping = (changes: Partial<CsvColumnMapping>) => {
+    setMapping(prev => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const renderColumnSelect = (label: string, key: keyof CsvColumnMapping, optional = false) => (
+    <div className="space-y-1">
+      <Label>{label}</Label>
+      <Select
+        value={String(mapping?.[key] ?? UNMAPPED)}
+        onValueChange={(value) => updateMapping({ [key]: Number(value) } as Partial<CsvColumnMapping>)}
+      >
+        <SelectTrigger className="h-9">
+          <SelectValue placeholder="Select a column" />
+        </SelectTrigger>
+        <SelectContent>
+          {optional && <SelectItem value={UNMAPPED}>Not in file</SelectItem>}
+          {columnOptions.map(option => (
+            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-1">
+        <Label htmlFor="statement-file">Statement file</Label>
+        <Input id="statement-file" type="file" accept={statementFileAccept} onChange={handleFileChange} />
+        <p className="text-xs text-muted-foreground">CSV, OFX, QFX or QIF exports from your bank.</p>
+      </div>
+
+      {fileFormat === "qif" && (
+        <div className="space-y-1 max-w-xs">
+          <Label>Date order in file</Label>
+          <Select value={qifDateOrder} onValueChange={(value) => setQifDateOrder(value as QifDateOrder)}>
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="MDY">Month / Day / Year</SelectItem>
+              <SelectItem value="DMY">Day / Month / Year</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {(fileFormat === "ofx" || fileFormat === "qif") && (
+        <ImportReview results={results} onImported={() => onSuccess?.()} />
+      )}
+
+      {fileFormat === "csv" && mapping && (
+        <>
+          <div className="space-y-4 rounded-md border p-4">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="csv-has-header"
+                checked={mapping.hasHeaderRow}
+                onCheckedChange={(checked) => updateMapping({ hasHeaderRow: checked === true })}
+              />
+              <Label htmlFor="csv-has-header" className="font-normal">First row contains column names</Label>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {renderColumnSelect("Date column", "dateColumn")}
+              <div className="space-y-1">
+                <Label>Date format</Label>
+                <Select value={mapping.dateFormat} onValueChange={(value) => updateMapping({ dateFormat: value as CsvDateFormat })}>
+                  <SelectTrigger className="h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {csvDateFormatOptions.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {renderColumnSelect("Description column", "descriptionColumn", true)}
+              {renderColumnSelect("Payee column", "payeeColumn", true)}
+            </div>
+
+            <RadioGroup
+              value={mapping.amountMode}
+              onValueChange={(value) => updateMapping({ amountMode: value as CsvAmountMode })}
+              className="flex flex-col space-y-1 sm:flex-row sm:space-y-0 sm:space-x-4"
+            >
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="signed" id="csv-amount-signed" />
+                <Label htmlFor="csv-amount-signed" className="font-normal">One signed amount column</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="debitCredit" id="csv-amount-split" />
+                <Label htmlFor="csv-amount-split" className="font-normal">Separate debit and credit columns</Label>
+              </div>
+            </RadioGroup>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {mapping.amountMode === "signed" ? (
+                renderColumnSelect("Amount column (negative = outflow)", "amountColumn")
+              ) : (
+                <>
+                  {renderColumnSelect("Debit (outflow) column", "debitColumn", true)}
+                  {renderColumnSelect("Credit (inflow) column", "creditColumn", true)}
+                </>
+              )}
+            </div>
+          </div>
+
+          <ImportReview results={results} onImported={() => onSuccess?.()} />
+        </>
+      )}
+    </div>
+  );
+}
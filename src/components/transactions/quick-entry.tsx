@@ -0,0 +1,69 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { format } from "date-fns";
+import { useAppContext } from "@/context/AppContext";
+import { parseTransaction } from "@/ai/flows/parse-transaction";
+import { parseQuickEntry } from "@/lib/quick-entry";
+import type { QuickEntryContext, QuickEntryDraft } from "@/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Wand2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+interface QuickEntryProps {
+  onDraft: (draft: QuickEntryDraft) => void;
+}
+
+/**
+ * A one-line box for entering a transaction the way it would be jotted down. The text is turned into a draft
+ * for the add form, where it's reviewed before anything is saved.
+ */
+export function QuickEntry({ onDraft }: QuickEntryProps) {
+  const { accounts, payees, envelopes } = useAppContext();
+  const { toast } = useToast();
+  const [text, setText] = useState("");
+  const [isParsing, setIsParsing] = useState(false);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!text.trim()) return;
+    setIsParsing(true);
+    const context: QuickEntryContext = {
+      today: format(new Date(), "yyyy-MM-dd"),
+      accounts: accounts.map(({ id, name }) => ({ id, name })),
+      payees: payees.map(({ id, name, aliases }) => ({ id, name, ...(aliases && { aliases }) })),
+      envelopes: envelopes.map(({ id, name, category }) => ({ id, name, category })),
+    };
+    let draft: QuickEntryDraft;
+    try {
+      ({ draft } = await parseTransaction({ text, ...context }));
+    } catch {
+      // The server can't be reached, e.g. offline; the rules run just as well here
+      draft = parseQuickEntry(text, context);
+    } finally {
+      setIsParsing(false);
+    }
+    onDraft(draft);
+    toast({
+      title: draft.amount ? "Check the Details" : "No Amount Found",
+      description: draft.amount
+        ? "The form below has been filled in. Review it, then add the transaction."
+        : "The rest of the form has been filled in; enter the amount below.",
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col sm:flex-row gap-2">
+      <Input
+        value={text}
+        onChange={event => setText(event.target.value)}
+        placeholder="e.g., coffee 4.75 starbucks yesterday from checking"
+        aria-label="Describe the transaction"
+      />
+      <Button type="submit" variant="outline" disabled={isParsing || !text.trim()}>
+        <Wand2 className="mr-2 h-4 w-4" /> {isParsing ? "Reading..." : "Fill In Form"}
+      </Button>
+    </form>
+  );
+}
@@ -7,6 +7,7 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { ArrowRight } from "lucide-react";
+import { toMajorUnits } from "@/lib/money";
 
 interface RecentTransactionsListProps {
   limit?: number;
@@ -56,7 +57,7 @@ export default function RecentTransactionsList({ limit = 5, showViewAllLink = tr
                     {new Date(transaction.date).toLocaleDateString()}
                  </TableCell>
                  <TableCell className={`text-right font-medium ${transaction.type === 'income' ? 'text-green-600 dark:text-green-500' : 'text-red-600 dark:text-red-500'}`}>
-                    {transaction.type === 'income' ? '+' : '-'}${transaction.amount.toFixed(2)}
+                    {transaction.type === 'income' ? '+' : '-'}${toMajorUnits(transaction.amount).toFixed(2)}
                  </TableCell>
               </TableRow>
             ))}
@@ -0,0 +1,195 @@
+"use client";
+
+import { useState } from "react";
+import { useAppContext } from "@/context/AppContext";
+import type { BulkTransactionChanges, Transaction } from "@/types";
+import { getTransactionStatus } from "@/lib/transactions";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { CalendarDays, CheckCircle2, DollarSign, Trash2, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { UndoToastAction } from "@/components/layout/undo-redo";
+import { cn } from "@/lib/utils";
+
+interface TransactionBulkActionsProps {
+  selected: Transaction[];
+  onClearSelection: () => void;
+}
+
+interface PendingAction {
+  title: string;
+  description: string;
+  confirmLabel: string;
+  destructive?: boolean;
+  run: () => Promise<void>;
+}
+
+const pluralize = (count: number) => `${count} transaction${count === 1 ? "" : "s"}`;
+
+/** Toolbar shown above a transaction list while rows are selected. Every action is saved as one batch. */
+export function TransactionBulkActions({ selected, onClearSelection }: TransactionBulkActionsProps) {
+  const { accounts, envelopes, payees, bulkUpdateTransactions, bulkDeleteTransactions } = useAppContext();
+  const { toast } = useToast();
+  const [date, setDate] = useState("");
+  const [isWorking, setIsWorking] = useState(false);
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+
+  const selectedIds = selected.map(tx => tx.id);
+  const reconciledCount = selected.filter(tx => getTransactionStatus(tx) === 'reconciled').length;
+  const reconciledWarning = reconciledCount > 0
+    ? ` ${pluralize(reconciledCount)} ${reconciledCount === 1 ? "has" : "have"} been reconciled, so those accounts will no longer match their statements.`
+    : "";
+
+  const run = async (action: () => Promise<void>) => {
+    setIsWorking(true);
+    try {
+      await action();
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const applyChanges = (changes: BulkTransactionChanges, label: string) => run(async () => {
+    try {
+      const count = await bulkUpdateTransactions(selectedIds, changes);
+      toast(count === 0
+        ? { title: "Nothing Changed", description: `${label} doesn't apply to the selected transactions.` }
+        : {
+            title: "Transactions Updated",
+            description: count < selected.length
+              ? `${label}: updated ${pluralize(count)}. The rest were left as they were.`
+              : `${label}: updated ${pluralize(count)}.`,
+            action: <UndoToastAction />,
+          });
+    } catch (error) {
+      toast({ title: "Error Updating Transactions", description: (error as Error)?.message || "Please try again.", variant: "destructive" });
+    }
+  });
+
+  // Moving or redating reconciled transactions breaks the statement they were matched to, so ask first
+  const applyWithConfirmation = (changes: BulkTransactionChanges, label: string) => {
+    if (reconciledCount === 0) {
+      applyChanges(changes, label);
+      return;
+    }
+    setPendingAction({
+      title: `${label} for ${pluralize(selected.length)}?`,
+      description: reconciledWarning.trim(),
+      confirmLabel: "Change Anyway",
+      run: () => applyChanges(changes, label),
+    });
+  };
+
+  const handleDelete = () => setPendingAction({
+    title: `Delete ${pluralize(selected.length)}?`,
+    description: "The other leg of any transfer is deleted too, and interest charges go with their loan payment."
+      + reconciledWarning,
+    confirmLabel: "Delete",
+    destructive: true,
+    run: () => run(async () => {
+      try {
+        const count = await bulkDeleteTransactions(selectedIds);
+        onClearSelection();
+        toast({ title: "Transactions Deleted", description: `Deleted ${pluralize(count)}.`, variant: "destructive", action: <UndoToastAction /> });
+      } catch (error) {
+        toast({ title: "Error Deleting Transactions", description: (error as Error)?.message || "Please try again.", variant: "destructive" });
+      }
+    }),
+  });
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-2 rounded-md border bg-muted/50 p-2">
+        <span className="text-sm font-medium px-1">{selected.length} selected</span>
+        <Button variant="ghost" size="sm" className="h-8" onClick={onClearSelection}>
+          <X className="mr-1 h-4 w-4" /> Clear
+        </Button>
+
+        <Select value="" onValueChange={envelopeId => applyChanges({ envelopeId }, "Change envelope")} disabled={isWorking}>
+          <SelectTrigger className="h-8 w-40" aria-label="Change envelope">
+            <SelectValue placeholder="Envelope..." />
+          </SelectTrigger>
+          <SelectContent>
+            {envelopes.map(envelope => <SelectItem key={envelope.id} value={envelope.id}>{envelope.name}</SelectItem>)}
+          </SelectContent>
+        </Select>
+
+        <Select value="" onValueChange={payeeId => applyChanges({ payeeId }, "Change payee")} disabled={isWorking}>
+          <SelectTrigger className="h-8 w-40" aria-label="Change payee">
+            <SelectValue placeholder="Payee..." />
+          </SelectTrigger>
+          <SelectContent>
+            {payees.map(payee => <SelectItem key={payee.id} value={payee.id}>{payee.name}</SelectItem>)}
+          </SelectContent>
+        </Select>
+
+        <Select value="" onValueChange={accountId => applyWithConfirmation({ accountId }, "Change account")} disabled={isWorking}>
+          <SelectTrigger className="h-8 w-40" aria-label="Change account">
+            <SelectValue placeholder="Account..." />
+          </SelectTrigger>
+          <SelectContent>
+            {accounts.map(account => <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>)}
+          </SelectContent>
+        </Select>
+
+        <div className="flex items-center gap-1">
+          <Input type="date" className="h-8 w-36" aria-label="New date" value={date} onChange={e => setDate(e.target.value)} />
+          <Button
+            variant="outline" size="sm" className="h-8" disabled={isWorking || !date}
+            onClick={() => applyWithConfirmation({ date }, "Change date")}
+          >
+            <CalendarDays className="mr-1 h-4 w-4" /> Set Date
+          </Button>
+        </div>
+
+        <Button variant="outline" size="sm" className="h-8" disabled={isWorking} onClick={() => applyChanges({ status: 'cleared' }, "Mark cleared")}>
+          <CheckCircle2 className="mr-1 h-4 w-4" /> Mark Cleared
+        </Button>
+        <Button variant="outline" size="sm" className="h-8" disabled={isWorking} onClick={() => applyChanges({ isActualIncome: true }, "Flag as income")}>
+          <DollarSign className="mr-1 h-4 w-4" /> Flag as Income
+        </Button>
+        <Button variant="outline" size="sm" className="h-8 text-destructive hover:text-destructive" disabled={isWorking} onClick={handleDelete}>
+          <Trash2 className="mr-1 h-4 w-4" /> Delete
+        </Button>
+      </div>
+
+      <AlertDialog open={!!pendingAction} onOpenChange={(open) => { if (!open) setPendingAction(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{pendingAction?.title}</AlertDialogTitle>
+            <AlertDialogDescription>{pendingAction?.description}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className={cn(pendingAction?.destructive && "bg-destructive text-destructive-foreground hover:bg-destructive/90")}
+              onClick={() => {
+                pendingAction?.run();
+                setPendingAction(null);
+              }}
+            >
+              {pendingAction?.confirmLabel}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
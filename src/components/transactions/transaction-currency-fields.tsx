@@ -0,0 +1,139 @@
+"use client";
+
+import { useFormContext } from "react-hook-form";
+import type * as z from "zod";
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { MoneyInput } from "@/components/ui/money-input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { transactionSchema } from "@/lib/schemas";
+import { convertAmount, currencyCodes, getExchangeRate } from "@/lib/currency";
+import { useAppContext } from "@/context/AppContext";
+import type { Money } from "@/types";
+
+const SAME_CURRENCY = "none"; // Select items can't have an empty value
+
+const toOptionalNumber = (value: string) => value === "" ? undefined : Number(value);
+
+/**
+ * Currency details for a transaction. Must be rendered inside a <Form> for the transaction
+ * schema. Records what was charged in a foreign currency, filling in the amount at today's
+ * rate, and for accounts outside the base currency takes the rate to the base currency.
+ * A blank rate uses the one in Settings.
+ */
+export function TransactionCurrencyFields() {
+  const { currencySettings, getAccountCurrency } = useAppContext();
+  const form = useFormContext<z.infer<typeof transactionSchema>>();
+
+  const accountId = form.watch("accountId");
+  const accountCurrency = accountId ? getAccountCurrency(accountId) : currencySettings.baseCurrency;
+  const baseCurrency = currencySettings.baseCurrency;
+  const originalCurrency = form.watch("originalCurrency");
+  const storedRateToBase = getExchangeRate(currencySettings, accountCurrency, baseCurrency);
+
+  const fillAmount = (amount: Money | undefined, currency: string | undefined) => {
+    if (amount === undefined || !currency) return;
+    const converted = convertAmount(currencySettings, amount, currency, accountCurrency);
+    if (converted !== undefined) form.setValue("amount", converted, { shouldValidate: true });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <FormField
+          control={form.control}
+          name="originalCurrency"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Charged In</FormLabel>
+              <Select
+                onValueChange={value => {
+                  const currency = value === SAME_CURRENCY ? undefined : value;
+                  field.onChange(currency);
+                  if (!currency) form.setValue("originalAmount", undefined);
+                  fillAmount(form.getValues("originalAmount"), currency);
+                }}
+                value={field.value || SAME_CURRENCY}
+              >
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value={SAME_CURRENCY}>{accountCurrency} (account currency)</SelectItem>
+                  {currencyCodes.filter(code => code !== accountCurrency).map(code => (
+                    <SelectItem key={code} value={code}>{code}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {originalCurrency && (
+          <FormField
+            control={form.control}
+            name="originalAmount"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Amount in {originalCurrency}</FormLabel>
+                <FormControl>
+                  <MoneyInput
+                    placeholder="0.00" {...field}
+                    onChange={amount => {
+                      field.onChange(amount);
+                      fillAmount(amount, originalCurrency);
+                    }}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+      </div>
+      {originalCurrency && getExchangeRate(currencySettings, originalCurrency, accountCurrency) === undefined && (
+        <p className="text-xs text-muted-foreground">
+          No rate from {originalCurrency} to {accountCurrency} in Settings. Enter the amount your account was charged.
+        </p>
+      )}
+      {accountCurrency !== baseCurrency && (
+        <FormField
+          control={form.control}
+          name="exchangeRate"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Exchange Rate (1 {accountCurrency} = ? {baseCurrency})</FormLabel>
+              <FormControl>
+                <Input
+                  type="number" step="any" placeholder={storedRateToBase !== undefined ? String(storedRateToBase) : "e.g., 1.08"}
+                  {...field} value={field.value ?? ""} onChange={e => field.onChange(toOptionalNumber(e.target.value))}
+                />
+              </FormControl>
+              <FormDescription>
+                {storedRateToBase !== undefined
+                  ? "Leave blank to use today's rate from Settings."
+                  : `No ${accountCurrency} rate in Settings yet. Without one, amounts count 1:1 in ${baseCurrency}.`}
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAppContext } from "@/context/AppContext";
+import { countActiveFilters } from "@/lib/transaction-filters";
+import type { TransactionFilters } from "@/types";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { MoneyInput } from "@/components/ui/money-input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Search, X } from "lucide-react";
+
+interface TransactionFilterBarProps {
+  filters: TransactionFilters;
+  onChange: (filters: TransactionFilters) => void;
+}
+
+const ANY = "any"; // Select items can't have an empty value
+
+interface FilterSelectProps {
+  id: string;
+  label: string;
+  value: string | undefined;
+  onChange: (value: string | undefined) => void;
+  options: { value: string; label: string }[];
+}
+
+function FilterSelect({ id, label, value, onChange, options }: FilterSelectProps) {
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-xs">{label}</Label>
+      <Select value={value ?? ANY} onValueChange={next => onChange(next === ANY ? undefined : next)}>
+        <SelectTrigger id={id} className="h-9">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>Any</SelectItem>
+          {options.map(option => (
+            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+/** Filter controls for a transaction list. Controlled: the page owns the filters, usually via the URL. */
+export function TransactionFilterBar({ filters, onChange }: TransactionFilterBarProps) {
+  const { accounts, envelopes, payees, orderedCategories } = useAppContext();
+  const activeCount = countActiveFilters(filters);
+  // Typing updates the URL after a pause rather than on every keystroke
+  const [queryInput, setQueryInput] = useState(filters.query ?? "");
+
+  useEffect(() => {
+    setQueryInput(filters.query ?? "");
+  }, [filters.query]);
+
+  useEffect(() => {
+    if (queryInput === (filters.query ?? "")) return;
+    const timeout = setTimeout(() => set('query', queryInput || undefined), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [queryInput]);
+
+  const set = <K extends keyof TransactionFilters>(key: K, value: TransactionFilters[K]) => {
+    const next = { ...filters };
+    if (value === undefined || value === "") delete next[key];
+    else next[key] = value;
+    onChange(next);
+  };
+
+  return (
+    <Card className="shadow-sm">
+      <CardContent className="pt-4 space-y-3">
+        <div className="flex flex-col sm:flex-row gap-3 sm:items-end">
+          <div className="relative flex-grow">
+            <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search description or payee..." className="pl-8 h-9" aria-label="Search transactions"
+              value={queryInput} onChange={e => setQueryInput(e.target.value)}
+            />
+          </div>
+          <div className="flex gap-3 items-end">
+            <div className="space-y-1">
+              <Label htmlFor="filter-from" className="text-xs">From</Label>
+              <Input id="filter-from" type="date" className="h-9" value={filters.from ?? ""} onChange={e => set('from', e.target.value || undefined)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="filter-to" className="text-xs">To</Label>
+              <Input id="filter-to" type="date" className="h-9" value={filters.to ?? ""} onChange={e => set('to', e.target.value || undefined)} />
+            </div>
+            <Button variant="ghost" size="sm" className="h-9" onClick={() => onChange({})} disabled={activeCount === 0}>
+              <X className="mr-1 h-4 w-4" /> Clear{activeCount > 0 && ` (${activeCount})`}
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-8 gap-3 items-end">
+          <FilterSelect
+            id="filter-account" label="Account" value={filters.accountId} onChange={value => set('accountId', value)}
+            options={accounts.map(account => ({ value: account.id, label: account.name }))}
+          />
+          <FilterSelect
+            id="filter-envelope" label="Envelope" value={filters.envelopeId} onChange={value => set('envelopeId', value)}
+            options={envelopes.map(envelope => ({ value: envelope.id, label: envelope.name }))}
+          />
+          <FilterSelect
+            id="filter-category" label="Category" value={filters.category} onChange={value => set('category', value)}
+            options={orderedCategories.map(category => ({ value: category, label: category }))}
+          />
+          <FilterSelect
+            id="filter-payee" label="Payee" value={filters.payeeId} onChange={value => set('payeeId', value)}
+            options={payees.map(payee => ({ value: payee.id, label: payee.name }))}
+          />
+          <FilterSelect
+            id="filter-type" label="Type" value={filters.type} onChange={value => set('type', value as TransactionFilters['type'])}
+            options={[{ value: "inflow", label: "Inflow" }, { value: "outflow", label: "Outflow" }]}
+          />
+          <FilterSelect
+            id="filter-transfers" label="Transfers" value={filters.transfers} onChange={value => set('transfers', value as TransactionFilters['transfers'])}
+            options={[{ value: "only", label: "Only transfers" }, { value: "exclude", label: "No transfers" }]}
+          />
+          <FilterSelect
+            id="filter-income" label="Income" value={filters.income} onChange={value => set('income', value as TransactionFilters['income'])}
+            options={[{ value: "only", label: "Only income" }, { value: "exclude", label: "No income" }]}
+          />
+          <FilterSelect
+            id="filter-status" label="Status" value={filters.status} onChange={value => set('status', value as TransactionFilters['status'])}
+            options={[
+              { value: "uncleared", label: "Uncleared" },
+              { value: "cleared", label: "Cleared" },
+              { value: "reconciled", label: "Reconciled" },
+            ]}
+          />
+        </div>
+
+        <div className="flex gap-3 items-end">
+          <div className="space-y-1">
+            <Label htmlFor="filter-min" className="text-xs">Min Amount</Label>
+            <MoneyInput
+              id="filter-min" placeholder="0.00" className="h-9 w-32"
+              value={filters.minAmount} onChange={value => set('minAmount', value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="filter-max" className="text-xs">Max Amount</Label>
+            <MoneyInput
+              id="filter-max" placeholder="Any" className="h-9 w-32"
+              value={filters.maxAmount} onChange={value => set('maxAmount', value)}
+            />
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -4,6 +4,7 @@
 import { useState } from "react"; // Added useState
 import { useAppContext } from "@/context/AppContext";
 import { TransactionRow } from "./transaction-row";
+import { TransactionBulkActions } from "./transaction-bulk-actions";
 import { EditTransactionForm } from "./edit-transaction-form"; // Added EditTransactionForm import
 import {
   Table,
@@ -14,10 +15,12 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { ArrowRightLeft } from "lucide-react";
-import { ScrollArea } from "@/components/ui/scroll-area";
 import Image from "next/image";
 import type { Transaction } from "@/types"; // Import Transaction type
+import { getSignedAmount } from "@/lib/transactions";
 import { Card } from "@/components/ui/card"; // Assuming Card is used
+import { Checkbox } from "@/components/ui/checkbox";
+import { useVirtualRows } from "@/hooks/use-virtual-rows";
 import {
     Dialog,
     DialogContent,
@@ -25,28 +28,77 @@ import {
     DialogTitle,
     DialogDescription,
 } from "@/components/ui/dialog"; // Added Dialog imports
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 
 interface TransactionListProps {
   transactions?: Transaction[]; // Optional: Pass specific transactions to display
   limit?: number; // Optional limit for recent transactions
   showCaption?: boolean;
+  showRunningTotal?: boolean; // Adds a column with the running net of the listed transactions
+  selectable?: boolean; // Adds row checkboxes and bulk actions for the selected rows
 }
 
-export function TransactionList({ transactions: transactionsProp, limit, showCaption = true }: TransactionListProps) {
-  const { transactions: allTransactions } = useAppContext();
+export function TransactionList({ transactions: transactionsProp, limit, showCaption = true, showRunningTotal = false, selectable = false }: TransactionListProps) {
+  const { transactions: allTransactions, getTransactionBaseAmount } = useAppContext();
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
+  const [reconciledToEdit, setReconciledToEdit] = useState<Transaction | null>(null); // Awaiting confirmation
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
 
   // Use provided transactions if available, otherwise use all from context
   const transactionsToDisplay = transactionsProp || allTransactions;
 
   const displayTransactions = limit ? transactionsToDisplay.slice(0, limit) : transactionsToDisplay;
+  // Only the rows in view are rendered, so long lists scroll smoothly
+  const { containerRef, start, end, paddingTop, paddingBottom } = useVirtualRows(displayTransactions.length);
 
-  const handleEditTransaction = (transaction: Transaction) => {
+  // Rows filtered out or deleted drop out of the selection
+  const selectedTransactions = selectable ? displayTransactions.filter(tx => selectedIds.has(tx.id)) : [];
+  const allSelected = selectedTransactions.length > 0 && selectedTransactions.length === displayTransactions.length;
+
+  const toggleSelected = (transactionId: string, checked: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(transactionId);
+      else next.delete(transactionId);
+      return next;
+    });
+  };
+
+  // Accumulated oldest first, so the newest row carries the net of the whole list
+  const runningTotals = new Map<string, number>();
+  if (showRunningTotal) {
+    let total = 0;
+    [...displayTransactions]
+      .sort((a, b) => a.date.localeCompare(b.date) || (a.createdAt ?? "").localeCompare(b.createdAt ?? ""))
+      .forEach(tx => {
+        total += getSignedAmount({ type: tx.type, amount: getTransactionBaseAmount(tx) });
+        runningTotals.set(tx.id, total);
+      });
+  }
+
+  const openEditDialog = (transaction: Transaction) => {
     setEditingTransaction(transaction);
     setIsEditDialogOpen(true);
   };
 
+  const handleEditTransaction = (transaction: Transaction) => {
+    if (transaction.status === 'reconciled') {
+      setReconciledToEdit(transaction);
+      return;
+    }
+    openEditDialog(transaction);
+  };
+
   const handleEditSuccess = () => {
     setIsEditDialogOpen(false);
     setEditingTransaction(null);
@@ -72,34 +124,74 @@ export function TransactionList({ transactions: transactionsProp, limit, showCap
 
   return (
      <>
+      {selectedTransactions.length > 0 && (
+        <TransactionBulkActions selected={selectedTransactions} onClearSelection={() => setSelectedIds(new Set())} />
+      )}
       <Card className="shadow-md flex-grow flex flex-col overflow-hidden">
-        {/* ScrollArea will now grow to fill the Card */}
-        <ScrollArea className="flex-grow rounded-md border">
+        {/* Scrolls on its own, with a bounded height, so rows out of view can be left out */}
+        <div ref={containerRef} className="flex-grow max-h-[70vh] overflow-auto rounded-md border">
           <Table>
             {showCaption && transactionsProp === undefined && <TableCaption>A list of all your recent transactions.</TableCaption>}
             {/* Make TableHeader sticky */}
             <TableHeader className="sticky top-0 bg-card z-10">
               <TableRow>
+                {selectable && (
+                  <TableHead className="w-[40px]">
+                    <Checkbox
+                      checked={allSelected ? true : selectedTransactions.length > 0 ? "indeterminate" : false}
+                      onCheckedChange={(checked) => setSelectedIds(checked === true ? new Set(displayTransactions.map(tx => tx.id)) : new Set())}
+                      aria-label="Select all transactions"
+                    />
+                  </TableHead>
+                )}
                 <TableHead>Description</TableHead>
                 <TableHead className="text-center hidden sm:table-cell">Date</TableHead>
                 <TableHead className="text-center hidden md:table-cell">Envelope</TableHead>
                 <TableHead className="text-right">Amount</TableHead>
+                {showRunningTotal && <TableHead className="text-right hidden lg:table-cell">Running Total</TableHead>}
                 <TableHead className="text-right w-[80px]">Actions</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
-              {displayTransactions.map((transaction) => (
+              {paddingTop > 0 && <tr aria-hidden style={{ height: paddingTop }} />}
+              {displayTransactions.slice(start, end).map((transaction) => (
                 <TransactionRow
                   key={transaction.id}
                   transaction={transaction}
                   onEdit={handleEditTransaction} // Pass the edit handler
+                  runningTotal={runningTotals.get(transaction.id)}
+                  selected={selectable ? selectedIds.has(transaction.id) : undefined}
+                  onSelectedChange={selectable ? (checked) => toggleSelected(transaction.id, checked) : undefined}
                 />
               ))}
+              {paddingBottom > 0 && <tr aria-hidden style={{ height: paddingBottom }} />}
             </TableBody>
           </Table>
-        </ScrollArea>
+        </div>
       </Card>
 
+      {/* Reconciled transactions only change after confirmation */}
+      <AlertDialog open={!!reconciledToEdit} onOpenChange={(open) => { if (!open) setReconciledToEdit(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Edit a reconciled transaction?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This transaction matches a bank statement you already reconciled. Changing its amount, date or account
+              means the account will no longer agree with that statement.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => {
+              if (reconciledToEdit) openEditDialog(reconciledToEdit);
+              setReconciledToEdit(null);
+            }}>
+              Edit Anyway
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* Edit Transaction Dialog */}
       <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
         <DialogContent className="sm:max-w-[425px]">
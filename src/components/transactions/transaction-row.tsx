@@ -5,9 +5,11 @@ import type { Transaction } from "@/types";
 import { TableCell, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { format, parseISO, isValid } from "date-fns"; 
+import Link from "next/link";
 import { useAppContext } from "@/context/AppContext";
-import { ArrowUpCircle, ArrowDownCircle, Trash2, User, Pencil, Landmark, DollarSign } from "lucide-react"; // Added DollarSign
+import { ArrowUpCircle, ArrowDownCircle, Trash2, User, Pencil, Landmark, DollarSign, CheckCircle2, Circle, Lock, ArrowRightLeft, Percent, History } from "lucide-react"; // Added DollarSign
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -20,20 +22,44 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
+import { UndoToastAction } from "@/components/layout/undo-redo";
 import { cn } from "@/lib/utils";
+import { findTransferCounterpart, getTransactionStatus, hasSplits } from "@/lib/transactions";
+import { formatMoney } from "@/lib/currency";
+import { DocumentHistoryDialog } from "@/components/history/document-history-dialog";
 
 
 interface TransactionRowProps {
   transaction: Transaction;
   onEdit: (transaction: Transaction) => void; 
+  runningTotal?: number; // Net of the listed transactions up to this one, in the base currency
+  selected?: boolean;
+  onSelectedChange?: (checked: boolean) => void; // Shows a selection checkbox when set
 }
 
-export function TransactionRow({ transaction, onEdit }: TransactionRowProps) {
-  const { accounts, envelopes, payees, deleteTransaction } = useAppContext(); 
+export function TransactionRow({ transaction, onEdit, runningTotal, selected = false, onSelectedChange }: TransactionRowProps) {
+  const { accounts, envelopes, payees, transactions, currencySettings, deleteTransaction, setTransactionStatus, getAccountCurrency, getTransactionBaseAmount } = useAppContext(); 
   const { toast } = useToast();
 
   const account = accounts.find(acc => acc.id === transaction.accountId);
   const envelope = transaction.envelopeId ? envelopes.find(env => env.id === transaction.envelopeId) : null;
+  const currency = getAccountCurrency(transaction.accountId);
+  const isSplit = hasSplits(transaction);
+  const status = getTransactionStatus(transaction);
+  const counterpart = findTransferCounterpart(transaction, transactions);
+  // Account transfers link to the other account; envelope transfers (same account) to the other envelope
+  const counterpartLink = !counterpart ? null
+    : counterpart.accountId !== transaction.accountId
+      ? {
+          name: accounts.find(acc => acc.id === counterpart.accountId)?.name || "Unknown account",
+          href: `/dashboard/accounts/${counterpart.accountId}/transactions`,
+        }
+      : counterpart.envelopeId
+        ? {
+            name: envelopes.find(env => env.id === counterpart.envelopeId)?.name || "Unknown envelope",
+            href: `/dashboard/envelopes/${counterpart.envelopeId}/transactions?month=${isValid(parseISO(counterpart.date)) ? format(parseISO(counterpart.date), "yyyy-MM") : ""}`,
+          }
+        : null;
   const payee = transaction.payeeId ? payees.find(p => p.id === transaction.payeeId) : null; 
 
   const handleDelete = () => {
@@ -42,7 +68,8 @@ export function TransactionRow({ transaction, onEdit }: TransactionRowProps) {
         toast({
           title: "Transaction Deleted",
           description: "The transaction has been successfully deleted.",
-          variant: "destructive"
+          variant: "destructive",
+          action: <UndoToastAction />,
         });
       })
       .catch((error) => {
@@ -54,6 +81,18 @@ export function TransactionRow({ transaction, onEdit }: TransactionRowProps) {
       });
   };
 
+  const handleToggleCleared = (event: React.MouseEvent) => {
+    event.stopPropagation();
+    setTransactionStatus([transaction.id], status === 'cleared' ? 'uncleared' : 'cleared')
+      .catch((error) => {
+        toast({
+          title: "Error Updating Transaction",
+          description: (error as Error)?.message || "Could not change the cleared status.",
+          variant: "destructive"
+        });
+      });
+  };
+
   const handleEditClick = (event: React.MouseEvent) => {
     event.stopPropagation(); 
     onEdit(transaction);
@@ -64,7 +103,16 @@ export function TransactionRow({ transaction, onEdit }: TransactionRowProps) {
   const formattedDate = isValid(transactionDate) ? format(transactionDate, "MMM d, yyyy") : "Invalid Date";
 
   return (
-    <TableRow className="hover:bg-muted/50 transition-colors">
+    <TableRow className="hover:bg-muted/50 transition-colors" data-state={selected ? "selected" : undefined}>
+      {onSelectedChange && (
+        <TableCell>
+          <Checkbox
+            checked={selected}
+            onCheckedChange={(checked) => onSelectedChange(checked === true)}
+            aria-label={`Select transaction${payee ? ` for ${payee.name}` : ""}`}
+          />
+        </TableCell>
+      )}
       <TableCell>
         <div className="font-medium flex items-center">
           {payee ? (
@@ -86,12 +134,36 @@ export function TransactionRow({ transaction, onEdit }: TransactionRowProps) {
           <Landmark className="mr-1.5 h-3 w-3" />
           {account?.name || "N/A"}
         </div>
+        {counterpartLink && (
+          <div className="text-xs text-muted-foreground flex items-center mt-0.5 ml-5">
+            <ArrowRightLeft className="mr-1.5 h-3 w-3" />
+            {transaction.type === 'outflow' ? "To" : "From"}&nbsp;
+            <Link href={counterpartLink.href} className="underline-offset-2 hover:underline text-primary">
+              {counterpartLink.name}
+            </Link>
+          </div>
+        )}
+        {transaction.loanPaymentId && (
+          <div className="text-xs text-muted-foreground flex items-center mt-0.5 ml-5">
+            <Percent className="mr-1.5 h-3 w-3" />
+            Interest on the {format(parseISO(transaction.date), "MMM d")} payment
+          </div>
+        )}
       </TableCell>
       <TableCell className="text-center hidden sm:table-cell">
         {formattedDate}
       </TableCell>
       <TableCell className="text-center hidden md:table-cell">
-        {envelope ? (
+        {isSplit ? (
+          <div className="flex flex-col items-center gap-0.5">
+            <Badge variant="secondary">Split</Badge>
+            {transaction.splits!.map((line, index) => (
+              <span key={index} className="text-xs text-muted-foreground whitespace-nowrap">
+                {envelopes.find(env => env.id === line.envelopeId)?.name || "No envelope"}: {formatMoney(line.amount, currency)}
+              </span>
+            ))}
+          </div>
+        ) : envelope ? (
           <Badge variant="outline">{envelope.name}</Badge>
         ) : (
           <span className="text-xs text-muted-foreground">-</span>
@@ -106,11 +178,53 @@ export function TransactionRow({ transaction, onEdit }: TransactionRowProps) {
             <ArrowUpCircle className="mr-1 h-4 w-4" /> :
             <ArrowDownCircle className="mr-1 h-4 w-4" />
           }
-          ${transaction.amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+          {formatMoney(transaction.amount, currency)}
         </span>
+        {transaction.originalAmount !== undefined && transaction.originalCurrency && (
+          <span className="block text-xs text-muted-foreground">
+            Originally {formatMoney(transaction.originalAmount, transaction.originalCurrency)}
+          </span>
+        )}
+        {currency !== currencySettings.baseCurrency && (
+          <span className="block text-xs text-muted-foreground">
+            ≈ {formatMoney(getTransactionBaseAmount(transaction), currencySettings.baseCurrency)}
+          </span>
+        )}
       </TableCell>
+      {runningTotal !== undefined && (
+        <TableCell className={cn("text-right whitespace-nowrap text-sm hidden lg:table-cell", runningTotal < 0 && "text-destructive")}>
+          {formatMoney(runningTotal, currencySettings.baseCurrency)}
+        </TableCell>
+      )}
       <TableCell className="text-right">
          <div className="flex justify-end space-x-1">
+            {status === 'reconciled' ? (
+              <span className="h-7 w-7 inline-flex items-center justify-center text-muted-foreground" title="Reconciled">
+                <Lock className="h-4 w-4" />
+                <span className="sr-only">Reconciled</span>
+              </span>
+            ) : (
+              <Button
+                variant="ghost"
+                size="icon"
+                className={cn("h-7 w-7", status === 'cleared' ? "text-green-600 dark:text-green-500" : "text-muted-foreground")}
+                onClick={handleToggleCleared}
+                title={status === 'cleared' ? "Cleared - click to mark uncleared" : "Uncleared - click to mark cleared"}
+              >
+                {status === 'cleared' ? <CheckCircle2 className="h-4 w-4" /> : <Circle className="h-4 w-4" />}
+                <span className="sr-only">Toggle Cleared</span>
+              </Button>
+            )}
+            <DocumentHistoryDialog
+              documentId={transaction.id}
+              title="Transaction History"
+              trigger={
+                <Button variant="ghost" size="icon" className="text-muted-foreground hover:text-primary h-7 w-7" title="History">
+                  <History className="h-4 w-4" />
+                  <span className="sr-only">Transaction History</span>
+                </Button>
+              }
+            />
             <Button variant="ghost" size="icon" className="text-muted-foreground hover:text-primary h-7 w-7" onClick={handleEditClick}>
                 <Pencil className="h-4 w-4" />
                 <span className="sr-only">Edit Transaction</span>
@@ -126,9 +240,11 @@ export function TransactionRow({ transaction, onEdit }: TransactionRowProps) {
                 <AlertDialogHeader>
                   <AlertDialogTitle>Are you sure?</AlertDialogTitle>
                   <AlertDialogDescription>
-                    This action cannot be undone. This will permanently delete the transaction
+                    This will delete the transaction
                     for {payee ? `"${payee.name}"` : "this payee"}
                     {transaction.description ? ` regarding "${transaction.description}"` : ""}.
+                    {counterpart && ` This is one leg of a transfer, so the matching ${transaction.type === 'outflow' ? "inflow" : "outflow"} will be deleted too.`}
+                    {status === 'reconciled' && " It has been reconciled, so the account will no longer match that statement."}
                   </AlertDialogDescription>
                 </AlertDialogHeader>
                 <AlertDialogFooter>
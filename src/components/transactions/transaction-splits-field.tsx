@@ -0,0 +1,157 @@
+"use client";
+
+import { useFieldArray, useFormContext } from "react-hook-form";
+import type * as z from "zod";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { MoneyInput } from "@/components/ui/money-input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { transactionSchema } from "@/lib/schemas";
+import { useAppContext } from "@/context/AppContext";
+import { PlusCircle, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { toMajorUnits } from "@/lib/money";
+
+/**
+ * Toggle plus line editor for splitting a transaction across envelopes. Must be
+ * rendered inside a <Form> for the transaction schema; while split, the form's
+ * envelopeId is cleared and each line carries its own envelope.
+ */
+export function TransactionSplitsField() {
+  const { envelopes } = useAppContext();
+  const form = useFormContext<z.infer<typeof transactionSchema>>();
+  const { fields, append, remove, replace } = useFieldArray({ control: form.control, name: "splits" });
+
+  const amount = form.watch("amount") || 0;
+  const splitLines = form.watch("splits") || [];
+  const isSplit = fields.length > 0;
+  const remaining = amount - splitLines.reduce((sum, line) => sum + (line.amount || 0), 0);
+  const splitsError = form.formState.errors.splits;
+  const splitsErrorMessage = splitsError?.root?.message ?? splitsError?.message;
+
+  const handleToggle = (checked: boolean) => {
+    if (checked) {
+      // Start with the current envelope holding the full amount, plus an empty line to split into
+      replace([
+        { envelopeId: form.getValues("envelopeId") || "", amount, memo: "" },
+        { envelopeId: "", amount: 0, memo: "" },
+      ]);
+      form.setValue("envelopeId", null);
+    } else {
+      form.setValue("envelopeId", splitLines[0]?.envelopeId || null);
+      replace([]);
+    }
+    form.clearErrors(["splits", "envelopeId"]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <FormItem className="flex flex-row items-center space-x-3 space-y-0">
+        <FormControl>
+          <Checkbox checked={isSplit} onCheckedChange={(checked) => handleToggle(checked === true)} />
+        </FormControl>
+        <FormLabel className="font-normal">Split across multiple envelopes</FormLabel>
+      </FormItem>
+
+      {isSplit && (
+        <div className="space-y-3 rounded-md border p-3">
+          {fields.map((line, index) => (
+            <div key={line.id} className="grid grid-cols-1 sm:grid-cols-[1fr_110px_1fr_auto] gap-2 items-start">
+              <FormField
+                control={form.control}
+                name={`splits.${index}.envelopeId`}
+                render={({ field }) => (
+                  <FormItem>
+                    <Select onValueChange={field.onChange} value={field.value ?? ""}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Envelope" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {envelopes.map(envelope => (
+                          <SelectItem key={envelope.id} value={envelope.id}>
+                            {envelope.name} ({envelope.category})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`splits.${index}.amount`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl>
+                      <MoneyInput placeholder="0.00" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`splits.${index}.memo`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl>
+                      <Input placeholder="Memo (optional)" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="text-muted-foreground hover:text-destructive"
+                onClick={() => remove(index)}
+                disabled={fields.length <= 2}
+              >
+                <Trash2 className="h-4 w-4" />
+                <span className="sr-only">Remove split line</span>
+              </Button>
+            </div>
+          ))}
+
+          <div className="flex items-center justify-between gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => append({ envelopeId: "", amount: remaining > 0 ? remaining : 0, memo: "" })}
+            >
+              <PlusCircle className="mr-2 h-4 w-4" /> Add Line
+            </Button>
+            <p className={cn("text-sm text-muted-foreground", remaining !== 0 && "text-destructive")}>
+              {remaining === 0
+                ? "Fully assigned."
+                : remaining > 0
+                  ? `$${toMajorUnits(remaining).toFixed(2)} left to assign.`
+                  : `$${toMajorUnits(Math.abs(remaining)).toFixed(2)} over the transaction amount.`}
+            </p>
+          </div>
+          {splitsErrorMessage && <p className="text-sm font-medium text-destructive">{splitsErrorMessage}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
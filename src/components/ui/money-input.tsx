@@ -0,0 +1,43 @@
+"use client"
+
+import * as React from "react"
+
+import type { Money } from "@/types"
+import { formatMoneyInput, parseMoney } from "@/lib/money"
+import { Input } from "@/components/ui/input"
+
+type MoneyInputProps = Omit<React.ComponentProps<"input">, "type" | "value" | "onChange"> & {
+  value: Money | null | undefined
+  onChange: (value: Money | undefined) => void
+}
+
+// An amount typed in whole currency units, e.g. "12.50", reported in minor units. Undefined while empty
+// or not a number. What's typed is kept as is, so "12." isn't reformatted halfway through.
+const MoneyInput = React.forwardRef<HTMLInputElement, MoneyInputProps>(
+  ({ value, onChange, ...props }, ref) => {
+    const [text, setText] = React.useState(() => formatMoneyInput(value))
+
+    // Follows changes from outside, like a form reset, but not the ones typing just made
+    React.useEffect(() => {
+      setText(current => parseMoney(current) === (value ?? undefined) ? current : formatMoneyInput(value))
+    }, [value])
+
+    return (
+      <Input
+        type="number"
+        step="0.01"
+        inputMode="decimal"
+        {...props}
+        ref={ref}
+        value={text}
+        onChange={e => {
+          setText(e.target.value)
+          onChange(parseMoney(e.target.value))
+        }}
+      />
+    )
+  }
+)
+MoneyInput.displayName = "MoneyInput"
+
+export { MoneyInput }
@@ -1,15 +1,35 @@
 "use client";
 
 import type { ReactNode } from 'react';
-import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
-import type { Account, Envelope, Transaction, Payee, AccountFormData, EnvelopeFormData, TransactionFormData, PayeeFormData, PayeeWithId, TransferEnvelopeFundsFormData, AccountWithId, TransferAccountFundsFormData, AppContextType, TransactionWithId, MonthlyEnvelopeBudget } from '@/types';
-import { formatISO, startOfMonth, endOfMonth, isWithinInterval, parseISO, isValid, startOfDay, startOfYear, endOfDay, format, addMonths, subMonths, isBefore, isEqual } from 'date-fns';
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import type { Account, Envelope, Transaction, Payee, AccountFormData, LoanDetails, CurrencySettings, EnvelopeFormData, TransactionFormData, PayeeFormData, PayeeWithId, TransferEnvelopeFundsFormData, AccountWithId, TransferAccountFundsFormData, AppContextType, TransactionWithId, MonthlyEnvelopeBudget, TransactionImportDraft, TransactionStatus, ReconcileAccountData, BulkTransactionChanges, HistoryEntry, PendingWrite, SyncStatus, TransactionMonthSummary, TransactionScope, Money, RecurringTransaction, RecurringTransactionFormData, RecurringTransactionWithId, TransactionAuthor, SharedBudget, BudgetInvite, BudgetRole, OrphanedTransactions, PayeeAlias, TransactionRule, TransactionRuleFormData, TransactionRuleWithId, TransactionRuleMatch } from '@/types';
+import { formatISO, startOfMonth, endOfMonth, isWithinInterval, parseISO, isValid, startOfDay, startOfYear, endOfDay, format, addDays, addMonths, subMonths } from 'date-fns';
 import { db } from '@/lib/firebase';
 import { useAuth } from '@/context/AuthContext';
+import { transactionSchema } from '@/lib/schemas';
+import { findTransferCounterpart, getSignedAmount, getTransactionStatus, hasSplits, sanitizeSplits, transactionTouchesEnvelope } from '@/lib/transactions';
+import { buildRecurringOccurrence, getFirstOccurrenceDate, getNextOccurrenceDate, getOccurrencesThrough } from '@/lib/recurrence';
+import { CARD_PAYMENT_CATEGORY, getPaymentEnvelopeName, isCreditCardAccount } from '@/lib/accounts';
+import { getLoanInterestCharges } from '@/lib/loans';
+import { convertAmount, defaultCurrencySettings, formatMoney, getExchangeRate, getLedgerRate } from '@/lib/currency';
+import { multiplyMoney, toMinorUnitFields } from '@/lib/money';
+import { mergePayeeAliases, resolvePayee, sanitizeAliases } from '@/lib/payees';
+import { applyTransactionRuleChanges, replaceRuleReference, runTransactionRules, sanitizeRuleActions, sanitizeRuleConditions } from '@/lib/transaction-rules';
+import { canEditWithRole, getAuthorName, getBudgetPath, getBudgetRole, getTransactionAuthor, normalizeEmail } from '@/lib/budgets';
+import { buildHistoryEntries, getHistorySource, type HistorySnapshot } from '@/lib/history';
+import { followPendingWrite, removeDismissedWrite } from '@/lib/pending-writes';
+import { MAX_UNDO_ENTRIES, getTrackedPaths, mergeUndoEntries, predictDocuments, queueRestore, readDocuments, trackBatch, type UndoDocument, type UndoEntry } from '@/lib/undo';
+import { buildEnvelopeLedger, getEnvelopeClosingBalance, getEnvelopeMonth, updateEnvelopeLedger, type EnvelopeLedger, type EnvelopeLedgerInputs } from '@/lib/envelope-ledger';
+import { describeMoneyMigrationError, finishInitialLoad } from '@/lib/initial-load';
+import { TRANSACTION_SUMMARIES_VERSION, UNDATED_MONTH, buildSummaryContext, createMonthSummary, getAccountCurrencies, diffSummaries, getTransactionEnvelopeIds, rateAmountsToBase, summarizeTransactions, toIncrementData, withLoadedTransactions, type SummaryContext } from '@/lib/summaries';
 import {
   collection,
+  collectionGroup,
   doc,
   getDocs,
+  getDocsFromServer,
+  getDocFromServer,
+  getCountFromServer,
   writeBatch,
   deleteDoc,
   setDoc,
@@ -18,11 +38,25 @@ import {
   Timestamp,
   query,
   orderBy,
-  getDoc,
   deleteField,
+  arrayUnion,
+  arrayRemove,
   where,
+  limit,
+  startAfter,
+  documentId,
+  onSnapshot,
+  runTransaction,
+  disableNetwork,
+  enableNetwork,
   WriteBatch,
   FieldValue,
+  type DocumentData,
+  type Query,
+  type QuerySnapshot,
+  type QueryConstraint,
+  type QueryDocumentSnapshot,
+  type SnapshotMetadata,
 } from 'firebase/firestore';
 
 const AppContext = createContext<AppContextType | undefined>(undefined);
@@ -33,7 +67,335 @@ const TRANSACTIONS_COLLECTION = 'transactions';
 const PAYEES_COLLECTION = 'payees';
 const APP_METADATA_COLLECTION = 'app_metadata';
 const MONTHLY_BUDGETS_COLLECTION = 'monthlyBudgets';
+const RECURRING_TRANSACTIONS_COLLECTION = 'recurringTransactions';
+const TRANSACTION_RULES_COLLECTION = 'transactionRules';
+const HISTORY_COLLECTION = 'history';
+const TRANSACTION_SUMMARIES_COLLECTION = 'transactionSummaries';
+const BUDGETS_COLLECTION = 'budgets';
+const BUDGET_INVITES_COLLECTION = 'invites';
 const APP_METADATA_DOC_ID = 'main';
+const RECONCILIATION_PAYEE_NAME = 'Reconciliation Adjustment';
+const LOAN_INTEREST_PAYEE_NAME = 'Loan Interest';
+const MAX_BATCH_WRITES = 500; // Firestore limit on writes per batch
+const TRANSACTION_WINDOW_MONTHS = 3; // Months of transactions loaded up front, and added by each "load older"
+const SUMMARY_REBUILD_PAGE_SIZE = 1000;
+const MAX_IN_FILTER_VALUES = 30; // Firestore limit on values in an 'in' filter
+const MONEY_VERSION = 1; // Stored on the metadata once every amount is in minor units
+const AMOUNT_MIGRATION_PAGE_SIZE = MAX_BATCH_WRITES - 1; // Leaves room for the progress saved with each page
+const RULE_RUN_PAGE_SIZE = MAX_BATCH_WRITES / 2; // Transactions saved per batch when applying rules; leaves room for the summaries
+
+// The amounts in each collection, converted by migrateAmountsToMinorUnits in this order
+const MONEY_FIELDS: [collectionName: string, fields: string[]][] = [
+  [ACCOUNTS_COLLECTION, ['initialBalance', 'lastReconciledBalance', 'creditLimit', 'loan.principal']],
+  [ENVELOPES_COLLECTION, ['budgetAmount', 'estimatedAmount']],
+  [MONTHLY_BUDGETS_COLLECTION, ['allocatedAmount']],
+  [RECURRING_TRANSACTIONS_COLLECTION, ['amount']],
+  [TRANSACTIONS_COLLECTION, ['amount', 'originalAmount', 'splits.amount']],
+];
+
+// Builds the Firestore document for a new transaction. Optional fields are left out rather than stored empty.
+const buildTransactionDocData = (transactionData: TransactionFormData, author: TransactionAuthor, parsedDate: Date): { [key: string]: any } => {
+  const dataToSave: { [key: string]: any } = {
+      userId: author.uid,
+      createdBy: author,
+      accountId: transactionData.accountId,
+      payeeId: transactionData.payeeId,
+      amount: Number(transactionData.amount),
+      type: transactionData.type,
+      date: formatISO(parsedDate),
+      createdAt: formatISO(new Date()),
+      isTransfer: transactionData.isTransfer || false,
+      isActualIncome: transactionData.type === 'inflow' ? (transactionData.isActualIncome || false) : false,
+  };
+
+  // Conditionally add description
+  if (transactionData.description && transactionData.description.trim() !== "") {
+      dataToSave.description = transactionData.description;
+  }
+  if (transactionData.status && transactionData.status !== 'uncleared') {
+      dataToSave.status = transactionData.status;
+  }
+  // Split transactions carry their envelopes on the split lines instead of envelopeId
+  if (transactionData.splits && transactionData.splits.length > 0) {
+      dataToSave.splits = sanitizeSplits(transactionData.splits);
+  } else if (transactionData.envelopeId && transactionData.envelopeId.trim() !== "") {
+      // Conditionally add envelopeId (handle null and empty string as "no envelope")
+      dataToSave.envelopeId = transactionData.envelopeId;
+  }
+  if (transactionData.exchangeRate !== undefined) {
+      dataToSave.exchangeRate = Number(transactionData.exchangeRate);
+  }
+  if (transactionData.originalAmount !== undefined && transactionData.originalCurrency) {
+      dataToSave.originalAmount = Number(transactionData.originalAmount);
+      dataToSave.originalCurrency = transactionData.originalCurrency;
+  }
+  // Lets envelope pages query their transactions, splits included
+  dataToSave.envelopeIds = getTransactionEnvelopeIds(dataToSave as Transaction);
+  return dataToSave;
+};
+
+// Builds the Firestore fields for a recurring rule. Optional fields are left out rather than stored empty.
+const buildRecurringTransactionDocData = (data: RecurringTransactionFormData): { [key: string]: any } => {
+  const isActualIncome = data.type === 'inflow' ? (data.isActualIncome || false) : false;
+  const dataToSave: { [key: string]: any } = {
+      accountId: data.accountId,
+      payeeId: data.payeeId,
+      amount: Number(data.amount),
+      type: data.type,
+      isActualIncome,
+      frequency: data.frequency,
+      startDate: data.startDate,
+      autoPost: !!data.autoPost,
+  };
+  if (data.description && data.description.trim() !== "") dataToSave.description = data.description;
+  if (!isActualIncome && data.envelopeId && data.envelopeId.trim() !== "") dataToSave.envelopeId = data.envelopeId;
+  if ((data.frequency === 'monthly' || data.frequency === 'everyNMonths') && data.dayOfMonth) dataToSave.dayOfMonth = Number(data.dayOfMonth);
+  if (data.frequency === 'everyNMonths' && data.intervalMonths) dataToSave.intervalMonths = Number(data.intervalMonths);
+  if (data.endDate) dataToSave.endDate = data.endDate;
+  return dataToSave;
+};
+
+// Builds the Firestore fields for a transaction rule. Conditions and actions it doesn't have are left out.
+const buildTransactionRuleDocData = (data: TransactionRuleFormData): { [key: string]: any } => ({
+  name: data.name.trim(),
+  conditions: sanitizeRuleConditions(data.conditions),
+  actions: sanitizeRuleActions(data.actions),
+  enabled: data.enabled,
+});
+
+// Interest charge writes queued by a loan recalculation, applied to local state once the batch commits
+interface LoanInterestChanges {
+  upserts: Transaction[];
+  deletedIds: string[];
+  newPayee: Payee | null;
+}
+
+// Swaps the recomputed interest charges into a transaction list, newest first like the rest of the app.
+const mergeLoanInterestChanges = (list: Transaction[], changes: LoanInterestChanges): Transaction[] => {
+  if (changes.upserts.length === 0 && changes.deletedIds.length === 0) return list;
+  const replacedIds = new Set([...changes.deletedIds, ...changes.upserts.map(tx => tx.id)]);
+  return [...list.filter(tx => !replacedIds.has(tx.id)), ...changes.upserts]
+    .sort((a, b) => parseISO(b.date).getTime() - parseISO(a.date).getTime());
+};
+
+// Omits the optional envelope so Firestore never sees an undefined field.
+const buildLoanDocData = (loan: LoanDetails): { [key: string]: any } => {
+  const { interestEnvelopeId, ...terms } = loan;
+  return { ...terms, ...(interestEnvelopeId && { interestEnvelopeId }) };
+};
+
+// Returns the category lists with a new category added, keeping "Uncategorized" last.
+const withCategoryAdded = (categories: string[], orderedCategories: string[], category: string): { categories: string[]; orderedCategories: string[] } => {
+  if (categories.includes(category)) return { categories, orderedCategories };
+  const newCategories = [...categories, category].sort((a, b) => {
+    if (a === "Uncategorized") return 1; if (b === "Uncategorized") return -1; return a.localeCompare(b);
+  });
+  const newOrderedCategories = [...orderedCategories];
+  if (!newOrderedCategories.includes(category)) {
+    const uncatIndex = newOrderedCategories.indexOf("Uncategorized");
+    if (uncatIndex >= 0) {
+      newOrderedCategories.splice(uncatIndex, 0, category);
+    } else {
+      newOrderedCategories.push(category);
+    }
+  }
+  return { categories: newCategories, orderedCategories: newOrderedCategories };
+};
+
+// Starts a batch that remembers what it writes, so commitUndoable can record how to reverse it
+const startBatch = () => trackBatch(writeBatch(db));
+
+// Converters from stored documents to app objects, shared by the initial load and undo/redo.
+// Anything missing or malformed falls back to a safe default.
+const toISOStringOrToday = (value: any): string =>
+  (value && typeof value === 'string' && isValid(parseISO(value))) ? value :
+  (value && value.toDate && typeof value.toDate === 'function' && isValid(value.toDate())) ? formatISO(value.toDate()) :
+  formatISO(startOfDay(new Date()));
+
+const accountFromDoc = (id: string, data: DocumentData): Account => ({
+  id,
+  ...data,
+  initialBalance: (typeof data.initialBalance === 'number' && !isNaN(data.initialBalance)) ? data.initialBalance : 0,
+  createdAt: toISOStringOrToday(data.createdAt),
+} as Account);
+
+const envelopeFromDoc = (id: string, data: DocumentData, userId: string): Envelope => ({
+  id,
+  userId: data.userId || userId,
+  name: (typeof data.name === 'string' && data.name.trim() !== '') ? data.name.trim() : "Unnamed Envelope",
+  budgetAmount: (typeof data.budgetAmount === 'number' && !isNaN(data.budgetAmount)) ? data.budgetAmount : 0,
+  category: (typeof data.category === 'string' && data.category.trim() !== '') ? data.category.trim() : "Uncategorized",
+  estimatedAmount: (data.estimatedAmount === null || data.estimatedAmount === undefined || isNaN(Number(data.estimatedAmount))) ? undefined : Number(data.estimatedAmount),
+  dueDate: (data.dueDate === null || data.dueDate === undefined || isNaN(Number(data.dueDate))) ? undefined : Number(data.dueDate),
+  orderIndex: (typeof data.orderIndex === 'number' && !isNaN(data.orderIndex)) ? data.orderIndex : Infinity,
+  createdAt: toISOStringOrToday(data.createdAt),
+  ...(data.linkedAccountId && { linkedAccountId: data.linkedAccountId }),
+} as Envelope);
+
+const transactionFromDoc = (id: string, data: DocumentData): Transaction => ({
+  id, ...data,
+  description: data.description === null || data.description === undefined ? undefined : data.description,
+  envelopeId: data.envelopeId === null || data.envelopeId === undefined ? undefined : data.envelopeId,
+  isTransfer: !!data.isTransfer,
+  isActualIncome: !!data.isActualIncome,
+  amount: (typeof data.amount === 'number' && !isNaN(data.amount)) ? data.amount : 0,
+  splits: Array.isArray(data.splits) && data.splits.length > 0 ? sanitizeSplits(data.splits) : undefined,
+} as Transaction);
+
+const transactionSummaryFromDoc = (id: string, data: DocumentData): TransactionMonthSummary => ({
+  ...createMonthSummary(id), ...data, id,
+} as TransactionMonthSummary);
+
+const isTransactionPath = (path: string) => path.split('/').slice(-2)[0] === TRANSACTIONS_COLLECTION;
+
+const hasSameIds = (stored: unknown, ids: string[]) =>
+  Array.isArray(stored) && stored.length === ids.length && stored.every((id, index) => id === ids[index]);
+
+const sortByDateDesc = (list: Transaction[]) => list.sort((a, b) => parseISO(b.date).getTime() - parseISO(a.date).getTime());
+
+// First day of the loaded window, as "YYYY-MM-DD" so it compares with stored dates as text
+const getWindowStart = (monthsBack: number) => format(startOfMonth(subMonths(new Date(), monthsBack - 1)), "yyyy-MM-dd");
+
+// The filters for a scope's transactions, as the scoped pages query them
+const getScopeConstraints = (scope: TransactionScope): QueryConstraint[] => {
+  const scopeFilter = 'accountId' in scope ? where('accountId', '==', scope.accountId)
+    : 'payeeId' in scope ? where('payeeId', '==', scope.payeeId)
+    : where('envelopeIds', 'array-contains', scope.envelopeId);
+  const monthFilters = scope.month
+    ? [where('date', '>=', `${scope.month}-01`), where('date', '<', format(addMonths(parseISO(`${scope.month}-01`), 1), "yyyy-MM-dd"))]
+    : [];
+  return [scopeFilter, ...monthFilters];
+};
+
+const payeeFromDoc = (id: string, data: DocumentData): Payee => ({
+  id, ...data,
+  category: data.category === null || data.category === undefined ? undefined : data.category,
+  aliases: sanitizeAliases(data.aliases),
+} as Payee);
+
+const recurringTransactionFromDoc = (id: string, data: DocumentData): RecurringTransaction => ({
+  id, ...data,
+  amount: (typeof data.amount === 'number' && !isNaN(data.amount)) ? data.amount : 0,
+  autoPost: !!data.autoPost,
+} as RecurringTransaction);
+
+const transactionRuleFromDoc = (id: string, data: DocumentData): TransactionRule => ({
+  id, ...data,
+  name: typeof data.name === 'string' ? data.name : "",
+  conditions: sanitizeRuleConditions(data.conditions),
+  actions: sanitizeRuleActions(data.actions),
+  enabled: data.enabled !== false,
+  orderIndex: typeof data.orderIndex === 'number' ? data.orderIndex : 0,
+} as TransactionRule);
+
+const compareRuleOrder = (a: TransactionRule, b: TransactionRule) => a.orderIndex - b.orderIndex || a.createdAt.localeCompare(b.createdAt);
+
+const sharedBudgetFromDoc = (id: string, data: DocumentData): SharedBudget => ({
+  id,
+  name: typeof data.name === 'string' && data.name.trim() !== '' ? data.name : "Shared Budget",
+  ownerId: data.ownerId,
+  members: data.members && typeof data.members === 'object' ? data.members : {},
+  memberIds: Array.isArray(data.memberIds) ? data.memberIds : [],
+  createdAt: toISOStringOrToday(data.createdAt),
+});
+
+const budgetInviteFromDoc = (id: string, data: DocumentData): BudgetInvite => ({
+  id, ...data,
+  createdAt: toISOStringOrToday(data.createdAt),
+} as BudgetInvite);
+
+// Replaces items with the same id and appends new ones, so a change applied locally after saving and the
+// same change arriving from a listener don't end up listed twice
+const upsertById = <T extends { id: string },>(list: T[], items: T[]): T[] => {
+  const byId = new Map(items.map(item => [item.id, item]));
+  const updated = list.map(item => byId.get(item.id) ?? item);
+  const known = new Set(list.map(item => item.id));
+  return [...updated, ...items.filter(item => !known.has(item.id))];
+};
+
+// Categories come from the envelopes, in the stored order where there is one, with "Uncategorized" last
+const reconcileCategoryOrder = (envelopes: Envelope[], storedOrdered: unknown): { categories: string[]; orderedCategories: string[] } => {
+  const categories = [...new Set(envelopes.map(env => env.category || "Uncategorized"))].sort((a, b) => {
+    if (a === "Uncategorized") return 1; if (b === "Uncategorized") return -1; return a.localeCompare(b);
+  });
+  const stored: string[] = Array.isArray(storedOrdered) ? storedOrdered : [];
+  const orderedCategories = stored.filter(cat => categories.includes(cat));
+  categories.forEach(cat => {
+    if (!orderedCategories.includes(cat)) orderedCategories.push(cat);
+  });
+  if (orderedCategories.includes("Uncategorized") && orderedCategories.length > 1) {
+    return { categories, orderedCategories: [...orderedCategories.filter(c => c !== "Uncategorized"), "Uncategorized"] };
+  }
+  return { categories, orderedCategories };
+};
+
+// When this browser last had the same data as the server, by budget, kept across visits so changes saved
+// after opening the app offline are checked from then on
+const LAST_SYNCED_STORAGE_KEY = 'allobudget.lastSyncedAt';
+
+const getLastSyncedAt = (budgetPath: string | null): string | null => {
+  if (!budgetPath || typeof window === 'undefined') return null;
+  try {
+    return window.localStorage.getItem(`${LAST_SYNCED_STORAGE_KEY}.${budgetPath}`);
+  } catch {
+    return null;
+  }
+};
+
+const setLastSyncedAt = (budgetPath: string | null, syncedAt: string) => {
+  if (!budgetPath || typeof window === 'undefined') return;
+  try {
+    window.localStorage.setItem(`${LAST_SYNCED_STORAGE_KEY}.${budgetPath}`, syncedAt);
+  } catch {
+    // Storage can be unavailable in private windows, in which case every offline change is checked
+  }
+};
+
+// The budget each user last had open on this browser, as a shared budget's id or "" for their own
+const ACTIVE_BUDGET_STORAGE_KEY = 'allobudget.activeBudget';
+
+const getStoredActiveBudget = (userId: string): string | null => {
+  if (typeof window === 'undefined') return null;
+  try {
+    return window.localStorage.getItem(`${ACTIVE_BUDGET_STORAGE_KEY}.${userId}`) || null;
+  } catch {
+    return null;
+  }
+};
+
+const setStoredActiveBudget = (userId: string, budgetId: string | null) => {
+  if (typeof window === 'undefined') return;
+  try {
+    window.localStorage.setItem(`${ACTIVE_BUDGET_STORAGE_KEY}.${userId}`, budgetId ?? "");
+  } catch {
+    // Without storage the personal budget opens each time
+  }
+};
+
+// What one onSnapshot listener last reported
+interface ListenerState {
+  loaded: boolean;
+  fromCache: boolean;
+  hasPendingWrites: boolean;
+  hasError: boolean;
+}
+
+const getSyncStatus = (listeners: ListenerState[]): SyncStatus => {
+  if (listeners.some(listener => listener.hasError)) return 'error';
+  if (listeners.some(listener => !listener.loaded)) return 'connecting';
+  if (listeners.some(listener => listener.fromCache)) return 'offline';
+  if (listeners.some(listener => listener.hasPendingWrites)) return 'saving';
+  return 'synced';
+};
+
+const currencySettingsFromDoc = (metadata: DocumentData): CurrencySettings => {
+  const baseCurrency = typeof metadata.baseCurrency === 'string' ? metadata.baseCurrency : defaultCurrencySettings.baseCurrency;
+  return {
+    baseCurrency,
+    ledgerCurrency: typeof metadata.ledgerCurrency === 'string' ? metadata.ledgerCurrency : baseCurrency,
+    exchangeRates: metadata.exchangeRates && typeof metadata.exchangeRates === 'object' ? metadata.exchangeRates : {},
+  };
+};
 
 export const AppProvider = ({ children }: { children: ReactNode }) => {
   const { currentUser } = useAuth();
@@ -44,25 +406,215 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
   const [categories, setCategories] = useState<string[]>([]);
   const [orderedCategories, setOrderedCategories] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>('connecting');
   const [lastModified, setLastModified] = useState<string | null>(null);
 
   const [currentViewMonth, setCurrentViewMonthState] = useState<Date>(startOfMonth(new Date()));
   const [monthlyEnvelopeBudgets, setMonthlyEnvelopeBudgets] = useState<MonthlyEnvelopeBudget[]>([]);
+  const [recurringTransactions, setRecurringTransactions] = useState<RecurringTransaction[]>([]);
+  const [transactionRules, setTransactionRules] = useState<TransactionRule[]>([]);
+  const [currencySettings, setCurrencySettings] = useState<CurrencySettings>(defaultCurrencySettings);
+  const recurringCatchUpBudgetRef = useRef<string | null>(null); // Budget whose missed auto-post occurrences were already posted
+  const latestTransactionsRef = useRef<Transaction[]>([]); // Lets back-to-back adds, like the recurring catch-up, see each other
+  const [undoStack, setUndoStack] = useState<UndoEntry[]>([]);
+  const [redoStack, setRedoStack] = useState<UndoEntry[]>([]);
+  const undoGroupRef = useRef<{ entry: UndoEntry | null } | null>(null); // Collects commits made by runAsUndoGroup
+  const isRestoringRef = useRef(false); // Stops a second undo or redo from starting before the first lands
+  const [pendingWrites, setPendingWrites] = useState<PendingWrite[]>([]);
+  const [isNetworkEnabled, setIsNetworkEnabled] = useState(true);
+  const isOfflineRef = useRef(false);
+  const listenerStatesRef = useRef(new Map<string, ListenerState>()); // Every live listener, by name, for the sync status
+  const [transactionSummaries, setTransactionSummaries] = useState<TransactionMonthSummary[]>([]);
+  // Why the budget's amounts couldn't be converted to minor units when it opened; it's read-only until they are
+  const [moneyMigrationError, setMoneyMigrationError] = useState<string | null>(null);
+  // Start of the transaction window ("YYYY-MM-DD"): the one asked for, and the one loaded. Undefined
+  // until the initial load picks one, null for every transaction.
+  const [transactionWindowRequest, setTransactionWindowRequest] = useState<{ budgetPath: string; start: string | null } | undefined>(undefined);
+  const [transactionWindowStart, setTransactionWindowStart] = useState<string | null | undefined>(undefined);
+  const transactionSourcesRef = useRef(new Map<string, Transaction[]>()); // Transactions from each live query, by source
+  const watchedTransferIdsRef = useRef(new Set<string>()); // Transfers whose other legs already have a listener
+  const transferUnsubscribersRef = useRef<(() => void)[]>([]);
+  const [sharedBudgets, setSharedBudgets] = useState<SharedBudget[]>([]);
+  const [receivedBudgetInvites, setReceivedBudgetInvites] = useState<BudgetInvite[]>([]);
+  const [sentBudgetInvites, setSentBudgetInvites] = useState<BudgetInvite[]>([]);
+  // The budget picked on this page load; until one is, the one stored for the user opens
+  const [activeBudgetChoice, setActiveBudgetChoice] = useState<{ userId: string; budgetId: string | null } | null>(null);
+
+  const activeBudgetId = !currentUser ? null
+    : activeBudgetChoice?.userId === currentUser.uid ? activeBudgetChoice.budgetId
+    : getStoredActiveBudget(currentUser.uid);
+  const activeSharedBudget = activeBudgetId ? sharedBudgets.find(budget => budget.id === activeBudgetId) : undefined;
+  // Until the budget list arrives a shared budget is only read, so nothing is saved with a role the user may not have
+  const budgetRole: BudgetRole = !currentUser || !activeBudgetId ? 'owner' : (getBudgetRole(activeSharedBudget, currentUser.uid) ?? 'viewer');
+  const canEditBudget = canEditWithRole(budgetRole) && moneyMigrationError === null;
+  const canEditBudgetRef = useRef(canEditBudget); // For the initial load, which runs in a listener set up before the role is known
+  const activeBudgetIdRef = useRef(activeBudgetId);
+  const budgetPath = currentUser ? getBudgetPath(currentUser.uid, activeBudgetId) : null;
 
   const getCollectionPath = useCallback((collectionName: string) => {
-    if (!currentUser) return null;
-    return `users/${currentUser.uid}/${collectionName}`;
-  }, [currentUser]);
+    if (!budgetPath) return null;
+    return `${budgetPath}/${collectionName}`;
+  }, [budgetPath]);
 
   const getDocPath = useCallback((collectionName: string, docId: string) => {
-    if (!currentUser) return null;
-    return `users/${currentUser.uid}/${collectionName}/${docId}`;
-  }, [currentUser]);
+    if (!budgetPath) return null;
+    return `${budgetPath}/${collectionName}/${docId}`;
+  }, [budgetPath]);
 
   const getMetadataDocRef = useCallback(() => {
-    if (!currentUser) return null;
-    return doc(db, `users/${currentUser.uid}/${APP_METADATA_COLLECTION}`, APP_METADATA_DOC_ID);
-  }, [currentUser]);
+    if (!budgetPath) return null;
+    return doc(db, `${budgetPath}/${APP_METADATA_COLLECTION}`, APP_METADATA_DOC_ID);
+  }, [budgetPath]);
+
+  useEffect(() => {
+    canEditBudgetRef.current = canEditBudget;
+    activeBudgetIdRef.current = activeBudgetId;
+  }, [canEditBudget, activeBudgetId]);
+
+  const updateSyncStatus = useCallback(() => {
+    setSyncStatus(getSyncStatus(Array.from(listenerStatesRef.current.values())));
+  }, []);
+
+  // Adds a listener to the sync status. Its handlers report snapshots and errors, and `remove` takes it
+  // out again when it's unsubscribed.
+  const registerListener = useCallback((name: string, onRecord?: () => void) => {
+    const states = listenerStatesRef.current;
+    states.set(name, { loaded: false, fromCache: true, hasPendingWrites: false, hasError: false });
+    updateSyncStatus();
+    const record = (update: Partial<ListenerState>) => {
+      const state = states.get(name);
+      if (!state) return;
+      states.set(name, { ...state, ...update });
+      updateSyncStatus();
+      onRecord?.();
+    };
+    return {
+      next: (metadata: SnapshotMetadata) => record({ loaded: true, fromCache: metadata.fromCache, hasPendingWrites: metadata.hasPendingWrites, hasError: false }),
+      error: (error: Error) => {
+        console.error(`AppContext: Error listening to ${name}:`, error);
+        record({ loaded: true, hasError: true });
+      },
+      remove: () => {
+        states.delete(name);
+        updateSyncStatus();
+      },
+    };
+  }, [updateSyncStatus]);
+
+  // Transactions come from several live queries: the date window, loan accounts, and the pages scoped
+  // views have loaded. The transaction list is their union, newest first. A null list drops a source.
+  const setTransactionSource = useCallback((source: string, list: Transaction[] | null) => {
+    const sources = transactionSourcesRef.current;
+    if (list) sources.set(source, list);
+    else sources.delete(source);
+    const byId = new Map<string, Transaction>();
+    sources.forEach(sourceList => sourceList.forEach(tx => byId.set(tx.id, tx)));
+    setTransactions(sortByDateDesc(Array.from(byId.values())));
+  }, []);
+
+  const recordUndo = useCallback((entry: UndoEntry) => {
+    const group = undoGroupRef.current;
+    if (group) {
+      group.entry = group.entry ? mergeUndoEntries(group.entry, entry) : entry;
+      return;
+    }
+    setUndoStack(prev => [...prev, entry].slice(-MAX_UNDO_ENTRIES));
+    setRedoStack([]);
+  }, []);
+
+  // Appends the before and after state of each changed document to the history collection. It's written
+  // after the change and never undone, so a failure here is logged instead of failing the change.
+  const recordHistory = useCallback(async (label: string, snapshots: HistorySnapshot[]) => {
+    const historyPath = getCollectionPath(HISTORY_COLLECTION);
+    if (!db || !historyPath) return;
+    const entries = buildHistoryEntries(label, snapshots, getHistorySource(), formatISO(new Date()));
+    try {
+      for (let start = 0; start < entries.length; start += MAX_BATCH_WRITES) {
+        const batch = writeBatch(db);
+        entries.slice(start, start + MAX_BATCH_WRITES).forEach(entry => {
+          batch.set(doc(collection(db, historyPath)), { ...entry, timestamp: serverTimestamp() });
+        });
+        await batch.commit();
+      }
+    } catch (error) {
+      console.error("Error recording history:", error);
+    }
+  }, [getCollectionPath]);
+
+  const getDocumentHistory = useCallback(async (documentId: string): Promise<HistoryEntry[]> => {
+    const historyPath = getCollectionPath(HISTORY_COLLECTION);
+    if (!db || !historyPath) return [];
+    // One equality filter needs no composite index, and a document has few entries, so they're sorted here
+    const snapshot = await getDocs(query(collection(db, historyPath), where('documentId', '==', documentId)));
+    return snapshot.docs
+      .map(d => ({ id: d.id, ...d.data() } as HistoryEntry))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }, [getCollectionPath]);
+
+  // Follows a commit until the server confirms it. A change saved offline is then checked against the
+  // history for changes other devices made to the same documents, since it was saved over them.
+  const trackPendingWrite = useCallback((label: string, paths: string[], committed: Promise<void>) => {
+    followPendingWrite({
+      id: doc(collection(db, 'pendingWrites')).id, label, paths, queuedAt: formatISO(new Date()), committed,
+      offlineSince: isOfflineRef.current ? (getLastSyncedAt(budgetPath) ?? new Date(0).toISOString()) : null,
+    }, { setPendingWrites, getDocumentHistory, sessionId: getHistorySource().sessionId });
+  }, [budgetPath, getDocumentHistory]);
+
+  const summaryContext = useMemo(() => buildSummaryContext(envelopes), [envelopes]);
+  const accountCurrencies = useMemo(() => getAccountCurrencies(accounts, currencySettings), [accounts, currencySettings]);
+
+  // Keeps the month summaries, and the envelopeIds envelope pages query by, in step with the transactions
+  // a batch writes. `before` and `after` are the written documents as stored and as they will be stored.
+  const queueTransactionIndexes = useCallback((batch: WriteBatch, before: UndoDocument[], after: UndoDocument[]) => {
+    const summariesPath = getCollectionPath(TRANSACTION_SUMMARIES_COLLECTION);
+    if (!summariesPath) return;
+    const toTransactions = (documents: UndoDocument[]) => documents
+      .filter(document => isTransactionPath(document.path) && document.data)
+      .map(document => ({ path: document.path, data: document.data!, tx: transactionFromDoc(document.path.split('/').pop()!, document.data!) }));
+    const written = toTransactions(after);
+
+    diffSummaries(toTransactions(before).map(item => item.tx), written.map(item => item.tx), summaryContext).forEach((delta, month) => {
+      const incrementData = toIncrementData(delta);
+      if (incrementData) batch.set(doc(db, summariesPath, month), incrementData, { merge: true });
+    });
+    written.forEach(({ path, data, tx }) => {
+      const envelopeIds = getTransactionEnvelopeIds(tx);
+      if (!hasSameIds(data.envelopeIds, envelopeIds)) batch.update(doc(db, path), { envelopeIds });
+    });
+  }, [getCollectionPath, summaryContext]);
+
+  // Commits a batch from startBatch and records how to reverse it. The documents it writes are read
+  // just before the commit, so undo puts back exactly what was there. It returns once the change is in
+  // the local cache rather than waiting for the server, so changes made offline save like any other.
+  // Summaries are updated in the same batch but not recorded, as undoing the change updates them again.
+  // A transaction the cache doesn't have is taken as loaded. A viewer's change is refused before anything is written.
+  const commitUndoable = useCallback(async (batch: WriteBatch, label: string) => {
+    if (!canEditBudgetRef.current) throw new Error("You can view this budget but not change it.");
+    const paths = getTrackedPaths(batch);
+    const loadedById = new Map(latestTransactionsRef.current.map(tx => [tx.id, tx]));
+    const before = withLoadedTransactions(await readDocuments(paths), path => isTransactionPath(path) ? loadedById.get(path.split('/').pop()!) : undefined);
+    queueTransactionIndexes(batch, before, predictDocuments(batch, before));
+    trackPendingWrite(label, paths, batch.commit());
+    recordUndo({ label, documents: before });
+    // Read back rather than worked out from the writes, so merges and server timestamps are as stored
+    readDocuments(paths)
+      .then(after => recordHistory(label, before.map((document, index) => ({ path: document.path, before: document.data, after: after[index].data }))))
+      .catch(error => console.error("Error recording history:", error));
+  }, [recordUndo, recordHistory, trackPendingWrite, queueTransactionIndexes]);
+
+  // Runs several commits as one undo step. A null label keeps them off the undo stack, for changes
+  // the user didn't make themselves.
+  const runAsUndoGroup = useCallback(async <T,>(label: string | null, action: () => Promise<T>): Promise<T> => {
+    if (undoGroupRef.current) return action();
+    const group: { entry: UndoEntry | null } = { entry: null };
+    undoGroupRef.current = group;
+    try {
+      return await action();
+    } finally {
+      undoGroupRef.current = null;
+      if (label !== null && group.entry) recordUndo({ ...group.entry, label });
+    }
+  }, [recordUndo]);
 
   const updateLastModified = useCallback(async (batch?: WriteBatch) => {
     if (!db || !currentUser) return;
@@ -72,14 +624,16 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
     if (batch) {
       batch.set(metadataDocRef, updateData, { merge: true });
     } else {
-      await setDoc(metadataDocRef, updateData, { merge: true });
+      // Not awaited, as the server only confirms it once back online
+      setDoc(metadataDocRef, updateData, { merge: true }).catch(error => console.error("Error updating last modified:", error));
     }
   }, [currentUser, getMetadataDocRef]);
 
   const persistCategoryChanges = useCallback(async (
     newCategories: string[],
     newOrderedCategories: string[],
-    batchToUse?: WriteBatch
+    batchToUse?: WriteBatch,
+    undoLabel?: string // Makes a change committed here undoable; not needed when the caller commits the batch
   ): Promise<void> => {
     if (!currentUser) return Promise.reject(new Error("User not authenticated for persisting category changes."));
     const metadataDocRef = getMetadataDocRef();
@@ -92,194 +646,757 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
       orderedCategories: Array.isArray(newOrderedCategories) ? newOrderedCategories : [],
     };
 
-    const batch = batchToUse || writeBatch(db);
+    const batch = batchToUse || startBatch();
     try {
       batch.set(metadataDocRef, dataToPersist, { merge: true });
       await updateLastModified(batch);
       if (!batchToUse) {
-        await batch.commit();
+        if (undoLabel) await commitUndoable(batch, undoLabel);
+        else batch.commit().catch(error => console.error("AppContext: Error persisting category changes to Firestore:", error));
       }
       // No return needed for void promise on success
     } catch (error) {
       console.error("AppContext: Error persisting category changes to Firestore:", error);
       throw error; // Re-throw the error
     }
-  }, [currentUser, getMetadataDocRef, updateLastModified]);
+  }, [currentUser, getMetadataDocRef, updateLastModified, commitUndoable]);
+
+  // Puts restored documents into local state, replacing or removing each one by id
+  const applyDocumentsLocally = useCallback((documents: UndoDocument[]) => {
+    if (!currentUser) return;
+    const byCollection = new Map<string, { id: string; data: DocumentData | null }[]>();
+    documents.forEach(({ path, data }) => {
+      const segments = path.split('/');
+      const collectionName = segments[segments.length - 2];
+      byCollection.set(collectionName, [...(byCollection.get(collectionName) ?? []), { id: segments[segments.length - 1], data }]);
+    });
+    const replaceAll = <T extends { id: string }>(list: T[], collectionName: string, fromDoc: (id: string, data: DocumentData) => T): T[] => {
+      const restored = byCollection.get(collectionName) ?? [];
+      const restoredIds = new Set(restored.map(item => item.id));
+      return [...list.filter(item => !restoredIds.has(item.id)), ...restored.filter(item => item.data).map(item => fromDoc(item.id, item.data!))];
+    };
 
+    if (byCollection.has(ACCOUNTS_COLLECTION)) {
+      setAccounts(prev => replaceAll(prev, ACCOUNTS_COLLECTION, accountFromDoc).sort((a, b) => a.name.localeCompare(b.name)));
+    }
+    if (byCollection.has(ENVELOPES_COLLECTION)) {
+      setEnvelopes(prev => replaceAll(prev, ENVELOPES_COLLECTION, (id, data) => envelopeFromDoc(id, data, currentUser.uid))
+        .sort((a, b) => (a.orderIndex ?? Infinity) - (b.orderIndex ?? Infinity)));
+    }
+    if (byCollection.has(TRANSACTIONS_COLLECTION)) {
+      setTransactions(prev => replaceAll(prev, TRANSACTIONS_COLLECTION, transactionFromDoc)
+        .sort((a, b) => parseISO(b.date).getTime() - parseISO(a.date).getTime()));
+    }
+    if (byCollection.has(PAYEES_COLLECTION)) {
+      setPayees(prev => replaceAll(prev, PAYEES_COLLECTION, payeeFromDoc).sort((a, b) => a.name.localeCompare(b.name)));
+    }
+    if (byCollection.has(MONTHLY_BUDGETS_COLLECTION)) {
+      setMonthlyEnvelopeBudgets(prev => replaceAll(prev, MONTHLY_BUDGETS_COLLECTION, (id, data) => ({ id, ...data } as MonthlyEnvelopeBudget)));
+    }
+    if (byCollection.has(RECURRING_TRANSACTIONS_COLLECTION)) {
+      setRecurringTransactions(prev => replaceAll(prev, RECURRING_TRANSACTIONS_COLLECTION, recurringTransactionFromDoc)
+        .sort((a, b) => a.nextDueDate.localeCompare(b.nextDueDate)));
+    }
+    if (byCollection.has(TRANSACTION_RULES_COLLECTION)) {
+      setTransactionRules(prev => replaceAll(prev, TRANSACTION_RULES_COLLECTION, transactionRuleFromDoc).sort(compareRuleOrder));
+    }
+    const metadata = byCollection.get(APP_METADATA_COLLECTION)?.find(item => item.id === APP_METADATA_DOC_ID)?.data;
+    if (metadata) {
+      setCategories(Array.isArray(metadata.categories) ? metadata.categories : []);
+      setOrderedCategories(Array.isArray(metadata.orderedCategories) ? metadata.orderedCategories : []);
+      setCurrencySettings(currencySettingsFromDoc(metadata));
+    }
+  }, [currentUser]);
+
+  // Writes an entry's documents back and returns the entry that reverses it, read just before the write
+  const restoreUndoEntry = useCallback(async (entry: UndoEntry, historyLabel: string): Promise<UndoEntry> => {
+    const current = await readDocuments(entry.documents.map(document => document.path));
+    const batch = writeBatch(db);
+    queueRestore(batch, entry.documents);
+    queueTransactionIndexes(batch, current, entry.documents);
+    await updateLastModified(batch); // After the restore, so the metadata document keeps a fresh timestamp
+    trackPendingWrite(historyLabel, entry.documents.map(document => document.path), batch.commit());
+    applyDocumentsLocally(entry.documents);
+    recordHistory(historyLabel, current.map((document, index) => ({ path: document.path, before: document.data, after: entry.documents[index].data })));
+    return { label: entry.label, documents: current };
+  }, [updateLastModified, applyDocumentsLocally, recordHistory, trackPendingWrite, queueTransactionIndexes]);
+
+  const dismissPendingWrite = useCallback((id: string) => {
+    setPendingWrites(prev => removeDismissedWrite(prev, id));
+  }, []);
+
+  // Lets the app be used as if offline, e.g. to try out queued changes against the emulator
+  const setNetworkEnabled = useCallback(async (enabled: boolean) => {
+    if (!db) return;
+    try {
+      await (enabled ? enableNetwork(db) : disableNetwork(db));
+      setIsNetworkEnabled(enabled);
+    } catch (error) {
+      console.error("Error changing network access:", error);
+      throw error;
+    }
+  }, []);
 
   useEffect(() => {
-    const fetchData = async () => {
-      if (!currentUser || !db) {
-        setAccounts([]); setEnvelopes([]); setTransactions([]); setPayees([]);
-        setCategories([]); setOrderedCategories([]); setLastModified(null);
-        setMonthlyEnvelopeBudgets([]); setCurrentViewMonthState(startOfMonth(new Date()));
-        setIsLoading(false);
-        return;
-      }
-      setIsLoading(true);
-      console.log(`AppContext: Starting data fetch for user ${currentUser.uid}...`);
-      try {
-        const accountsPath = getCollectionPath(ACCOUNTS_COLLECTION);
-        const envelopesPath = getCollectionPath(ENVELOPES_COLLECTION);
-        const transactionsPath = getCollectionPath(TRANSACTIONS_COLLECTION);
-        const payeesPath = getCollectionPath(PAYEES_COLLECTION);
-        const monthlyBudgetsPath = getCollectionPath(MONTHLY_BUDGETS_COLLECTION);
-
-        if (!accountsPath || !envelopesPath || !transactionsPath || !payeesPath || !monthlyBudgetsPath) {
-            setIsLoading(false); return;
-        }
+    isOfflineRef.current = syncStatus === 'offline';
+    if (syncStatus === 'synced') setLastSyncedAt(budgetPath, new Date().toISOString());
+  }, [syncStatus, budgetPath]);
+
+  const switchBudget = useCallback((budgetId: string | null) => {
+    if (!currentUser) return;
+    setStoredActiveBudget(currentUser.uid, budgetId);
+    setActiveBudgetChoice({ userId: currentUser.uid, budgetId });
+  }, [currentUser]);
 
-        const accountsSnapshot = await getDocs(collection(db, accountsPath));
-        const fetchedAccounts = accountsSnapshot.docs.map(d => {
-          const data = d.data();
-          return {
-            id: d.id,
-            ...data,
-            initialBalance: (typeof data.initialBalance === 'number' && !isNaN(data.initialBalance)) ? data.initialBalance : 0,
-            createdAt: (data.createdAt && typeof data.createdAt === 'string' && isValid(parseISO(data.createdAt))) ? data.createdAt :
-                       (data.createdAt && data.createdAt.toDate && typeof data.createdAt.toDate === 'function' && isValid(data.createdAt.toDate())) ? formatISO(data.createdAt.toDate()) :
-                       formatISO(startOfDay(new Date())),
-          } as Account;
-        }).sort((a,b) => a.name.localeCompare(b.name));
-        setAccounts(fetchedAccounts);
-        // console.log("AppContext: Fetched Accounts from Firestore:", fetchedAccounts);
-
-        const envelopesSnapshot = await getDocs(collection(db, envelopesPath));
-        const processedEnvelopes = envelopesSnapshot.docs.map((d) => {
-          const data = d.data();
-          return {
-            id: d.id,
-            userId: data.userId || currentUser.uid,
-            name: (typeof data.name === 'string' && data.name.trim() !== '') ? data.name.trim() : "Unnamed Envelope",
-            budgetAmount: (typeof data.budgetAmount === 'number' && !isNaN(data.budgetAmount)) ? data.budgetAmount : 0,
-            category: (typeof data.category === 'string' && data.category.trim() !== '') ? data.category.trim() : "Uncategorized",
-            estimatedAmount: (data.estimatedAmount === null || data.estimatedAmount === undefined || isNaN(Number(data.estimatedAmount))) ? undefined : Number(data.estimatedAmount),
-            dueDate: (data.dueDate === null || data.dueDate === undefined || isNaN(Number(data.dueDate))) ? undefined : Number(data.dueDate),
-            orderIndex: (typeof data.orderIndex === 'number' && !isNaN(data.orderIndex)) ? data.orderIndex : Infinity,
-            createdAt: (data.createdAt && typeof data.createdAt === 'string' && isValid(parseISO(data.createdAt))) ? data.createdAt :
-                       (data.createdAt && data.createdAt.toDate && typeof data.createdAt.toDate === 'function' && isValid(data.createdAt.toDate())) ? formatISO(data.createdAt.toDate()) :
-                       formatISO(startOfDay(new Date())),
-          } as Envelope;
-        }).sort((a, b) => (a.orderIndex ?? Infinity) - (b.orderIndex ?? Infinity));
-        setEnvelopes(processedEnvelopes);
-        // console.log("AppContext: Processed Envelopes from Firestore:", processedEnvelopes);
-
-
-        const transactionsQuery = query(collection(db, transactionsPath), orderBy("date", "desc"));
-        const transactionsSnapshot = await getDocs(transactionsQuery);
-        const fetchedTransactions = transactionsSnapshot.docs.map(d => ({
-            id: d.id, ...d.data(),
-            description: d.data().description === null || d.data().description === undefined ? undefined : d.data().description,
-            envelopeId: d.data().envelopeId === null || d.data().envelopeId === undefined ? undefined : d.data().envelopeId,
-            isTransfer: !!d.data().isTransfer,
-            isActualIncome: !!d.data().isActualIncome,
-            amount: (typeof d.data().amount === 'number' && !isNaN(d.data().amount)) ? d.data().amount : 0,
-        } as Transaction));
-        setTransactions(fetchedTransactions);
-
-        const payeesQuery = query(collection(db, payeesPath), orderBy("name", "asc"));
-        const payeesSnapshot = await getDocs(payeesQuery);
-        const fetchedPayees = payeesSnapshot.docs.map(d => ({
-            id: d.id, ...d.data(),
-            category: d.data().category === null || d.data().category === undefined ? undefined : d.data().category,
-        } as Payee));
-        setPayees(fetchedPayees);
-
-        const monthlyBudgetsSnapshot = await getDocs(collection(db, monthlyBudgetsPath));
-        const fetchedMonthlyBudgets = monthlyBudgetsSnapshot.docs.map(d => ({ id: d.id, ...d.data() } as MonthlyEnvelopeBudget));
-        setMonthlyEnvelopeBudgets(fetchedMonthlyBudgets);
-
-        // --- Category and Metadata Initialization ---
-        let lmDate: string | null = null;
-        const metadataDocRef = getMetadataDocRef();
-
-        const actualDerivedCategories = [...new Set(processedEnvelopes.map(env => env.category || "Uncategorized"))].sort((a, b) => {
-            if (a === "Uncategorized") return 1; if (b === "Uncategorized") return -1; return a.localeCompare(b);
+  // The shared budgets the user is a member of, and invitations to others sent to their email address.
+  // A shared budget that's open when the server says the user is no longer in it closes, and their own
+  // budget opens instead.
+  useEffect(() => {
+    setSharedBudgets([]); setReceivedBudgetInvites([]);
+    if (!db || !currentUser) return;
+    let hasServerList = false;
+    const unsubscribers = [
+      onSnapshot(query(collection(db, BUDGETS_COLLECTION), where('memberIds', 'array-contains', currentUser.uid)), { includeMetadataChanges: true }, snapshot => {
+        setSharedBudgets(snapshot.docs.map(d => sharedBudgetFromDoc(d.id, d.data())).sort((a, b) => a.name.localeCompare(b.name)));
+        if (snapshot.metadata.fromCache) return;
+        const activeId = activeBudgetIdRef.current;
+        const isGone = hasServerList
+          ? snapshot.docChanges().some(change => change.type === 'removed' && change.doc.id === activeId)
+          : !snapshot.docs.some(d => d.id === activeId);
+        hasServerList = true;
+        if (activeId && isGone) switchBudget(null);
+      }, error => console.error("AppContext: Error listening to shared budgets:", error)),
+    ];
+    if (currentUser.email) {
+      const invitesQuery = query(collectionGroup(db, BUDGET_INVITES_COLLECTION), where('email', '==', normalizeEmail(currentUser.email)));
+      unsubscribers.push(onSnapshot(invitesQuery, snapshot => {
+        setReceivedBudgetInvites(snapshot.docs.map(d => budgetInviteFromDoc(d.id, d.data())));
+      }, error => console.error("AppContext: Error listening to budget invites:", error)));
+    }
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [currentUser, switchBudget]);
+
+  const isBudgetOwner = !!currentUser && activeSharedBudget?.ownerId === currentUser.uid;
+  useEffect(() => {
+    setSentBudgetInvites([]);
+    if (!db || !activeBudgetId || !isBudgetOwner) return;
+    return onSnapshot(collection(db, BUDGETS_COLLECTION, activeBudgetId, BUDGET_INVITES_COLLECTION), snapshot => {
+      setSentBudgetInvites(snapshot.docs.map(d => budgetInviteFromDoc(d.id, d.data())).sort((a, b) => a.email.localeCompare(b.email)));
+    }, error => console.error("AppContext: Error listening to sent budget invites:", error));
+  }, [activeBudgetId, isBudgetOwner]);
+
+  // Sharing changes wait for the server rather than the local cache, as the security rules decide what
+  // each member can reach from them. They aren't budget data, so they're neither undoable nor in the history.
+
+  // Starts an empty shared budget owned by the user, in the base currency they use now, and opens it
+  const createSharedBudget = useCallback(async (name: string): Promise<string> => {
+    if (!db || !currentUser) return Promise.reject(new Error("User not authenticated"));
+    const budgetRef = doc(collection(db, BUDGETS_COLLECTION));
+    const now = formatISO(new Date());
+    const batch = writeBatch(db);
+    batch.set(budgetRef, {
+      name: name.trim(), ownerId: currentUser.uid, memberIds: [currentUser.uid], createdAt: now,
+      members: { [currentUser.uid]: { role: 'owner', name: getAuthorName(currentUser), email: normalizeEmail(currentUser.email ?? ""), joinedAt: now } },
+    });
+    // A new budget has no amounts to convert and no summaries to rebuild
+    batch.set(doc(db, budgetRef.path, APP_METADATA_COLLECTION, APP_METADATA_DOC_ID), {
+      baseCurrency: currencySettings.baseCurrency, ledgerCurrency: currencySettings.baseCurrency, exchangeRates: {},
+      categories: [], orderedCategories: [], moneyVersion: MONEY_VERSION,
+      transactionSummariesVersion: TRANSACTION_SUMMARIES_VERSION, lastModified: serverTimestamp(),
+    });
+    try {
+      await batch.commit();
+    } catch (error) {
+      console.error("Error creating shared budget:", error);
+      return Promise.reject(error);
+    }
+    switchBudget(budgetRef.id);
+    return budgetRef.id;
+  }, [currentUser, currencySettings, switchBudget]);
+
+  // Invites are stored by email address, which is how the security rules let the invitee find and accept them
+  const inviteBudgetMember = useCallback(async (email: string, role: Exclude<BudgetRole, 'owner'>): Promise<void> => {
+    if (!db || !currentUser || !activeSharedBudget || !isBudgetOwner) return Promise.reject(new Error("Only the budget's owner can invite members."));
+    const address = normalizeEmail(email);
+    if (Object.values(activeSharedBudget.members).some(member => member.email === address)) {
+      return Promise.reject(new Error(`${address} is already a member of this budget.`));
+    }
+    const invite: Omit<BudgetInvite, 'id'> = {
+      budgetId: activeSharedBudget.id, budgetName: activeSharedBudget.name, email: address, role,
+      invitedBy: getAuthorName(currentUser), createdAt: formatISO(new Date()),
+    };
+    try {
+      await setDoc(doc(db, BUDGETS_COLLECTION, activeSharedBudget.id, BUDGET_INVITES_COLLECTION, address), invite);
+    } catch (error) {
+      console.error("Error inviting budget member:", error);
+      return Promise.reject(error);
+    }
+  }, [currentUser, activeSharedBudget, isBudgetOwner]);
+
+  const cancelBudgetInvite = useCallback(async (inviteId: string): Promise<void> => {
+    if (!db || !activeBudgetId || !isBudgetOwner) return Promise.reject(new Error("Only the budget's owner can cancel invites."));
+    try {
+      await deleteDoc(doc(db, BUDGETS_COLLECTION, activeBudgetId, BUDGET_INVITES_COLLECTION, inviteId));
+    } catch (error) {
+      console.error("Error cancelling budget invite:", error);
+      return Promise.reject(error);
+    }
+  }, [activeBudgetId, isBudgetOwner]);
+
+  // Joins with the role the invite offers and uses the invite up in the same write, then opens the budget
+  const acceptBudgetInvite = useCallback(async (invite: BudgetInvite): Promise<void> => {
+    if (!db || !currentUser) return Promise.reject(new Error("User not authenticated"));
+    const batch = writeBatch(db);
+    batch.update(doc(db, BUDGETS_COLLECTION, invite.budgetId), {
+      [`members.${currentUser.uid}`]: { role: invite.role, name: getAuthorName(currentUser), email: invite.email, joinedAt: formatISO(new Date()) },
+      memberIds: arrayUnion(currentUser.uid),
+    });
+    batch.delete(doc(db, BUDGETS_COLLECTION, invite.budgetId, BUDGET_INVITES_COLLECTION, invite.id));
+    try {
+      await batch.commit();
+    } catch (error) {
+      console.error("Error accepting budget invite:", error);
+      return Promise.reject(error);
+    }
+    switchBudget(invite.budgetId);
+  }, [currentUser, switchBudget]);
+
+  const declineBudgetInvite = useCallback(async (invite: BudgetInvite): Promise<void> => {
+    if (!db) return Promise.reject(new Error("Database not available"));
+    try {
+      await deleteDoc(doc(db, BUDGETS_COLLECTION, invite.budgetId, BUDGET_INVITES_COLLECTION, invite.id));
+    } catch (error) {
+      console.error("Error declining budget invite:", error);
+      return Promise.reject(error);
+    }
+  }, []);
+
+  const setBudgetMemberRole = useCallback(async (userId: string, role: Exclude<BudgetRole, 'owner'>): Promise<void> => {
+    if (!db || !activeSharedBudget || !isBudgetOwner) return Promise.reject(new Error("Only the budget's owner can change roles."));
+    if (userId === activeSharedBudget.ownerId) return Promise.reject(new Error("The owner's role can't be changed."));
+    if (!activeSharedBudget.members[userId]) return Promise.reject(new Error("Member not found"));
+    try {
+      await updateDoc(doc(db, BUDGETS_COLLECTION, activeSharedBudget.id), { [`members.${userId}.role`]: role });
+    } catch (error) {
+      console.error("Error changing budget member role:", error);
+      return Promise.reject(error);
+    }
+  }, [activeSharedBudget, isBudgetOwner]);
+
+  const removeBudgetMember = useCallback(async (userId: string): Promise<void> => {
+    if (!db || !currentUser || !activeSharedBudget) return Promise.reject(new Error("No shared budget is open."));
+    if (userId === activeSharedBudget.ownerId) return Promise.reject(new Error("The owner can't leave or be removed from their budget."));
+    if (userId !== currentUser.uid && !isBudgetOwner) return Promise.reject(new Error("Only the budget's owner can remove members."));
+    const budgetRef = doc(db, BUDGETS_COLLECTION, activeSharedBudget.id);
+    // Someone leaving closes the budget first, so its listeners don't outlast their access
+    if (userId === currentUser.uid) switchBudget(null);
+    try {
+      await updateDoc(budgetRef, { [`members.${userId}`]: deleteField(), memberIds: arrayRemove(userId) });
+    } catch (error) {
+      console.error("Error removing budget member:", error);
+      return Promise.reject(error);
+    }
+  }, [currentUser, activeSharedBudget, isBudgetOwner, switchBudget]);
+
+  const undo = useCallback(async (): Promise<string | null> => {
+    const entry = undoStack[undoStack.length - 1];
+    if (!db || !currentUser || !entry || isRestoringRef.current) return null;
+    isRestoringRef.current = true;
+    try {
+      const redoEntry = await restoreUndoEntry(entry, `Undo: ${entry.label}`);
+      setUndoStack(prev => prev.slice(0, -1));
+      setRedoStack(prev => [...prev, redoEntry]);
+      return entry.label;
+    } catch (error) {
+      console.error("Error undoing change:", error);
+      throw error;
+    } finally {
+      isRestoringRef.current = false;
+    }
+  }, [currentUser, undoStack, restoreUndoEntry]);
+
+  const redo = useCallback(async (): Promise<string | null> => {
+    const entry = redoStack[redoStack.length - 1];
+    if (!db || !currentUser || !entry || isRestoringRef.current) return null;
+    isRestoringRef.current = true;
+    try {
+      const undoEntry = await restoreUndoEntry(entry, `Redo: ${entry.label}`);
+      setRedoStack(prev => prev.slice(0, -1));
+      setUndoStack(prev => [...prev, undoEntry]);
+      return entry.label;
+    } catch (error) {
+      console.error("Error redoing change:", error);
+      throw error;
+    } finally {
+      isRestoringRef.current = false;
+    }
+  }, [currentUser, redoStack, restoreUndoEntry]);
+
+  useEffect(() => {
+    latestTransactionsRef.current = transactions;
+  }, [transactions]);
+
+  const getAccountCurrency = useCallback((accountId: string): string => {
+    return accounts.find(acc => acc.id === accountId)?.currency || currencySettings.ledgerCurrency;
+  }, [accounts, currencySettings]);
+
+  // Converts a transaction's account currency to the base currency at the rate stored on it, falling
+  // back to today's rate. A currency with no rate at all is treated as 1:1 until one is entered.
+  const getTransactionRateToBase = useCallback((tx: Transaction): number => {
+    const ledgerRate = tx.exchangeRate ?? getLedgerRate(currencySettings, getAccountCurrency(tx.accountId)) ?? 1;
+    const baseRate = getLedgerRate(currencySettings, currencySettings.baseCurrency) ?? 1;
+    return ledgerRate / baseRate;
+  }, [currencySettings, getAccountCurrency]);
+
+  const getTransactionBaseAmount = useCallback((tx: Transaction): Money => {
+    return multiplyMoney(tx.amount, getTransactionRateToBase(tx));
+  }, [getTransactionRateToBase]);
+
+  // Stamps today's rate on transactions in accounts outside the ledger currency, unless one was entered
+  const withExchangeRate = useCallback(<T extends { accountId: string; exchangeRate?: number }>(data: T): T => {
+    if (data.exchangeRate !== undefined) return data;
+    const currency = getAccountCurrency(data.accountId);
+    if (currency === currencySettings.ledgerCurrency) return data;
+    const rate = getLedgerRate(currencySettings, currency);
+    return rate === undefined ? data : { ...data, exchangeRate: rate };
+  }, [currencySettings, getAccountCurrency]);
+
+  // Saves the base currency and the rate table. Rates come in as units of the base currency per unit and
+  // are stored against the ledger currency, which is fixed from the first time rates are saved.
+  const updateCurrencySettings = useCallback(async (baseCurrency: string, ratesToBase: Record<string, number>): Promise<void> => {
+    if (!db || !currentUser) return Promise.reject(new Error("User not authenticated"));
+    const metadataDocRef = getMetadataDocRef();
+    if (!metadataDocRef) return Promise.reject(new Error("Metadata document reference is not available."));
+
+    const ledgerCurrency = Object.keys(currencySettings.exchangeRates).length > 0 ? currencySettings.ledgerCurrency : baseCurrency;
+    const baseLedgerRate = baseCurrency === ledgerCurrency ? 1 : (ratesToBase[ledgerCurrency] > 0 ? 1 / ratesToBase[ledgerCurrency] : undefined);
+    if (baseLedgerRate === undefined) {
+      return Promise.reject(new Error(`Enter a rate for ${ledgerCurrency} to use ${baseCurrency} as the base currency.`));
+    }
+    const exchangeRates: Record<string, number> = {};
+    Object.entries(ratesToBase).forEach(([currency, rate]) => {
+      if (currency === ledgerCurrency || currency === baseCurrency || !(rate > 0)) return;
+      exchangeRates[currency] = rate * baseLedgerRate;
+    });
+    if (baseCurrency !== ledgerCurrency) exchangeRates[baseCurrency] = baseLedgerRate;
+
+    const newSettings: CurrencySettings = { baseCurrency, ledgerCurrency, exchangeRates };
+    try {
+      const batch = startBatch();
+      // mergeFields replaces the rate map outright, so removed rates don't linger
+      batch.set(metadataDocRef, newSettings, { mergeFields: ['baseCurrency', 'ledgerCurrency', 'exchangeRates'] });
+      await updateLastModified(batch);
+      await commitUndoable(batch, 'Change currency settings');
+      setCurrencySettings(newSettings);
+    } catch (error) {
+      console.error("Error saving currency settings:", error);
+      return Promise.reject(error);
+    }
+  }, [currentUser, currencySettings, getMetadataDocRef, updateLastModified, commitUndoable]);
+
+  // Builds the month summaries from every stored transaction, for budgets saved before summaries were kept
+  // or whose summaries have an older layout, and stores the envelopeIds envelope pages query by. It reads
+  // from the server, so until it has run once every transaction is loaded instead.
+  const rebuildTransactionSummaries = useCallback(async (context: SummaryContext, storedMonths: string[]): Promise<boolean> => {
+    const transactionsPath = getCollectionPath(TRANSACTIONS_COLLECTION);
+    const summariesPath = getCollectionPath(TRANSACTION_SUMMARIES_COLLECTION);
+    const metadataDocRef = getMetadataDocRef();
+    if (!db || !transactionsPath || !summariesPath || !metadataDocRef) return false;
+    try {
+      const allTransactions: Transaction[] = [];
+      const envelopeIdFixes: { id: string; envelopeIds: string[] }[] = [];
+      let lastDoc: QueryDocumentSnapshot | null = null;
+      do {
+        const constraints: QueryConstraint[] = [orderBy(documentId()), ...(lastDoc ? [startAfter(lastDoc)] : []), limit(SUMMARY_REBUILD_PAGE_SIZE)];
+        const page: QuerySnapshot = await getDocsFromServer(query(collection(db, transactionsPath), ...constraints));
+        page.docs.forEach(d => {
+          const tx = transactionFromDoc(d.id, d.data());
+          const envelopeIds = getTransactionEnvelopeIds(tx);
+          allTransactions.push(tx);
+          if (!hasSameIds(d.data().envelopeIds, envelopeIds)) envelopeIdFixes.push({ id: d.id, envelopeIds });
         });
-        // console.log("AppContext: Actual Derived Categories from envelopes:", actualDerivedCategories);
-
-        let finalOrderedCategories: string[] = [];
-        if (metadataDocRef) {
-            const metadataDocSnap = await getDoc(metadataDocRef);
-            if (metadataDocSnap.exists()) {
-                const metadata = metadataDocSnap.data();
-                const storedOrdered = Array.isArray(metadata.orderedCategories) ? metadata.orderedCategories : [];
-                // console.log("AppContext: Stored ordered categories from metadata:", storedOrdered);
-
-                // Filter storedOrdered to keep only categories that actually exist
-                finalOrderedCategories = storedOrdered.filter(cat => actualDerivedCategories.includes(cat));
-                // Add any actual categories that weren't in the stored order
-                actualDerivedCategories.forEach(derivedCat => {
-                    if (!finalOrderedCategories.includes(derivedCat)) {
-                        finalOrderedCategories.push(derivedCat);
-                    }
-                });
-                 const lm = metadata.lastModified;
-                 if (lm && lm instanceof Timestamp) lmDate = formatISO(lm.toDate());
-                 else if (typeof lm === 'string') lmDate = lm;
-            }
-        }
+        lastDoc = page.docs.length === SUMMARY_REBUILD_PAGE_SIZE ? page.docs[page.docs.length - 1] : null;
+      } while (lastDoc);
+
+      const summaries = summarizeTransactions(allTransactions, context);
+      const writes: ((batch: WriteBatch) => void)[] = [
+        ...Array.from(summaries.values()).map(({ id, ...summary }) => (batch: WriteBatch) => { batch.set(doc(db, summariesPath, id), summary); }),
+        ...storedMonths.filter(month => !summaries.has(month)).map(month => (batch: WriteBatch) => { batch.delete(doc(db, summariesPath, month)); }),
+        ...envelopeIdFixes.map(({ id, envelopeIds }) => (batch: WriteBatch) => { batch.update(doc(db, transactionsPath, id), { envelopeIds }); }),
+      ];
+      for (let start = 0; start < writes.length; start += MAX_BATCH_WRITES) {
+        const batch = writeBatch(db);
+        writes.slice(start, start + MAX_BATCH_WRITES).forEach(write => write(batch));
+        await batch.commit();
+      }
+      await setDoc(metadataDocRef, { transactionSummariesVersion: TRANSACTION_SUMMARIES_VERSION }, { merge: true });
+      return true;
+    } catch (error) {
+      console.error("Error rebuilding transaction summaries:", error);
+      return false;
+    }
+  }, [getCollectionPath, getMetadataDocRef]);
+
+  // Converts amounts saved in whole currency units, as every amount was before they were kept in minor
+  // units. Each page of documents is written together with how far the migration has got, so one that's
+  // cut off picks up where it stopped. Converted documents are marked, and each page is read again and
+  // written in a Firestore transaction, so two devices migrating at once never convert a document twice.
+  // Summaries are rebuilt after it.
+  const migrateAmountsToMinorUnits = useCallback(async (progress: { collection: string; lastId: string | null } | undefined): Promise<void> => {
+    const metadataDocRef = getMetadataDocRef();
+    if (!db || !metadataDocRef) throw new Error("Metadata document reference is not available.");
+    const startIndex = Math.max(0, MONEY_FIELDS.findIndex(([collectionName]) => collectionName === progress?.collection));
+    for (let index = startIndex; index < MONEY_FIELDS.length; index++) {
+      const [collectionName, fields] = MONEY_FIELDS[index];
+      const path = getCollectionPath(collectionName);
+      if (!path) throw new Error(`Collection path for ${collectionName} is not available.`);
+      let lastId = index === startIndex ? (progress?.lastId ?? null) : null;
+      let isCollectionDone = false;
+      while (!isCollectionDone) {
+        const constraints: QueryConstraint[] = [orderBy(documentId()), ...(lastId ? [startAfter(lastId)] : []), limit(AMOUNT_MIGRATION_PAGE_SIZE)];
+        const page: QuerySnapshot = await getDocsFromServer(query(collection(db, path), ...constraints));
+        isCollectionDone = page.docs.length < AMOUNT_MIGRATION_PAGE_SIZE;
+        if (page.docs.length > 0) lastId = page.docs[page.docs.length - 1].id;
+        const next = MONEY_FIELDS[index + 1];
+        await runTransaction(db, async firestoreTransaction => {
+          const stored = await Promise.all(page.docs.map(d => firestoreTransaction.get(d.ref)));
+          stored.forEach(snapshot => {
+            if (!snapshot.exists() || snapshot.data().moneyVersion === MONEY_VERSION) return;
+            firestoreTransaction.update(snapshot.ref, { ...toMinorUnitFields(snapshot.data(), fields), moneyVersion: MONEY_VERSION } as DocumentData);
+          });
+          firestoreTransaction.set(metadataDocRef, !isCollectionDone
+            ? { moneyMigration: { collection: collectionName, lastId } }
+            : next
+              ? { moneyMigration: { collection: next[0], lastId: null } }
+              : { moneyMigration: deleteField(), moneyVersion: MONEY_VERSION }, { merge: true });
+        });
+      }
+    }
+  }, [getCollectionPath, getMetadataDocRef]);
 
-        // If, after all that, finalOrderedCategories is empty but we do have envelopes, initialize it
-        if (finalOrderedCategories.length === 0 && actualDerivedCategories.length > 0) {
-            // console.log("AppContext: No valid ordered categories from metadata, initializing from derived categories.");
-            finalOrderedCategories = [...actualDerivedCategories]; // Default to derived order
+  // Tries the amount migration again after it failed on opening, then loads the budget as it would have
+  const retryMoneyMigration = useCallback(async (): Promise<void> => {
+    const metadataDocRef = getMetadataDocRef();
+    if (!db || !metadataDocRef || !budgetPath) return;
+    let metadata: DocumentData | undefined;
+    try {
+      metadata = (await getDocFromServer(metadataDocRef)).data();
+      if (metadata?.moneyVersion !== MONEY_VERSION) await migrateAmountsToMinorUnits(metadata?.moneyMigration);
+    } catch (error) {
+      setMoneyMigrationError(describeMoneyMigrationError(error));
+      return Promise.reject(error);
+    }
+    setMoneyMigrationError(null);
+    // The summaries weren't rebuilt from the unconverted amounts, so every transaction was loaded instead
+    const hasSummaries = metadata?.transactionSummariesVersion === TRANSACTION_SUMMARIES_VERSION
+      || await rebuildTransactionSummaries(summaryContext, transactionSummaries.map(summary => summary.id));
+    if (hasSummaries) setTransactionWindowRequest({ budgetPath, start: getWindowStart(TRANSACTION_WINDOW_MONTHS) });
+  }, [budgetPath, summaryContext, transactionSummaries, getMetadataDocRef, migrateAmountsToMinorUnits, rebuildTransactionSummaries]);
+
+  // Keeps every collection live with onSnapshot, so changes made on another device show up without a reload.
+  // Each snapshot only replaces the documents it reports, and Firestore includes this device's pending
+  // writes in them, so local changes that are still saving aren't overwritten by older server data.
+  // Transactions are loaded separately, a window of recent months at a time, once the summaries are in.
+  useEffect(() => {
+    // Undo history belongs to whoever made the changes
+    setUndoStack([]); setRedoStack([]); setPendingWrites([]);
+    setAccounts([]); setEnvelopes([]); setTransactions([]); setPayees([]);
+    setCategories([]); setOrderedCategories([]); setLastModified(null);
+    setMonthlyEnvelopeBudgets([]); setCurrentViewMonthState(startOfMonth(new Date()));
+    setRecurringTransactions([]); setTransactionRules([]); setCurrencySettings(defaultCurrencySettings);
+    setTransactionSummaries([]); setTransactionWindowRequest(undefined); setTransactionWindowStart(undefined);
+    setMoneyMigrationError(null);
+    transactionSourcesRef.current.clear();
+    watchedTransferIdsRef.current.clear();
+    transferUnsubscribersRef.current.forEach(unsubscribe => unsubscribe());
+    transferUnsubscribersRef.current = [];
+    if (!currentUser || !db || !budgetPath) {
+      setSyncStatus('synced');
+      setTransactionWindowStart(null);
+      setIsLoading(false);
+      return;
+    }
+    const accountsPath = getCollectionPath(ACCOUNTS_COLLECTION);
+    const envelopesPath = getCollectionPath(ENVELOPES_COLLECTION);
+    const summariesPath = getCollectionPath(TRANSACTION_SUMMARIES_COLLECTION);
+    const payeesPath = getCollectionPath(PAYEES_COLLECTION);
+    const monthlyBudgetsPath = getCollectionPath(MONTHLY_BUDGETS_COLLECTION);
+    const recurringTransactionsPath = getCollectionPath(RECURRING_TRANSACTIONS_COLLECTION);
+    const transactionRulesPath = getCollectionPath(TRANSACTION_RULES_COLLECTION);
+    const metadataDocRef = getMetadataDocRef();
+    if (!accountsPath || !envelopesPath || !summariesPath || !payeesPath || !monthlyBudgetsPath || !recurringTransactionsPath || !transactionRulesPath || !metadataDocRef) {
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    setSyncStatus('connecting');
+    console.log(`AppContext: Subscribing to data for ${budgetPath}...`);
+    const userId = currentUser.uid;
+    const listeners: { name: string; remove: () => void }[] = [];
+    let loadedEnvelopes: Envelope[] = [];
+    let loadedSummaryMonths: string[] = [];
+    let loadedMetadata: DocumentData | null = null;
+    let isInitialLoadDone = false;
+    let isSubscribed = true;
+
+    // Categories are healed against the envelopes once, when everything has arrived the first time
+    const finishBudgetLoad = () => finishInitialLoad({
+      isMigrated: loadedMetadata?.moneyVersion === MONEY_VERSION,
+      migrateAmounts: () => migrateAmountsToMinorUnits(loadedMetadata?.moneyMigration),
+      canEdit: () => canEditBudgetRef.current,
+      healCategories: async canSave => {
+        const { categories: derivedCategories, orderedCategories: finalOrderedCategories } =
+          reconcileCategoryOrder(loadedEnvelopes, loadedMetadata?.orderedCategories);
+        setCategories(derivedCategories);
+        setOrderedCategories(finalOrderedCategories);
+        if (canSave) await persistCategoryChanges(derivedCategories, finalOrderedCategories);
+      },
+      hasSummaries: loadedMetadata?.transactionSummariesVersion === TRANSACTION_SUMMARIES_VERSION,
+      rebuildSummaries: () => rebuildTransactionSummaries(buildSummaryContext(loadedEnvelopes), loadedSummaryMonths),
+      onMigrationFailed: message => { if (isSubscribed) setMoneyMigrationError(message); },
+      onLoaded: () => { if (isSubscribed) setIsLoading(false); },
+      onWindowReady: hasSummaries => {
+        if (isSubscribed) setTransactionWindowRequest({ budgetPath, start: hasSummaries ? getWindowStart(TRANSACTION_WINDOW_MONTHS) : null });
+      },
+    });
+
+    const track = (name: string) => {
+      const listener = registerListener(name, () => {
+        if (!isInitialLoadDone && listeners.every(({ name: listenerName }) => listenerStatesRef.current.get(listenerName)?.loaded)) {
+          isInitialLoadDone = true;
+          finishBudgetLoad();
         }
+      });
+      listeners.push({ name, remove: listener.remove });
+      return listener;
+    };
 
-        // Ensure "Uncategorized" is last if it exists and there are other categories
-        if (finalOrderedCategories.includes("Uncategorized") && finalOrderedCategories.length > 1) {
-            finalOrderedCategories = finalOrderedCategories.filter(c => c !== "Uncategorized");
-            finalOrderedCategories.push("Uncategorized");
+    const watchCollection = <T extends { id: string },>(
+      name: string,
+      source: Query,
+      fromDoc: (id: string, data: DocumentData) => T,
+      apply: (update: (prev: T[]) => T[], snapshot: QuerySnapshot) => void,
+    ) => {
+      const listener = track(name);
+      return onSnapshot(source, { includeMetadataChanges: true }, snapshot => {
+        // Metadata-only snapshots just move the sync status along
+        const changes = snapshot.docChanges();
+        if (changes.length > 0) {
+          const removedIds = new Set(changes.filter(change => change.type === 'removed').map(change => change.doc.id));
+          const upserts = changes.filter(change => change.type !== 'removed')
+            .map(change => fromDoc(change.doc.id, change.doc.data({ serverTimestamps: 'estimate' })));
+          apply(prev => upsertById(prev.filter(item => !removedIds.has(item.id)), upserts), snapshot);
         }
-        // console.log("AppContext: Final reconciled ordered categories:", finalOrderedCategories);
+        listener.next(snapshot.metadata);
+      }, listener.error);
+    };
 
-        setCategories(actualDerivedCategories);
-        setOrderedCategories(finalOrderedCategories);
-        setLastModified(lmDate);
+    const unsubscribers = [
+      watchCollection(ACCOUNTS_COLLECTION, collection(db, accountsPath), accountFromDoc, update => {
+        setAccounts(prev => update(prev).sort((a, b) => a.name.localeCompare(b.name)));
+      }),
+      watchCollection(ENVELOPES_COLLECTION, collection(db, envelopesPath), (id, data) => envelopeFromDoc(id, data, userId), (update, snapshot) => {
+        if (!isInitialLoadDone) loadedEnvelopes = snapshot.docs.map(d => envelopeFromDoc(d.id, d.data(), userId));
+        setEnvelopes(prev => update(prev).sort((a, b) => (a.orderIndex ?? Infinity) - (b.orderIndex ?? Infinity)));
+      }),
+      watchCollection(TRANSACTION_SUMMARIES_COLLECTION, collection(db, summariesPath), transactionSummaryFromDoc, (update, snapshot) => {
+        if (!isInitialLoadDone) loadedSummaryMonths = snapshot.docs.map(d => d.id);
+        setTransactionSummaries(prev => update(prev).sort((a, b) => a.id.localeCompare(b.id)));
+      }),
+      watchCollection(PAYEES_COLLECTION, query(collection(db, payeesPath), orderBy("name", "asc")), payeeFromDoc, update => {
+        setPayees(prev => update(prev).sort((a, b) => a.name.localeCompare(b.name)));
+      }),
+      watchCollection(MONTHLY_BUDGETS_COLLECTION, collection(db, monthlyBudgetsPath), (id, data) => ({ id, ...data } as MonthlyEnvelopeBudget), update => {
+        setMonthlyEnvelopeBudgets(update);
+      }),
+      watchCollection(RECURRING_TRANSACTIONS_COLLECTION, collection(db, recurringTransactionsPath), recurringTransactionFromDoc, update => {
+        setRecurringTransactions(prev => update(prev).sort((a, b) => a.nextDueDate.localeCompare(b.nextDueDate)));
+      }),
+      watchCollection(TRANSACTION_RULES_COLLECTION, collection(db, transactionRulesPath), transactionRuleFromDoc, update => {
+        setTransactionRules(prev => update(prev).sort(compareRuleOrder));
+      }),
+    ];
+
+    const metadataListener = track(APP_METADATA_COLLECTION);
+    unsubscribers.push(onSnapshot(metadataDocRef, { includeMetadataChanges: true }, snapshot => {
+      const metadata = snapshot.exists() ? snapshot.data({ serverTimestamps: 'estimate' }) : null;
+      if (!isInitialLoadDone) {
+        loadedMetadata = metadata;
+      } else if (metadata) {
+        // Category lists come from the healed load until then; afterwards every writer keeps them up to date
+        if (Array.isArray(metadata.categories)) setCategories(metadata.categories);
+        if (Array.isArray(metadata.orderedCategories)) setOrderedCategories(metadata.orderedCategories);
+      }
+      if (metadata) {
+        const lm = metadata.lastModified;
+        setLastModified(lm instanceof Timestamp ? formatISO(lm.toDate()) : typeof lm === 'string' ? lm : null);
+        setCurrencySettings(currencySettingsFromDoc(metadata));
+      }
+      metadataListener.next(snapshot.metadata);
+    }, metadataListener.error));
 
-        // Persist the potentially reconciled/healed categories back to Firestore metadata
-        await persistCategoryChanges(actualDerivedCategories, finalOrderedCategories);
-        // console.log("AppContext: Data fetching successful for user", currentUser.uid);
+    return () => {
+      isSubscribed = false;
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      listeners.forEach(listener => listener.remove());
+    };
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentUser, budgetPath, getCollectionPath, getMetadataDocRef]);
 
-      } catch (error) {
-        console.error(`AppContext: CRITICAL ERROR during fetchData for user ${currentUser.uid}:`, error);
-      } finally {
-        setIsLoading(false);
+  // Transfers listed from outside the window need their other leg, so edits and deletes keep both legs
+  // in step. Legs that aren't loaded get listeners of their own until the user changes.
+  const watchTransferCounterparts = useCallback((list: Transaction[]) => {
+    const transactionsPath = getCollectionPath(TRANSACTIONS_COLLECTION);
+    if (!db || !transactionsPath) return;
+    const legCounts = new Map<string, Set<string>>();
+    transactionSourcesRef.current.forEach(source => source.forEach(tx => {
+      if (tx.transferId) legCounts.set(tx.transferId, (legCounts.get(tx.transferId) ?? new Set()).add(tx.id));
+    }));
+    const missing = Array.from(new Set(list.map(tx => tx.transferId)))
+      .filter((transferId): transferId is string => !!transferId && !watchedTransferIdsRef.current.has(transferId) && (legCounts.get(transferId)?.size ?? 0) < 2);
+    for (let start = 0; start < missing.length; start += MAX_IN_FILTER_VALUES) {
+      const transferIds = missing.slice(start, start + MAX_IN_FILTER_VALUES);
+      transferIds.forEach(transferId => watchedTransferIdsRef.current.add(transferId));
+      const source = `transfers:${transferIds[0]}`;
+      transferUnsubscribersRef.current.push(onSnapshot(query(collection(db, transactionsPath), where('transferId', 'in', transferIds)), snapshot => {
+        setTransactionSource(source, snapshot.docs.map(d => transactionFromDoc(d.id, d.data({ serverTimestamps: 'estimate' }))));
+      }, error => console.error("AppContext: Error listening to transfer counterparts:", error)));
+    }
+  }, [getCollectionPath, setTransactionSource]);
+
+  // Listens to a transaction query as one source of the transaction list, until the returned function is called
+  const watchTransactionSource = useCallback((source: string, transactionsQuery: Query, onChange?: (list: Transaction[]) => void) => {
+    const listener = registerListener(source);
+    const unsubscribe = onSnapshot(transactionsQuery, { includeMetadataChanges: true }, snapshot => {
+      if (snapshot.docChanges().length > 0 || !transactionSourcesRef.current.has(source)) {
+        const list = snapshot.docs.map(d => transactionFromDoc(d.id, d.data({ serverTimestamps: 'estimate' })));
+        setTransactionSource(source, list);
+        onChange?.(list);
       }
+      listener.next(snapshot.metadata);
+    }, listener.error);
+    return () => {
+      unsubscribe();
+      listener.remove();
+      setTransactionSource(source, null);
     };
-    fetchData();
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [currentUser, getCollectionPath, getMetadataDocRef]);
+  }, [registerListener, setTransactionSource]);
+
+  // The transaction window: every transaction from its start on, live. When the start moves back the
+  // previous window stays listed until the wider one arrives.
+  useEffect(() => {
+    const transactionsPath = getCollectionPath(TRANSACTIONS_COLLECTION);
+    if (!db || !transactionsPath || !budgetPath || transactionWindowRequest?.budgetPath !== budgetPath) return;
+    const { start } = transactionWindowRequest;
+    const source = `window:${start ?? 'all'}`;
+    const listener = registerListener(TRANSACTIONS_COLLECTION);
+    let isLoaded = false;
+    const unsubscribe = onSnapshot(
+      query(collection(db, transactionsPath), ...(start ? [where('date', '>=', start)] : []), orderBy('date', 'desc')),
+      { includeMetadataChanges: true },
+      snapshot => {
+        if (snapshot.docChanges().length > 0 || !isLoaded) {
+          setTransactionSource(source, snapshot.docs.map(d => transactionFromDoc(d.id, d.data({ serverTimestamps: 'estimate' }))));
+        }
+        if (!isLoaded) {
+          isLoaded = true;
+          Array.from(transactionSourcesRef.current.keys())
+            .filter(key => key.startsWith('window:') && key !== source)
+            .forEach(key => setTransactionSource(key, null));
+          setTransactionWindowStart(start);
+        }
+        listener.next(snapshot.metadata);
+      },
+      listener.error,
+    );
+    return () => {
+      unsubscribe();
+      listener.remove();
+    };
+  }, [budgetPath, transactionWindowRequest, getCollectionPath, registerListener, setTransactionSource]);
+
+  // Loan interest is worked out from an account's whole history, so loan accounts are loaded in full
+  const loanAccountIds = accounts.filter(acc => acc.loan).map(acc => acc.id).join(',');
+  const isWholeHistoryLoaded = transactionWindowRequest !== undefined && transactionWindowRequest.start === null;
+  useEffect(() => {
+    const transactionsPath = getCollectionPath(TRANSACTIONS_COLLECTION);
+    if (!db || !transactionsPath || !loanAccountIds || isWholeHistoryLoaded) return;
+    const unsubscribers = loanAccountIds.split(',').map(accountId =>
+      watchTransactionSource(`loan:${accountId}`, query(collection(db, transactionsPath), where('accountId', '==', accountId)), watchTransferCounterparts));
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [loanAccountIds, isWholeHistoryLoaded, getCollectionPath, watchTransactionSource, watchTransferCounterparts]);
+
+  // Moves the window back a few months. Once it reaches the oldest month with transactions it takes in
+  // everything, including any transaction without a readable date.
+  const loadOlderTransactions = useCallback(() => {
+    setTransactionWindowRequest(prev => {
+      if (!prev || prev.start === null) return prev;
+      const start = format(subMonths(parseISO(prev.start), TRANSACTION_WINDOW_MONTHS), "yyyy-MM-dd");
+      const oldestMonth = transactionSummaries.find(summary => summary.transactionCount > 0 && summary.id !== UNDATED_MONTH)?.id;
+      return { ...prev, start: !oldestMonth || start.slice(0, 7) <= oldestMonth ? null : start };
+    });
+  }, [transactionSummaries]);
+
+  // The budget counts as loading until the first transaction window is in
+  const isDataLoading = isLoading || (!!currentUser && transactionWindowStart === undefined);
+
+  // Listens to the newest transactions on one account, envelope or payee, straight from Firestore, so their
+  // pages don't depend on the window. What it loads joins the transaction list while it's listened to.
+  const watchTransactions = useCallback((scope: TransactionScope, count: number, onChange: (list: Transaction[]) => void) => {
+    const transactionsPath = getCollectionPath(TRANSACTIONS_COLLECTION);
+    if (!db || !transactionsPath) return () => {};
+    const scopedQuery = query(collection(db, transactionsPath), ...getScopeConstraints(scope), orderBy('date', 'desc'), limit(count));
+    return watchTransactionSource(`scope:${doc(collection(db, transactionsPath)).id}`, scopedQuery, list => {
+      watchTransferCounterparts(list);
+      onChange(list);
+    });
+  }, [getCollectionPath, watchTransactionSource, watchTransferCounterparts]);
+
+  // Listens to the transactions on an account that aren't reconciled yet, however old, for reconciling it.
+  // Uncleared ones are stored without a status, so the whole account is listened to and the reconciled left out.
+  const watchUnreconciledTransactions = useCallback((accountId: string, onChange: (list: Transaction[]) => void) => {
+    const transactionsPath = getCollectionPath(TRANSACTIONS_COLLECTION);
+    if (!db || !transactionsPath) return () => {};
+    const accountQuery = query(collection(db, transactionsPath), where('accountId', '==', accountId));
+    return watchTransactionSource(`unreconciled:${doc(collection(db, transactionsPath)).id}`, accountQuery, list => {
+      watchTransferCounterparts(list);
+      onChange(list.filter(tx => getTransactionStatus(tx) !== 'reconciled'));
+    });
+  }, [getCollectionPath, watchTransactionSource, watchTransferCounterparts]);
+
+  // Every transaction dated from `from` to `to` inclusive, newest first, read once rather than listened to so
+  // ranges before the loaded window can be looked at without loading them
+  const getTransactionsInRange = useCallback(async (from: string, to: string): Promise<Transaction[]> => {
+    const transactionsPath = getCollectionPath(TRANSACTIONS_COLLECTION);
+    if (!db || !transactionsPath) return Promise.reject(new Error("Transactions path not available."));
+    if (to < from) return Promise.reject(new Error("The end date can't be before the start date."));
+
+    // Dates are stored with their time, so the range runs up to the start of the day after `to`
+    const end = format(addDays(parseISO(to), 1), "yyyy-MM-dd");
+    const stored = await getDocs(query(collection(db, transactionsPath), where('date', '>=', from), where('date', '<', end)));
+    // Loaded copies may hold changes the server hasn't seen yet
+    return upsertById(stored.docs.map(d => transactionFromDoc(d.id, d.data())), transactions.filter(tx => tx.date >= from && tx.date < end))
+      .sort((a, b) => b.date.localeCompare(a.date));
+  }, [transactions, getCollectionPath]);
 
 
   const setCurrentViewMonth = useCallback((updater: (date: Date) => Date) => {
     setCurrentViewMonthState(prevDate => startOfMonth(updater(prevDate)));
   }, []);
 
-  const setMonthlyAllocation = useCallback(async (envelopeId: string, month: string, amount: number) => {
+  const setMonthlyAllocation = useCallback(async (envelopeId: string, month: string, amount: Money) => {
     if (!db || !currentUser) return;
     const monthlyBudgetsPath = getCollectionPath(MONTHLY_BUDGETS_COLLECTION);
     if (!monthlyBudgetsPath) return;
 
     const monthYear = format(parseISO(month + "-01"), "yyyy-MM");
-
-    const q = query(collection(db, monthlyBudgetsPath),
-                  where("userId", "==", currentUser.uid),
-                  where("envelopeId", "==", envelopeId),
-                  where("month", "==", monthYear));
-
     const nowISO = formatISO(new Date());
-    let docIdToUpdate: string | null = null;
-    let existingData: MonthlyEnvelopeBudget | null = null;
+    // Looked up in the synced state rather than queried, so it works offline
+    const existingData = monthlyEnvelopeBudgets.find(b => b.envelopeId === envelopeId && b.month === monthYear) ?? null;
+    let docIdToUpdate: string | null = existingData?.id ?? null;
 
     try {
-        const querySnapshot = await getDocs(q);
-        if (!querySnapshot.empty) {
-            const docSnap = querySnapshot.docs[0];
-            docIdToUpdate = docSnap.id;
-            existingData = docSnap.data() as MonthlyEnvelopeBudget;
-        }
-
         const dataToSave: Omit<MonthlyEnvelopeBudget, 'id'> = {
             userId: currentUser.uid,
             envelopeId,
@@ -289,47 +1406,156 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
             updatedAt: nowISO,
         };
 
-        const batch = writeBatch(db);
+        const batch = startBatch();
         if (docIdToUpdate) {
             const docRef = doc(db, monthlyBudgetsPath, docIdToUpdate);
             batch.update(docRef, dataToSave);
         } else {
-            const docRef = doc(collection(db, monthlyBudgetsPath));
-            docIdToUpdate = docRef.id;
-            batch.set(docRef, dataToSave);
+            // One id per envelope and month, so two devices setting it offline update the same document
+            docIdToUpdate = `${envelopeId}_${monthYear}`;
+            batch.set(doc(db, monthlyBudgetsPath, docIdToUpdate), dataToSave);
         }
         await updateLastModified(batch);
-        await batch.commit();
+        await commitUndoable(batch, 'Set monthly budget');
 
         if (existingData && docIdToUpdate) {
              setMonthlyEnvelopeBudgets(prev =>
                 prev.map(b => b.id === docIdToUpdate ? { id: docIdToUpdate, ...dataToSave } : b)
             );
         } else if (docIdToUpdate) {
-            setMonthlyEnvelopeBudgets(prev => [...prev, { id: docIdToUpdate!, ...dataToSave }]);
+            setMonthlyEnvelopeBudgets(prev => upsertById(prev, [{ id: docIdToUpdate!, ...dataToSave }]));
         }
 
     } catch (error) {
         console.error("Error setting monthly allocation:", error);
         throw error;
     }
-  }, [currentUser, getCollectionPath, updateLastModified]);
+  }, [currentUser, monthlyEnvelopeBudgets, getCollectionPath, updateLastModified, commitUndoable]);
+
+
+  // Recomputes the interest charges of the given loan accounts from their payments and queues whatever
+  // changed onto the batch. `nextTransactions` is the transaction list as it will be once the batch commits;
+  // `accountOverride` stands in for an account whose loan terms are being changed in the same batch.
+  const queueLoanInterestSync = useCallback((
+    batch: WriteBatch,
+    accountIds: (string | undefined)[],
+    nextTransactions: Transaction[],
+    accountOverride?: Account
+  ): LoanInterestChanges => {
+    const changes: LoanInterestChanges = { upserts: [], deletedIds: [], newPayee: null };
+    const transactionsPath = getCollectionPath(TRANSACTIONS_COLLECTION);
+    const payeesPath = getCollectionPath(PAYEES_COLLECTION);
+    if (!currentUser || !transactionsPath || !payeesPath) return changes;
+    let interestPayee = payees.find(p => p.name === LOAN_INTEREST_PAYEE_NAME);
+
+    new Set(accountIds).forEach(accountId => {
+      const account = accountOverride?.id === accountId ? accountOverride : accounts.find(acc => acc.id === accountId);
+      if (!account) return;
+      const accountTransactions = nextTransactions.filter(tx => tx.accountId === account.id);
+      const existingCharges = accountTransactions.filter(tx => tx.loanPaymentId);
+      if (!account.loan && existingCharges.length === 0) return;
+
+      const charges = account.loan ? getLoanInterestCharges(account, accountTransactions) : new Map<string, number>();
+      const interestEnvelopeId = account.loan?.interestEnvelopeId;
+      const paymentsById = new Map(accountTransactions.map(tx => [tx.id, tx]));
+
+      existingCharges.forEach(charge => {
+        const chargeDocPath = getDocPath(TRANSACTIONS_COLLECTION, charge.id);
+        if (!chargeDocPath) return;
+        const amount = charges.get(charge.loanPaymentId!);
+        const payment = paymentsById.get(charge.loanPaymentId!);
+        if (amount === undefined || !payment) {
+          batch.delete(doc(db, chargeDocPath));
+          changes.deletedIds.push(charge.id);
+          return;
+        }
+        charges.delete(charge.loanPaymentId!);
+        if (charge.amount !== amount || charge.date !== payment.date || charge.envelopeId !== interestEnvelopeId) {
+          batch.update(doc(db, chargeDocPath), {
+            amount, date: payment.date, envelopeId: interestEnvelopeId ?? deleteField(), updatedAt: serverTimestamp(),
+          });
+          changes.upserts.push({ ...charge, amount, date: payment.date, envelopeId: interestEnvelopeId });
+        }
+      });
 
+      charges.forEach((amount, paymentId) => {
+        const payment = paymentsById.get(paymentId)!;
+        if (!interestPayee) {
+          const payeeDocRef = doc(collection(db, payeesPath));
+          const newPayeeData: Omit<Payee, 'id'> = { name: LOAN_INTEREST_PAYEE_NAME, userId: currentUser.uid, createdAt: formatISO(new Date()) };
+          batch.set(payeeDocRef, newPayeeData);
+          changes.newPayee = { id: payeeDocRef.id, ...newPayeeData };
+          interestPayee = changes.newPayee;
+        }
+        const chargeData = buildTransactionDocData({
+          accountId: account.id, payeeId: interestPayee.id, envelopeId: interestEnvelopeId ?? null, amount, type: 'outflow',
+          description: 'Interest', date: payment.date, isTransfer: false, isActualIncome: false, status: getTransactionStatus(payment),
+          exchangeRate: payment.exchangeRate,
+        }, getTransactionAuthor(currentUser), parseISO(payment.date));
+        chargeData.loanPaymentId = paymentId;
+        const chargeRef = doc(collection(db, transactionsPath));
+        batch.set(chargeRef, chargeData);
+        changes.upserts.push({ id: chargeRef.id, ...chargeData } as Transaction);
+      });
+    });
+    return changes;
+  }, [currentUser, accounts, payees, getCollectionPath, getDocPath]);
+
+  const applyLoanInterestChanges = useCallback((changes: LoanInterestChanges) => {
+    if (changes.newPayee) setPayees(prev => upsertById(prev, [changes.newPayee!]).sort((a, b) => a.name.localeCompare(b.name)));
+    if (changes.upserts.length === 0 && changes.deletedIds.length === 0) return;
+    setTransactions(prev => mergeLoanInterestChanges(prev, changes));
+  }, []);
+
+  // Queues the payment envelope for a credit card that doesn't have one yet. Card purchases
+  // move money into it, so the card can be paid without counting the spending twice.
+  const queueCardPaymentEnvelope = async (batch: WriteBatch, accountId: string, accountName: string) => {
+    const envelopesPath = getCollectionPath(ENVELOPES_COLLECTION);
+    if (!currentUser || !envelopesPath) return null;
+    if (envelopes.some(env => env.linkedAccountId === accountId)) return null;
+
+    const docRef = doc(collection(db, envelopesPath));
+    const envelopeData: Omit<Envelope, 'id'> = {
+      userId: currentUser.uid, name: getPaymentEnvelopeName(accountName), budgetAmount: 0, category: CARD_PAYMENT_CATEGORY,
+      createdAt: formatISO(startOfDay(new Date())),
+      orderIndex: envelopes.reduce((max, env) => Math.max(max, env.orderIndex === Infinity ? -1 : env.orderIndex), -1) + 1,
+      linkedAccountId: accountId,
+    };
+    batch.set(docRef, envelopeData);
+    const categoryLists = withCategoryAdded(categories, orderedCategories, CARD_PAYMENT_CATEGORY);
+    await persistCategoryChanges(categoryLists.categories, categoryLists.orderedCategories, batch);
+    return { envelope: { id: docRef.id, ...envelopeData }, ...categoryLists };
+  };
+
+  const applyCardPaymentEnvelope = (created: Awaited<ReturnType<typeof queueCardPaymentEnvelope>>) => {
+    if (!created) return;
+    setCategories(created.categories);
+    setOrderedCategories(created.orderedCategories);
+    setEnvelopes(prev => upsertById(prev, [created.envelope]).sort((a, b) => (a.orderIndex ?? Infinity) - (b.orderIndex ?? Infinity)));
+  };
 
   const addAccount = async (accountData: AccountFormData) => {
     if (!db || !currentUser) return;
     const accountsPath = getCollectionPath(ACCOUNTS_COLLECTION);
     if (!accountsPath) return;
+    const { name, initialBalance, type, creditLimit, loan, currency } = accountData;
     const newAccount: Omit<Account, 'id'> = {
-      userId: currentUser.uid, ...accountData, createdAt: formatISO(new Date())
+      userId: currentUser.uid, name, initialBalance: Number(initialBalance), createdAt: formatISO(new Date()),
+      ...(type !== undefined && { type }),
+      // Accounts in the ledger currency don't store one
+      ...(currency && currency !== currencySettings.ledgerCurrency && { currency }),
+      ...(creditLimit !== undefined && { creditLimit: Number(creditLimit) }),
+      ...(loan !== undefined && { loan }),
     };
     try {
       const docRef = doc(collection(db, accountsPath));
-      const batch = writeBatch(db);
-      batch.set(docRef, newAccount);
+      const batch = startBatch();
+      batch.set(docRef, loan ? { ...newAccount, loan: buildLoanDocData(loan) } : newAccount);
+      const paymentEnvelope = isCreditCardAccount(newAccount) ? await queueCardPaymentEnvelope(batch, docRef.id, name) : null;
       await updateLastModified(batch);
-      await batch.commit();
-      setAccounts(prev => [...prev, { id: docRef.id, ...newAccount }].sort((a,b)=>a.name.localeCompare(b.name)));
+      await commitUndoable(batch, 'Add account');
+      setAccounts(prev => upsertById(prev, [{ id: docRef.id, ...newAccount }]).sort((a,b)=>a.name.localeCompare(b.name)));
+      applyCardPaymentEnvelope(paymentEnvelope);
     } catch (error) { console.error("Error adding account:", error); }
   };
 
@@ -338,12 +1564,45 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
     const { id, ...dataToUpdate } = accountData;
     const accountDocPath = getDocPath(ACCOUNTS_COLLECTION, id);
     if (!accountDocPath) return;
+    const originalAccount = accounts.find(acc => acc.id === id);
+
+    if (dataToUpdate.currency === currencySettings.ledgerCurrency) dataToUpdate.currency = undefined;
+    const firestoreUpdateData: { [key: string]: any } = {};
+    Object.entries(dataToUpdate).forEach(([key, value]) => {
+      firestoreUpdateData[key] = value === undefined ? deleteField() : value;
+    });
+    if (dataToUpdate.loan) firestoreUpdateData.loan = buildLoanDocData(dataToUpdate.loan);
+
     try {
-      const batch = writeBatch(db);
-      batch.update(doc(db, accountDocPath), dataToUpdate);
+      const batch = startBatch();
+      batch.update(doc(db, accountDocPath), firestoreUpdateData);
+
+      // New loan terms or opening balance change every interest charge after them
+      const loanInterestChanges = originalAccount
+        ? queueLoanInterestSync(batch, [id], transactions, { ...originalAccount, ...dataToUpdate })
+        : null;
+
+      const updatedName = dataToUpdate.name ?? originalAccount?.name ?? '';
+      const isCard = isCreditCardAccount(dataToUpdate.hasOwnProperty('type') ? dataToUpdate : originalAccount);
+      const paymentEnvelope = isCard ? await queueCardPaymentEnvelope(batch, id, updatedName) : null;
+
+      // Keep an existing payment envelope's name in step with the card, unless the user renamed it
+      const linkedEnvelope = envelopes.find(env => env.linkedAccountId === id);
+      const renameLinkedEnvelope = !!linkedEnvelope && !!originalAccount && originalAccount.name !== updatedName
+        && linkedEnvelope.name === getPaymentEnvelopeName(originalAccount.name);
+      if (renameLinkedEnvelope) {
+        const envelopeDocPath = getDocPath(ENVELOPES_COLLECTION, linkedEnvelope.id);
+        if (envelopeDocPath) batch.update(doc(db, envelopeDocPath), { name: getPaymentEnvelopeName(updatedName) });
+      }
+
       await updateLastModified(batch);
-      await batch.commit();
+      await commitUndoable(batch, 'Edit account');
       setAccounts(prev => prev.map(acc => acc.id === id ? { ...acc, ...dataToUpdate } : acc).sort((a,b)=>a.name.localeCompare(b.name)));
+      applyCardPaymentEnvelope(paymentEnvelope);
+      if (loanInterestChanges) applyLoanInterestChanges(loanInterestChanges);
+      if (renameLinkedEnvelope) {
+        setEnvelopes(prev => prev.map(env => env.id === linkedEnvelope.id ? { ...env, name: getPaymentEnvelopeName(updatedName) } : env));
+      }
     } catch (error) { console.error("Error updating account:", error); }
   };
 
@@ -382,14 +1641,14 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
             }
       }
 
-      const batch = writeBatch(db);
+      const batch = startBatch();
       batch.set(docRef, newEnvelopeServerData);
       await persistCategoryChanges(newLocalCategories, newLocalOrderedCategories, batch);
-      await batch.commit();
+      await commitUndoable(batch, 'Add envelope');
 
       setCategories(newLocalCategories);
       setOrderedCategories(newLocalOrderedCategories);
-      setEnvelopes(prev => [...prev, newEnvelopeWithId].sort((a, b) => (a.orderIndex ?? Infinity) - (b.orderIndex ?? Infinity)));
+      setEnvelopes(prev => upsertById(prev, [newEnvelopeWithId]).sort((a, b) => (a.orderIndex ?? Infinity) - (b.orderIndex ?? Infinity)));
       return Promise.resolve();
     } catch (error) {
       console.error("Error adding envelope:", error);
@@ -424,7 +1683,7 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
     }
 
     try {
-      const batch = writeBatch(db);
+      const batch = startBatch();
       batch.update(doc(db, envelopeDocPath), firestoreUpdateData);
 
       const newLocalEnvelopeData: Partial<Envelope> = {};
@@ -470,7 +1729,7 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
       }
 
       await persistCategoryChanges(finalLocalCategories, finalLocalOrderedCategories, batch);
-      await batch.commit();
+      await commitUndoable(batch, 'Edit envelope');
 
       setCategories(finalLocalCategories);
       setOrderedCategories(finalLocalOrderedCategories);
@@ -486,7 +1745,7 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
     if (!db || !currentUser) return;
     const envelopesPath = getCollectionPath(ENVELOPES_COLLECTION);
     if (!envelopesPath) return;
-    const batch = writeBatch(db);
+    const batch = startBatch();
     const updatedEnvelopesForState: Envelope[] = [];
     reorderedEnvelopes.forEach((envelope, index) => {
       const updatedEnvelope = { ...envelope, orderIndex: index };
@@ -495,7 +1754,7 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
     });
     try {
       await updateLastModified(batch);
-      await batch.commit();
+      await commitUndoable(batch, 'Reorder envelopes');
       setEnvelopes(updatedEnvelopesForState.sort((a, b) => (a.orderIndex ?? Infinity) - (b.orderIndex ?? Infinity)));
     } catch (error) {
       console.error("Error updating envelope order:", error);
@@ -524,64 +1783,57 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
         return;
     }
     setOrderedCategories(validatedNewOrder);
-    await persistCategoryChanges(currentDerivedCategories, validatedNewOrder);
+    await persistCategoryChanges(currentDerivedCategories, validatedNewOrder, undefined, 'Reorder categories');
   };
 
-  const addTransaction = useCallback(async (transactionData: TransactionFormData): Promise<void> => {
-    if (!db || !currentUser) return Promise.reject(new Error("User not authenticated"));
-    const transactionsPath = getCollectionPath(TRANSACTIONS_COLLECTION);
-    if (!transactionsPath) return Promise.reject(new Error("Transactions path not available"));
+  // Applies the rules to a new transaction, checks it and builds the document to save. Throws when it can't be saved.
+  const prepareNewTransaction = useCallback((enteredData: TransactionFormData) => {
+    if (!currentUser) throw new Error("User not authenticated");
+    // Rules fill in what wasn't entered before anything is checked
+    const transactionData = applyTransactionRuleChanges(enteredData, runTransactionRules(enteredData, transactionRules).changes);
 
     if (!transactionData.payeeId) {
-      return Promise.reject(new Error("Payee is required"));
+      throw new Error("Payee is required");
     }
     const parsedDate = transactionData.date ? parseISO(transactionData.date) : null;
     if (!parsedDate || !isValid(parsedDate)) {
-      return Promise.reject(new Error("Invalid date"));
+      throw new Error("Invalid date");
     }
+    return { transactionData, dataToSave: buildTransactionDocData(withExchangeRate(transactionData), getTransactionAuthor(currentUser), parsedDate) };
+  }, [currentUser, transactionRules, withExchangeRate]);
 
-    const dataToSave: { [key: string]: any } = {
-        userId: currentUser.uid,
-        accountId: transactionData.accountId,
-        payeeId: transactionData.payeeId,
-        amount: Number(transactionData.amount),
-        type: transactionData.type,
-        date: formatISO(parsedDate),
-        createdAt: formatISO(new Date()),
-        isTransfer: transactionData.isTransfer || false,
-        isActualIncome: transactionData.type === 'inflow' ? (transactionData.isActualIncome || false) : false,
-    };
-
-    // Conditionally add description
-    if (transactionData.description && transactionData.description.trim() !== "") {
-        dataToSave.description = transactionData.description;
-    }
-    // Conditionally add envelopeId (handle null and empty string as "no envelope")
-    if (transactionData.envelopeId && transactionData.envelopeId.trim() !== "") {
-        dataToSave.envelopeId = transactionData.envelopeId;
-    }
+  // A `transactionId` given by the caller is written with set(), so saving the same one twice leaves one transaction
+  const addTransaction = useCallback(async (enteredData: TransactionFormData, transactionId?: string): Promise<void> => {
+    if (!db || !currentUser) return Promise.reject(new Error("User not authenticated"));
+    const transactionsPath = getCollectionPath(TRANSACTIONS_COLLECTION);
+    if (!transactionsPath) return Promise.reject(new Error("Transactions path not available"));
 
+    const { transactionData, dataToSave } = prepareNewTransaction(enteredData);
 
     try {
-      const docRef = doc(collection(db, transactionsPath));
-      const batch = writeBatch(db);
+      const docRef = transactionId ? doc(collection(db, transactionsPath), transactionId) : doc(collection(db, transactionsPath));
+      const batch = startBatch();
       batch.set(docRef, dataToSave);
+      const loanInterestChanges = queueLoanInterestSync(batch, [transactionData.accountId], [...latestTransactionsRef.current, { id: docRef.id, ...dataToSave } as Transaction]);
       await updateLastModified(batch);
-      await batch.commit();
+      await commitUndoable(batch, 'Add transaction');
 
-      const newTxForState: Partial<Transaction> = { ...transactionData, id: docRef.id, userId: currentUser.uid, createdAt: dataToSave.createdAt, date: dataToSave.date };
+      const newTxForState: Partial<Transaction> = { ...transactionData, id: docRef.id, userId: currentUser.uid, createdBy: dataToSave.createdBy, createdAt: dataToSave.createdAt, date: dataToSave.date };
       // Ensure optional fields are correctly set for local state
       newTxForState.description = dataToSave.description; // Will be undefined if not set
       newTxForState.envelopeId = dataToSave.envelopeId;   // Will be undefined if not set
+      newTxForState.splits = dataToSave.splits;           // Will be undefined if not split
+      newTxForState.exchangeRate = dataToSave.exchangeRate;
 
 
-      setTransactions(prev => [...prev, newTxForState as Transaction].sort((a, b) => parseISO(b.date).getTime() - parseISO(a.date).getTime()));
+      setTransactions(prev => upsertById(prev, [newTxForState as Transaction]).sort((a, b) => parseISO(b.date).getTime() - parseISO(a.date).getTime()));
+      applyLoanInterestChanges(loanInterestChanges);
       return Promise.resolve();
     } catch (error) {
       console.error("Error adding transaction:", error);
       return Promise.reject(error);
     }
-  }, [currentUser, getCollectionPath, updateLastModified]);
+  }, [currentUser, getCollectionPath, prepareNewTransaction, updateLastModified, queueLoanInterestSync, applyLoanInterestChanges, commitUndoable]);
 
   const updateTransaction = useCallback(async (transactionData: TransactionWithId): Promise<void> => {
     if (!db || !currentUser) return Promise.reject(new Error("User not authenticated"));
@@ -614,26 +1866,83 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
     if (dataToUpdate.hasOwnProperty('envelopeId')) {
       firestoreUpdateData.envelopeId = (dataToUpdate.envelopeId && dataToUpdate.envelopeId.trim() !== "" && dataToUpdate.envelopeId !== null) ? dataToUpdate.envelopeId : deleteField();
     }
+    if (dataToUpdate.status) {
+      firestoreUpdateData.status = dataToUpdate.status;
+    }
+    const splitsToSave = hasSplits(dataToUpdate) ? sanitizeSplits(dataToUpdate.splits) : null;
+    if (splitsToSave) {
+      firestoreUpdateData.splits = splitsToSave;
+      firestoreUpdateData.envelopeId = deleteField(); // Split lines replace the single envelope
+    } else if (dataToUpdate.hasOwnProperty('splits')) {
+      firestoreUpdateData.splits = deleteField();
+    }
+    if (dataToUpdate.hasOwnProperty('exchangeRate')) {
+      // A cleared rate takes today's, as on a new transaction
+      if (dataToUpdate.exchangeRate === undefined && dataToUpdate.accountId) {
+        dataToUpdate.exchangeRate = withExchangeRate({ accountId: dataToUpdate.accountId, exchangeRate: undefined as number | undefined }).exchangeRate;
+      }
+      firestoreUpdateData.exchangeRate = dataToUpdate.exchangeRate !== undefined ? Number(dataToUpdate.exchangeRate) : deleteField();
+    }
+    if (dataToUpdate.hasOwnProperty('originalAmount') || dataToUpdate.hasOwnProperty('originalCurrency')) {
+      const hasOriginal = dataToUpdate.originalAmount !== undefined && !!dataToUpdate.originalCurrency;
+      firestoreUpdateData.originalAmount = hasOriginal ? Number(dataToUpdate.originalAmount) : deleteField();
+      firestoreUpdateData.originalCurrency = hasOriginal ? dataToUpdate.originalCurrency : deleteField();
+    }
+
+    // Keep the other leg of a transfer in step when the amount or date changes. Across currencies
+    // the other leg is scaled at the rate the transfer was made at.
+    const existingTx = transactions.find(tx => tx.id === id);
+    const counterpart = existingTx ? findTransferCounterpart(existingTx, transactions) : undefined;
+    const counterpartDocPath = counterpart ? getDocPath(TRANSACTIONS_COLLECTION, counterpart.id) : null;
+    const newAmount: Money = firestoreUpdateData.amount ?? existingTx?.amount ?? 0;
+    const isCrossCurrency = !!existingTx && !!counterpart && getAccountCurrency(existingTx.accountId) !== getAccountCurrency(counterpart.accountId);
+    const counterpartAmount = isCrossCurrency && existingTx!.amount
+      ? multiplyMoney(newAmount, counterpart!.amount / existingTx!.amount)
+      : newAmount;
+    const counterpartUpdate: Partial<Transaction> | null = counterpart && (counterpart.amount !== counterpartAmount || counterpart.date !== firestoreUpdateData.date)
+      ? {
+          amount: counterpartAmount, date: firestoreUpdateData.date,
+          ...(isCrossCurrency && counterpart.originalAmount !== undefined && { originalAmount: newAmount }),
+        }
+      : null;
 
     try {
-      const batch = writeBatch(db);
+      const batch = startBatch();
       batch.update(doc(db, transactionDocPath), firestoreUpdateData);
+      if (counterpartUpdate && counterpartDocPath) {
+        batch.update(doc(db, counterpartDocPath), { ...counterpartUpdate, updatedAt: serverTimestamp() });
+      }
+      const transactionsAfterUpdate = transactions.map(tx => {
+        if (tx.id === id) return { ...tx, ...dataToUpdate, amount: firestoreUpdateData.amount ?? tx.amount, date: firestoreUpdateData.date } as Transaction;
+        if (counterpartUpdate && tx.id === counterpart?.id) return { ...tx, ...counterpartUpdate };
+        return tx;
+      });
+      const loanInterestChanges = queueLoanInterestSync(batch, [existingTx?.accountId, dataToUpdate.accountId, counterpart?.accountId], transactionsAfterUpdate);
       await updateLastModified(batch);
-      await batch.commit();
+      await commitUndoable(batch, 'Edit transaction');
 
-      const localUpdateData = { ...dataToUpdate, id, userId: currentUser.uid, date: firestoreUpdateData.date };
+      // updatedAt isn't part of a Transaction; the stored timestamp comes back with the listener
+      const localUpdateData: Partial<Transaction> = {
+        ...dataToUpdate, envelopeId: dataToUpdate.envelopeId ?? undefined, id, userId: currentUser.uid, date: firestoreUpdateData.date,
+      };
       if (firestoreUpdateData.description === deleteField()) localUpdateData.description = undefined;
       if (firestoreUpdateData.envelopeId === deleteField()) localUpdateData.envelopeId = undefined;
-      if (firestoreUpdateData.updatedAt) (localUpdateData as any).updatedAt = formatISO(new Date());
-
-      setTransactions(prev => prev.map(tx => tx.id === id ? localUpdateData as Transaction : tx)
+      localUpdateData.splits = splitsToSave ?? undefined;
+
+      // Merge so fields the form doesn't carry (status, importId, createdAt) survive the update
+      setTransactions(prev => prev.map(tx => {
+          if (tx.id === id) return { ...tx, ...localUpdateData };
+          if (counterpartUpdate && tx.id === counterpart?.id) return { ...tx, ...counterpartUpdate };
+          return tx;
+        })
         .sort((a, b) => parseISO(b.date).getTime() - parseISO(a.date).getTime()));
+      applyLoanInterestChanges(loanInterestChanges);
       return Promise.resolve();
     } catch (error) {
       console.error("Error updating transaction:", error);
       return Promise.reject(error);
     }
-  }, [currentUser, getDocPath, updateLastModified]);
+  }, [currentUser, transactions, getDocPath, updateLastModified, getAccountCurrency, withExchangeRate, queueLoanInterestSync, applyLoanInterestChanges, commitUndoable]);
 
   const addPayee = async (payeeData: PayeeFormData) => {
     if (!db || !currentUser) return;
@@ -642,14 +1951,15 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
     const newPayeeData: Omit<Payee, 'id'> = {
         userId: currentUser.uid, name: payeeData.name, createdAt: formatISO(new Date()),
         ...(payeeData.category?.trim() && { category: payeeData.category.trim() }),
+        ...(payeeData.aliases && payeeData.aliases.length > 0 && { aliases: payeeData.aliases }),
     };
     try {
       const docRef = doc(collection(db, payeesPath));
-      const batch = writeBatch(db);
+      const batch = startBatch();
       batch.set(docRef, newPayeeData);
       await updateLastModified(batch);
-      await batch.commit();
-      setPayees(prev => [...prev, { id: docRef.id, ...newPayeeData } as Payee].sort((a,b)=>a.name.localeCompare(b.name)));
+      await commitUndoable(batch, 'Add payee');
+      setPayees(prev => upsertById(prev, [{ id: docRef.id, ...newPayeeData } as Payee]).sort((a,b)=>a.name.localeCompare(b.name)));
     } catch (error) { console.error("Error adding payee:", error); }
   };
 
@@ -658,8 +1968,9 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
     const { id, ...dataToUpdate } = payeeData;
     const payeeDocPath = getDocPath(PAYEES_COLLECTION, id);
     if (!payeeDocPath) return;
-    const cleanedData: {name: string; category?: string | FieldValue; updatedAt?: FieldValue} = {
+    const cleanedData: {name: string; category?: string | FieldValue; aliases?: PayeeAlias[] | FieldValue; updatedAt?: FieldValue} = {
         name: dataToUpdate.name,
+        aliases: dataToUpdate.aliases && dataToUpdate.aliases.length > 0 ? dataToUpdate.aliases : deleteField(),
         updatedAt: serverTimestamp()
     };
     if (dataToUpdate.category?.trim()) {
@@ -668,14 +1979,14 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
         cleanedData.category = deleteField();
     }
     try {
-      const batch = writeBatch(db);
+      const batch = startBatch();
       batch.update(doc(db, payeeDocPath), cleanedData );
       await updateLastModified(batch);
-      await batch.commit();
-      setPayees(prev => prev.map(p => p.id === id ? { ...p, name: cleanedData.name as string, category: typeof cleanedData.category === 'string' ? cleanedData.category : undefined, updatedAt: formatISO(new Date()) } as Payee : p)
+      await commitUndoable(batch, 'Edit payee');
+      setPayees(prev => prev.map(p => p.id === id ? { ...p, name: cleanedData.name as string, category: typeof cleanedData.category === 'string' ? cleanedData.category : undefined, aliases: Array.isArray(cleanedData.aliases) ? cleanedData.aliases : undefined, updatedAt: formatISO(new Date()) } as Payee : p)
         .sort((a,b)=>a.name.localeCompare(b.name)));
     } catch (error) { console.error("Error updating payee:", error); }
-  }, [currentUser, getDocPath, updateLastModified]);
+  }, [currentUser, getDocPath, updateLastModified, commitUndoable]);
 
   const addCategory = async (categoryName: string): Promise<void> => {
     if (!db || !currentUser) return Promise.reject(new Error("User not authenticated"));
@@ -698,7 +2009,7 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
     }
 
     try {
-        await persistCategoryChanges(newLocalCategories, newLocalOrderedCategories);
+        await persistCategoryChanges(newLocalCategories, newLocalOrderedCategories, undefined, 'Add category');
         setCategories(newLocalCategories);
         setOrderedCategories(newLocalOrderedCategories);
         return Promise.resolve();
@@ -712,12 +2023,26 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
     if (!db || !currentUser) return Promise.reject(new Error("User not authenticated"));
     const transactionDocPath = getDocPath(TRANSACTIONS_COLLECTION, transactionId);
     if(!transactionDocPath) return Promise.reject(new Error("Transaction path not available"));
+    // Deleting either leg of a transfer deletes the whole transfer
+    const transactionToDelete = transactions.find(tx => tx.id === transactionId);
+    if (transactionToDelete?.loanPaymentId) {
+      return Promise.reject(new Error("Loan interest is calculated from its payment. Edit or delete the payment instead."));
+    }
+    const counterpart = transactionToDelete ? findTransferCounterpart(transactionToDelete, transactions) : undefined;
+    const counterpartDocPath = counterpart ? getDocPath(TRANSACTIONS_COLLECTION, counterpart.id) : null;
     try {
-      const batch = writeBatch(db);
+      const batch = startBatch();
       batch.delete(doc(db, transactionDocPath));
+      if (counterpartDocPath) batch.delete(doc(db, counterpartDocPath));
+      const loanInterestChanges = queueLoanInterestSync(
+        batch,
+        [transactionToDelete?.accountId, counterpart?.accountId],
+        transactions.filter(t => t.id !== transactionId && t.id !== counterpart?.id)
+      );
       await updateLastModified(batch);
-      await batch.commit();
-      setTransactions(prev => prev.filter(t => t.id !== transactionId));
+      await commitUndoable(batch, 'Delete transaction');
+      setTransactions(prev => prev.filter(t => t.id !== transactionId && t.id !== counterpart?.id));
+      applyLoanInterestChanges(loanInterestChanges);
       return Promise.resolve();
     } catch (error) {
         console.error("Error deleting transaction:", error);
@@ -725,6 +2050,30 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
+  // Points rules at what replaces a payee, envelope or account being removed, deleting the rules left with nothing
+  // to do (see replaceRuleReference). Returns the writes queued and how to bring local state up to date.
+  const queueRuleReferenceChanges = useCallback((batch: WriteBatch, field: 'payeeId' | 'envelopeId' | 'accountId', fromId: string, toId?: string) => {
+    const replacements = new Map<string, TransactionRule | null>();
+    transactionRules.forEach(rule => {
+      const replacement = replaceRuleReference(rule, field, fromId, toId);
+      if (replacement === rule) return;
+      replacements.set(rule.id, replacement);
+      const ruleDocPath = getDocPath(TRANSACTION_RULES_COLLECTION, rule.id);
+      if (!ruleDocPath) return;
+      if (replacement) batch.update(doc(db, ruleDocPath), { conditions: replacement.conditions, actions: replacement.actions });
+      else batch.delete(doc(db, ruleDocPath));
+    });
+    return {
+      writeCount: replacements.size,
+      apply: () => {
+        if (replacements.size === 0) return;
+        setTransactionRules(prev => prev
+          .filter(rule => replacements.get(rule.id) !== null)
+          .map(rule => replacements.get(rule.id) ?? rule));
+      },
+    };
+  }, [transactionRules, getDocPath]);
+
  const deleteEnvelope = useCallback(async (envelopeId: string): Promise<void> => {
     if (!db || !currentUser) throw new Error("User or DB not available");
     const envelopeDocPath = getDocPath(ENVELOPES_COLLECTION, envelopeId);
@@ -735,26 +2084,51 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
       throw new Error("Critical paths are null for deleteEnvelope.");
     }
 
-    const batch = writeBatch(db);
+    const batch = startBatch();
     try {
       batch.delete(doc(db, envelopeDocPath));
 
-      const relatedTransactions = transactions.filter(tx => tx.envelopeId === envelopeId);
+      // Split lines pointing at the envelope keep their amount but lose the envelope, like unsplit transactions do
+      const unlinkFromEnvelope = (tx: Transaction): Transaction => hasSplits(tx)
+        ? { ...tx, splits: tx.splits!.map(line => line.envelopeId === envelopeId ? { amount: line.amount, ...(line.memo && { memo: line.memo }) } : line) }
+        : { ...tx, envelopeId: undefined };
+
+      // Transactions outside the loaded window are found by the envelopeIds stored on them
+      const storedRelated = await getDocs(query(collection(db, transactionsPath), where('envelopeIds', 'array-contains', envelopeId)));
+      const relatedTransactions = upsertById(transactions.filter(tx => transactionTouchesEnvelope(tx, envelopeId)),
+        storedRelated.docs.map(d => transactionFromDoc(d.id, d.data())));
       relatedTransactions.forEach(tx => {
         const txDocPath = getDocPath(TRANSACTIONS_COLLECTION, tx.id);
         if (txDocPath) {
-            batch.update(doc(db, txDocPath), { envelopeId: deleteField() });
+            batch.update(doc(db, txDocPath), hasSplits(tx) ? { splits: unlinkFromEnvelope(tx).splits } : { envelopeId: deleteField() });
         }
       });
 
-      const monthlyBudgetQuery = query(collection(db, monthlyBudgetsPath), where("envelopeId", "==", envelopeId), where("userId", "==", currentUser.uid));
+      const relatedRecurring = recurringTransactions.filter(rule => rule.envelopeId === envelopeId);
+      relatedRecurring.forEach(rule => {
+        const ruleDocPath = getDocPath(RECURRING_TRANSACTIONS_COLLECTION, rule.id);
+        if (ruleDocPath) {
+            batch.update(doc(db, ruleDocPath), { envelopeId: deleteField() });
+        }
+      });
+      const ruleChanges = queueRuleReferenceChanges(batch, 'envelopeId', envelopeId);
+
+      const loanAccountsUsingEnvelope = accounts.filter(acc => acc.loan?.interestEnvelopeId === envelopeId);
+      loanAccountsUsingEnvelope.forEach(acc => {
+        const accountDocPath = getDocPath(ACCOUNTS_COLLECTION, acc.id);
+        if (accountDocPath) {
+            batch.update(doc(db, accountDocPath), { 'loan.interestEnvelopeId': deleteField() });
+        }
+      });
+
+      const monthlyBudgetQuery = query(collection(db, monthlyBudgetsPath), where("envelopeId", "==", envelopeId));
       const monthlyBudgetDocs = await getDocs(monthlyBudgetQuery);
       monthlyBudgetDocs.forEach(docSnap => {
           batch.delete(docSnap.ref);
       });
 
       const updatedEnvelopesListForState = envelopes.filter(env => env.id !== envelopeId);
-      const updatedTransactionsListForState = transactions.map(tx => tx.envelopeId === envelopeId ? { ...tx, envelopeId: undefined } : tx );
+      const updatedTransactionsListForState = transactions.map(tx => transactionTouchesEnvelope(tx, envelopeId) ? unlinkFromEnvelope(tx) : tx );
       const updatedMonthlyBudgetsListForState = monthlyEnvelopeBudgets.filter(mb => mb.envelopeId !== envelopeId);
 
       const actualCategoriesAfterDelete = [...new Set(updatedEnvelopesListForState.map(env => env.category || "Uncategorized"))].sort((a,b)=>{
@@ -770,10 +2144,13 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
       }
 
       await persistCategoryChanges(actualCategoriesAfterDelete, finalOrderedCategoriesAfterDelete, batch);
-      await batch.commit();
+      await commitUndoable(batch, 'Delete envelope');
 
       setEnvelopes(updatedEnvelopesListForState);
       setTransactions(updatedTransactionsListForState);
+      setRecurringTransactions(prev => prev.map(rule => rule.envelopeId === envelopeId ? { ...rule, envelopeId: undefined } : rule));
+      ruleChanges.apply();
+      setAccounts(prev => prev.map(acc => acc.loan?.interestEnvelopeId === envelopeId ? { ...acc, loan: { ...acc.loan, interestEnvelopeId: undefined } } : acc));
       setMonthlyEnvelopeBudgets(updatedMonthlyBudgetsListForState);
       setCategories(actualCategoriesAfterDelete);
       setOrderedCategories(finalOrderedCategoriesAfterDelete);
@@ -782,8 +2159,53 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
         console.error(`AppContext (deleteEnvelope): Error deleting envelope ${envelopeId}:`, error);
         throw error; // Re-throw the error to be caught by the calling component
     }
-  }, [currentUser, envelopes, transactions, categories, orderedCategories, monthlyEnvelopeBudgets, getDocPath, getCollectionPath, persistCategoryChanges, updateLastModified, db]);
+  }, [currentUser, accounts, envelopes, transactions, recurringTransactions, categories, orderedCategories, monthlyEnvelopeBudgets, getDocPath, getCollectionPath, persistCategoryChanges, queueRuleReferenceChanges, updateLastModified, db, commitUndoable]);
+
+
+  // Writes both legs of a transfer, plus its payee if new, in one batch so a transfer is never half-recorded.
+  // The legs share a transferId so edits and deletes can find each other.
+  const addTransferPair = useCallback(async (payeeName: string, legs: Omit<TransactionFormData, 'payeeId'>[]): Promise<void> => {
+    if (!db || !currentUser) return Promise.reject(new Error("User not authenticated"));
+    const transactionsPath = getCollectionPath(TRANSACTIONS_COLLECTION);
+    const payeesPath = getCollectionPath(PAYEES_COLLECTION);
+    if (!transactionsPath || !payeesPath) return Promise.reject(new Error("Transactions or payees path not available."));
+    const parsedDate = legs[0]?.date ? parseISO(legs[0].date) : null;
+    if (!parsedDate || !isValid(parsedDate)) return Promise.reject(new Error("Invalid date"));
+
+    try {
+      const batch = startBatch();
+      let transferPayee = resolvePayee(payeeName, payees);
+      let newPayee: Payee | null = null;
+      if (!transferPayee) {
+        const payeeDocRef = doc(collection(db, payeesPath));
+        const newPayeeData: Omit<Payee, 'id'> = { name: payeeName, userId: currentUser.uid, createdAt: formatISO(new Date()) };
+        batch.set(payeeDocRef, newPayeeData);
+        newPayee = { id: payeeDocRef.id, ...newPayeeData };
+        transferPayee = newPayee;
+      }
 
+      const transferId = doc(collection(db, transactionsPath)).id;
+      const newTransactions = legs.map(leg => {
+        const docRef = doc(collection(db, transactionsPath));
+        const dataToSave = buildTransactionDocData(withExchangeRate({ ...leg, payeeId: transferPayee!.id }), getTransactionAuthor(currentUser), parsedDate);
+        dataToSave.transferId = transferId;
+        batch.set(docRef, dataToSave);
+        return { id: docRef.id, ...dataToSave } as Transaction;
+      });
+      // A transfer into a loan account is a loan payment
+      const loanInterestChanges = queueLoanInterestSync(batch, legs.map(leg => leg.accountId), [...transactions, ...newTransactions]);
+
+      await updateLastModified(batch);
+      await commitUndoable(batch, 'Transfer funds');
+
+      if (newPayee) setPayees(prev => upsertById(prev, [newPayee!]).sort((a, b) => a.name.localeCompare(b.name)));
+      setTransactions(prev => upsertById(prev, newTransactions).sort((a, b) => parseISO(b.date).getTime() - parseISO(a.date).getTime()));
+      applyLoanInterestChanges(loanInterestChanges);
+    } catch (error) {
+      console.error("Error writing transfer:", error);
+      throw error;
+    }
+  }, [currentUser, payees, transactions, getCollectionPath, updateLastModified, withExchangeRate, queueLoanInterestSync, applyLoanInterestChanges, commitUndoable]);
 
   const transferBetweenEnvelopes = useCallback(async (data: TransferEnvelopeFundsFormData): Promise<void> => {
     if (!currentUser) return Promise.reject(new Error("User not authenticated"));
@@ -794,40 +2216,17 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
         console.error("Invalid source/destination envelope.");
         return Promise.reject(new Error("Invalid source or destination envelope."));
     }
-    let internalTransferPayee = payees.find(p => p.name === "Internal Budget Transfer");
-    if (!internalTransferPayee) {
-        const payeesPath = getCollectionPath(PAYEES_COLLECTION);
-        if(!payeesPath) return Promise.reject(new Error("Payees path not available."));
-        const payeeDocRef = doc(collection(db, payeesPath));
-        const newPayeeData: Omit<Payee, 'id'> = { name: "Internal Budget Transfer",userId: currentUser.uid, createdAt: formatISO(new Date())};
-        try {
-            const batch = writeBatch(db);
-            batch.set(payeeDocRef, newPayeeData);
-            await updateLastModified(batch);
-            await batch.commit();
-            internalTransferPayee = {id: payeeDocRef.id, ...newPayeeData};
-            setPayees(prev => [...prev, internalTransferPayee!].sort((a, b) => a.name.localeCompare(b.name)));
-        } catch (error) {
-            console.error("Error creating internal budget transfer payee:", error);
-            return Promise.reject(error);
-        }
-    }
-
-    try {
-      await addTransaction({
-        accountId, envelopeId: fromEnvelopeId, payeeId: internalTransferPayee.id, amount, type: 'outflow',
+    await addTransferPair("Internal Budget Transfer", [
+      {
+        accountId, envelopeId: fromEnvelopeId, amount, type: 'outflow',
         description: description || `Transfer to ${toEnvelope.name}`, date, isTransfer: false, isActualIncome: false,
-      });
-      await addTransaction({
-        accountId, envelopeId: toEnvelopeId, payeeId: internalTransferPayee.id, amount, type: 'inflow',
+      },
+      {
+        accountId, envelopeId: toEnvelopeId, amount, type: 'inflow',
         description: description || `Transfer from ${fromEnvelope.name}`, date, isTransfer: false, isActualIncome: false,
-      });
-      return Promise.resolve();
-    } catch (error) {
-      console.error("Error during envelope fund transfer transactions:", error);
-      throw error; // Re-throw error
-    }
-  }, [currentUser, addTransaction, envelopes, payees, getCollectionPath, updateLastModified]);
+      },
+    ]);
+  }, [currentUser, envelopes, addTransferPair]);
 
   const transferBetweenAccounts = useCallback(async (data: TransferAccountFundsFormData): Promise<void> => {
     if(!currentUser) return Promise.reject(new Error("User not authenticated"));
@@ -838,41 +2237,850 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
         console.error("Invalid source/destination account.");
         return Promise.reject(new Error("Invalid source or destination account."));
     }
-    let internalTransferPayee = payees.find(p => p.name === "Internal Account Transfer");
-    if (!internalTransferPayee) {
-        const payeesPath = getCollectionPath(PAYEES_COLLECTION);
-        if(!payeesPath) return Promise.reject(new Error("Payees path not available."));
-        const payeeDocRef = doc(collection(db, payeesPath));
-        const newPayeeData: Omit<Payee, 'id'> = { name: "Internal Account Transfer", userId: currentUser.uid, createdAt: formatISO(new Date())};
+    // Between currencies the receiving leg gets the converted amount and remembers what was sent
+    const fromCurrency = getAccountCurrency(fromAccountId);
+    const toCurrency = getAccountCurrency(toAccountId);
+    const toAmount = convertAmount(currencySettings, amount, fromCurrency, toCurrency);
+    if (toAmount === undefined) {
+        return Promise.reject(new Error(`No exchange rate from ${fromCurrency} to ${toCurrency}. Add one in Settings.`));
+    }
+    await addTransferPair("Internal Account Transfer", [
+      {
+        accountId: fromAccountId, envelopeId: null, amount, type: 'outflow',
+        description: description || `Transfer to ${toAccount.name}`, date, isTransfer: true, isActualIncome: false,
+      },
+      {
+        accountId: toAccountId, envelopeId: null, amount: toAmount, type: 'inflow',
+        description: description || `Transfer from ${fromAccount.name}`, date, isTransfer: true, isActualIncome: false,
+        ...(fromCurrency !== toCurrency && { originalAmount: amount, originalCurrency: fromCurrency }),
+      },
+    ]);
+  }, [currentUser, accounts, currencySettings, getAccountCurrency, addTransferPair]);
+
+  const importTransactions = useCallback(async (drafts: TransactionImportDraft[]): Promise<number> => {
+    if (!db || !currentUser) return Promise.reject(new Error("User not authenticated"));
+    const transactionsPath = getCollectionPath(TRANSACTIONS_COLLECTION);
+    const payeesPath = getCollectionPath(PAYEES_COLLECTION);
+    if (!transactionsPath || !payeesPath) return Promise.reject(new Error("Transactions or payees path not available"));
+    if (drafts.length === 0) return 0;
+
+    const batch = startBatch();
+    const newPayees: Payee[] = [];
+    const newTransactions: Transaction[] = [];
+
+    try {
+      // Rows imported before are skipped, however long ago; the loaded window only covers the last few months
+      const importedIds = new Set(transactions.flatMap(tx => tx.importId ? [tx.importId] : []));
+      const draftImportIds = Array.from(new Set(drafts.flatMap(draft => draft.importId ? [draft.importId] : [])));
+      for (let start = 0; start < draftImportIds.length; start += MAX_IN_FILTER_VALUES) {
+        const importIds = draftImportIds.slice(start, start + MAX_IN_FILTER_VALUES);
+        const stored = await getDocs(query(collection(db, transactionsPath), where('importId', 'in', importIds)));
+        stored.docs.forEach(d => importedIds.add(d.data().importId));
+      }
+
+      for (const draft of drafts) {
+        // Resolve the payee by name or alias, then let the rules fill in what's still missing
+        const { payeeName: draftPayeeName, importId, ...draftData } = draft;
+        // A file can list the same row twice, too
+        if (importId && importedIds.has(importId)) continue;
+        if (importId) importedIds.add(importId);
+        const payeeName = draftPayeeName.trim() || "Unknown Payee";
+        const resolvedData = { ...draftData, payeeId: draftData.payeeId || resolvePayee(payeeName, [...payees, ...newPayees])?.id || "" };
+        const transactionData = applyTransactionRuleChanges(resolvedData, runTransactionRules(resolvedData, transactionRules).changes);
+
+        // A payee nothing matched is created in the same batch
+        let payeeId = transactionData.payeeId;
+        if (!payeeId) {
+          const payeeDocRef = doc(collection(db, payeesPath));
+          const newPayeeData: Omit<Payee, 'id'> = { userId: currentUser.uid, name: payeeName, createdAt: formatISO(new Date()) };
+          batch.set(payeeDocRef, newPayeeData);
+          newPayees.push({ id: payeeDocRef.id, ...newPayeeData });
+          payeeId = payeeDocRef.id;
+        }
+
+        const validation = transactionSchema.safeParse({ ...transactionData, payeeId });
+        if (!validation.success) {
+          throw new Error(`Transaction on ${draft.date} for ${formatMoney(draft.amount, getAccountCurrency(draft.accountId))}: ${validation.error.issues[0]?.message}`);
+        }
+
+        // The bank already has these, so they arrive cleared
+        const dataToSave = buildTransactionDocData(withExchangeRate({ ...transactionData, payeeId, status: 'cleared' }), getTransactionAuthor(currentUser), parseISO(draft.date));
+        if (importId) dataToSave.importId = importId;
+        const docRef = doc(collection(db, transactionsPath));
+        batch.set(docRef, dataToSave);
+        newTransactions.push({ id: docRef.id, ...dataToSave } as Transaction);
+      }
+
+      // One extra write for the lastModified stamp
+      if (newPayees.length + newTransactions.length + 1 > MAX_BATCH_WRITES) {
+        throw new Error(`Too many rows to import at once. Import at most ${MAX_BATCH_WRITES - 1 - newPayees.length} transactions per batch.`);
+      }
+      if (newTransactions.length === 0) return 0;
+      const loanInterestChanges = queueLoanInterestSync(batch, newTransactions.map(tx => tx.accountId), [...transactions, ...newTransactions]);
+
+      await updateLastModified(batch);
+      await commitUndoable(batch, 'Import transactions');
+
+      if (newPayees.length > 0) {
+        setPayees(prev => upsertById(prev, newPayees).sort((a, b) => a.name.localeCompare(b.name)));
+      }
+      setTransactions(prev => upsertById(prev, newTransactions).sort((a, b) => parseISO(b.date).getTime() - parseISO(a.date).getTime()));
+      applyLoanInterestChanges(loanInterestChanges);
+      return newTransactions.length;
+    } catch (error) {
+      console.error("Error importing transactions:", error);
+      throw error;
+    }
+  }, [currentUser, payees, transactions, transactionRules, getCollectionPath, updateLastModified, withExchangeRate, queueLoanInterestSync, applyLoanInterestChanges, commitUndoable]);
+
+  const setTransactionStatus = useCallback(async (transactionIds: string[], status: TransactionStatus): Promise<void> => {
+    if (!db || !currentUser) return Promise.reject(new Error("User not authenticated"));
+    if (transactionIds.length === 0) return;
+    if (transactionIds.length + 1 > MAX_BATCH_WRITES) {
+      return Promise.reject(new Error(`Update at most ${MAX_BATCH_WRITES - 1} transactions at once.`));
+    }
+    try {
+      const batch = startBatch();
+      transactionIds.forEach(transactionId => {
+        const txDocPath = getDocPath(TRANSACTIONS_COLLECTION, transactionId);
+        if (txDocPath) batch.update(doc(db, txDocPath), { status });
+      });
+      await updateLastModified(batch);
+      await commitUndoable(batch, 'Change cleared status');
+      const idSet = new Set(transactionIds);
+      setTransactions(prev => prev.map(tx => idSet.has(tx.id) ? { ...tx, status } : tx));
+    } catch (error) {
+      console.error("Error updating transaction status:", error);
+      return Promise.reject(error);
+    }
+  }, [currentUser, getDocPath, updateLastModified, commitUndoable]);
+
+  // Applies one change to every selected transaction it fits, in a single batch. Interest charges follow their
+  // payment and both legs of a transfer move together, so those are skipped or carried along as needed.
+  // Resolves with the number of transactions changed.
+  const bulkUpdateTransactions = useCallback(async (transactionIds: string[], changes: BulkTransactionChanges): Promise<number> => {
+    if (!db || !currentUser) return Promise.reject(new Error("User not authenticated"));
+    const newDate = changes.date ? parseISO(changes.date) : null;
+    if (newDate && !isValid(newDate)) return Promise.reject(new Error("Invalid date."));
+    const targetAccount = changes.accountId ? accounts.find(acc => acc.id === changes.accountId) : undefined;
+    if (changes.accountId && !targetAccount) return Promise.reject(new Error("Account not found."));
+
+    const idSet = new Set(transactionIds);
+    const updates = new Map<string, { fields: { [key: string]: any }; local: Partial<Transaction> }>();
+    const queue = (tx: Transaction, fields: { [key: string]: any }, local: Partial<Transaction>) => {
+      const existing = updates.get(tx.id) ?? { fields: {}, local: {} };
+      updates.set(tx.id, { fields: { ...existing.fields, ...fields }, local: { ...existing.local, ...local } });
+    };
+
+    transactions.filter(tx => idSet.has(tx.id) && !tx.loanPaymentId).forEach(tx => {
+      const counterpart = findTransferCounterpart(tx, transactions);
+      // Account transfers and income don't come out of an envelope
+      if (changes.envelopeId && !tx.isTransfer && !tx.isActualIncome) {
+        queue(tx, { envelopeId: changes.envelopeId, splits: deleteField() }, { envelopeId: changes.envelopeId, splits: undefined });
+      }
+      if (changes.payeeId) queue(tx, { payeeId: changes.payeeId }, { payeeId: changes.payeeId });
+      // Amounts are in the account's currency, so a transaction only moves between accounts that share one
+      if (targetAccount && tx.accountId !== targetAccount.id && counterpart?.accountId !== targetAccount.id
+        && getAccountCurrency(tx.accountId) === getAccountCurrency(targetAccount.id)) {
+        // Both legs of an envelope transfer sit in the same account
+        [tx, ...(counterpart && counterpart.accountId === tx.accountId ? [counterpart] : [])].forEach(leg => {
+          const { exchangeRate } = withExchangeRate({ accountId: targetAccount.id, exchangeRate: leg.exchangeRate });
+          queue(leg, { accountId: targetAccount.id, exchangeRate: exchangeRate ?? deleteField() }, { accountId: targetAccount.id, exchangeRate });
+        });
+      }
+      if (newDate) {
+        const date = formatISO(newDate);
+        queue(tx, { date }, { date });
+        if (counterpart) queue(counterpart, { date }, { date });
+      }
+      if (changes.status && getTransactionStatus(tx) !== 'reconciled') queue(tx, { status: changes.status }, { status: changes.status });
+      if (changes.isActualIncome !== undefined && tx.type === 'inflow' && !tx.isTransfer) {
+        queue(tx,
+          changes.isActualIncome ? { isActualIncome: true, envelopeId: deleteField(), splits: deleteField() } : { isActualIncome: false },
+          changes.isActualIncome ? { isActualIncome: true, envelopeId: undefined, splits: undefined } : { isActualIncome: false });
+      }
+    });
+    if (updates.size === 0) return 0;
+
+    const applyUpdates = (list: Transaction[]) => list.map(tx => updates.has(tx.id) ? { ...tx, ...updates.get(tx.id)!.local } : tx);
+    const nextTransactions = applyUpdates(transactions);
+    try {
+      const batch = startBatch();
+      updates.forEach(({ fields }, transactionId) => {
+        const txDocPath = getDocPath(TRANSACTIONS_COLLECTION, transactionId);
+        if (txDocPath) batch.update(doc(db, txDocPath), { ...fields, updatedAt: serverTimestamp() });
+      });
+      const affectedAccountIds = transactions.filter(tx => updates.has(tx.id)).flatMap(tx => [tx.accountId, updates.get(tx.id)!.local.accountId]);
+      const loanInterestChanges = queueLoanInterestSync(batch, affectedAccountIds, nextTransactions);
+      if (updates.size + loanInterestChanges.upserts.length + loanInterestChanges.deletedIds.length + 2 > MAX_BATCH_WRITES) {
+        throw new Error(`Too many transactions to update at once. Select at most ${MAX_BATCH_WRITES - 2} including linked transfers and interest charges.`);
+      }
+      await updateLastModified(batch);
+      await commitUndoable(batch, 'Update transactions');
+      setTransactions(prev => mergeLoanInterestChanges(applyUpdates(prev), loanInterestChanges)
+        .sort((a, b) => parseISO(b.date).getTime() - parseISO(a.date).getTime()));
+      if (loanInterestChanges.newPayee) setPayees(prev => upsertById(prev, [loanInterestChanges.newPayee!]).sort((a, b) => a.name.localeCompare(b.name)));
+      return updates.size;
+    } catch (error) {
+      console.error("Error updating transactions:", error);
+      throw error;
+    }
+  }, [currentUser, accounts, transactions, getDocPath, getAccountCurrency, withExchangeRate, updateLastModified, queueLoanInterestSync, commitUndoable]);
+
+  // Deletes the selected transactions in one batch, taking the other leg of any transfer with them.
+  // Interest charges are only removed along with their payment. Resolves with the number deleted.
+  const bulkDeleteTransactions = useCallback(async (transactionIds: string[]): Promise<number> => {
+    if (!db || !currentUser) return Promise.reject(new Error("User not authenticated"));
+    const idSet = new Set(transactionIds);
+    const toDelete = new Map<string, Transaction>();
+    transactions.filter(tx => idSet.has(tx.id) && !tx.loanPaymentId).forEach(tx => {
+      toDelete.set(tx.id, tx);
+      const counterpart = findTransferCounterpart(tx, transactions);
+      if (counterpart) toDelete.set(counterpart.id, counterpart);
+    });
+    if (toDelete.size === 0) return 0;
+
+    const nextTransactions = transactions.filter(tx => !toDelete.has(tx.id));
+    try {
+      const batch = startBatch();
+      toDelete.forEach((_, transactionId) => {
+        const txDocPath = getDocPath(TRANSACTIONS_COLLECTION, transactionId);
+        if (txDocPath) batch.delete(doc(db, txDocPath));
+      });
+      const loanInterestChanges = queueLoanInterestSync(batch, Array.from(toDelete.values()).map(tx => tx.accountId), nextTransactions);
+      if (toDelete.size + loanInterestChanges.upserts.length + loanInterestChanges.deletedIds.length + 2 > MAX_BATCH_WRITES) {
+        throw new Error(`Too many transactions to delete at once. Select at most ${MAX_BATCH_WRITES - 2} including linked transfers and interest charges.`);
+      }
+      await updateLastModified(batch);
+      await commitUndoable(batch, 'Delete transactions');
+      setTransactions(prev => mergeLoanInterestChanges(prev.filter(tx => !toDelete.has(tx.id)), loanInterestChanges));
+      if (loanInterestChanges.newPayee) setPayees(prev => upsertById(prev, [loanInterestChanges.newPayee!]).sort((a, b) => a.name.localeCompare(b.name)));
+      return toDelete.size;
+    } catch (error) {
+      console.error("Error deleting transactions:", error);
+      throw error;
+    }
+  }, [currentUser, transactions, getDocPath, updateLastModified, queueLoanInterestSync, commitUndoable]);
+
+  // Counts from the monthly summaries where they can, which works offline, and asks the server otherwise
+  const countTransactions = useCallback(async (scope: TransactionScope): Promise<number> => {
+    if ('accountId' in scope && !scope.month) {
+      return transactionSummaries.reduce((total, summary) => total + (summary.accounts[scope.accountId]?.transactionCount ?? 0), 0);
+    }
+    const transactionsPath = getCollectionPath(TRANSACTIONS_COLLECTION);
+    if (!db || !transactionsPath) return Promise.reject(new Error("Transactions path not available."));
+    const snapshot = await getCountFromServer(query(collection(db, transactionsPath), ...getScopeConstraints(scope)));
+    return snapshot.data().count;
+  }, [transactionSummaries, getCollectionPath]);
+
+  // Every stored transaction in a scope, loaded or not, and the loaded list with those and the other leg of
+  // each of their transfers added, so counterparts can be found in it
+  const fetchScopeTransactions = useCallback(async (scope: TransactionScope, isInScope: (tx: Transaction) => boolean) => {
+    const transactionsPath = getCollectionPath(TRANSACTIONS_COLLECTION);
+    if (!db || !transactionsPath) throw new Error("Transactions path not available.");
+    const stored = await getDocs(query(collection(db, transactionsPath), ...getScopeConstraints(scope)));
+    const inScope = upsertById(transactions.filter(isInScope), stored.docs.map(d => transactionFromDoc(d.id, d.data())));
+    let known = upsertById(transactions, inScope);
+    const missingTransferIds = Array.from(new Set(inScope
+      .filter(tx => tx.transferId && !findTransferCounterpart(tx, known))
+      .map(tx => tx.transferId!)));
+    for (let start = 0; start < missingTransferIds.length; start += MAX_IN_FILTER_VALUES) {
+      const transferIds = missingTransferIds.slice(start, start + MAX_IN_FILTER_VALUES);
+      const counterparts = await getDocs(query(collection(db, transactionsPath), where('transferId', 'in', transferIds)));
+      known = upsertById(known, counterparts.docs.map(d => transactionFromDoc(d.id, d.data())));
+    }
+    return { inScope, known };
+  }, [transactions, getCollectionPath]);
+
+  // Deletes an account, moving its transactions and recurring transactions to another account in the same
+  // currency or deleting them. The other leg of a transfer keeps its own account's balance as it was: it stays
+  // there as a plain transaction, or is deleted too when moving would leave a transfer from an account to itself.
+  // The account's interest charges go with it and are worked out again for wherever its payments moved.
+  const deleteAccount = useCallback(async (accountId: string, orphans: OrphanedTransactions): Promise<number> => {
+    if (!db || !currentUser) return Promise.reject(new Error("User not authenticated"));
+    const accountDocPath = getDocPath(ACCOUNTS_COLLECTION, accountId);
+    if (!accountDocPath) return Promise.reject(new Error("Account path not available"));
+    const target = orphans.action === 'reassign' ? accounts.find(acc => acc.id === orphans.targetId && acc.id !== accountId) : undefined;
+    if (orphans.action === 'reassign') {
+      if (!target) return Promise.reject(new Error("Choose another account to move the transactions to."));
+      // Amounts are in the account's currency
+      if (getAccountCurrency(target.id) !== getAccountCurrency(accountId)) {
+        return Promise.reject(new Error("Transactions can only move to an account in the same currency."));
+      }
+    }
+
+    try {
+      const { inScope, known } = await fetchScopeTransactions({ accountId }, tx => tx.accountId === accountId);
+      const deletedIds = new Set<string>();
+      const updates = new Map<string, { fields: { [key: string]: any }; local: Partial<Transaction> }>();
+      inScope.forEach(tx => {
+        const counterpart = findTransferCounterpart(tx, known);
+        if (!target || tx.loanPaymentId || (counterpart && counterpart.accountId === target.id)) {
+          deletedIds.add(tx.id);
+          if (counterpart && target && counterpart.accountId === target.id) deletedIds.add(counterpart.id);
+        } else {
+          const { exchangeRate } = withExchangeRate({ accountId: target.id, exchangeRate: tx.exchangeRate });
+          updates.set(tx.id, { fields: { accountId: target.id, exchangeRate: exchangeRate ?? deleteField() }, local: { accountId: target.id, exchangeRate } });
+        }
+      });
+      // Legs left behind in other accounts are unlinked once their transfer's other leg is gone
+      inScope.forEach(tx => {
+        const counterpart = findTransferCounterpart(tx, known);
+        if (!counterpart || counterpart.accountId === accountId || !deletedIds.has(tx.id) || deletedIds.has(counterpart.id)) return;
+        updates.set(counterpart.id, { fields: { transferId: deleteField(), isTransfer: false }, local: { transferId: undefined, isTransfer: false } });
+      });
+
+      const applyChanges = (list: Transaction[]) => list
+        .filter(tx => !deletedIds.has(tx.id))
+        .map(tx => updates.has(tx.id) ? { ...tx, ...updates.get(tx.id)!.local } : tx);
+      const relatedRecurring = recurringTransactions.filter(rule => rule.accountId === accountId);
+      const paymentEnvelope = envelopes.find(env => env.linkedAccountId === accountId);
+
+      const batch = startBatch();
+      batch.delete(doc(db, accountDocPath));
+      deletedIds.forEach(transactionId => {
+        const txDocPath = getDocPath(TRANSACTIONS_COLLECTION, transactionId);
+        if (txDocPath) batch.delete(doc(db, txDocPath));
+      });
+      updates.forEach(({ fields }, transactionId) => {
+        const txDocPath = getDocPath(TRANSACTIONS_COLLECTION, transactionId);
+        if (txDocPath) batch.update(doc(db, txDocPath), { ...fields, updatedAt: serverTimestamp() });
+      });
+      relatedRecurring.forEach(rule => {
+        const ruleDocPath = getDocPath(RECURRING_TRANSACTIONS_COLLECTION, rule.id);
+        if (!ruleDocPath) return;
+        if (target) batch.update(doc(db, ruleDocPath), { accountId: target.id });
+        else batch.delete(doc(db, ruleDocPath));
+      });
+      const ruleChanges = queueRuleReferenceChanges(batch, 'accountId', accountId, target?.id);
+      // The card's payment envelope keeps its money as an ordinary envelope
+      const envelopeDocPath = paymentEnvelope ? getDocPath(ENVELOPES_COLLECTION, paymentEnvelope.id) : null;
+      if (envelopeDocPath) batch.update(doc(db, envelopeDocPath), { linkedAccountId: deleteField() });
+
+      const affectedAccountIds = [target?.id, ...known.filter(tx => updates.has(tx.id) && tx.accountId !== accountId).map(tx => tx.accountId)];
+      const loanInterestChanges = queueLoanInterestSync(batch, affectedAccountIds, applyChanges(known));
+      const writeCount = deletedIds.size + updates.size + relatedRecurring.length + ruleChanges.writeCount + loanInterestChanges.upserts.length + loanInterestChanges.deletedIds.length + 4;
+      if (writeCount > MAX_BATCH_WRITES) {
+        throw new Error(`This account has too many transactions to ${target ? 'move' : 'delete'} at once. ${target ? 'Move' : 'Delete'} some of them from its transactions page first.`);
+      }
+      await updateLastModified(batch);
+      await commitUndoable(batch, 'Delete account');
+
+      setAccounts(prev => prev.filter(acc => acc.id !== accountId));
+      setTransactions(prev => applyChanges(prev));
+      applyLoanInterestChanges(loanInterestChanges);
+      setRecurringTransactions(prev => target
+        ? prev.map(rule => rule.accountId === accountId ? { ...rule, accountId: target.id } : rule)
+        : prev.filter(rule => rule.accountId !== accountId));
+      ruleChanges.apply();
+      if (paymentEnvelope) setEnvelopes(prev => prev.map(env => env.id === paymentEnvelope.id ? { ...env, linkedAccountId: undefined } : env));
+      return inScope.length;
+    } catch (error) {
+      console.error(`AppContext (deleteAccount): Error deleting account ${accountId}:`, error);
+      throw error;
+    }
+  }, [currentUser, accounts, envelopes, recurringTransactions, getDocPath, getAccountCurrency, withExchangeRate, fetchScopeTransactions, queueLoanInterestSync, applyLoanInterestChanges, queueRuleReferenceChanges, updateLastModified, commitUndoable]);
+
+  // Deletes a payee, moving its transactions and recurring transactions to another payee or deleting them.
+  // A payee they move to takes on its name and aliases. A deleted transfer takes its other leg with it, as
+  // deleteTransaction does.
+  const removePayee = useCallback(async (payeeId: string, orphans: OrphanedTransactions, undoLabel: string): Promise<number> => {
+    if (!db || !currentUser) return Promise.reject(new Error("User not authenticated"));
+    const payeeDocPath = getDocPath(PAYEES_COLLECTION, payeeId);
+    if (!payeeDocPath) return Promise.reject(new Error("Payee path not available"));
+    const payee = payees.find(p => p.id === payeeId);
+    if (!payee) return Promise.reject(new Error("Payee not found."));
+    const target = orphans.action === 'reassign' ? payees.find(p => p.id === orphans.targetId && p.id !== payeeId) : undefined;
+    if (orphans.action === 'reassign' && !target) return Promise.reject(new Error("Choose another payee to move the transactions to."));
+
+    try {
+      const { inScope, known } = await fetchScopeTransactions({ payeeId }, tx => tx.payeeId === payeeId);
+      if (!target && inScope.some(tx => tx.loanPaymentId)) {
+        throw new Error("Loan interest charges use this payee. Move its transactions to another payee instead.");
+      }
+      const deletedIds = new Set<string>();
+      if (!target) {
+        inScope.forEach(tx => {
+          deletedIds.add(tx.id);
+          const counterpart = findTransferCounterpart(tx, known);
+          if (counterpart) deletedIds.add(counterpart.id);
+        });
+      }
+      const movedIds = new Set(target ? inScope.map(tx => tx.id) : []);
+      const applyChanges = (list: Transaction[]) => list
+        .filter(tx => !deletedIds.has(tx.id))
+        .map(tx => target && movedIds.has(tx.id) ? { ...tx, payeeId: target.id } : tx);
+      const relatedRecurring = recurringTransactions.filter(rule => rule.payeeId === payeeId);
+
+      // The target answers to the merged payee's name and aliases from now on
+      const targetAliases = target ? mergePayeeAliases(target, payee) : [];
+      const targetDocPath = target ? getDocPath(PAYEES_COLLECTION, target.id) : null;
+
+      const batch = startBatch();
+      batch.delete(doc(db, payeeDocPath));
+      if (targetDocPath) batch.update(doc(db, targetDocPath), { aliases: targetAliases, updatedAt: serverTimestamp() });
+      deletedIds.forEach(transactionId => {
+        const txDocPath = getDocPath(TRANSACTIONS_COLLECTION, transactionId);
+        if (txDocPath) batch.delete(doc(db, txDocPath));
+      });
+      movedIds.forEach(transactionId => {
+        const txDocPath = getDocPath(TRANSACTIONS_COLLECTION, transactionId);
+        if (txDocPath) batch.update(doc(db, txDocPath), { payeeId: target!.id, updatedAt: serverTimestamp() });
+      });
+      relatedRecurring.forEach(rule => {
+        const ruleDocPath = getDocPath(RECURRING_TRANSACTIONS_COLLECTION, rule.id);
+        if (!ruleDocPath) return;
+        if (target) batch.update(doc(db, ruleDocPath), { payeeId: target.id });
+        else batch.delete(doc(db, ruleDocPath));
+      });
+      const ruleChanges = queueRuleReferenceChanges(batch, 'payeeId', payeeId, target?.id);
+      const loanInterestChanges = queueLoanInterestSync(batch, known.filter(tx => deletedIds.has(tx.id)).map(tx => tx.accountId), applyChanges(known));
+      const writeCount = deletedIds.size + movedIds.size + relatedRecurring.length + ruleChanges.writeCount + loanInterestChanges.upserts.length + loanInterestChanges.deletedIds.length + 4;
+      if (writeCount > MAX_BATCH_WRITES) {
+        throw new Error(`This payee has too many transactions to ${target ? 'move' : 'delete'} at once. ${target ? 'Move' : 'Delete'} some of them from its transactions page first.`);
+      }
+      await updateLastModified(batch);
+      await commitUndoable(batch, undoLabel);
+
+      setPayees(prev => prev.filter(p => p.id !== payeeId).map(p => p.id === target?.id ? { ...p, aliases: targetAliases } : p));
+      setTransactions(prev => applyChanges(prev));
+      applyLoanInterestChanges(loanInterestChanges);
+      setRecurringTransactions(prev => target
+        ? prev.map(rule => rule.payeeId === payeeId ? { ...rule, payeeId: target.id } : rule)
+        : prev.filter(rule => rule.payeeId !== payeeId));
+      ruleChanges.apply();
+      return inScope.length;
+    } catch (error) {
+      console.error(`AppContext (removePayee): Error removing payee ${payeeId}:`, error);
+      throw error;
+    }
+  }, [currentUser, payees, recurringTransactions, getDocPath, fetchScopeTransactions, queueLoanInterestSync, applyLoanInterestChanges, queueRuleReferenceChanges, updateLastModified, commitUndoable]);
+
+  const deletePayee = useCallback((payeeId: string, orphans: OrphanedTransactions) =>
+    removePayee(payeeId, orphans, 'Delete payee'), [removePayee]);
+
+  const mergePayees = useCallback((sourcePayeeId: string, targetPayeeId: string) =>
+    removePayee(sourcePayeeId, { action: 'reassign', targetId: targetPayeeId }, 'Merge payees'), [removePayee]);
+
+  // Locks the cleared transactions of a statement as reconciled, optionally adding an adjustment, in one batch.
+  const reconcileAccount = useCallback(async (data: ReconcileAccountData): Promise<void> => {
+    if (!db || !currentUser) return Promise.reject(new Error("User not authenticated"));
+    const { accountId, statementDate, statementBalance, transactionIds, adjustmentAmount } = data;
+    const accountDocPath = getDocPath(ACCOUNTS_COLLECTION, accountId);
+    const transactionsPath = getCollectionPath(TRANSACTIONS_COLLECTION);
+    const payeesPath = getCollectionPath(PAYEES_COLLECTION);
+    if (!accountDocPath || !transactionsPath || !payeesPath) return Promise.reject(new Error("Critical paths are null for reconcileAccount."));
+    const parsedDate = parseISO(statementDate);
+    if (!isValid(parsedDate)) return Promise.reject(new Error("Invalid statement date"));
+    if (transactionIds.length + 4 > MAX_BATCH_WRITES) {
+      return Promise.reject(new Error(`Too many transactions to reconcile at once. Reconcile at most ${MAX_BATCH_WRITES - 4}.`));
+    }
+
+    try {
+      const batch = startBatch();
+      transactionIds.forEach(transactionId => {
+        const txDocPath = getDocPath(TRANSACTIONS_COLLECTION, transactionId);
+        if (txDocPath) batch.update(doc(db, txDocPath), { status: 'reconciled' });
+      });
+
+      let newPayee: Payee | null = null;
+      let adjustmentTx: Transaction | null = null;
+      const roundedAdjustment = Math.round(adjustmentAmount || 0);
+      if (roundedAdjustment !== 0) {
+        let adjustmentPayee = payees.find(p => p.name === RECONCILIATION_PAYEE_NAME);
+        if (!adjustmentPayee) {
+          const payeeDocRef = doc(collection(db, payeesPath));
+          const newPayeeData: Omit<Payee, 'id'> = { name: RECONCILIATION_PAYEE_NAME, userId: currentUser.uid, createdAt: formatISO(new Date()) };
+          batch.set(payeeDocRef, newPayeeData);
+          newPayee = { id: payeeDocRef.id, ...newPayeeData };
+          adjustmentPayee = newPayee;
+        }
+        const adjustmentData = buildTransactionDocData(withExchangeRate({
+          accountId, payeeId: adjustmentPayee.id, envelopeId: null, amount: Math.abs(roundedAdjustment),
+          type: roundedAdjustment > 0 ? 'inflow' : 'outflow', description: `Balance adjustment for statement ending ${statementDate}`,
+          date: statementDate, isTransfer: false, isActualIncome: false, status: 'reconciled',
+        }), getTransactionAuthor(currentUser), parsedDate);
+        const adjustmentRef = doc(collection(db, transactionsPath));
+        batch.set(adjustmentRef, adjustmentData);
+        adjustmentTx = { id: adjustmentRef.id, ...adjustmentData } as Transaction;
+      }
+
+      batch.update(doc(db, accountDocPath), { lastReconciledDate: statementDate, lastReconciledBalance: statementBalance });
+      const loanInterestChanges = adjustmentTx
+        ? queueLoanInterestSync(batch, [accountId], [...transactions, adjustmentTx])
+        : null;
+      await updateLastModified(batch);
+      await commitUndoable(batch, 'Reconcile account');
+
+      const idSet = new Set(transactionIds);
+      setTransactions(prev => {
+        const updated = prev.map(tx => idSet.has(tx.id) ? { ...tx, status: 'reconciled' as TransactionStatus } : tx);
+        return adjustmentTx
+          ? [...updated, adjustmentTx].sort((a, b) => parseISO(b.date).getTime() - parseISO(a.date).getTime())
+          : updated;
+      });
+      if (newPayee) setPayees(prev => upsertById(prev, [newPayee!]).sort((a, b) => a.name.localeCompare(b.name)));
+      setAccounts(prev => prev.map(acc => acc.id === accountId ? { ...acc, lastReconciledDate: statementDate, lastReconciledBalance: statementBalance } : acc));
+      if (loanInterestChanges) applyLoanInterestChanges(loanInterestChanges);
+    } catch (error) {
+      console.error("Error reconciling account:", error);
+      return Promise.reject(error);
+    }
+  }, [currentUser, payees, transactions, getDocPath, getCollectionPath, updateLastModified, withExchangeRate, queueLoanInterestSync, applyLoanInterestChanges, commitUndoable]);
+
+  const sortRecurring = (list: RecurringTransaction[]) => [...list].sort((a, b) => a.nextDueDate.localeCompare(b.nextDueDate));
+
+  const addRecurringTransaction = useCallback(async (data: RecurringTransactionFormData): Promise<void> => {
+    if (!db || !currentUser) return Promise.reject(new Error("User not authenticated"));
+    const recurringPath = getCollectionPath(RECURRING_TRANSACTIONS_COLLECTION);
+    if (!recurringPath) return Promise.reject(new Error("Recurring transactions path not available"));
+
+    const dataToSave = buildRecurringTransactionDocData(data);
+    dataToSave.userId = currentUser.uid;
+    dataToSave.nextDueDate = getFirstOccurrenceDate(data);
+    dataToSave.createdAt = formatISO(new Date());
+
+    try {
+      const docRef = doc(collection(db, recurringPath));
+      const batch = startBatch();
+      batch.set(docRef, dataToSave);
+      await updateLastModified(batch);
+      await commitUndoable(batch, 'Add recurring transaction');
+      setRecurringTransactions(prev => sortRecurring(upsertById(prev, [{ id: docRef.id, ...dataToSave } as RecurringTransaction])));
+    } catch (error) {
+      console.error("Error adding recurring transaction:", error);
+      return Promise.reject(error);
+    }
+  }, [currentUser, getCollectionPath, updateLastModified, commitUndoable]);
+
+  const updateRecurringTransaction = useCallback(async (data: RecurringTransactionWithId): Promise<void> => {
+    if (!db || !currentUser) return Promise.reject(new Error("User not authenticated"));
+    const { id, ...ruleData } = data;
+    const existing = recurringTransactions.find(rule => rule.id === id);
+    const ruleDocPath = getDocPath(RECURRING_TRANSACTIONS_COLLECTION, id);
+    if (!existing || !ruleDocPath) return Promise.reject(new Error("Recurring transaction not found"));
+
+    const fields = buildRecurringTransactionDocData(ruleData);
+    // A new schedule starts over from its first occurrence, but never re-posts dates already handled
+    let nextDueDate = getFirstOccurrenceDate(ruleData);
+    for (let i = 0; nextDueDate < existing.nextDueDate && i < 1000; i++) {
+      nextDueDate = getNextOccurrenceDate(ruleData, nextDueDate);
+    }
+    const updatedAt = formatISO(new Date());
+    const firestoreUpdateData: { [key: string]: any } = { ...fields, nextDueDate, updatedAt };
+    // Clear optional fields the new version no longer has
+    (['description', 'envelopeId', 'dayOfMonth', 'intervalMonths', 'endDate'] as const).forEach(key => {
+      if (!(key in fields)) firestoreUpdateData[key] = deleteField();
+    });
+
+    try {
+      const batch = startBatch();
+      batch.update(doc(db, ruleDocPath), firestoreUpdateData);
+      await updateLastModified(batch);
+      await commitUndoable(batch, 'Edit recurring transaction');
+      const updatedRule = {
+        id, userId: existing.userId, createdAt: existing.createdAt, ...fields, nextDueDate, updatedAt,
+      } as RecurringTransaction;
+      setRecurringTransactions(prev => sortRecurring(prev.map(rule => rule.id === id ? updatedRule : rule)));
+    } catch (error) {
+      console.error("Error updating recurring transaction:", error);
+      return Promise.reject(error);
+    }
+  }, [currentUser, recurringTransactions, getDocPath, updateLastModified, commitUndoable]);
+
+  const deleteRecurringTransaction = useCallback(async (recurringTransactionId: string): Promise<void> => {
+    if (!db || !currentUser) return Promise.reject(new Error("User not authenticated"));
+    const ruleDocPath = getDocPath(RECURRING_TRANSACTIONS_COLLECTION, recurringTransactionId);
+    if (!ruleDocPath) return Promise.reject(new Error("Recurring transaction path not available"));
+    try {
+      const batch = startBatch();
+      batch.delete(doc(db, ruleDocPath));
+      await updateLastModified(batch);
+      await commitUndoable(batch, 'Delete recurring transaction');
+      setRecurringTransactions(prev => prev.filter(rule => rule.id !== recurringTransactionId));
+    } catch (error) {
+      console.error("Error deleting recurring transaction:", error);
+      return Promise.reject(error);
+    }
+  }, [currentUser, getDocPath, updateLastModified, commitUndoable]);
+
+  // Moves a rule past the occurrence that was just posted or skipped.
+  const advanceRecurringTransaction = useCallback(async (rule: RecurringTransaction, fromDate: string): Promise<RecurringTransaction> => {
+    const ruleDocPath = getDocPath(RECURRING_TRANSACTIONS_COLLECTION, rule.id);
+    if (!db || !ruleDocPath) throw new Error("Recurring transaction path not available");
+    const nextDueDate = getNextOccurrenceDate(rule, fromDate);
+    const updatedAt = formatISO(new Date());
+    const batch = startBatch();
+    batch.update(doc(db, ruleDocPath), { nextDueDate, updatedAt });
+    await updateLastModified(batch);
+    await commitUndoable(batch, 'Skip recurring transaction');
+    const advancedRule = { ...rule, nextDueDate, updatedAt };
+    setRecurringTransactions(prev => sortRecurring(prev.map(r => r.id === rule.id ? advancedRule : r)));
+    return advancedRule;
+  }, [getDocPath, updateLastModified, commitUndoable]);
+
+  // Posts an occurrence and moves its rule past it in one Firestore transaction, checked against the stored rule,
+  // so an occurrence is never claimed without being posted. The transaction's id is made from the rule and the
+  // date, and one already there isn't posted again. Returns the advanced rule, or null when another device got
+  // there first. Needs the server.
+  const postRecurringOccurrence = useCallback(async (rule: RecurringTransaction, dueDate: string): Promise<RecurringTransaction | null> => {
+    const ruleDocPath = getDocPath(RECURRING_TRANSACTIONS_COLLECTION, rule.id);
+    const transactionDocPath = getDocPath(TRANSACTIONS_COLLECTION, `${rule.id}_${dueDate}`);
+    const summariesPath = getCollectionPath(TRANSACTION_SUMMARIES_COLLECTION);
+    if (!db || !ruleDocPath || !transactionDocPath || !summariesPath) throw new Error("Recurring transaction path not available");
+    const { dataToSave } = prepareNewTransaction(buildRecurringOccurrence(rule, dueDate));
+    const ruleDocRef = doc(db, ruleDocPath);
+    const transactionDocRef = doc(db, transactionDocPath);
+    const newTx = { id: transactionDocRef.id, ...dataToSave } as Transaction;
+    const nextDueDate = getNextOccurrenceDate(rule, dueDate);
+    const updatedAt = formatISO(new Date());
+    const result = await runTransaction(db, async firestoreTransaction => {
+      const storedRule = await firestoreTransaction.get(ruleDocRef);
+      const storedTransaction = await firestoreTransaction.get(transactionDocRef);
+      if (!storedRule.exists() || storedRule.data().nextDueDate !== dueDate) return { isClaimed: false, isPosted: false };
+      if (!storedTransaction.exists()) {
+        firestoreTransaction.set(transactionDocRef, dataToSave);
+        diffSummaries([], [newTx], summaryContext).forEach((delta, month) => {
+          const incrementData = toIncrementData(delta);
+          if (incrementData) firestoreTransaction.set(doc(db, summariesPath, month), incrementData, { merge: true });
+        });
+      }
+      firestoreTransaction.update(ruleDocRef, { nextDueDate, updatedAt });
+      return { isClaimed: true, isPosted: !storedTransaction.exists() };
+    });
+    if (!result.isClaimed) return null;
+    updateLastModified();
+    const advancedRule = { ...rule, nextDueDate, updatedAt };
+    setRecurringTransactions(prev => sortRecurring(prev.map(r => r.id === rule.id ? advancedRule : r)));
+    if (!result.isPosted) return advancedRule;
+
+    setTransactions(prev => upsertById(prev, [newTx]).sort((a, b) => parseISO(b.date).getTime() - parseISO(a.date).getTime()));
+    recordHistory('Post recurring transaction', [{ path: transactionDocPath, before: null, after: dataToSave }]);
+    // Interest on a loan payment follows in its own batch; it's worked out again whenever the loan's payments change
+    const batch = startBatch();
+    const loanInterestChanges = queueLoanInterestSync(batch, [newTx.accountId], upsertById(latestTransactionsRef.current, [newTx]));
+    if (getTrackedPaths(batch).length > 0) {
+      await commitUndoable(batch, 'Update loan interest');
+      applyLoanInterestChanges(loanInterestChanges);
+    }
+    return advancedRule;
+  }, [getDocPath, getCollectionPath, prepareNewTransaction, summaryContext, updateLastModified, recordHistory, queueLoanInterestSync, applyLoanInterestChanges, commitUndoable]);
+
+  const postRecurringTransaction = useCallback(async (recurringTransactionId: string): Promise<void> => {
+    const rule = recurringTransactions.find(r => r.id === recurringTransactionId);
+    if (!rule) return Promise.reject(new Error("Recurring transaction not found"));
+    try {
+      await runAsUndoGroup('Post recurring transaction', async () => {
+        await addTransaction(buildRecurringOccurrence(rule, rule.nextDueDate));
+        await advanceRecurringTransaction(rule, rule.nextDueDate);
+      });
+    } catch (error) {
+      console.error("Error posting recurring transaction:", error);
+      return Promise.reject(error);
+    }
+  }, [recurringTransactions, addTransaction, advanceRecurringTransaction, runAsUndoGroup]);
+
+  const skipRecurringTransaction = useCallback(async (recurringTransactionId: string): Promise<void> => {
+    const rule = recurringTransactions.find(r => r.id === recurringTransactionId);
+    if (!rule) return Promise.reject(new Error("Recurring transaction not found"));
+    try {
+      await advanceRecurringTransaction(rule, rule.nextDueDate);
+    } catch (error) {
+      console.error("Error skipping recurring transaction:", error);
+      return Promise.reject(error);
+    }
+  }, [recurringTransactions, advanceRecurringTransaction]);
+
+  // Once per budget opened, post every auto-post occurrence that came due while the app was closed, whoever
+  // set the rule up. Confirm-to-post rules keep their missed occurrences listed as due instead. Every device
+  // with the budget open does this, so each occurrence is posted in the same server transaction that claims it.
+  // Offline, that transaction fails and catching up waits for the next open.
+  useEffect(() => {
+    if (isDataLoading || !budgetPath || !canEditBudget || recurringCatchUpBudgetRef.current === budgetPath) return;
+    recurringCatchUpBudgetRef.current = budgetPath;
+    const today = format(new Date(), "yyyy-MM-dd");
+
+    // Posted on the user's behalf, so there's nothing for them to undo
+    const catchUp = () => runAsUndoGroup(null, async () => {
+      for (const rule of recurringTransactions.filter(r => r.autoPost)) {
+        let currentRule = rule;
         try {
-            const batch = writeBatch(db);
-            batch.set(payeeDocRef, newPayeeData);
-            await updateLastModified(batch);
-            await batch.commit();
-            internalTransferPayee = {id: payeeDocRef.id, ...newPayeeData};
-            setPayees(prev => [...prev, internalTransferPayee!].sort((a, b) => a.name.localeCompare(b.name)));
+          for (const dueDate of getOccurrencesThrough(rule, today)) {
+            const advancedRule = await postRecurringOccurrence(currentRule, dueDate);
+            if (!advancedRule) break;
+            currentRule = advancedRule;
+          }
         } catch (error) {
-            console.error("Error creating internal account transfer payee:", error);
-            return Promise.reject(error);
+          console.error(`AppContext: Error catching up recurring transaction ${rule.id}:`, error);
         }
+      }
+    });
+    catchUp();
+  }, [isDataLoading, budgetPath, canEditBudget, recurringTransactions, postRecurringOccurrence, runAsUndoGroup]);
+
+  const addTransactionRule = useCallback(async (data: TransactionRuleFormData): Promise<void> => {
+    if (!db || !currentUser) return Promise.reject(new Error("User not authenticated"));
+    const rulesPath = getCollectionPath(TRANSACTION_RULES_COLLECTION);
+    if (!rulesPath) return Promise.reject(new Error("Rules path not available"));
+
+    const dataToSave: { [key: string]: any } = {
+      ...buildTransactionRuleDocData(data),
+      userId: currentUser.uid,
+      orderIndex: transactionRules.reduce((max, rule) => Math.max(max, rule.orderIndex), -1) + 1,
+      createdAt: formatISO(new Date()),
+    };
+    try {
+      const docRef = doc(collection(db, rulesPath));
+      const batch = startBatch();
+      batch.set(docRef, dataToSave);
+      await updateLastModified(batch);
+      await commitUndoable(batch, 'Add rule');
+      setTransactionRules(prev => upsertById(prev, [{ id: docRef.id, ...dataToSave } as TransactionRule]).sort(compareRuleOrder));
+    } catch (error) {
+      console.error("Error adding rule:", error);
+      return Promise.reject(error);
+    }
+  }, [currentUser, transactionRules, getCollectionPath, updateLastModified, commitUndoable]);
+
+  const updateTransactionRule = useCallback(async (data: TransactionRuleWithId): Promise<void> => {
+    if (!db || !currentUser) return Promise.reject(new Error("User not authenticated"));
+    const { id, ...ruleData } = data;
+    const existing = transactionRules.find(rule => rule.id === id);
+    const ruleDocPath = getDocPath(TRANSACTION_RULES_COLLECTION, id);
+    if (!existing || !ruleDocPath) return Promise.reject(new Error("Rule not found"));
+
+    const fields = buildTransactionRuleDocData(ruleData);
+    const updatedAt = formatISO(new Date());
+    try {
+      const batch = startBatch();
+      batch.update(doc(db, ruleDocPath), { ...fields, updatedAt });
+      await updateLastModified(batch);
+      await commitUndoable(batch, 'Edit rule');
+      setTransactionRules(prev => prev.map(rule => rule.id === id ? { ...rule, ...fields, updatedAt } as TransactionRule : rule));
+    } catch (error) {
+      console.error("Error updating rule:", error);
+      return Promise.reject(error);
+    }
+  }, [currentUser, transactionRules, getDocPath, updateLastModified, commitUndoable]);
+
+  const deleteTransactionRule = useCallback(async (ruleId: string): Promise<void> => {
+    if (!db || !currentUser) return Promise.reject(new Error("User not authenticated"));
+    const ruleDocPath = getDocPath(TRANSACTION_RULES_COLLECTION, ruleId);
+    if (!ruleDocPath) return Promise.reject(new Error("Rule path not available"));
+    try {
+      const batch = startBatch();
+      batch.delete(doc(db, ruleDocPath));
+      await updateLastModified(batch);
+      await commitUndoable(batch, 'Delete rule');
+      setTransactionRules(prev => prev.filter(rule => rule.id !== ruleId));
+    } catch (error) {
+      console.error("Error deleting rule:", error);
+      return Promise.reject(error);
     }
+  }, [currentUser, getDocPath, updateLastModified, commitUndoable]);
+
+  // Saves the order rules run in; only the rules that moved are written
+  const reorderTransactionRules = useCallback(async (orderedRuleIds: string[]): Promise<void> => {
+    if (!db || !currentUser) return Promise.reject(new Error("User not authenticated"));
+    const moved = orderedRuleIds
+      .map((ruleId, orderIndex) => ({ rule: transactionRules.find(rule => rule.id === ruleId), orderIndex }))
+      .filter((item): item is { rule: TransactionRule; orderIndex: number } => !!item.rule && item.rule.orderIndex !== item.orderIndex);
+    if (moved.length === 0) return;
     try {
-      await addTransaction({
-          accountId: fromAccountId, envelopeId: null, payeeId: internalTransferPayee.id, amount, type: 'outflow',
-          description: description || `Transfer to ${toAccount.name}`, date, isTransfer: true, isActualIncome: false,
+      const batch = startBatch();
+      moved.forEach(({ rule, orderIndex }) => {
+        const ruleDocPath = getDocPath(TRANSACTION_RULES_COLLECTION, rule.id);
+        if (ruleDocPath) batch.update(doc(db, ruleDocPath), { orderIndex });
       });
-      await addTransaction({
-          accountId: toAccountId, envelopeId: null, payeeId: internalTransferPayee.id, amount, type: 'inflow',
-          description: description || `Transfer from ${fromAccount.name}`, date, isTransfer: true, isActualIncome: false,
+      await updateLastModified(batch);
+      await commitUndoable(batch, 'Reorder rules');
+      const newIndexes = new Map(moved.map(({ rule, orderIndex }) => [rule.id, orderIndex]));
+      setTransactionRules(prev => prev
+        .map(rule => newIndexes.has(rule.id) ? { ...rule, orderIndex: newIndexes.get(rule.id)! } : rule)
+        .sort(compareRuleOrder));
+    } catch (error) {
+      console.error("Error reordering rules:", error);
+      return Promise.reject(error);
+    }
+  }, [currentUser, transactionRules, getDocPath, updateLastModified, commitUndoable]);
+
+  // Runs the rules over every stored transaction in the range, loaded or not, without saving anything
+  const previewTransactionRules = useCallback(async (from: string, to: string, overwrite: boolean): Promise<TransactionRuleMatch[]> => {
+    const inRange = await getTransactionsInRange(from, to);
+    return inRange
+      .map(transaction => ({ transaction, ...runTransactionRules(transaction, transactionRules, overwrite) }))
+      .filter(match => Object.keys(match.changes).length > 0);
+  }, [getTransactionsInRange, transactionRules]);
+
+  // Saves exactly what was previewed, so editing a rule in between doesn't change what's written. Large runs
+  // are saved a page at a time but undone together.
+  const applyTransactionRuleMatches = useCallback(async (matches: TransactionRuleMatch[]): Promise<number> => {
+    if (!db || !currentUser) return Promise.reject(new Error("User not authenticated"));
+    if (matches.length === 0) return 0;
+    try {
+      await runAsUndoGroup('Apply rules', async () => {
+        for (let start = 0; start < matches.length; start += RULE_RUN_PAGE_SIZE) {
+          const page = matches.slice(start, start + RULE_RUN_PAGE_SIZE);
+          const updated = new Map<string, Transaction>();
+          const batch = startBatch();
+          page.forEach(({ transaction, changes }) => {
+            const txDocPath = getDocPath(TRANSACTIONS_COLLECTION, transaction.id);
+            if (!txDocPath) return;
+            const next = applyTransactionRuleChanges(transaction, changes);
+            const fields: { [key: string]: any } = { updatedAt: serverTimestamp(), envelopeIds: getTransactionEnvelopeIds(next) };
+            if ('envelopeId' in changes) fields.envelopeId = changes.envelopeId ?? deleteField();
+            if (changes.isActualIncome !== undefined) fields.isActualIncome = changes.isActualIncome;
+            if (changes.payeeId !== undefined) fields.payeeId = changes.payeeId;
+            if (changes.description !== undefined) fields.description = changes.description;
+            batch.update(doc(db, txDocPath), fields);
+            updated.set(transaction.id, { ...next, envelopeIds: fields.envelopeIds });
+          });
+          await updateLastModified(batch);
+          await commitUndoable(batch, 'Apply rules');
+          // Transactions outside the loaded window stay unloaded
+          setTransactions(prev => prev.map(tx => updated.get(tx.id) ?? tx));
+        }
       });
-      return Promise.resolve();
+      return matches.length;
     } catch (error) {
-        console.error("Error during account fund transfer transactions:", error);
-        throw error; // Re-throw error
+      console.error("Error applying rules:", error);
+      throw error;
     }
-  }, [currentUser, addTransaction, accounts, payees, getCollectionPath, updateLastModified]);
+  }, [currentUser, getDocPath, updateLastModified, commitUndoable, runAsUndoGroup]);
+
+  // Months before the loaded window are read from their summaries, the window itself from its transactions
+  const windowStartMonth = transactionWindowStart ? transactionWindowStart.slice(0, 7) : null;
+
+  const isInTransactionWindow = useCallback((tx: Transaction): boolean => {
+    return !transactionWindowStart || tx.date >= transactionWindowStart;
+  }, [transactionWindowStart]);
+
+  const olderTransactionCount = useMemo(() => transactionSummaries
+    .filter(summary => windowStartMonth && summary.id < windowStartMonth)
+    .reduce((count, summary) => count + (summary.transactionCount || 0), 0), [transactionSummaries, windowStartMonth]);
+
+  const summariesByMonth = useMemo(() => new Map(transactionSummaries.map(summary => [summary.id, summary])), [transactionSummaries]);
+
+  // The month's summary when the month is before the window, null when its transactions are loaded
+  const getSummaryBeforeWindow = useCallback((forMonth: Date): TransactionMonthSummary | null => {
+    const month = format(forMonth, "yyyy-MM");
+    if (!windowStartMonth || month >= windowStartMonth) return null;
+    return summariesByMonth.get(month) ?? createMonthSummary(month);
+  }, [windowStartMonth, summariesByMonth]);
+
+  const accountTotalsBeforeWindow = useMemo(() => {
+    const totals = new Map<string, { balance: number; clearedBalance: number }>();
+    transactionSummaries.forEach(summary => {
+      if (!windowStartMonth || summary.id >= windowStartMonth) return;
+      Object.entries(summary.accounts).forEach(([accountId, { balance, clearedBalance }]) => {
+        const total = totals.get(accountId) ?? { balance: 0, clearedBalance: 0 };
+        totals.set(accountId, { balance: total.balance + (balance || 0), clearedBalance: total.clearedBalance + (clearedBalance || 0) });
+      });
+    });
+    return totals;
+  }, [transactionSummaries, windowStartMonth]);
 
-  const getAccountBalance = useCallback((accountId: string): number => {
+  const getAccountBalance = useCallback((accountId: string): Money => {
     const account = accounts.find(acc => acc.id === accountId);
     if (!account) return 0;
 
@@ -881,15 +3089,32 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
       : 0;
 
     const balance = transactions.reduce((currentBalance, tx) => {
-      if (tx.accountId === accountId) {
+      if (tx.accountId === accountId && isInTransactionWindow(tx)) {
         const txAmount = (typeof tx.amount === 'number' && !isNaN(tx.amount)) ? tx.amount : 0;
         return tx.type === 'inflow' ? currentBalance + txAmount : currentBalance - txAmount;
       }
       return currentBalance;
-    }, validInitialBalance);
+    }, validInitialBalance + (accountTotalsBeforeWindow.get(accountId)?.balance ?? 0));
 
      return isNaN(balance) ? 0 : balance;
-  }, [accounts, transactions]);
+  }, [accounts, transactions, isInTransactionWindow, accountTotalsBeforeWindow]);
+
+  const getAccountClearedBalance = useCallback((accountId: string): Money => {
+    const account = accounts.find(acc => acc.id === accountId);
+    if (!account) return 0;
+    const validInitialBalance = (typeof account.initialBalance === 'number' && !isNaN(account.initialBalance))
+      ? account.initialBalance
+      : 0;
+    const balance = transactions
+      .filter(tx => tx.accountId === accountId && isInTransactionWindow(tx) && getTransactionStatus(tx) !== 'uncleared')
+      .reduce((currentBalance, tx) => currentBalance + getSignedAmount(tx), validInitialBalance + (accountTotalsBeforeWindow.get(accountId)?.clearedBalance ?? 0));
+    return isNaN(balance) ? 0 : balance;
+  }, [accounts, transactions, isInTransactionWindow, accountTotalsBeforeWindow]);
+
+  const getAccountBaseBalance = useCallback((accountId: string): Money => {
+    const rate = getExchangeRate(currencySettings, getAccountCurrency(accountId), currencySettings.baseCurrency) ?? 1;
+    return multiplyMoney(getAccountBalance(accountId), rate);
+  }, [currencySettings, getAccountCurrency, getAccountBalance]);
 
   const getAccountById = useCallback((accountId: string): Account | undefined => {
     return accounts.find(acc => acc.id === accountId);
@@ -899,34 +3124,39 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
     return envelopes.find(env => env.id === envelopeId);
   }, [envelopes]);
 
-  const getEnvelopeSpending = useCallback((envelopeId: string, forMonth: Date): number => {
-    const monthStart = startOfMonth(forMonth);
-    const monthEnd = endOfMonth(forMonth);
-    const spending = transactions
-      .filter(tx => {
-          if (tx.envelopeId !== envelopeId || tx.type !== 'outflow') return false;
-          const txDate = parseISO(tx.date);
-          return isValid(txDate) && isWithinInterval(txDate, {start: monthStart, end: monthEnd});
-      })
-      .reduce((sum, tx) => (sum + ((typeof tx.amount === 'number' && !isNaN(tx.amount)) ? tx.amount : 0)), 0);
-      return isNaN(spending) ? 0 : spending;
-  }, [transactions]);
+  // Every envelope's months, brought up to date rather than rebuilt when the budget changes. Once every
+  // transaction is loaded they're summarized here, which also covers summaries that couldn't be rebuilt.
+  const envelopeLedgerRef = useRef<{ inputs: EnvelopeLedgerInputs; ledger: EnvelopeLedger } | null>(null);
+  const ledgerSummaries = useMemo(() => transactionWindowStart === null
+    ? summarizeTransactions(transactions, summaryContext)
+    : summariesByMonth, [transactionWindowStart, transactions, summaryContext, summariesByMonth]);
+  const envelopeLedger = useMemo(() => {
+    const inputs: EnvelopeLedgerInputs = {
+      envelopes,
+      summaries: ledgerSummaries,
+      budgets: monthlyEnvelopeBudgets,
+      settings: currencySettings,
+      accountCurrencies,
+      throughMonth: format(new Date(), "yyyy-MM"),
+    };
+    const previous = envelopeLedgerRef.current;
+    const ledger = previous ? updateEnvelopeLedger(previous.ledger, previous.inputs, inputs) : buildEnvelopeLedger(inputs);
+    envelopeLedgerRef.current = { inputs, ledger };
+    return ledger;
+  }, [envelopes, ledgerSummaries, monthlyEnvelopeBudgets, currencySettings, accountCurrencies]);
+
+  const getEnvelopeSpending = useCallback((envelopeId: string, forMonth: Date): Money => {
+    const spent = getEnvelopeMonth(envelopeLedger, envelopeId, format(forMonth, "yyyy-MM"))?.spent ?? 0;
+    return isNaN(spent) ? 0 : spent;
+  }, [envelopeLedger]);
 
   // New function to get envelope inflows
-  const getEnvelopeInflows = useCallback((envelopeId: string, forMonth: Date): number => {
-    const monthStart = startOfMonth(forMonth);
-    const monthEnd = endOfMonth(forMonth);
-    const inflows = transactions
-      .filter(tx => {
-          if (tx.envelopeId !== envelopeId || tx.type !== 'inflow') return false;
-          const txDate = parseISO(tx.date);
-          return isValid(txDate) && isWithinInterval(txDate, {start: monthStart, end: monthEnd});
-      })
-      .reduce((sum, tx) => (sum + ((typeof tx.amount === 'number' && !isNaN(tx.amount)) ? tx.amount : 0)), 0);
-      return isNaN(inflows) ? 0 : inflows;
-  }, [transactions]);
+  const getEnvelopeInflows = useCallback((envelopeId: string, forMonth: Date): Money => {
+    const inflows = getEnvelopeMonth(envelopeLedger, envelopeId, format(forMonth, "yyyy-MM"))?.inflows ?? 0;
+    return isNaN(inflows) ? 0 : inflows;
+  }, [envelopeLedger]);
 
-  const getMonthlyAllocation = useCallback((envelopeId: string, forMonth: Date): number => {
+  const getMonthlyAllocation = useCallback((envelopeId: string, forMonth: Date): Money => {
     const monthStr = format(forMonth, "yyyy-MM");
     const monthlyBudget = monthlyEnvelopeBudgets.find(
       b => b.envelopeId === envelopeId && b.month === monthStr
@@ -938,29 +3168,12 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
     return envelope?.budgetAmount || 0;
   }, [monthlyEnvelopeBudgets, envelopes]);
 
-  const getEnvelopeBalanceAsOfEOM = useCallback((envelopeId: string, asOfEOMDate: Date): number => {
-    const envelope = envelopes.find(env => env.id === envelopeId);
-    if (!envelope || !envelope.createdAt || !isValid(parseISO(envelope.createdAt))) return 0;
-
-    const creationMonth = startOfMonth(parseISO(envelope.createdAt));
-    let currentBalance = 0;
-    let monthToProcess = creationMonth;
-
-    while (isBefore(monthToProcess, addMonths(startOfMonth(asOfEOMDate),1)) || isEqual(monthToProcess, startOfMonth(asOfEOMDate))) {
-        const allocatedThisMonth = getMonthlyAllocation(envelopeId, monthToProcess);
-        const spentThisMonth = getEnvelopeSpending(envelopeId, monthToProcess);
-        const inflowsThisMonth = getEnvelopeInflows(envelopeId, monthToProcess);
+  const getEnvelopeBalanceAsOfEOM = useCallback((envelopeId: string, asOfEOMDate: Date): Money => {
+    const balance = getEnvelopeClosingBalance(envelopeLedger, envelopeId, format(asOfEOMDate, "yyyy-MM"));
+    return isNaN(balance) ? 0 : balance;
+  }, [envelopeLedger]);
 
-        currentBalance += allocatedThisMonth;
-        currentBalance += inflowsThisMonth; // Add inflows to the envelope balance
-        currentBalance -= spentThisMonth;
-
-        monthToProcess = addMonths(monthToProcess, 1);
-    }
-    return isNaN(currentBalance) ? 0 : currentBalance;
-  }, [envelopes, getMonthlyAllocation, getEnvelopeSpending, getEnvelopeInflows]);
-
-  const getEffectiveMonthlyBudgetWithRollover = useCallback((envelopeId: string, forMonth: Date): number => {
+  const getEffectiveMonthlyBudgetWithRollover = useCallback((envelopeId: string, forMonth: Date): Money => {
     const previousMonth = subMonths(startOfMonth(forMonth), 1);
     const balanceAtEndOfPreviousMonth = getEnvelopeBalanceAsOfEOM(envelopeId, previousMonth);
     const currentMonthAllocation = getMonthlyAllocation(envelopeId, forMonth);
@@ -981,58 +3194,83 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
         });
   }, [transactions]);
 
-  const getMonthlyActualIncomeTotal = useCallback((forMonth: Date): number => {
+  const resolvePayeeName = useCallback((text: string): Payee | undefined => resolvePayee(text, payees), [payees]);
+
+  const getMonthlyActualIncomeTotal = useCallback((forMonth: Date): Money => {
+    const summary = getSummaryBeforeWindow(forMonth);
+    if (summary) return rateAmountsToBase(summary.income, currencySettings, accountCurrencies);
     const monthStart = startOfMonth(forMonth); const monthEnd = endOfMonth(forMonth);
     return transactions.reduce((total, tx) => {
       const txDate = parseISO(tx.date);
       if (tx.type === 'inflow' && tx.isActualIncome && !tx.isTransfer && isValid(txDate) && isWithinInterval(txDate, { start: monthStart, end: monthEnd })) {
-        return total + ((typeof tx.amount === 'number' && !isNaN(tx.amount)) ? tx.amount : 0);
+        return total + ((typeof tx.amount === 'number' && !isNaN(tx.amount)) ? getTransactionBaseAmount(tx) : 0);
       }
       return total;
     }, 0);
-  }, [transactions]);
+  }, [transactions, currencySettings, accountCurrencies, getTransactionBaseAmount, getSummaryBeforeWindow]);
 
-  const getMonthlyOutflowTotal = useCallback((forMonth: Date): number => {
+  const getMonthlyOutflowTotal = useCallback((forMonth: Date): Money => {
+    const summary = getSummaryBeforeWindow(forMonth);
+    if (summary) return rateAmountsToBase(summary.outflow, currencySettings, accountCurrencies);
     const monthStart = startOfMonth(forMonth); const monthEnd = endOfMonth(forMonth);
     return transactions.reduce((total, tx) => {
       const txDate = parseISO(tx.date);
       if (tx.type === 'outflow' && !tx.isTransfer && isValid(txDate) && isWithinInterval(txDate, { start: monthStart, end: monthEnd })) {
-        return total + ((typeof tx.amount === 'number' && !isNaN(tx.amount)) ? tx.amount : 0);
+        return total + ((typeof tx.amount === 'number' && !isNaN(tx.amount)) ? getTransactionBaseAmount(tx) : 0);
       }
       return total;
     }, 0);
-  }, [transactions]);
+  }, [transactions, currencySettings, accountCurrencies, getTransactionBaseAmount, getSummaryBeforeWindow]);
 
-  const getTotalMonthlyBudgeted = useCallback((forMonth: Date): number => {
+  const getTotalMonthlyBudgeted = useCallback((forMonth: Date): Money => {
     return envelopes.reduce((total, env) => {
         const amountToAdd = getMonthlyAllocation(env.id, forMonth);
         return total + ((typeof amountToAdd === 'number' && !isNaN(amountToAdd)) ? amountToAdd : 0);
     }, 0);
   }, [envelopes, getMonthlyAllocation]);
 
-  const getYtdActualIncomeTotal = useCallback((): number => {
+  const getYtdActualIncomeTotal = useCallback((): Money => {
     const now = new Date(); const yearStart = startOfYear(now); const todayEnd = endOfDay(now);
+    const yearStartMonth = format(yearStart, "yyyy-MM");
+    const summarizedIncome = transactionSummaries
+      .filter(summary => windowStartMonth && summary.id >= yearStartMonth && summary.id < windowStartMonth)
+      .reduce((total, summary) => total + rateAmountsToBase(summary.income, currencySettings, accountCurrencies), 0);
     return transactions.reduce((total, tx) => {
       const txDate = parseISO(tx.date);
-      if (tx.type === 'inflow' && tx.isActualIncome && !tx.isTransfer && isValid(txDate) && isWithinInterval(txDate, { start: yearStart, end: todayEnd })) {
-        return total + ((typeof tx.amount === 'number' && !isNaN(tx.amount)) ? tx.amount : 0);
+      if (tx.type === 'inflow' && tx.isActualIncome && !tx.isTransfer && isInTransactionWindow(tx) && isValid(txDate) && isWithinInterval(txDate, { start: yearStart, end: todayEnd })) {
+        return total + ((typeof tx.amount === 'number' && !isNaN(tx.amount)) ? getTransactionBaseAmount(tx) : 0);
       }
       return total;
-    }, 0);
-  }, [transactions]);
+    }, summarizedIncome);
+  }, [transactions, transactionSummaries, windowStartMonth, currencySettings, accountCurrencies, getTransactionBaseAmount, isInTransactionWindow]);
 
   return (
     <AppContext.Provider value={{
       accounts, envelopes, transactions, payees, categories, orderedCategories, lastModified,
+      transactionSummaries, transactionWindowStart: transactionWindowStart ?? null, olderTransactionCount, loadOlderTransactions,
+      isLoadingOlderTransactions: transactionWindowRequest !== undefined && transactionWindowRequest.start !== transactionWindowStart,
+      watchTransactions, watchUnreconciledTransactions,
       monthlyEnvelopeBudgets, currentViewMonth, setCurrentViewMonth, setMonthlyAllocation,
       addAccount, updateAccount, addEnvelope, addTransaction, updateTransaction, addPayee, updatePayee,
       addCategory, updateCategoryOrder, updateEnvelope, updateEnvelopeOrder, deleteTransaction, deleteEnvelope,
-      transferBetweenEnvelopes, transferBetweenAccounts,
-      getAccountBalance, getAccountById, getEnvelopeById,
+      transferBetweenEnvelopes, transferBetweenAccounts, importTransactions,
+      recurringTransactions, addRecurringTransaction, updateRecurringTransaction, deleteRecurringTransaction,
+      postRecurringTransaction, skipRecurringTransaction, setTransactionStatus, reconcileAccount,
+      bulkUpdateTransactions, bulkDeleteTransactions, countTransactions, deleteAccount, deletePayee, mergePayees,
+      transactionRules, addTransactionRule, updateTransactionRule, deleteTransactionRule, reorderTransactionRules,
+      previewTransactionRules, applyTransactionRuleMatches,
+      undo, redo, getDocumentHistory,
+      undoLabel: undoStack.length > 0 ? undoStack[undoStack.length - 1].label : null,
+      redoLabel: redoStack.length > 0 ? redoStack[redoStack.length - 1].label : null,
+      getAccountBalance, getAccountClearedBalance, getAccountById, getEnvelopeById,
       getEnvelopeSpending, getEnvelopeBalanceAsOfEOM, getMonthlyAllocation, getEffectiveMonthlyBudgetWithRollover,
       getMonthlyActualIncomeTotal, getMonthlyOutflowTotal, getTotalMonthlyBudgeted, getYtdActualIncomeTotal,
-      getPayeeTransactions,
-      isLoading
+      getPayeeTransactions, resolvePayeeName, getTransactionsInRange,
+      currencySettings, updateCurrencySettings, getAccountCurrency, getTransactionBaseAmount, getAccountBaseBalance,
+      isLoading: isDataLoading, moneyMigrationError, retryMoneyMigration, syncStatus, pendingWrites, dismissPendingWrite, isNetworkEnabled, setNetworkEnabled,
+      sharedBudgets, activeBudgetId, budgetRole, canEditBudget, switchBudget, createSharedBudget,
+      receivedBudgetInvites, sentBudgetInvites, inviteBudgetMember, cancelBudgetInvite, acceptBudgetInvite, declineBudgetInvite,
+      setBudgetMemberRole, removeBudgetMember
     }}>
       {children}
     </AppContext.Provider>
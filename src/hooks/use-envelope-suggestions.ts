@@ -0,0 +1,99 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useAppContext } from "@/context/AppContext";
+import { isEnvelopeSuggestionAvailable, suggestEnvelope } from "@/ai/flows/suggest-envelope";
+import type { EnvelopeSuggestion } from "@/ai/flows/suggest-envelope-flow";
+import type { TransactionType } from "@/types";
+
+// Long enough that typing a description doesn't ask the model on every keystroke
+const SUGGESTION_DELAY_MS = 800;
+
+// Whether the server has a model to ask, checked once per page load; a failed check is tried again
+let modelAvailability: Promise<boolean> | null = null;
+
+export interface EnvelopeSuggestionSubject {
+  accountId: string;
+  payeeId?: string;
+  payeeName?: string; // Used when the payee doesn't exist yet, as on import
+  description?: string;
+  amount: number;
+  type: TransactionType;
+}
+
+/** Whether envelopes can be suggested, i.e. the server has a model configured. False until that's known. */
+export function useEnvelopeSuggestionsAvailable(): boolean {
+  const [available, setAvailable] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    modelAvailability ??= isEnvelopeSuggestionAvailable().catch(() => {
+      modelAvailability = null;
+      return false;
+    });
+    modelAvailability.then(value => { if (!cancelled) setAvailable(value); });
+    return () => { cancelled = true; };
+  }, []);
+
+  return available;
+}
+
+/**
+ * Asks the suggestion flow for the envelopes a transaction most likely belongs in, best first. Resolves to no
+ * suggestions without asking when there are no envelopes or no model, and rejects when the model can't be reached.
+ */
+export function useEnvelopeSuggester() {
+  const { envelopes, payees, getAccountCurrency } = useAppContext();
+  const available = useEnvelopeSuggestionsAvailable();
+
+  return useCallback(async (subject: EnvelopeSuggestionSubject): Promise<EnvelopeSuggestion[]> => {
+    if (!available || envelopes.length === 0) return [];
+    const payeeName = payees.find(payee => payee.id === subject.payeeId)?.name ?? subject.payeeName;
+    const { suggestions } = await suggestEnvelope({
+      description: subject.description || undefined,
+      payeeName: payeeName || undefined,
+      amount: subject.amount,
+      currency: getAccountCurrency(subject.accountId),
+      type: subject.type,
+      envelopes: envelopes.map(({ id, name, category }) => ({ id, name, category })),
+    });
+    return suggestions;
+  }, [available, envelopes, payees, getAccountCurrency]);
+}
+
+/**
+ * Suggestions for a transaction being entered, fetched once it has stopped changing for a moment. Pass null
+ * when there's nothing to suggest for, e.g. an envelope has been chosen. Nothing is fetched without a model. Suggestions are only a hint, so a
+ * failure leaves the list empty rather than interrupting the form.
+ */
+export function useEnvelopeSuggestions(subject: EnvelopeSuggestionSubject | null) {
+  const suggest = useEnvelopeSuggester();
+  const available = useEnvelopeSuggestionsAvailable();
+  // Without a model there's nothing to wait for
+  const subjectKey = subject && available ? JSON.stringify(subject) : null;
+  const [result, setResult] = useState<{ subjectKey: string; suggestions: EnvelopeSuggestion[] } | null>(null);
+
+  useEffect(() => {
+    if (!subjectKey) return;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      suggest(JSON.parse(subjectKey))
+        .then(suggestions => { if (!cancelled) setResult({ subjectKey, suggestions }); })
+        .catch(error => {
+          console.warn("Envelope suggestions are unavailable:", error);
+          if (!cancelled) setResult({ subjectKey, suggestions: [] });
+        });
+    }, SUGGESTION_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [subjectKey, suggest]);
+
+  // Suggestions for an earlier version of the transaction aren't shown
+  const current = result && result.subjectKey === subjectKey ? result : null;
+  return {
+    suggestions: current?.suggestions ?? [],
+    isLoading: subjectKey !== null && current === null,
+  };
+}
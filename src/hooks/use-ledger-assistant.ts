@@ -0,0 +1,99 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { useAppContext } from "@/context/AppContext";
+import { askLedgerAssistant } from "@/ai/flows/ledger-assistant";
+import type { LedgerAssistantInput } from "@/ai/flows/ledger-assistant-flow";
+import { runLedgerTool } from "@/lib/ledger-tools";
+
+// Rounds of tool calls allowed for one question before giving up; comparisons rarely need more than three
+const MAX_TOOL_ROUNDS = 6;
+
+type AssistantMessages = LedgerAssistantInput['messages'];
+
+// A transaction as a tool described it to the model, kept so citations can be shown without loading it
+export interface CitedTransaction {
+  id: string;
+  date: string;
+  type: 'inflow' | 'outflow';
+  amount: number; // Whole currency units
+  currency: string;
+  payee?: string;
+  description?: string;
+}
+
+export interface AssistantExchange {
+  question: string;
+  answer?: string; // Cites transactions as [[id]]
+  citations: string[];
+  error?: string;
+}
+
+/**
+ * A conversation with the ledger assistant. The model runs on the server; the tools it asks for run here,
+ * against the budget's data, and their results go back with the next request. Switching budgets starts over.
+ */
+export function useLedgerAssistant() {
+  const app = useAppContext();
+  const { activeBudgetId, accounts, envelopes, payees, currencySettings } = app;
+  const [messages, setMessages] = useState<AssistantMessages>([]);
+  const [exchanges, setExchanges] = useState<AssistantExchange[]>([]);
+  const [citedTransactions, setCitedTransactions] = useState<Record<string, CitedTransaction>>({});
+  const [isAnswering, setIsAnswering] = useState(false);
+
+  const reset = useCallback(() => {
+    setMessages([]);
+    setExchanges([]);
+    setCitedTransactions({});
+  }, []);
+
+  useEffect(() => {
+    reset();
+  }, [activeBudgetId, reset]);
+
+  const ask = useCallback(async (question: string) => {
+    setIsAnswering(true);
+    setExchanges(prev => [...prev, { question, citations: [] }]);
+    const finish = (result: Omit<AssistantExchange, 'question'>) =>
+      setExchanges(prev => prev.map((exchange, index) => index === prev.length - 1 ? { question, ...result } : exchange));
+
+    let conversation: AssistantMessages = [...messages, { role: 'user', content: [{ text: question }] }];
+    const context = {
+      today: format(new Date(), "yyyy-MM-dd"),
+      currency: currencySettings.baseCurrency,
+      accounts: accounts.map(({ id, name }) => ({ id, name })),
+      envelopes: envelopes.map(({ id, name, category }) => ({ id, name, category })),
+      payees: payees.map(({ id, name }) => ({ id, name })),
+    };
+    try {
+      for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+        const result = await askLedgerAssistant({ ...context, messages: conversation });
+        conversation = result.messages;
+        if (result.toolRequests.length === 0) {
+          setMessages(conversation);
+          finish({ answer: result.answer ?? "", citations: result.citations });
+          return;
+        }
+        const content = await Promise.all(result.toolRequests.map(async request => {
+          const output = await runLedgerTool(app, request.name, request.input);
+          const listed = (output as { transactions?: CitedTransaction[] })?.transactions;
+          if (Array.isArray(listed)) {
+            setCitedTransactions(prev => ({ ...prev, ...Object.fromEntries(listed.map(tx => [tx.id, tx])) }));
+          }
+          return { toolResponse: { name: request.name, ...(request.ref && { ref: request.ref }), output } };
+        }));
+        conversation = [...conversation, { role: 'tool', content }];
+      }
+      // The question stays out of the history, so the next one starts clean
+      finish({ citations: [], error: "That took too many lookups to answer. Try asking something narrower." });
+    } catch (error) {
+      console.error("Error asking the assistant:", error);
+      finish({ citations: [], error: (error as Error)?.message || "The assistant couldn't answer. Please try again." });
+    } finally {
+      setIsAnswering(false);
+    }
+  }, [app, messages, accounts, envelopes, payees, currencySettings]);
+
+  return { exchanges, citedTransactions, isAnswering, ask, reset };
+}
@@ -0,0 +1,38 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useAppContext } from "@/context/AppContext";
+import type { Transaction, TransactionScope } from "@/types";
+
+export const TRANSACTION_PAGE_SIZE = 100;
+
+/**
+ * The newest transactions on one account, envelope or payee, queried on their own rather than taken from
+ * the loaded window. `loadMore` widens the query by another page; everything loaded stays live.
+ */
+export function useScopedTransactions(scope: TransactionScope) {
+  const { watchTransactions } = useAppContext();
+  const scopeKey = JSON.stringify(scope);
+  // Kept with the scope they belong to, so switching scopes starts over from one page
+  const [paging, setPaging] = useState({ scopeKey, count: TRANSACTION_PAGE_SIZE });
+  const [loaded, setLoaded] = useState<{ scopeKey: string; count: number; transactions: Transaction[] } | null>(null);
+  const count = paging.scopeKey === scopeKey ? paging.count : TRANSACTION_PAGE_SIZE;
+
+  useEffect(() => {
+    return watchTransactions(JSON.parse(scopeKey), count, transactions => setLoaded({ scopeKey, count, transactions }));
+  }, [scopeKey, count, watchTransactions]);
+
+  const loadMore = useCallback(() => {
+    setPaging(prev => ({ scopeKey, count: (prev.scopeKey === scopeKey ? prev.count : TRANSACTION_PAGE_SIZE) + TRANSACTION_PAGE_SIZE }));
+  }, [scopeKey]);
+
+  // The previous page stays listed while the wider query loads
+  const current = loaded?.scopeKey === scopeKey ? loaded : null;
+  return {
+    transactions: current?.transactions ?? [],
+    isLoading: current === null,
+    isLoadingMore: current !== null && current.count !== count,
+    hasMore: current !== null && current.transactions.length >= current.count,
+    loadMore,
+  };
+}
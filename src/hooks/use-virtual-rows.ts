@@ -0,0 +1,50 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+const ESTIMATED_ROW_HEIGHT = 53; // A table row with one line of text, until a rendered row is measured
+const OVERSCAN_ROWS = 10; // Rendered beyond each edge of the view, so fast scrolling doesn't show gaps
+
+/**
+ * Renders only the rows in and near view of a scrolling container. Rows are taken to share the height of
+ * the first one rendered, and the rows left out above and below are stood in for by padding of the same
+ * height, so the scrollbar matches the whole list. Pass `containerRef` to the scrolling element.
+ */
+export function useVirtualRows(rowCount: number) {
+  const [container, setContainer] = useState<HTMLElement | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(800);
+  const [rowHeight, setRowHeight] = useState(ESTIMATED_ROW_HEIGHT);
+
+  useEffect(() => {
+    if (!container) return;
+    const update = () => {
+      setScrollTop(container.scrollTop);
+      setViewportHeight(container.clientHeight);
+    };
+    update();
+    container.addEventListener("scroll", update, { passive: true });
+    const observer = new ResizeObserver(update);
+    observer.observe(container);
+    return () => {
+      container.removeEventListener("scroll", update);
+      observer.disconnect();
+    };
+  }, [container]);
+
+  // Measured after every render, as fonts and the layout can change a row's height
+  useEffect(() => {
+    const row = container?.querySelector<HTMLElement>("tbody tr:not([aria-hidden])");
+    if (row && row.offsetHeight > 0) setRowHeight(row.offsetHeight);
+  });
+
+  const end = Math.min(rowCount, Math.ceil((scrollTop + viewportHeight) / rowHeight) + OVERSCAN_ROWS);
+  const start = Math.min(end, Math.max(0, Math.floor(scrollTop / rowHeight) - OVERSCAN_ROWS));
+  return {
+    containerRef: setContainer,
+    start,
+    end,
+    paddingTop: start * rowHeight,
+    paddingBottom: (rowCount - end) * rowHeight,
+  };
+}
@@ -0,0 +1,59 @@
+import { isValid, isWithinInterval, parseISO } from "date-fns";
+import type { Account, Money, Transaction } from "@/types";
+import { liabilityAccountTypes } from "@/lib/schemas";
+import { getTransactionEnvelopeAllocations } from "@/lib/transactions";
+
+export const CARD_PAYMENT_CATEGORY = "Credit Card Payments";
+
+export function isLiabilityAccount(account: Pick<Account, 'type'> | undefined): boolean {
+  return !!account?.type && (liabilityAccountTypes as readonly string[]).includes(account.type);
+}
+
+export function isCreditCardAccount(account: Pick<Account, 'type'> | undefined): boolean {
+  return account?.type === "Credit Card";
+}
+
+/**
+ * Liability forms show the amount owed, while balances store debt as a negative number.
+ * Converts between the two for liability types; the conversion is its own inverse.
+ */
+export function convertOwedAmount(type: string | undefined, amount: Money): Money {
+  if (!isLiabilityAccount({ type }) || amount === 0) return amount;
+  return -amount;
+}
+
+export function getPaymentEnvelopeName(accountName: string): string {
+  return `${accountName} Payment`;
+}
+
+/**
+ * Money moving through a credit card's payment envelope in a period. Card purchases
+ * categorized to other envelopes set the same amount aside for the payment (refunds
+ * take it back), and transfers into the card, i.e. payments, spend it. This keeps card
+ * spending counted once, in the envelope it was categorized to. `toBase` converts
+ * amounts for cards held in another currency.
+ */
+export function getCardPaymentActivity(
+  cardAccountId: string,
+  paymentEnvelopeId: string,
+  transactions: Transaction[],
+  period: { start: Date; end: Date },
+  toBase: (tx: Transaction, amount: Money) => Money = (_tx, amount) => amount,
+): { moneyIn: Money; moneyOut: Money } {
+  return transactions.reduce((activity, tx) => {
+    if (tx.accountId !== cardAccountId) return activity;
+    const txDate = parseISO(tx.date);
+    if (!isValid(txDate) || !isWithinInterval(txDate, period)) return activity;
+
+    if (tx.isTransfer) {
+      if (tx.type === 'inflow') activity.moneyOut += toBase(tx, tx.amount);
+      return activity;
+    }
+    const categorized = getTransactionEnvelopeAllocations(tx)
+      .filter(allocation => allocation.envelopeId !== paymentEnvelopeId)
+      .reduce((sum, allocation) => sum + allocation.amount, 0);
+    if (tx.type === 'outflow') activity.moneyIn += toBase(tx, categorized);
+    else activity.moneyOut += toBase(tx, categorized);
+    return activity;
+  }, { moneyIn: 0, moneyOut: 0 });
+}
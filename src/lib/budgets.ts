@@ -0,0 +1,37 @@
+import type { BudgetRole, SharedBudget, TransactionAuthor } from "@/types";
+
+export const PERSONAL_BUDGET_NAME = "Personal";
+
+export const budgetRoleLabels: Record<BudgetRole, string> = {
+  owner: "Owner",
+  editor: "Editor",
+  viewer: "Viewer",
+};
+
+/** Where a budget's collections live: under the user for their personal budget, under budgets/ for a shared one. */
+export function getBudgetPath(userId: string, budgetId: string | null): string {
+  return budgetId ? `budgets/${budgetId}` : `users/${userId}`;
+}
+
+/** Email addresses as invites are stored and matched, which is how Firebase Auth reports them in rules. */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/** A user's name as other members see it. */
+export function getAuthorName(user: { displayName?: string | null; email?: string | null }): string {
+  return user.displayName?.trim() || user.email || "Unknown";
+}
+
+export function getTransactionAuthor(user: { uid: string; displayName?: string | null; email?: string | null }): TransactionAuthor {
+  return { uid: user.uid, name: getAuthorName(user) };
+}
+
+/** The user's role in a shared budget, or null when they aren't a member. */
+export function getBudgetRole(budget: SharedBudget | undefined, userId: string): BudgetRole | null {
+  return budget?.members[userId]?.role ?? null;
+}
+
+export function canEditWithRole(role: BudgetRole): boolean {
+  return role === 'owner' || role === 'editor';
+}
@@ -0,0 +1,62 @@
+import type { CurrencySettings, Money } from "@/types";
+import { multiplyMoney, toMajorUnits } from "@/lib/money";
+
+export const DEFAULT_CURRENCY = "USD";
+
+// ISO 4217 codes offered in currency pickers
+export const currencyCodes = [
+  "USD", "EUR", "GBP", "CAD", "AUD", "NZD", "JPY", "CHF", "SEK", "NOK", "DKK", "PLN", "CZK", "HUF",
+  "MXN", "BRL", "INR", "CNY", "HKD", "SGD", "KRW", "ZAR", "TRY", "THB",
+] as const;
+
+export const defaultCurrencySettings: CurrencySettings = {
+  baseCurrency: DEFAULT_CURRENCY,
+  ledgerCurrency: DEFAULT_CURRENCY,
+  exchangeRates: {},
+};
+
+/** Formats an amount in the given currency, e.g. "$1,234.50" or "€1.234,50" depending on locale. */
+export function formatMoney(money: Money, currency: string = DEFAULT_CURRENCY): string {
+  const amount = toMajorUnits(money);
+  try {
+    return amount.toLocaleString(undefined, { style: 'currency', currency, minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  } catch {
+    // Unknown currency codes fall back to a plain number with the code
+    return `${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${currency}`;
+  }
+}
+
+/** Value of one unit of `currency` in the ledger currency, or undefined when no rate is stored. */
+export function getLedgerRate(settings: CurrencySettings, currency: string): number | undefined {
+  if (currency === settings.ledgerCurrency) return 1;
+  const rate = settings.exchangeRates[currency];
+  return typeof rate === 'number' && rate > 0 ? rate : undefined;
+}
+
+/** How many units of `to` one unit of `from` buys at the stored rates, or undefined when a rate is missing. */
+export function getExchangeRate(settings: CurrencySettings, from: string, to: string): number | undefined {
+  if (from === to) return 1;
+  const fromRate = getLedgerRate(settings, from);
+  const toRate = getLedgerRate(settings, to);
+  return fromRate !== undefined && toRate !== undefined ? fromRate / toRate : undefined;
+}
+
+/** Converts at the stored rates, rounded to cents. Returns undefined when a rate is missing. */
+export function convertAmount(settings: CurrencySettings, amount: Money, from: string, to: string): Money | undefined {
+  const rate = getExchangeRate(settings, from, to);
+  return rate === undefined ? undefined : multiplyMoney(amount, rate);
+}
+
+/**
+ * Transactions store their rate in ledger-currency units, so the base currency can change without
+ * rewriting history. These turn a rate quoted against the base currency into that form and back.
+ */
+export function toLedgerRate(settings: CurrencySettings, rateToBase: number): number | undefined {
+  const baseRate = getLedgerRate(settings, settings.baseCurrency);
+  return baseRate === undefined ? undefined : rateToBase * baseRate;
+}
+
+export function fromLedgerRate(settings: CurrencySettings, ledgerRate: number): number | undefined {
+  const baseRate = getLedgerRate(settings, settings.baseCurrency);
+  return baseRate === undefined ? undefined : ledgerRate / baseRate;
+}
@@ -0,0 +1,304 @@
+import { describe, expect, it } from "vitest";
+import { addMonths, endOfMonth, format, isValid, isWithinInterval, parseISO, startOfMonth } from "date-fns";
+import { buildEnvelopeLedger, getEnvelopeClosingBalance, getEnvelopeMonth, updateEnvelopeLedger, type EnvelopeLedger, type EnvelopeLedgerInputs } from "@/lib/envelope-ledger";
+import { getCardPaymentActivity } from "@/lib/accounts";
+import { defaultCurrencySettings } from "@/lib/currency";
+import { getTransactionMonth, summarizeTransactions, type SummaryContext } from "@/lib/summaries";
+import { getTransactionAmountForEnvelope, transactionTouchesEnvelope } from "@/lib/transactions";
+import type { Envelope, Money, MonthlyEnvelopeBudget, Transaction, TransactionMonthSummary } from "@/types";
+
+const SETTINGS = defaultCurrencySettings;
+const CARD_ACCOUNT_ID = "card";
+const CARD_ENVELOPE_ID = "env-card";
+const FIRST_MONTH = "2023-01";
+const MONTH_COUNT = 36;
+const TRANSACTION_COUNT = 5000;
+
+const MONTHS = Array.from({ length: MONTH_COUNT }, (_, index) => format(addMonths(parseISO(`${FIRST_MONTH}-01`), index), "yyyy-MM"));
+// Checked from before the first envelope through months past every ledger's end
+const CHECKED_MONTHS = Array.from({ length: MONTH_COUNT + 6 }, (_, index) => format(addMonths(parseISO(`${FIRST_MONTH}-01`), index - 2), "yyyy-MM"));
+
+const summaryContext: SummaryContext = {
+  getPaymentEnvelopeId: accountId => accountId === CARD_ACCOUNT_ID ? CARD_ENVELOPE_ID : undefined,
+};
+
+// Seeded, so a failure comes back the same on every run
+function createRandom(seed: number) {
+  let state = seed;
+  const next = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let value = Math.imul(state ^ (state >>> 15), 1 | state);
+    value = (value + Math.imul(value ^ (value >>> 7), 61 | value)) ^ value;
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = (min: number, max: number) => min + Math.floor(next() * (max - min + 1));
+  const pick = <T>(items: T[]): T => items[int(0, items.length - 1)];
+  return { next, int, pick };
+}
+type Random = ReturnType<typeof createRandom>;
+
+interface BudgetData {
+  envelopes: Envelope[];
+  transactions: Transaction[];
+  budgets: MonthlyEnvelopeBudget[];
+  throughMonth: string;
+}
+
+function createEnvelope(id: string, random: Random, linkedAccountId?: string): Envelope {
+  return {
+    id,
+    userId: "user",
+    name: id,
+    budgetAmount: random.int(0, 40) * 500,
+    category: "Test",
+    orderIndex: 0,
+    createdAt: `${random.pick(MONTHS.slice(0, 18))}-${String(random.int(1, 28)).padStart(2, "0")}T12:00:00.000Z`,
+    ...(linkedAccountId && { linkedAccountId }),
+  };
+}
+
+let nextTransactionId = 0;
+function createTransaction(random: Random, envelopes: Envelope[]): Transaction {
+  const accountId = random.next() < 0.3 ? CARD_ACCOUNT_ID : "checking";
+  const type = random.next() < 0.8 ? "outflow" : "inflow";
+  const amount = random.int(1, 50000);
+  const tx: Transaction = {
+    id: `tx-${nextTransactionId++}`,
+    userId: "user",
+    accountId,
+    payeeId: "payee",
+    amount,
+    type,
+    date: `${random.pick(MONTHS)}-${String(random.int(1, 28)).padStart(2, "0")}`,
+    createdAt: "2023-01-01T00:00:00.000Z",
+  };
+  const roll = random.next();
+  if (roll < 0.05) {
+    tx.isTransfer = true;
+  } else if (roll < 0.2) {
+    const first = random.int(1, amount - 1 || 1);
+    tx.splits = [
+      { envelopeId: random.pick(envelopes).id, amount: first },
+      { envelopeId: random.pick(envelopes).id, amount: amount - first },
+    ];
+  } else if (roll < 0.95) {
+    tx.envelopeId = random.pick(envelopes).id;
+  }
+  return tx;
+}
+
+function createBudgetData(random: Random): BudgetData {
+  const envelopes = Array.from({ length: 14 }, (_, index) => createEnvelope(`env-${index}`, random));
+  envelopes.push(createEnvelope(CARD_ENVELOPE_ID, random, CARD_ACCOUNT_ID));
+  const transactions = Array.from({ length: TRANSACTION_COUNT }, () => createTransaction(random, envelopes));
+  const budgets: MonthlyEnvelopeBudget[] = [];
+  for (let index = 0; index < 150; index++) {
+    setMonthlyBudget(budgets, random.pick(envelopes).id, random.pick(MONTHS), random.int(0, 60) * 500);
+  }
+  return { envelopes, transactions, budgets, throughMonth: MONTHS[MONTHS.length - 1] };
+}
+
+// Replaces the allocation in place when there is one, as setMonthlyAllocation updates the stored document
+function setMonthlyBudget(budgets: MonthlyEnvelopeBudget[], envelopeId: string, month: string, allocatedAmount: Money) {
+  const budget: MonthlyEnvelopeBudget = {
+    id: `${envelopeId}_${month}`, userId: "user", envelopeId, month, allocatedAmount, createdAt: "", updatedAt: "",
+  };
+  const index = budgets.findIndex(existing => existing.id === budget.id);
+  if (index >= 0) budgets[index] = budget;
+  else budgets.push(budget);
+}
+
+// Summaries of the given months worked out again; the rest keep their identity, as in the app
+function resummarize(previous: Map<string, TransactionMonthSummary>, transactions: Transaction[], months: string[]) {
+  const summaries = new Map(previous);
+  months.forEach(month => {
+    const summary = summarizeTransactions(transactions.filter(tx => getTransactionMonth(tx) === month), summaryContext).get(month);
+    if (summary) summaries.set(month, summary);
+    else summaries.delete(month);
+  });
+  return summaries;
+}
+
+/**
+ * The balances as AppContext worked them out before the ledger: each month's allocation, spending and
+ * inflows filtered out of the transactions, added up from the envelope's creation to the month asked for.
+ */
+function createMonthByMonthSelectors(data: BudgetData) {
+  const byMonth = new Map<string, Transaction[]>();
+  data.transactions.forEach(tx => {
+    const month = getTransactionMonth(tx);
+    if (!byMonth.has(month)) byMonth.set(month, []);
+    byMonth.get(month)!.push(tx);
+  });
+
+  const getMonthlyAllocation = (envelope: Envelope, month: string): Money =>
+    data.budgets.find(budget => budget.envelopeId === envelope.id && budget.month === month)?.allocatedAmount ?? (envelope.budgetAmount || 0);
+
+  const activity = new Map<string, { spent: Money; inflows: Money }>();
+  const getActivity = (envelope: Envelope, month: string) => {
+    const key = `${envelope.id}|${month}`;
+    if (!activity.has(key)) {
+      const period = { start: startOfMonth(parseISO(`${month}-01`)), end: endOfMonth(parseISO(`${month}-01`)) };
+      const inMonth = (byMonth.get(month) ?? []).filter(tx => {
+        const txDate = parseISO(tx.date);
+        return isValid(txDate) && isWithinInterval(txDate, period) && transactionTouchesEnvelope(tx, envelope.id);
+      });
+      const total = (type: Transaction["type"]) => inMonth
+        .filter(tx => tx.type === type)
+        .reduce((sum, tx) => sum + getTransactionAmountForEnvelope(tx, envelope.id), 0);
+      const card = envelope.linkedAccountId
+        ? getCardPaymentActivity(envelope.linkedAccountId, envelope.id, byMonth.get(month) ?? [], period)
+        : { moneyIn: 0, moneyOut: 0 };
+      activity.set(key, { spent: total("outflow") + card.moneyOut, inflows: total("inflow") + card.moneyIn });
+    }
+    return activity.get(key)!;
+  };
+
+  const getEnvelopeBalanceAsOfEOM = (envelope: Envelope, month: string): Money => {
+    let balance = 0;
+    for (let current = startOfMonth(parseISO(envelope.createdAt)); format(current, "yyyy-MM") <= month; current = addMonths(current, 1)) {
+      const monthKey = format(current, "yyyy-MM");
+      const { spent, inflows } = getActivity(envelope, monthKey);
+      balance += getMonthlyAllocation(envelope, monthKey) + inflows - spent;
+    }
+    return balance;
+  };
+
+  return { getActivity, getEnvelopeBalanceAsOfEOM };
+}
+
+// Every envelope and month where the ledger and the month-by-month selectors disagree
+function findMismatches(ledger: EnvelopeLedger, data: BudgetData): string[] {
+  const selectors = createMonthByMonthSelectors(data);
+  const mismatches: string[] = [];
+  data.envelopes.forEach(envelope => {
+    CHECKED_MONTHS.forEach(month => {
+      const expected = selectors.getEnvelopeBalanceAsOfEOM(envelope, month);
+      const actual = getEnvelopeClosingBalance(ledger, envelope.id, month);
+      if (actual !== expected) mismatches.push(`${envelope.id} ${month} balance: ${actual} != ${expected}`);
+      const { spent, inflows } = selectors.getActivity(envelope, month);
+      const ledgerMonth = getEnvelopeMonth(ledger, envelope.id, month);
+      if ((ledgerMonth?.spent ?? 0) !== spent) mismatches.push(`${envelope.id} ${month} spent: ${ledgerMonth?.spent} != ${spent}`);
+      if ((ledgerMonth?.inflows ?? 0) !== inflows) mismatches.push(`${envelope.id} ${month} inflows: ${ledgerMonth?.inflows} != ${inflows}`);
+    });
+  });
+  return mismatches;
+}
+
+const toInputs = (data: BudgetData, summaries: Map<string, TransactionMonthSummary>): EnvelopeLedgerInputs => ({
+  envelopes: data.envelopes,
+  summaries,
+  budgets: data.budgets,
+  settings: SETTINGS,
+  accountCurrencies: {},
+  throughMonth: data.throughMonth,
+});
+
+// One random change to the budget, as a new snapshot, with the months whose summaries it touches
+function changeBudget(data: BudgetData, random: Random): { data: BudgetData; changedMonths: string[] } {
+  const roll = random.next();
+  if (roll < 0.25) {
+    const tx = createTransaction(random, data.envelopes);
+    return { data: { ...data, transactions: [...data.transactions, tx] }, changedMonths: [getTransactionMonth(tx)] };
+  }
+  if (roll < 0.5) {
+    // An edit that moves the transaction to another month and envelope and changes its amount
+    const before = random.pick(data.transactions);
+    const after: Transaction = { ...createTransaction(random, data.envelopes), id: before.id };
+    return {
+      data: { ...data, transactions: data.transactions.map(tx => tx.id === before.id ? after : tx) },
+      changedMonths: [getTransactionMonth(before), getTransactionMonth(after)],
+    };
+  }
+  if (roll < 0.65) {
+    const removed = random.pick(data.transactions);
+    return { data: { ...data, transactions: data.transactions.filter(tx => tx.id !== removed.id) }, changedMonths: [getTransactionMonth(removed)] };
+  }
+  if (roll < 0.8) {
+    const budgets = [...data.budgets];
+    setMonthlyBudget(budgets, random.pick(data.envelopes).id, random.pick(MONTHS), random.int(0, 60) * 500);
+    return { data: { ...data, budgets }, changedMonths: [] };
+  }
+  if (roll < 0.9) {
+    const edited = random.pick(data.envelopes);
+    const envelopes = data.envelopes.map(envelope => envelope.id === edited.id ? { ...envelope, budgetAmount: random.int(0, 40) * 500 } : envelope);
+    return { data: { ...data, envelopes }, changedMonths: [] };
+  }
+  if (roll < 0.95) {
+    const envelope = createEnvelope(`env-${data.envelopes.length}`, random);
+    return { data: { ...data, envelopes: [...data.envelopes, envelope] }, changedMonths: [] };
+  }
+  const throughMonth = format(addMonths(parseISO(`${data.throughMonth}-01`), 1), "yyyy-MM");
+  return { data: { ...data, throughMonth }, changedMonths: [] };
+}
+
+describe("envelope ledger", () => {
+  it("matches the month-by-month balances on a large budget", () => {
+    const data = createBudgetData(createRandom(1));
+    const ledger = buildEnvelopeLedger(toInputs(data, summarizeTransactions(data.transactions, summaryContext)));
+    expect(findMismatches(ledger, data)).toEqual([]);
+  });
+
+  it("stays in step with the month-by-month balances through additions, edits and deletions", () => {
+    const random = createRandom(2);
+    let data = createBudgetData(random);
+    let inputs = toInputs(data, summarizeTransactions(data.transactions, summaryContext));
+    let ledger = buildEnvelopeLedger(inputs);
+
+    for (let step = 0; step < 80; step++) {
+      const change = changeBudget(data, random);
+      const nextInputs = toInputs(change.data, resummarize(inputs.summaries, change.data.transactions, change.changedMonths));
+      ledger = updateEnvelopeLedger(ledger, inputs, nextInputs);
+      data = change.data;
+      inputs = nextInputs;
+
+      expect(ledger, `after step ${step}`).toEqual(buildEnvelopeLedger(inputs));
+      // Checking every month the old way is slow, so it's done every few changes
+      if (step % 8 === 7) expect(findMismatches(ledger, data), `after step ${step}`).toEqual([]);
+    }
+  }, 60000);
+
+  it("keeps the entries of envelopes a change doesn't touch", () => {
+    const random = createRandom(3);
+    const data = createBudgetData(random);
+    const inputs = toInputs(data, summarizeTransactions(data.transactions, summaryContext));
+    const ledger = buildEnvelopeLedger(inputs);
+
+    const tx: Transaction = { ...createTransaction(random, data.envelopes), accountId: "checking", envelopeId: "env-3", date: "2024-05-10" };
+    delete tx.splits;
+    delete tx.isTransfer;
+    const next = { ...data, transactions: [...data.transactions, tx] };
+    const updated = updateEnvelopeLedger(ledger, inputs, toInputs(next, resummarize(inputs.summaries, next.transactions, ["2024-05"])));
+
+    data.envelopes.forEach(envelope => {
+      if (envelope.id === "env-3") expect(updated.get(envelope.id)).not.toBe(ledger.get(envelope.id));
+      else expect(updated.get(envelope.id)).toBe(ledger.get(envelope.id));
+    });
+    expect(findMismatches(updated, next)).toEqual([]);
+  });
+
+  it("converts spending at the account's current currency", () => {
+    const settings = { ...SETTINGS, exchangeRates: { EUR: 1.5 } };
+    const envelope = createEnvelope("env-eur", createRandom(4));
+    const tx: Transaction = {
+      id: "tx-eur", userId: "user", accountId: "travel", payeeId: "payee", amount: 10000, type: "outflow",
+      envelopeId: envelope.id, date: "2024-05-10", createdAt: "2024-05-10T00:00:00.000Z",
+    };
+    const inputs: EnvelopeLedgerInputs = {
+      envelopes: [envelope],
+      summaries: summarizeTransactions([tx], summaryContext),
+      budgets: [],
+      settings,
+      accountCurrencies: { travel: SETTINGS.ledgerCurrency },
+      throughMonth: "2024-06",
+    };
+    const ledger = buildEnvelopeLedger(inputs);
+    expect(getEnvelopeMonth(ledger, envelope.id, "2024-05")?.spent).toBe(10000);
+
+    // The stored summaries stay as they are; only the account changed
+    const changed = { ...inputs, accountCurrencies: { travel: "EUR" } };
+    const updated = updateEnvelopeLedger(ledger, inputs, changed);
+    expect(getEnvelopeMonth(updated, envelope.id, "2024-05")?.spent).toBe(15000);
+    expect(updated).toEqual(buildEnvelopeLedger(changed));
+  });
+});
@@ -0,0 +1,212 @@
+import { format, isValid, parseISO, startOfMonth } from "date-fns";
+import type { CurrencySettings, Envelope, EnvelopeMonthBalance, Money, MonthlyEnvelopeBudget, RateAmounts, TransactionMonthSummary } from "@/types";
+import { UNDATED_MONTH, rateAmountsToBase, type AccountCurrencies } from "@/lib/summaries";
+
+// What the ledger is worked out from. Unchanged inputs keep their identity between updates, which is how
+// updateEnvelopeLedger tells what changed.
+export interface EnvelopeLedgerInputs {
+  envelopes: Envelope[];
+  summaries: Map<string, TransactionMonthSummary>; // By month, "YYYY-MM"
+  budgets: MonthlyEnvelopeBudget[];
+  settings: CurrencySettings;
+  accountCurrencies: AccountCurrencies; // Compared by value, as it's built again whenever an account changes
+  throughMonth: string; // Every envelope's months run at least this far, usually the current month
+}
+
+// One envelope's months, consecutive from the first with activity or from its creation, whichever is earlier
+export interface EnvelopeLedgerEntry {
+  envelope: Envelope;
+  createdMonth: string; // Balances add up from here, as getEnvelopeBalanceAsOfEOM always did
+  months: EnvelopeMonthBalance[];
+}
+
+export type EnvelopeLedger = Map<string, EnvelopeLedgerEntry>;
+
+// Months as a count, so ranges can be walked and indexed without dates
+const toMonthNumber = (month: string) => Number(month.slice(0, 4)) * 12 + Number(month.slice(5, 7)) - 1;
+const fromMonthNumber = (value: number) => `${String(Math.floor(value / 12)).padStart(4, "0")}-${String(value % 12 + 1).padStart(2, "0")}`;
+
+function getCreatedMonth(envelope: Envelope): string | null {
+  const createdAt = parseISO(envelope.createdAt ?? "");
+  return isValid(createdAt) ? format(startOfMonth(createdAt), "yyyy-MM") : null;
+}
+
+// Explicit allocations by envelope and month; the first one stored wins, as in getMonthlyAllocation
+function indexBudgets(budgets: MonthlyEnvelopeBudget[]): Map<string, Money> {
+  const byKey = new Map<string, Money>();
+  budgets.forEach(budget => {
+    const key = `${budget.envelopeId}|${budget.month}`;
+    if (!byKey.has(key)) byKey.set(key, budget.allocatedAmount);
+  });
+  return byKey;
+}
+
+// Context shared by every envelope in one build or update
+interface LedgerScope {
+  inputs: EnvelopeLedgerInputs;
+  budgets: Map<string, number>;
+  months: string[]; // Dated months with a summary, oldest first
+}
+
+const createScope = (inputs: EnvelopeLedgerInputs): LedgerScope => ({
+  inputs,
+  budgets: indexBudgets(inputs.budgets),
+  months: Array.from(inputs.summaries.keys()).filter(month => month !== UNDATED_MONTH).sort(),
+});
+
+// Spending and inflows as the selectors count them: the envelope's own transactions plus, for a card's
+// payment envelope, the card activity that moves money into or out of it
+function getMonthActivity(envelope: Envelope, summary: TransactionMonthSummary | undefined, inputs: EnvelopeLedgerInputs) {
+  if (!summary) return { spent: 0, inflows: 0 };
+  const own = summary.envelopes[envelope.id];
+  const card = envelope.linkedAccountId ? summary.cardPayments[envelope.linkedAccountId] : undefined;
+  const toBase = (amounts: RateAmounts | undefined) => rateAmountsToBase(amounts, inputs.settings, inputs.accountCurrencies);
+  return {
+    spent: toBase(own?.spent) + toBase(card?.moneyOut),
+    inflows: toBase(own?.inflows) + toBase(card?.moneyIn),
+  };
+}
+
+const hasSameCurrencies = (a: AccountCurrencies, b: AccountCurrencies) =>
+  a === b || (Object.keys(a).length === Object.keys(b).length && Object.entries(a).every(([accountId, currency]) => b[accountId] === currency));
+
+function hasActivity(envelope: Envelope, summary: TransactionMonthSummary): boolean {
+  return !!summary.envelopes[envelope.id] || (!!envelope.linkedAccountId && !!summary.cardPayments[envelope.linkedAccountId]);
+}
+
+// Works out an envelope's months from `first` through `last`, keeping the already worked out months in
+// `kept`, which start at `first`, and carrying the closing balance forward from them
+function computeMonths(envelope: Envelope, createdMonth: string, first: string, last: string, kept: EnvelopeMonthBalance[], scope: LedgerScope) {
+  const months = [...kept];
+  let closingBalance = months.length > 0 ? months[months.length - 1].closingBalance : 0;
+  for (let value = toMonthNumber(first) + months.length; value <= toMonthNumber(last); value++) {
+    const month = fromMonthNumber(value);
+    const allocated = scope.budgets.get(`${envelope.id}|${month}`) ?? (envelope.budgetAmount || 0);
+    const { spent, inflows } = getMonthActivity(envelope, scope.inputs.summaries.get(month), scope.inputs);
+    if (month >= createdMonth) closingBalance += allocated + inflows - spent;
+    months.push({ month, allocated, spent, inflows, closingBalance: month >= createdMonth ? closingBalance : 0 });
+  }
+  return months;
+}
+
+// The months an envelope's entry has to cover
+function getEntryRange(envelope: Envelope, createdMonth: string, scope: LedgerScope): { first: string; last: string } {
+  let first = createdMonth;
+  let last = scope.inputs.throughMonth > createdMonth ? scope.inputs.throughMonth : createdMonth;
+  scope.months.forEach(month => {
+    if (!hasActivity(envelope, scope.inputs.summaries.get(month)!)) return;
+    if (month < first) first = month;
+    if (month > last) last = month;
+  });
+  scope.inputs.budgets.forEach(budget => {
+    if (budget.envelopeId === envelope.id && budget.month > last) last = budget.month;
+  });
+  return { first, last };
+}
+
+function buildEntry(envelope: Envelope, scope: LedgerScope): EnvelopeLedgerEntry | null {
+  const createdMonth = getCreatedMonth(envelope);
+  if (!createdMonth) return null;
+  const { first, last } = getEntryRange(envelope, createdMonth, scope);
+  return { envelope, createdMonth, months: computeMonths(envelope, createdMonth, first, last, [], scope) };
+}
+
+/** Works out every envelope's allocations, activity and closing balance month by month. */
+export function buildEnvelopeLedger(inputs: EnvelopeLedgerInputs): EnvelopeLedger {
+  const scope = createScope(inputs);
+  const ledger: EnvelopeLedger = new Map();
+  inputs.envelopes.forEach(envelope => {
+    const entry = buildEntry(envelope, scope);
+    if (entry) ledger.set(envelope.id, entry);
+  });
+  return ledger;
+}
+
+/**
+ * Brings a ledger up to date with new inputs, redoing only what changed: an envelope that was edited is
+ * rebuilt, and an envelope whose activity or allocation changed in some month is recomputed from that
+ * month on. Everything else is carried over as is.
+ */
+export function updateEnvelopeLedger(ledger: EnvelopeLedger, previous: EnvelopeLedgerInputs, next: EnvelopeLedgerInputs): EnvelopeLedger {
+  // Rates and account currencies apply to every amount
+  if (previous.settings !== next.settings || !hasSameCurrencies(previous.accountCurrencies, next.accountCurrencies)) return buildEnvelopeLedger(next);
+  const scope = createScope(next);
+
+  const changedFrom = new Map<string, string>(); // Earliest changed month, by envelope
+  const markChanged = (envelopeId: string, month: string) => {
+    const current = changedFrom.get(envelopeId);
+    if (!current || month < current) changedFrom.set(envelopeId, month);
+  };
+
+  const envelopeIdByCard = new Map(next.envelopes.filter(env => env.linkedAccountId).map(env => [env.linkedAccountId!, env.id]));
+  new Set([...Array.from(previous.summaries.keys()), ...Array.from(next.summaries.keys())]).forEach(month => {
+    const before = previous.summaries.get(month);
+    const after = next.summaries.get(month);
+    if (before === after) return;
+    // A changed summary is a new object, so its envelopes are compared by value
+    const differs = (pick: (summary: TransactionMonthSummary) => unknown) =>
+      JSON.stringify(before ? pick(before) : undefined) !== JSON.stringify(after ? pick(after) : undefined);
+    new Set([...Object.keys(before?.envelopes ?? {}), ...Object.keys(after?.envelopes ?? {})]).forEach(envelopeId => {
+      if (differs(summary => summary.envelopes[envelopeId])) markChanged(envelopeId, month);
+    });
+    new Set([...Object.keys(before?.cardPayments ?? {}), ...Object.keys(after?.cardPayments ?? {})]).forEach(accountId => {
+      const envelopeId = envelopeIdByCard.get(accountId);
+      if (envelopeId && differs(summary => summary.cardPayments[accountId])) markChanged(envelopeId, month);
+    });
+  });
+
+  const previousBudgets = new Map(previous.budgets.map(budget => [budget.id, budget]));
+  const nextBudgets = new Map(next.budgets.map(budget => [budget.id, budget]));
+  [...previous.budgets.filter(budget => nextBudgets.get(budget.id) !== budget),
+   ...next.budgets.filter(budget => previousBudgets.get(budget.id) !== budget)]
+    .forEach(budget => markChanged(budget.envelopeId, budget.month));
+
+  if (next.throughMonth > previous.throughMonth) {
+    next.envelopes.forEach(envelope => markChanged(envelope.id, previous.throughMonth));
+  }
+
+  const updated: EnvelopeLedger = new Map();
+  next.envelopes.forEach(envelope => {
+    const entry = ledger.get(envelope.id);
+    const fromMonth = changedFrom.get(envelope.id);
+    if (entry && entry.envelope === envelope) {
+      if (!fromMonth) {
+        updated.set(envelope.id, entry);
+        return;
+      }
+      // Activity before the first month covered moves the start, so only then does it start over
+      const { first, last } = getEntryRange(envelope, entry.createdMonth, scope);
+      if (first === entry.months[0]?.month) {
+        const kept = entry.months.slice(0, Math.max(0, toMonthNumber(fromMonth) - toMonthNumber(first)));
+        updated.set(envelope.id, { ...entry, months: computeMonths(envelope, entry.createdMonth, first, last, kept, scope) });
+        return;
+      }
+    }
+    // New and edited envelopes are worked out from scratch
+    const rebuilt = buildEntry(envelope, scope);
+    if (rebuilt) updated.set(envelope.id, rebuilt);
+  });
+  return updated;
+}
+
+/** One month of an envelope, or undefined outside the months its ledger covers. */
+export function getEnvelopeMonth(ledger: EnvelopeLedger, envelopeId: string, month: string): EnvelopeMonthBalance | undefined {
+  const entry = ledger.get(envelopeId);
+  if (!entry || entry.months.length === 0) return undefined;
+  return entry.months[toMonthNumber(month) - toMonthNumber(entry.months[0].month)];
+}
+
+/**
+ * An envelope's balance at the end of a month: every allocation and inflow since it was created, less its
+ * spending. Past the last month with activity, only the allocations are added.
+ */
+export function getEnvelopeClosingBalance(ledger: EnvelopeLedger, envelopeId: string, month: string): Money {
+  const entry = ledger.get(envelopeId);
+  if (!entry || entry.months.length === 0 || month < entry.createdMonth) return 0;
+  const found = getEnvelopeMonth(ledger, envelopeId, month);
+  if (found) return found.closingBalance;
+  const last = entry.months[entry.months.length - 1];
+  if (month < entry.months[0].month) return 0;
+  // Months after the ledger have no activity or explicit allocation, so they get the envelope's default
+  return last.closingBalance + (toMonthNumber(month) - toMonthNumber(last.month)) * (entry.envelope.budgetAmount || 0);
+}
@@ -1,7 +1,14 @@
 
 import { initializeApp, getApps, type FirebaseApp } from "firebase/app";
-import { getFirestore, connectFirestoreEmulator } from "firebase/firestore";
-import { getAuth } from "firebase/auth"; // Import getAuth
+import {
+  getFirestore,
+  initializeFirestore,
+  type Firestore,
+  connectFirestoreEmulator,
+  persistentLocalCache,
+  persistentMultipleTabManager,
+} from "firebase/firestore";
+import { getAuth, connectAuthEmulator, type Auth } from "firebase/auth"; // Import getAuth
 
 // Log all environment variables for debugging
 console.log('All environment variables available to firebase.ts:');
@@ -37,7 +44,7 @@ if (!firebaseConfig.apiKey) {
 }
 
 let app: FirebaseApp | undefined; // Allow app to be undefined initially
-let auth; // Declare auth
+let auth: Auth; // Declare auth; left unset when the app didn't initialize
 
 if (!getApps().length) {
   try {
@@ -59,20 +66,31 @@ if (!getApps().length) {
   }
 }
 
-let db;
+// Left unset when the app didn't initialize; callers check before use
+let db: Firestore;
 
 if (app) {
-  db = getFirestore(app);
+  // In the browser, data and unsent writes are kept in IndexedDB, so the app opens and saves changes
+  // without a connection and syncs once it's back. Every open tab shares the one cache.
+  try {
+    db = typeof window === 'undefined'
+      ? getFirestore(app)
+      : initializeFirestore(app, { localCache: persistentLocalCache({ tabManager: persistentMultipleTabManager() }) });
+  } catch (error) {
+    // Already initialized, e.g. after a hot reload
+    console.warn("[firebase.ts] Using the existing Firestore instance:", error);
+    db = getFirestore(app);
+  }
   auth = getAuth(app); // Initialize auth if app exists
-  // If you want to use the Firestore emulator during development, uncomment the following line:
-  // if (process.env.NODE_ENV === 'development' && process.env.NEXT_PUBLIC_USE_FIREBASE_EMULATOR === 'true') {
-  //   try {
-  //     connectFirestoreEmulator(db, 'localhost', 8080);
-  //     console.log("Firestore emulator connected");
-  //   } catch (error) {
-  //     console.error("Error connecting to Firestore emulator:", error);
-  //   }
-  // }
+  // Run `firebase emulators:start` and set NEXT_PUBLIC_USE_FIREBASE_EMULATOR=true to develop against the emulators
+  if (process.env.NEXT_PUBLIC_USE_FIREBASE_EMULATOR === 'true') {
+    try {
+      connectFirestoreEmulator(db, 'localhost', 8080);
+      connectAuthEmulator(auth, 'http://localhost:9099', { disableWarnings: true });
+    } catch (error) {
+      console.error("Error connecting to the Firebase emulators:", error);
+    }
+  }
 } else {
   console.error("[firebase.ts] CRITICAL: Firebase app instance is not available. Firestore cannot be initialized.");
   // db will remain undefined
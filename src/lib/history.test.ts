@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { buildHistoryEntries, findConflictingEntries, type HistorySource } from "@/lib/history";
+import type { HistoryEntry } from "@/types";
+
+const PHONE: HistorySource = { deviceId: "phone", deviceName: "Safari on iOS", sessionId: "phone-session" };
+const LAPTOP: HistorySource = { deviceId: "laptop", deviceName: "Chrome on macOS", sessionId: "laptop-session" };
+
+// Entries as stored, with ids, for one edit to a transaction in a shared budget
+const edit = (source: HistorySource, amount: number, createdAt: string): HistoryEntry => {
+  const [entry] = buildHistoryEntries("Edit transaction", [
+    { path: "budgets/family/transactions/cash-lunch", before: { amount: 1000 }, after: { amount } },
+  ], source, createdAt);
+  return { id: `${source.deviceId}-${createdAt}`, ...entry };
+};
+
+describe("buildHistoryEntries", () => {
+  it.each([
+    ["a personal budget", "users/alice/transactions/cash-lunch"],
+    ["a shared budget", "budgets/family/transactions/cash-lunch"],
+  ])("files changes in %s under their collection and id", (_, path) => {
+    const entries = buildHistoryEntries("Add transaction", [{ path, before: null, after: { amount: 1000 } }], PHONE, "2026-03-01T10:00:00.000Z", "change");
+    expect(entries).toEqual([{
+      changeId: "change", label: "Add transaction", collection: "transactions", documentId: "cash-lunch", action: "create",
+      before: null, after: { amount: 1000 }, createdAt: "2026-03-01T10:00:00.000Z", ...PHONE,
+    }]);
+  });
+
+  it("leaves out documents a change didn't touch, counting write timestamps as no change", () => {
+    const entries = buildHistoryEntries("Edit transaction", [
+      { path: "budgets/family/transactions/cash-lunch", before: { amount: 1000, updatedAt: "a" }, after: { amount: 1000, updatedAt: "b" } },
+      { path: "budgets/family/transactions/rent", before: { amount: 1000 }, after: null },
+    ], PHONE, "2026-03-01T10:00:00.000Z");
+    expect(entries.map(entry => [entry.documentId, entry.action])).toEqual([["rent", "delete"]]);
+  });
+});
+
+describe("findConflictingEntries", () => {
+  it("finds other devices' changes to a shared budget's document since going offline, oldest first", () => {
+    const later = edit(LAPTOP, 1300, "2026-03-01T11:00:00.000Z");
+    const earlier = edit(LAPTOP, 1200, "2026-03-01T10:00:00+01:00");
+    const entries = [
+      later,
+      edit(PHONE, 1500, "2026-03-01T10:30:00.000Z"),
+      edit(LAPTOP, 1100, "2026-03-01T08:00:00.000Z"),
+      earlier,
+    ];
+    expect(findConflictingEntries(entries, PHONE.sessionId, "2026-03-01T09:00:00.000Z")).toEqual([earlier, later]);
+  });
+});
@@ -0,0 +1,125 @@
+import type { HistoryAction, HistoryEntry } from "@/types";
+
+export interface HistorySource {
+  deviceId: string;
+  deviceName: string;
+  sessionId: string;
+}
+
+export interface HistoryFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+// A document's state before and after a change, null when it didn't exist
+export interface HistorySnapshot {
+  path: string;
+  before: Record<string, any> | null;
+  after: Record<string, any> | null;
+}
+
+const DEVICE_ID_STORAGE_KEY = 'allobudget.deviceId';
+// Bookkeeping fields that change on every write and say nothing about what the user changed
+const IGNORED_FIELDS = ['updatedAt', 'lastModified'];
+
+const randomId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto ? crypto.randomUUID() : Math.random().toString(36).slice(2);
+
+const sessionId = randomId();
+
+function describeDevice(userAgent: string): string {
+  const browser = /Edg\//.test(userAgent) ? "Edge"
+    : /Firefox\//.test(userAgent) ? "Firefox"
+    : /Chrome\//.test(userAgent) ? "Chrome"
+    : /Safari\//.test(userAgent) ? "Safari"
+    : "Browser";
+  const platform = /iPhone|iPad/.test(userAgent) ? "iOS"
+    : /Android/.test(userAgent) ? "Android"
+    : /Mac OS X/.test(userAgent) ? "macOS"
+    : /Windows/.test(userAgent) ? "Windows"
+    : /Linux/.test(userAgent) ? "Linux"
+    : "unknown platform";
+  return `${browser} on ${platform}`;
+}
+
+/** Identifies this browser (kept across visits) and this page load, for the history of changes made here. */
+export function getHistorySource(): HistorySource {
+  if (typeof window === 'undefined') return { deviceId: "server", deviceName: "Server", sessionId };
+  let deviceId = "unknown";
+  try {
+    deviceId = window.localStorage.getItem(DEVICE_ID_STORAGE_KEY) ?? "";
+    if (!deviceId) {
+      deviceId = randomId();
+      window.localStorage.setItem(DEVICE_ID_STORAGE_KEY, deviceId);
+    }
+  } catch {
+    // Storage can be unavailable in private windows; the session still tells changes apart
+  }
+  return { deviceId, deviceName: describeDevice(window.navigator.userAgent), sessionId };
+}
+
+// Firestore values: Timestamps compare with isEqual, maps and arrays by content
+function valuesEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') return false;
+  if ('isEqual' in a && typeof a.isEqual === 'function') return a.isEqual(b);
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return Array.from(keys).every(key => valuesEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+}
+
+/** The top-level fields that differ between two versions of a document, ignoring write timestamps. */
+export function diffDocuments(before: Record<string, any> | null, after: Record<string, any> | null): HistoryFieldChange[] {
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  return Array.from(fields)
+    .filter(field => !IGNORED_FIELDS.includes(field) && !valuesEqual(before?.[field], after?.[field]))
+    .sort()
+    .map(field => ({ field, before: before?.[field], after: after?.[field] }));
+}
+
+/**
+ * Builds the history entries for one user action, leaving out documents it didn't actually change.
+ * Paths are `users/{uid}/{collection}/{id}` or, in a shared budget, `budgets/{budgetId}/{collection}/{id}`;
+ * entries keep the last two segments, as the history sits in the same budget as the documents.
+ */
+export function buildHistoryEntries(
+  label: string,
+  snapshots: HistorySnapshot[],
+  source: HistorySource,
+  createdAt: string,
+  changeId: string = randomId(),
+): Omit<HistoryEntry, 'id'>[] {
+  return snapshots
+    .filter(({ before, after }) => (before === null) !== (after === null) || diffDocuments(before, after).length > 0)
+    .map(({ path, before, after }) => {
+      const segments = path.split('/');
+      const action: HistoryAction = before === null ? 'create' : after === null ? 'delete' : 'update';
+      return {
+        changeId, label, collection: segments[segments.length - 2], documentId: segments[segments.length - 1],
+        action, before, after, createdAt, ...source,
+      };
+    });
+}
+
+/** Short text for a stored value in the history view. */
+export function formatHistoryValue(value: unknown): string {
+  if (value === undefined || value === null) return "—";
+  if (typeof value === 'object' && 'toDate' in value && typeof value.toDate === 'function') {
+    return (value.toDate() as Date).toISOString();
+  }
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * The changes another session made to a document from `since` on. A change saved while offline was
+ * based on the copy this device had then, so these are the changes it was saved over.
+ */
+export function findConflictingEntries(entries: HistoryEntry[], sessionId: string, since: string): HistoryEntry[] {
+  // Times carry the offset of the device that wrote them, so they're compared as instants
+  const sinceTime = new Date(since).getTime();
+  return entries
+    .filter(entry => entry.sessionId !== sessionId && new Date(entry.createdAt).getTime() >= sinceTime)
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+}
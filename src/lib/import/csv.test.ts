@@ -0,0 +1,66 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { guessCsvColumnMapping, mapCsvRows, parseCsv } from "./csv";
+
+const readFixture = (name: string) => readFileSync(path.join(__dirname, "__fixtures__", name), "utf8");
+
+describe("CSV import", () => {
+  describe("with a signed amount column", () => {
+    const rows = parseCsv(readFixture("signed.csv"));
+    const mapping = guessCsvColumnMapping(rows);
+    const results = mapCsvRows(rows, mapping, "acc-1");
+    const drafts = results.map(result => result.draft);
+
+    it("parses quoted cells and strips the byte order mark", () => {
+      expect(rows[0]).toEqual(["Date", "Description", "Payee", "Amount"]);
+      expect(rows[1]).toEqual(["2025-03-01", "Groceries, weekly", "Market", "-54.20"]);
+    });
+
+    it("guesses the columns from the header", () => {
+      expect(mapping).toMatchObject({
+        hasHeaderRow: true, dateColumn: 0, dateFormat: "yyyy-MM-dd", amountMode: "signed",
+        amountColumn: 3, descriptionColumn: 1, payeeColumn: 2,
+      });
+    });
+
+    it("reads each sign convention, in cents", () => {
+      expect(drafts[0]).toMatchObject({ amount: 5420, type: "outflow", description: "Groceries, weekly", payeeName: "Market" });
+      expect(drafts[1]).toMatchObject({ amount: 123456, type: "inflow" });
+      expect(drafts[2]).toMatchObject({ amount: 1200, type: "outflow" }); // (12.00)
+      expect(drafts[3]).toMatchObject({ amount: 500, type: "outflow" }); // 5.00 DR
+      expect(drafts[4]).toMatchObject({ amount: 725, type: "inflow" }); // 7.25 CR
+    });
+
+    it("gives identical rows distinct ids by occurrence", () => {
+      expect(drafts[5]?.importId).toMatch(/^csv:[0-9a-f]{8}$/);
+      expect(drafts[6]?.importId).toBe(`${drafts[5]?.importId}:1`);
+    });
+
+    it("reports zero amounts and dates in another format, numbered by file line", () => {
+      expect(results[7]).toEqual({ rowNumber: 9, error: "Missing or zero amount." });
+      expect(results[8]).toEqual({ rowNumber: 10, error: 'Unreadable date "03/08/2025".' });
+    });
+  });
+
+  describe("with debit and credit columns", () => {
+    const rows = parseCsv(readFixture("debit-credit.csv"));
+    const mapping = guessCsvColumnMapping(rows);
+    const results = mapCsvRows(rows, { ...mapping, descriptionColumn: 1 }, "acc-1");
+
+    it("detects the delimiter, date format and amount columns", () => {
+      expect(rows[3]).toEqual(["3.4.2025", 'Boodschappen "AH"', "45,10", ""]);
+      expect(mapping).toMatchObject({ dateFormat: "d.M.yyyy", amountMode: "debitCredit", debitColumn: 2, creditColumn: 3 });
+    });
+
+    it("reads debits as outflows and credits as inflows, in European format", () => {
+      expect(results[0].draft).toMatchObject({ amount: 123456, type: "outflow", date: "2025-04-01", description: "Huur" });
+      expect(results[1].draft).toMatchObject({ amount: 250000, type: "inflow" });
+      expect(results[2].draft).toMatchObject({ amount: 4510, type: "outflow" });
+    });
+
+    it("reports rows with neither", () => {
+      expect(results[3]).toEqual({ rowNumber: 5, error: "Missing or zero amount." });
+    });
+  });
+});
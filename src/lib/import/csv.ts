@@ -0,0 +1,172 @@
+import { parse, isValid, format } from "date-fns";
+import type { CsvColumnMapping, CsvDateFormat, ImportRowResult } from "@/types";
+import { toMajorUnits } from "@/lib/money";
+import { parseImportAmount, stableImportHash, collapseWhitespace } from "./utils";
+
+export const csvDateFormatOptions: { value: CsvDateFormat; label: string }[] = [
+  { value: "yyyy-MM-dd", label: "YYYY-MM-DD" },
+  { value: "M/d/yyyy", label: "MM/DD/YYYY" },
+  { value: "d/M/yyyy", label: "DD/MM/YYYY" },
+  { value: "d.M.yyyy", label: "DD.MM.YYYY" },
+];
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] || "";
+  const candidates = [",", ";", "\t"];
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  , ",");
+}
+
+/**
+ * Parses CSV text into rows of cells. Handles quoted cells, escaped quotes ("")
+ * and line breaks inside quotes. Blank lines are dropped.
+ */
+export function parseCsv(text: string, delimiter?: string): string[][] {
+  const sep = delimiter || detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  const input = text.replace(/^\uFEFF/, ""); // Strip a UTF-8 BOM if present
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === sep) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows
+    .map(r => r.map(c => c.trim()))
+    .filter(r => r.some(c => c !== ""));
+}
+
+export function parseCsvDate(raw: string | undefined, dateFormat: CsvDateFormat): string | null {
+  if (!raw) return null;
+  const parsed = parse(raw.trim(), dateFormat, new Date());
+  return isValid(parsed) ? format(parsed, "yyyy-MM-dd") : null;
+}
+
+/**
+ * Makes a best guess at the column mapping from the header row, so the common
+ * "Date, Description, Amount" layouts need no manual mapping.
+ */
+export function guessCsvColumnMapping(rows: string[][]): CsvColumnMapping {
+  const header = (rows[0] || []).map(h => h.toLowerCase());
+  const find = (...names: string[]) => header.findIndex(h => names.some(n => h.includes(n)));
+
+  const dateColumn = find("date", "posted");
+  const debitColumn = find("debit", "withdrawal", "paid out");
+  const creditColumn = find("credit", "deposit", "paid in");
+  const amountColumn = find("amount", "value");
+  const hasHeaderRow = dateColumn !== -1 || amountColumn !== -1 || debitColumn !== -1;
+
+  const sampleDate = rows[hasHeaderRow ? 1 : 0]?.[dateColumn === -1 ? 0 : dateColumn] || "";
+  const dateFormat: CsvDateFormat = /^\d{4}-\d{1,2}-\d{1,2}$/.test(sampleDate)
+    ? "yyyy-MM-dd"
+    : /^\d{1,2}\.\d{1,2}\.\d{4}$/.test(sampleDate) ? "d.M.yyyy" : "M/d/yyyy";
+
+  return {
+    hasHeaderRow,
+    dateColumn: dateColumn === -1 ? 0 : dateColumn,
+    dateFormat,
+    amountMode: amountColumn === -1 && debitColumn !== -1 && creditColumn !== -1 ? "debitCredit" : "signed",
+    amountColumn: amountColumn === -1 ? Math.max(0, header.length - 1) : amountColumn,
+    debitColumn,
+    creditColumn,
+    descriptionColumn: find("description", "memo", "details", "narrative"),
+    payeeColumn: find("payee", "merchant", "name"),
+  };
+}
+
+/**
+ * Turns parsed CSV rows into transaction drafts for the given account using the
+ * column mapping. Rows that can't be read are returned with an error instead of a draft.
+ */
+export function mapCsvRows(rows: string[][], mapping: CsvColumnMapping, accountId: string): ImportRowResult[] {
+  const dataRows = mapping.hasHeaderRow ? rows.slice(1) : rows;
+  const firstRowNumber = mapping.hasHeaderRow ? 2 : 1;
+  const seenHashes = new Map<string, number>();
+
+  return dataRows.map((row, index): ImportRowResult => {
+    const rowNumber = firstRowNumber + index;
+    const cellAt = (column: number) => (column >= 0 ? row[column] : undefined);
+
+    const date = parseCsvDate(cellAt(mapping.dateColumn), mapping.dateFormat);
+    if (!date) {
+      return { rowNumber, error: `Unreadable date "${cellAt(mapping.dateColumn) ?? ""}".` };
+    }
+
+    let signedAmount: number | null;
+    if (mapping.amountMode === "signed") {
+      signedAmount = parseImportAmount(cellAt(mapping.amountColumn));
+    } else {
+      const debit = parseImportAmount(cellAt(mapping.debitColumn));
+      const credit = parseImportAmount(cellAt(mapping.creditColumn));
+      signedAmount = debit === null && credit === null
+        ? null
+        : (credit ?? 0) - Math.abs(debit ?? 0);
+    }
+    if (signedAmount === null || signedAmount === 0) {
+      return { rowNumber, error: "Missing or zero amount." };
+    }
+
+    const description = collapseWhitespace(cellAt(mapping.descriptionColumn));
+    const payeeName = collapseWhitespace(cellAt(mapping.payeeColumn)) || description;
+    const amount = Math.abs(signedAmount);
+    const type = signedAmount < 0 ? "outflow" : "inflow";
+
+    // Identical rows (two equal coffees on one day) get distinct ids by occurrence. The amount is hashed
+    // in whole units, as before amounts were kept in cents, so files imported then are still recognized.
+    const hash = stableImportHash([accountId, date, toMajorUnits(signedAmount), description, payeeName]);
+    const occurrence = seenHashes.get(hash) ?? 0;
+    seenHashes.set(hash, occurrence + 1);
+
+    return {
+      rowNumber,
+      draft: {
+        accountId,
+        envelopeId: null,
+        payeeId: "",
+        payeeName,
+        amount,
+        type,
+        description: description || undefined,
+        date,
+        isTransfer: false,
+        isActualIncome: false,
+        importId: occurrence === 0 ? `csv:${hash}` : `csv:${hash}:${occurrence}`,
+      },
+    };
+  });
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { findDuplicateTransaction } from "./duplicates";
+import type { Transaction, TransactionImportDraft } from "@/types";
+
+const transaction = (overrides: Partial<Transaction>): Transaction => ({
+  id: "tx", userId: "user", accountId: "acc-1", payeeId: "payee", amount: 4217, type: "outflow",
+  date: "2025-01-03T12:00:00.000Z", createdAt: "2025-01-03T12:00:00.000Z", ...overrides,
+});
+
+const draft = (overrides: Partial<TransactionImportDraft>): TransactionImportDraft => ({
+  accountId: "acc-1", envelopeId: null, payeeId: "", payeeName: "Trader Joe's", amount: 4217, type: "outflow",
+  date: "2025-01-03", isTransfer: false, isActualIncome: false, ...overrides,
+});
+
+describe("findDuplicateTransaction", () => {
+  it("finds a transaction imported earlier by its import id, whatever else changed", () => {
+    const imported = transaction({ id: "imported", importId: "ofx:acc-1:1", amount: 999, date: "2025-02-01" });
+    expect(findDuplicateTransaction(draft({ importId: "ofx:acc-1:1" }), [transaction({ id: "other", accountId: "acc-2" }), imported])).toBe(imported);
+  });
+
+  it("finds one on the same account and day with the same amount and direction", () => {
+    const existing = transaction({ id: "typed" });
+    expect(findDuplicateTransaction(draft({ importId: "ofx:acc-1:2" }), [existing])).toBe(existing);
+  });
+
+  it("ignores other accounts, days, amounts and directions", () => {
+    const others = [
+      transaction({ accountId: "acc-2" }),
+      transaction({ date: "2025-01-04T12:00:00.000Z" }),
+      transaction({ amount: 4218 }),
+      transaction({ type: "inflow" }),
+    ];
+    expect(findDuplicateTransaction(draft({}), others)).toBeUndefined();
+  });
+
+  it("doesn't match drafts without a readable date", () => {
+    expect(findDuplicateTransaction(draft({ date: "not a date" }), [transaction({ date: "not a date" })])).toBeUndefined();
+  });
+});
@@ -0,0 +1,30 @@
+import { parseISO, isValid, format } from "date-fns";
+import type { Transaction, TransactionImportDraft } from "@/types";
+
+function dayKey(date: string): string | null {
+  const parsed = parseISO(date);
+  return isValid(parsed) ? format(parsed, "yyyy-MM-dd") : null;
+}
+
+/**
+ * Finds an existing transaction that the draft most likely duplicates: either one
+ * imported earlier with the same import id, or one on the same account and day with
+ * the same amount and direction.
+ */
+export function findDuplicateTransaction(
+  draft: TransactionImportDraft,
+  transactions: Transaction[]
+): Transaction | undefined {
+  if (draft.importId) {
+    const sameImport = transactions.find(tx => tx.importId === draft.importId);
+    if (sameImport) return sameImport;
+  }
+  const draftDay = dayKey(draft.date);
+  if (!draftDay) return undefined;
+  return transactions.find(tx =>
+    tx.accountId === draft.accountId &&
+    tx.type === draft.type &&
+    tx.amount === draft.amount &&
+    dayKey(tx.date) === draftDay
+  );
+}
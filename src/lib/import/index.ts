@@ -0,0 +1,36 @@
+import type { ImportRowResult } from "@/types";
+import { looksLikeOfx, parseOfx } from "./ofx";
+import { looksLikeQif, parseQif, type QifDateOrder } from "./qif";
+
+export type StatementFileFormat = 'csv' | 'ofx' | 'qif';
+
+export const statementFileAccept = ".csv,.ofx,.qfx,.qif,text/csv";
+
+/**
+ * Works out the format of a statement file from its extension, falling back to
+ * sniffing the contents. QFX is Quicken-branded OFX and is handled as OFX.
+ */
+export function detectStatementFormat(fileName: string, text: string): StatementFileFormat | null {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+  if (extension === "ofx" || extension === "qfx") return "ofx";
+  if (extension === "qif") return "qif";
+  if (extension === "csv") return "csv";
+  if (looksLikeOfx(text)) return "ofx";
+  if (looksLikeQif(text)) return "qif";
+  return null;
+}
+
+/**
+ * Parses an OFX, QFX or QIF statement into drafts for the given account.
+ * CSV needs a column mapping first and is handled by the CSV helpers instead.
+ */
+export function parseStatementFile(
+  fileFormat: Exclude<StatementFileFormat, 'csv'>,
+  text: string,
+  accountId: string,
+  options: { qifDateOrder?: QifDateOrder } = {}
+): ImportRowResult[] {
+  return fileFormat === "ofx"
+    ? parseOfx(text, accountId)
+    : parseQif(text, accountId, options.qifDateOrder);
+}
@@ -0,0 +1,54 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { looksLikeOfx, parseOfx } from "./ofx";
+
+const readFixture = (name: string) => readFileSync(path.join(__dirname, "__fixtures__", name), "utf8");
+
+describe("parseOfx", () => {
+  const checking = parseOfx(readFixture("checking.ofx"), "acc-1");
+  const card = parseOfx(readFixture("card.qfx"), "acc-card");
+
+  it("recognizes SGML and XML statements", () => {
+    expect(looksLikeOfx(readFixture("checking.ofx"))).toBe(true);
+    expect(looksLikeOfx(readFixture("card.qfx"))).toBe(true);
+    expect(looksLikeOfx(readFixture("register.qif"))).toBe(false);
+  });
+
+  it("reads negative amounts as outflows and positive ones as inflows, in cents", () => {
+    expect(checking[0].draft).toMatchObject({ amount: 4217, type: "outflow", date: "2025-01-03" });
+    expect(checking[1].draft).toMatchObject({ amount: 250000, type: "inflow", date: "2025-01-05" });
+    expect(checking[2].draft).toMatchObject({ amount: 120000, type: "outflow" });
+    expect(card[0].draft).toMatchObject({ amount: 6499, type: "outflow" });
+    expect(card[1].draft).toMatchObject({ amount: 50000, type: "inflow", date: "2025-02-15" });
+    expect(card[2].draft).toMatchObject({ amount: 1234, type: "inflow" });
+  });
+
+  it("takes names from NAME or the PAYEE aggregate, decoding entities", () => {
+    expect(checking[0].draft).toMatchObject({ payeeName: "TRADER JOE'S #552", description: "POS PURCHASE" });
+    expect(checking[3].draft).toMatchObject({ payeeName: "BEN & JERRY'S", description: "BEN & JERRY'S" });
+    expect(card[0].draft).toMatchObject({ payeeName: "Online Bookstore" });
+    expect(card[2].draft).toMatchObject({ description: "Refund for order" });
+  });
+
+  it("describes a check without a name by its number", () => {
+    expect(checking[2].draft).toMatchObject({ payeeName: "", description: "Check #1042" });
+  });
+
+  it("builds import ids from the account and FITID", () => {
+    expect(checking[0].draft?.importId).toBe("ofx:acc-1:2025010301");
+    expect(card[0].draft?.importId).toBe("ofx:acc-card:CC-0001");
+  });
+
+  it("gives a transaction listed twice one id, and a reused FITID a new one", () => {
+    expect(checking[3].draft?.importId).toBe("ofx:acc-1:2025011201");
+    expect(checking[4].draft?.importId).toBe("ofx:acc-1:2025011201");
+    expect(checking[5].draft).toMatchObject({ payeeName: "CITY PARKING", importId: "ofx:acc-1:2025011201:1" });
+  });
+
+  it("reports records without an amount or a date", () => {
+    expect(checking).toHaveLength(8);
+    expect(checking[6]).toEqual({ rowNumber: 7, error: "Missing or zero amount." });
+    expect(checking[7]).toEqual({ rowNumber: 8, error: "Missing or unreadable posted date." });
+  });
+});
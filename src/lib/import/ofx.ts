@@ -0,0 +1,93 @@
+import { parse, isValid, format } from "date-fns";
+import type { ImportRowResult } from "@/types";
+import { parseImportAmount, collapseWhitespace } from "./utils";
+
+const ENTITIES: Record<string, string> = { "&amp;": "&", "&lt;": "<", "&gt;": ">", "&quot;": '"', "&apos;": "'", "&nbsp;": " " };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(amp|lt|gt|quot|apos|nbsp);/g, match => ENTITIES[match] ?? match);
+}
+
+/**
+ * Reads a leaf element's value. Works for both SGML-style OFX 1.x, where leaf
+ * elements aren't closed (`<TRNAMT>-12.00`), and XML-style OFX 2.x.
+ */
+function readTag(block: string, tag: string): string | undefined {
+  const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, "i").exec(block);
+  if (!match) return undefined;
+  const value = decodeEntities(match[1]).trim();
+  return value === "" ? undefined : value;
+}
+
+function readAggregate(block: string, tag: string): string | undefined {
+  const match = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, "i").exec(block);
+  return match ? match[1] : undefined;
+}
+
+// OFX dates look like 20250105, 20250105120000 or 20250105120000.000[-5:EST]
+function parseOfxDate(raw: string | undefined): string | null {
+  if (!raw || !/^\d{8}/.test(raw)) return null;
+  const parsed = parse(raw.slice(0, 8), "yyyyMMdd", new Date());
+  return isValid(parsed) ? format(parsed, "yyyy-MM-dd") : null;
+}
+
+export function looksLikeOfx(text: string): boolean {
+  return /OFXHEADER|<OFX>/i.test(text.slice(0, 2000));
+}
+
+/**
+ * Parses the STMTTRN records of an OFX or QFX file (bank or credit card statements)
+ * into transaction drafts for the given account. FITID becomes the import id so the
+ * same statement can be imported again without creating duplicates.
+ *
+ * A record repeated with the same FITID, date and amount keeps the one id, so it's only
+ * imported once. Some banks reuse a FITID for a different transaction in the same file;
+ * those get the occurrence appended, like the CSV and QIF ids.
+ */
+export function parseOfx(text: string, accountId: string): ImportRowResult[] {
+  const blocks = text.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) || [];
+  const seenFitIds = new Map<string, string[]>(); // Date and amount of each transaction given the FITID
+
+  return blocks.map((block, index): ImportRowResult => {
+    const rowNumber = index + 1;
+    const date = parseOfxDate(readTag(block, "DTPOSTED") || readTag(block, "DTUSER"));
+    if (!date) return { rowNumber, error: "Missing or unreadable posted date." };
+
+    const signedAmount = parseImportAmount(readTag(block, "TRNAMT"));
+    if (signedAmount === null || signedAmount === 0) return { rowNumber, error: "Missing or zero amount." };
+
+    const payeeAggregate = readAggregate(block, "PAYEE");
+    const name = collapseWhitespace(readTag(block, "NAME") || (payeeAggregate && readTag(payeeAggregate, "NAME")));
+    const memo = collapseWhitespace(readTag(block, "MEMO"));
+    const checkNumber = readTag(block, "CHECKNUM");
+    const fitId = readTag(block, "FITID");
+
+    const description = memo || name || (checkNumber ? `Check #${checkNumber}` : "");
+
+    let importId: string | undefined;
+    if (fitId) {
+      const seen = seenFitIds.get(fitId) ?? [];
+      let occurrence = seen.indexOf(`${date}|${signedAmount}`);
+      if (occurrence === -1) occurrence = seen.push(`${date}|${signedAmount}`) - 1;
+      seenFitIds.set(fitId, seen);
+      importId = occurrence === 0 ? `ofx:${accountId}:${fitId}` : `ofx:${accountId}:${fitId}:${occurrence}`;
+    }
+
+    return {
+      rowNumber,
+      draft: {
+        accountId,
+        envelopeId: null,
+        payeeId: "",
+        payeeName: name || memo,
+        amount: Math.abs(signedAmount),
+        type: signedAmount < 0 ? "outflow" : "inflow",
+        description: description || undefined,
+        date,
+        isTransfer: false,
+        isActualIncome: false,
+        importId,
+      },
+    };
+  });
+}
@@ -0,0 +1,65 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { looksLikeQif, parseQif } from "./qif";
+
+const readFixture = (name: string) => readFileSync(path.join(__dirname, "__fixtures__", name), "utf8");
+
+describe("parseQif", () => {
+  const results = parseQif(readFixture("register.qif"), "acc-1");
+  const drafts = results.map(result => result.draft);
+
+  it("recognizes QIF files", () => {
+    expect(looksLikeQif(readFixture("register.qif"))).toBe(true);
+    expect(looksLikeQif(readFixture("signed.csv"))).toBe(false);
+  });
+
+  it("skips category and account lists", () => {
+    expect(results).toHaveLength(10);
+    expect(drafts.map(draft => draft?.payeeName)).not.toContain("Groceries");
+    expect(drafts.map(draft => draft?.payeeName)).not.toContain("Savings");
+  });
+
+  it("reads apostrophe, four-digit and two-digit years", () => {
+    expect(drafts[0]?.date).toBe("2025-01-03");
+    expect(drafts[1]?.date).toBe("2025-01-05");
+    expect(drafts[2]?.date).toBe("2025-01-09");
+  });
+
+  it("reads day-first dates when asked", () => {
+    const dayFirst = parseQif("!Type:Bank\nD05/01/2025\nT-1.00\nPTest\n^\n", "acc-1", "DMY");
+    expect(dayFirst[0].draft?.date).toBe("2025-01-05");
+  });
+
+  it("reads signs and thousands separators, in cents", () => {
+    expect(drafts[0]).toMatchObject({ amount: 4217, type: "outflow", payeeName: "Trader Joe's", description: "Weekly shop" });
+    expect(drafts[1]).toMatchObject({ amount: 250000, type: "inflow" });
+    expect(drafts[2]).toMatchObject({ amount: 120000, type: "outflow", description: "Check #1042" });
+  });
+
+  it("keeps a split record's total", () => {
+    expect(drafts[6]).toMatchObject({ amount: 10000, type: "outflow", payeeName: "Costco" });
+  });
+
+  it("gives identical records distinct ids by occurrence", () => {
+    const [first, second, third] = [drafts[3]!.importId!, drafts[4]!.importId!, drafts[5]!.importId!];
+    expect(first).toMatch(/^qif:[0-9a-f]{8}$/);
+    expect(second).toBe(`${first}:1`);
+    expect(third).toBe(`${first}:2`);
+  });
+
+  it("gives the same record the same id on every import", () => {
+    const again = parseQif(readFixture("register.qif"), "acc-1");
+    expect(again.map(result => result.draft?.importId)).toEqual(drafts.map(draft => draft?.importId));
+    expect(parseQif(readFixture("register.qif"), "acc-2")[0].draft?.importId).not.toBe(drafts[0]?.importId);
+  });
+
+  it("reports unreadable dates and zero amounts", () => {
+    expect(results[7]).toEqual({ rowNumber: 8, error: 'Unreadable date "13/40/2025".' });
+    expect(results[8]).toEqual({ rowNumber: 9, error: "Missing or zero amount." });
+  });
+
+  it("picks up transactions again after an account list", () => {
+    expect(drafts[9]).toMatchObject({ amount: 5000, type: "inflow", payeeName: "Interest", date: "2025-01-25" });
+  });
+});
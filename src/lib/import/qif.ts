@@ -0,0 +1,119 @@
+import { parse, isValid, format } from "date-fns";
+import type { ImportRowResult } from "@/types";
+import { toMajorUnits } from "@/lib/money";
+import { parseImportAmount, stableImportHash, collapseWhitespace } from "./utils";
+
+export type QifDateOrder = 'MDY' | 'DMY';
+
+// Only register-style sections hold transactions; lists (!Type:Cat, !Account, ...) and investments are skipped.
+const TRANSACTION_SECTIONS = ["bank", "ccard", "cash", "oth a", "oth l"];
+
+/**
+ * Parses QIF dates such as 1/5/2025, 01/05/25, 1/5'25 (Quicken's apostrophe for
+ * years 2000+) or 1-5-2025.
+ */
+function parseQifDate(raw: string, dateOrder: QifDateOrder): string | null {
+  const hasApostrophe = raw.includes("'");
+  const parts = raw.trim().replace(/'/g, "/").split(/[/\-.]/).map(p => p.trim());
+  if (parts.length !== 3) return null;
+  const [first, second, yearPart] = parts;
+  let year = Number(yearPart);
+  if (yearPart.length <= 2) {
+    year += hasApostrophe || year < 70 ? 2000 : 1900;
+  }
+  const month = dateOrder === 'MDY' ? first : second;
+  const day = dateOrder === 'MDY' ? second : first;
+  const parsed = parse(`${year}-${month}-${day}`, "yyyy-M-d", new Date());
+  return isValid(parsed) ? format(parsed, "yyyy-MM-dd") : null;
+}
+
+export function looksLikeQif(text: string): boolean {
+  return /^\s*!(Type|Account|Option)/i.test(text);
+}
+
+/**
+ * Parses the transaction records of a QIF file into drafts for the given account.
+ * QIF has no transaction ids, so a hash of the record's fields is used to spot
+ * re-imports.
+ */
+export function parseQif(text: string, accountId: string, dateOrder: QifDateOrder = 'MDY'): ImportRowResult[] {
+  const results: ImportRowResult[] = [];
+  const seenHashes = new Map<string, number>();
+  let inTransactionSection = true;
+  let fields: Record<string, string> = {};
+  let recordNumber = 0;
+
+  const finishRecord = () => {
+    if (Object.keys(fields).length === 0) return;
+    recordNumber++;
+    const rowNumber = recordNumber;
+    const record = fields;
+    fields = {};
+
+    const date = record.D ? parseQifDate(record.D, dateOrder) : null;
+    if (!date) {
+      results.push({ rowNumber, error: `Unreadable date "${record.D ?? ""}".` });
+      return;
+    }
+    const signedAmount = parseImportAmount(record.T ?? record.U);
+    if (signedAmount === null || signedAmount === 0) {
+      results.push({ rowNumber, error: "Missing or zero amount." });
+      return;
+    }
+
+    const payeeName = collapseWhitespace(record.P);
+    const memo = collapseWhitespace(record.M);
+    const checkNumber = collapseWhitespace(record.N);
+
+    // Hashed in whole units, like the CSV importer's ids
+    const hash = stableImportHash([accountId, date, toMajorUnits(signedAmount), payeeName, memo, checkNumber]);
+    const occurrence = seenHashes.get(hash) ?? 0;
+    seenHashes.set(hash, occurrence + 1);
+
+    results.push({
+      rowNumber,
+      draft: {
+        accountId,
+        envelopeId: null,
+        payeeId: "",
+        payeeName: payeeName || memo,
+        amount: Math.abs(signedAmount),
+        type: signedAmount < 0 ? "outflow" : "inflow",
+        description: memo || (/^\d+$/.test(checkNumber) ? `Check #${checkNumber}` : undefined),
+        date,
+        isTransfer: false,
+        isActualIncome: false,
+        importId: occurrence === 0 ? `qif:${hash}` : `qif:${hash}:${occurrence}`,
+      },
+    });
+  };
+
+  for (const rawLine of text.replace(/^\uFEFF/, "").split(/\r?\n/)) {
+    const line = rawLine.trimEnd();
+    if (line.trim() === "") continue;
+
+    if (line.startsWith("!")) {
+      finishRecord();
+      const header = line.slice(1).toLowerCase();
+      if (header.startsWith("type:")) {
+        inTransactionSection = TRANSACTION_SECTIONS.includes(header.slice(5).trim());
+      } else if (header.startsWith("account")) {
+        inTransactionSection = false; // Account list until the next !Type header
+      }
+      continue;
+    }
+    if (!inTransactionSection) continue;
+
+    if (line.startsWith("^")) {
+      finishRecord();
+      continue;
+    }
+    const code = line[0];
+    // Split lines (S, E, $) are not imported; the record's total amount is kept.
+    if (code === "S" || code === "E" || code === "$") continue;
+    if (!(code in fields)) fields[code] = line.slice(1);
+  }
+  finishRecord();
+
+  return results;
+}
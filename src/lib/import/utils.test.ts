@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { parseImportAmount, stableImportHash } from "./utils";
+
+describe("parseImportAmount", () => {
+  it.each([
+    ["1,234.56", 123456],
+    ["-$12.00", -1200],
+    ["+20", 2000],
+    ["(45.10)", -4510],
+    ["12.50 CR", 1250],
+    ["12.50 DR", -1250],
+    ["12.50-", -1250],
+    ["1.234,56", 123456],
+    ["€ 9,99", 999],
+    ["0.1", 10],
+    ["0.015", 2],
+  ])("reads %s", (raw, expected) => {
+    expect(parseImportAmount(raw)).toBe(expected);
+  });
+
+  it.each([undefined, null, "", "  ", "abc", "$"])("has no amount in %s", raw => {
+    expect(parseImportAmount(raw)).toBeNull();
+  });
+});
+
+describe("stableImportHash", () => {
+  it("ignores case and surrounding space", () => {
+    expect(stableImportHash(["acc", "2025-01-01", 12.5, " Coffee "])).toBe(stableImportHash(["acc", "2025-01-01", 12.5, "coffee"]));
+    expect(stableImportHash(["acc", "2025-01-01", 12.5])).not.toBe(stableImportHash(["acc", "2025-01-02", 12.5]));
+  });
+});
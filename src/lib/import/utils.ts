@@ -0,0 +1,63 @@
+// Shared helpers for the bank file importers. Everything here is pure so it can run
+// outside React and be exercised against sample files.
+
+import type { Money } from "@/types";
+import { toMoney } from "@/lib/money";
+
+/**
+ * Parses a bank-formatted amount such as "1,234.56", "-$12.00", "(45.10)" or "12.50 CR", in minor units.
+ * Returns null when the text holds no usable number.
+ */
+export function parseImportAmount(raw: string | undefined | null): Money | null {
+  if (raw === undefined || raw === null) return null;
+  let text = raw.trim();
+  if (text === "") return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (/\s*(DR|-)$/i.test(text)) {
+    negative = true;
+    text = text.replace(/\s*(DR|-)$/i, "");
+  }
+  text = text.replace(/\s*CR$/i, "");
+  if (text.startsWith("-")) {
+    negative = !negative;
+    text = text.slice(1);
+  } else if (text.startsWith("+")) {
+    text = text.slice(1);
+  }
+
+  // Drop currency symbols, spaces and thousands separators.
+  text = text.replace(/[^\d.,]/g, "");
+  // Treat "1.234,56" as a European-formatted amount.
+  if (/^\d{1,3}(\.\d{3})*,\d{1,2}$/.test(text)) {
+    text = text.replace(/\./g, "").replace(",", ".");
+  } else {
+    text = text.replace(/,/g, "");
+  }
+  if (text === "" || isNaN(Number(text))) return null;
+
+  const value = toMoney(Number(text));
+  return negative ? -value : value;
+}
+
+/**
+ * Small, stable, non-cryptographic hash (FNV-1a) used to give imported rows an id
+ * when the file format doesn't provide one.
+ */
+export function stableImportHash(parts: (string | number | undefined)[]): string {
+  const input = parts.map(p => (p === undefined ? "" : String(p).trim().toLowerCase())).join("|");
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+export function collapseWhitespace(text: string | undefined): string {
+  return (text || "").replace(/\s+/g, " ").trim();
+}
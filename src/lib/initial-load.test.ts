@@ -0,0 +1,72 @@
+import { describe, expect, it, vi } from "vitest";
+import { describeMoneyMigrationError, finishInitialLoad, type InitialLoadSteps } from "@/lib/initial-load";
+
+// Shaped like the errors Firestore rejects with
+const firestoreError = (code: string, message: string) => Object.assign(new Error(message), { code });
+
+function createSteps(overrides: Partial<InitialLoadSteps> = {}) {
+  return {
+    isMigrated: false,
+    migrateAmounts: vi.fn(async () => {}),
+    canEdit: () => true,
+    healCategories: vi.fn(async () => {}),
+    hasSummaries: false,
+    rebuildSummaries: vi.fn(async () => true),
+    onMigrationFailed: vi.fn(),
+    onLoaded: vi.fn(),
+    onWindowReady: vi.fn(),
+    ...overrides,
+  } satisfies InitialLoadSteps;
+}
+
+describe("finishInitialLoad", () => {
+  it("converts the amounts, then saves and rebuilds what it needs to", async () => {
+    const steps = createSteps();
+    await finishInitialLoad(steps);
+    expect(steps.migrateAmounts).toHaveBeenCalledOnce();
+    expect(steps.healCategories).toHaveBeenCalledWith(true);
+    expect(steps.rebuildSummaries).toHaveBeenCalledOnce();
+    expect(steps.onLoaded).toHaveBeenCalledOnce();
+    expect(steps.onWindowReady).toHaveBeenCalledWith(true);
+    expect(steps.onMigrationFailed).not.toHaveBeenCalled();
+  });
+
+  it("skips the migration once it's done", async () => {
+    const steps = createSteps({ isMigrated: true, hasSummaries: true });
+    await finishInitialLoad(steps);
+    expect(steps.migrateAmounts).not.toHaveBeenCalled();
+    expect(steps.rebuildSummaries).not.toHaveBeenCalled();
+    expect(steps.onWindowReady).toHaveBeenCalledWith(true);
+  });
+
+  it.each([
+    ["offline", firestoreError("unavailable", "Failed to get documents from server.")],
+    ["refused", firestoreError("permission-denied", "Missing or insufficient permissions.")],
+    ["broken", new Error("Bad document")],
+  ])("still finishes loading, read-only, when the migration is %s", async (_, error) => {
+    const steps = createSteps({ migrateAmounts: vi.fn(async () => { throw error; }) });
+    await finishInitialLoad(steps);
+    expect(steps.onMigrationFailed).toHaveBeenCalledWith(describeMoneyMigrationError(error));
+    expect(steps.onLoaded).toHaveBeenCalledOnce();
+    // Nothing is saved or rebuilt from amounts in the old units
+    expect(steps.healCategories).toHaveBeenCalledWith(false);
+    expect(steps.rebuildSummaries).not.toHaveBeenCalled();
+    expect(steps.onWindowReady).toHaveBeenCalledWith(false);
+  });
+
+  it("finishes loading when the categories can't be saved", async () => {
+    const steps = createSteps({ isMigrated: true, healCategories: vi.fn(async () => { throw new Error("Write failed"); }) });
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    await finishInitialLoad(steps);
+    expect(steps.onLoaded).toHaveBeenCalledOnce();
+    expect(steps.onWindowReady).toHaveBeenCalledWith(true);
+  });
+});
+
+describe("describeMoneyMigrationError", () => {
+  it("says what the user can do about it", () => {
+    expect(describeMoneyMigrationError(firestoreError("unavailable", ""))).toMatch(/needs a connection/);
+    expect(describeMoneyMigrationError(firestoreError("permission-denied", ""))).toMatch(/someone who can edit it/);
+    expect(describeMoneyMigrationError(new Error("Bad document"))).toMatch(/Bad document/);
+  });
+});
@@ -0,0 +1,54 @@
+// How finishing a budget's first load goes, one step at a time; AppContext supplies each step
+export interface InitialLoadSteps {
+  isMigrated: boolean; // Amounts are already in minor units
+  migrateAmounts: () => Promise<void>;
+  canEdit: () => boolean; // Asked after the migration, as the role may have arrived meanwhile
+  healCategories: (canSave: boolean) => Promise<void>;
+  hasSummaries: boolean; // The stored summaries have the current layout
+  rebuildSummaries: () => Promise<boolean>;
+  onMigrationFailed: (message: string) => void;
+  onLoaded: () => void;
+  onWindowReady: (hasSummaries: boolean) => void;
+}
+
+/** What to tell the user when a budget's amounts couldn't be converted to minor units. */
+export function describeMoneyMigrationError(error: unknown): string {
+  // Firestore's errors carry a code, e.g. 'unavailable' when offline
+  const code = (error as { code?: unknown })?.code;
+  if (code === 'unavailable') {
+    return "This budget's amounts still need converting to cents, which needs a connection. It's view-only until then.";
+  }
+  if (code === 'permission-denied') {
+    return "This budget's amounts still need converting to cents, which only someone who can edit it can do. It's view-only until then.";
+  }
+  return `This budget's amounts couldn't be converted to cents: ${(error as Error)?.message || "unknown error"}. It's view-only until they are.`;
+}
+
+/**
+ * Finishes a budget's first load. Amounts are converted before anything is saved; when that fails, for
+ * whatever reason, the budget still opens, read-only so nothing is saved in both units, and nothing is
+ * healed or rebuilt from the unconverted amounts. Loading always ends.
+ */
+export async function finishInitialLoad(steps: InitialLoadSteps): Promise<void> {
+  let isMigrated = steps.isMigrated;
+  if (!isMigrated) {
+    try {
+      await steps.migrateAmounts();
+      isMigrated = true;
+    } catch (error) {
+      steps.onMigrationFailed(describeMoneyMigrationError(error));
+    }
+  }
+  // Viewers can't save, so what's healed or rebuilt here is only used on screen
+  const canEdit = isMigrated && steps.canEdit();
+  try {
+    await steps.healCategories(canEdit);
+  } catch (error) {
+    console.error("Error saving healed categories:", error);
+  } finally {
+    steps.onLoaded();
+  }
+  // Balances before the window come from the summaries, so without them every transaction is loaded
+  const hasSummaries = steps.hasSummaries || (canEdit && await steps.rebuildSummaries());
+  steps.onWindowReady(hasSummaries);
+}
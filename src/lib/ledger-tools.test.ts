@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import { format } from "date-fns";
+import { collectToolTransactionIds, extractCitations, runLedgerTool, splitCitations, type FindTransactionsInput, type LedgerToolSource, type findTransactions } from "@/lib/ledger-tools";
+import type { Envelope, Transaction } from "@/types";
+
+const envelope = (id: string, category: string): Envelope => ({
+  id, userId: "user", name: id[0].toUpperCase() + id.slice(1), budgetAmount: 0, category, orderIndex: 0, createdAt: "2026-01-01T00:00:00.000Z",
+});
+
+const transaction = (id: string, overrides: Partial<Transaction>): Transaction => ({
+  id, userId: "user", accountId: "chk", payeeId: "", amount: 1000, type: "outflow", date: "2026-05-10", createdAt: "2026-05-10T00:00:00.000Z",
+  ...overrides,
+});
+
+const TRANSACTIONS = [
+  transaction("t1", { amount: 4500, envelopeId: "restaurants", payeeId: "tacos", date: "2026-05-02" }),
+  transaction("t2", { amount: 12000, envelopeId: "groceries", date: "2026-05-08", description: "Weekly shop" }),
+  transaction("t3", { amount: 3000, date: "2026-05-12", splits: [{ envelopeId: "restaurants", amount: 1000 }, { envelopeId: "groceries", amount: 2000 }] }),
+  transaction("t4", { amount: 250000, type: "inflow", isActualIncome: true, date: "2026-05-15", description: "Salary" }),
+  transaction("t5", { amount: 50000, isTransfer: true, date: "2026-05-20" }),
+  transaction("t6", { amount: 2000, accountId: "eur", envelopeId: "restaurants", date: "2026-05-25" }),
+];
+
+// A budget with a euro account worth 1.5 dollars a euro; the selectors give fixed figures per month
+const source: LedgerToolSource = {
+  accounts: [
+    { id: "chk", userId: "user", name: "Checking", initialBalance: 0, createdAt: "" },
+    { id: "eur", userId: "user", name: "Euro Account", initialBalance: 0, currency: "EUR", createdAt: "" },
+  ],
+  envelopes: [envelope("restaurants", "Food"), envelope("groceries", "Food"), envelope("rent", "Home")],
+  payees: [{ id: "tacos", userId: "user", name: "Tacos El Rey", createdAt: "" }],
+  currencySettings: { baseCurrency: "USD", ledgerCurrency: "USD", exchangeRates: { EUR: 1.5 } },
+  getAccountCurrency: accountId => accountId === "eur" ? "EUR" : "USD",
+  getTransactionsInRange: async (from, to) => TRANSACTIONS.filter(tx => tx.date >= from && tx.date <= to).reverse(),
+  getEnvelopeBalanceAsOfEOM: envelopeId => envelopeId === "rent" ? -5000 : 10000,
+  getEnvelopeSpending: (envelopeId, month) => envelopeId === "restaurants" ? Number(format(month, "M")) * 100 : 0,
+  getMonthlyOutflowTotal: month => Number(format(month, "M")) * 1000,
+  getMonthlyActualIncomeTotal: () => 250000,
+};
+
+// Through runLedgerTool, as the assistant calls it
+const find = async (input: Partial<FindTransactionsInput>) =>
+  await runLedgerTool(source, "findTransactions", { from: "2026-05-01", to: "2026-05-31", ...input }) as Awaited<ReturnType<typeof findTransactions>>;
+const ids = (result: Awaited<ReturnType<typeof find>>) => result.transactions.map(tx => tx.id);
+
+describe("runLedgerTool", () => {
+  it("finds transactions in a range, newest first, leaving out transfers", async () => {
+    const result = await find({});
+    expect(ids(result)).toEqual(["t6", "t4", "t3", "t2", "t1"]);
+    expect(result).toMatchObject({ count: 5, currency: "USD", totalInflow: 2500, totalOutflow: 225, truncated: false });
+    expect(result.transactions[4]).toMatchObject({ id: "t1", amount: 45, payee: "Tacos El Rey", account: "Checking", envelopes: ["Restaurants"] });
+    expect(result.transactions[0]).toMatchObject({ amount: 20, currency: "EUR" });
+  });
+
+  it("counts only the split lines in the envelope or category asked about", async () => {
+    const restaurants = await find({ envelopeId: "restaurants" });
+    expect(restaurants).toMatchObject({ count: 3, totalOutflow: 45 + 10 + 30 });
+    const food = await find({ category: "Food" });
+    expect(food).toMatchObject({ count: 4, totalOutflow: 45 + 120 + 30 + 30 });
+  });
+
+  it("filters by text, type and amount in whole units, and includes transfers when asked", async () => {
+    const byText = await find({ query: "tacos" });
+    expect(ids(byText)).toEqual(["t1"]);
+    const large = await find({ type: "outflow", minAmount: 40, includeTransfers: true });
+    expect(ids(large)).toEqual(["t5", "t2", "t1"]);
+  });
+
+  it("lists up to the limit but totals every match", async () => {
+    const result = await find({ limit: 2 });
+    expect(result.transactions).toHaveLength(2);
+    expect(result).toMatchObject({ count: 5, truncated: true, totalOutflow: 225 });
+  });
+
+  it("gives envelope balances at the end of a month", async () => {
+    expect(await runLedgerTool(source, "getEnvelopeBalances", { month: "2026-05", envelopeIds: ["restaurants", "rent"] })).toEqual({
+      month: "2026-05",
+      currency: "USD",
+      envelopes: [
+        { envelopeId: "restaurants", name: "Restaurants", category: "Food", balance: 100, spent: 5 },
+        { envelopeId: "rent", name: "Rent", category: "Home", balance: -50, spent: 0 },
+      ],
+    });
+  });
+
+  it("gives monthly totals with an envelope's spending", async () => {
+    expect(await runLedgerTool(source, "getMonthlyTotals", { from: "2025-12", to: "2026-02", envelopeId: "restaurants" })).toEqual({
+      currency: "USD",
+      envelope: "Restaurants",
+      months: [
+        { month: "2025-12", outflow: 120, income: 2500, envelopeSpent: 12 },
+        { month: "2026-01", outflow: 10, income: 2500, envelopeSpent: 1 },
+        { month: "2026-02", outflow: 20, income: 2500, envelopeSpent: 2 },
+      ],
+    });
+  });
+
+  it.each([
+    ["findTransactions", undefined, "Invalid input. from: Required; to: Required."],
+    ["findTransactions", { from: "2026-05-01", to: 20260531 }, "Invalid input. to: Expected string, received number."],
+    ["findTransactions", { from: "2026-05-01", to: "2026-05-31", type: "expense" }, "Invalid input. type: Invalid enum value. Expected 'inflow' | 'outflow', received 'expense'."],
+    ["findTransactions", { from: "May 1", to: "2026-05-31" }, "from and to must be dates in yyyy-MM-dd form."],
+    ["getEnvelopeBalances", { month: "2026-05", envelopeIds: "restaurants" }, "Invalid input. envelopeIds: Expected array, received string."],
+    ["getEnvelopeBalances", { month: "May" }, "month must be in yyyy-MM form."],
+    ["getMonthlyTotals", { from: "2026-05", to: "2026-01" }, "to can't be before from."],
+    ["getMonthlyTotals", { from: "2020-01", to: "2026-01" }, "Ask for at most 36 months at a time."],
+    ["getMonthlyTotals", { from: "2026-01", to: "2026-02", envelopeId: "made-up" }, "There's no envelope with id made-up."],
+    ["deleteEverything", {}, "There's no tool called deleteEverything."],
+  ])("answers %s with %j with an error", async (name, input, error) => {
+    expect(await runLedgerTool(source, name, input)).toEqual({ error });
+  });
+});
+
+describe("citations", () => {
+  it("collects the transaction ids tool results listed", () => {
+    expect(collectToolTransactionIds([{ transactions: [{ id: "t1" }, { id: "t2" }] }, { months: [] }, undefined, { transactions: [{ id: "t1" }] }]))
+      .toEqual(new Set(["t1", "t2"]));
+  });
+
+  it("keeps citations of listed transactions in order and drops made-up ones", () => {
+    expect(extractCitations("Tacos [[t1]] and the shop [[t2]] , plus [[fake]]. Tacos again [[t1]].", new Set(["t1", "t2"]))).toEqual({
+      answer: "Tacos [[t1]] and the shop [[t2]], plus. Tacos again [[t1]].",
+      citations: ["t1", "t2"],
+    });
+  });
+
+  it("splits an answer into text and citations", () => {
+    expect(splitCitations("Spent $45 [[t1]] on tacos.")).toEqual(["Spent $45 ", { transactionId: "t1" }, " on tacos."]);
+  });
+});
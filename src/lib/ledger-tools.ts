@@ -0,0 +1,243 @@
+import { addMonths, differenceInCalendarMonths, endOfMonth, format, isValid, parseISO } from "date-fns";
+import { z } from "zod";
+import { convertAmount } from "@/lib/currency";
+import { parseMoney, toMajorUnits } from "@/lib/money";
+import { filterTransactions } from "@/lib/transaction-filters";
+import { getTransactionEnvelopeAllocations } from "@/lib/transactions";
+import type { AppContextType, Money, Transaction, TransactionFilters } from "@/types";
+
+// The assistant's tools run in the browser, against what the app already has; these are the parts they read
+export type LedgerToolSource = Pick<AppContextType,
+  | 'accounts' | 'envelopes' | 'payees' | 'currencySettings' | 'getAccountCurrency' | 'getTransactionsInRange'
+  | 'getEnvelopeBalanceAsOfEOM' | 'getEnvelopeSpending' | 'getMonthlyOutflowTotal' | 'getMonthlyActualIncomeTotal'>;
+
+export const LEDGER_TOOL_NAMES = ['findTransactions', 'getEnvelopeBalances', 'getMonthlyTotals'] as const;
+export type LedgerToolName = typeof LEDGER_TOOL_NAMES[number];
+
+// What each tool takes; the descriptions are what the model reads. Amounts go to and from the model in whole
+// currency units, as people write them.
+export const FindTransactionsInputSchema = z.object({
+  from: z.string().describe('First date, yyyy-MM-dd, inclusive.'),
+  to: z.string().describe('Last date, yyyy-MM-dd, inclusive.'),
+  query: z.string().optional().describe('Text to look for in the description or payee name.'),
+  envelopeId: z.string().optional(),
+  category: z.string().optional().describe('An envelope category, e.g. "Food".'),
+  payeeId: z.string().optional(),
+  accountId: z.string().optional(),
+  type: z.enum(['inflow', 'outflow']).optional(),
+  minAmount: z.number().optional().describe('In whole currency units.'),
+  maxAmount: z.number().optional().describe('In whole currency units.'),
+  includeTransfers: z.boolean().optional().describe('Transfers between accounts are left out unless this is true.'),
+  limit: z.number().optional().describe('How many transactions to list, up to 100. Totals always cover every match.'),
+});
+export type FindTransactionsInput = z.infer<typeof FindTransactionsInputSchema>;
+
+export const EnvelopeBalancesInputSchema = z.object({
+  month: z.string().describe('yyyy-MM; balances are as of the end of it.'),
+  envelopeIds: z.array(z.string()).optional().describe('Leave out for every envelope.'),
+});
+export type EnvelopeBalancesInput = z.infer<typeof EnvelopeBalancesInputSchema>;
+
+export const MonthlyTotalsInputSchema = z.object({
+  from: z.string().describe('First month, yyyy-MM, inclusive.'),
+  to: z.string().describe('Last month, yyyy-MM, inclusive. At most 36 months after from.'),
+  envelopeId: z.string().optional().describe("Also give this envelope's spending each month."),
+});
+export type MonthlyTotalsInput = z.infer<typeof MonthlyTotalsInputSchema>;
+
+// Enough to find the transactions a question is about without sending every one
+const DEFAULT_TRANSACTION_LIMIT = 25;
+const MAX_TRANSACTION_LIMIT = 100;
+const MAX_MONTHS = 36;
+
+const isDate = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && isValid(parseISO(value));
+
+const isMonth = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}$/.test(value) && isValid(parseISO(`${value}-01`));
+
+const nameOf = (list: { id: string; name: string }[], id?: string): string | undefined =>
+  id ? list.find(item => item.id === id)?.name : undefined;
+
+/**
+ * Transactions matching a filter over a date range, newest first, with their totals in the base currency.
+ * Totals cover every match; only the first `limit` are listed. With an envelope or category filter, split
+ * transactions count only their lines in it.
+ */
+export async function findTransactions(source: LedgerToolSource, input: FindTransactionsInput) {
+  if (!isDate(input.from) || !isDate(input.to)) throw new Error("from and to must be dates in yyyy-MM-dd form.");
+  const filters: TransactionFilters = {
+    from: input.from,
+    to: input.to,
+    query: input.query?.trim() || undefined,
+    envelopeId: input.envelopeId || undefined,
+    category: input.category || undefined,
+    payeeId: input.payeeId || undefined,
+    accountId: input.accountId || undefined,
+    type: input.type,
+    minAmount: parseMoney(input.minAmount),
+    maxAmount: parseMoney(input.maxAmount),
+    transfers: input.includeTransfers ? undefined : 'exclude',
+  };
+  const inRange = await source.getTransactionsInRange(input.from, input.to);
+  const matches = filterTransactions(inRange, filters, source);
+
+  const { currencySettings } = source;
+  const envelopeCategories = new Map(source.envelopes.map(envelope => [envelope.id, envelope.category]));
+  const countedAmount = (tx: Transaction): Money => {
+    if (!filters.envelopeId && !filters.category) return tx.amount;
+    return getTransactionEnvelopeAllocations(tx)
+      .filter(line => line.envelopeId === filters.envelopeId || (!filters.envelopeId && envelopeCategories.get(line.envelopeId) === filters.category))
+      .reduce((sum, line) => sum + line.amount, 0);
+  };
+  const toBase = (tx: Transaction, amount: Money): Money => {
+    const currency = source.getAccountCurrency(tx.accountId);
+    return convertAmount(currencySettings, amount, currency, currencySettings.baseCurrency) ?? amount;
+  };
+
+  let totalOutflow = 0;
+  let totalInflow = 0;
+  matches.forEach(tx => {
+    const amount = toBase(tx, countedAmount(tx));
+    if (tx.type === 'outflow') totalOutflow += amount;
+    else totalInflow += amount;
+  });
+
+  const limit = Math.min(Math.max(1, Math.floor(input.limit ?? DEFAULT_TRANSACTION_LIMIT)), MAX_TRANSACTION_LIMIT);
+  return {
+    count: matches.length,
+    currency: currencySettings.baseCurrency,
+    totalOutflow: toMajorUnits(totalOutflow),
+    totalInflow: toMajorUnits(totalInflow),
+    truncated: matches.length > limit,
+    transactions: matches.slice(0, limit).map(tx => ({
+      id: tx.id,
+      date: tx.date.slice(0, 10),
+      type: tx.type,
+      amount: toMajorUnits(tx.amount),
+      currency: source.getAccountCurrency(tx.accountId),
+      payee: nameOf(source.payees, tx.payeeId),
+      description: tx.description,
+      account: nameOf(source.accounts, tx.accountId),
+      envelopes: getTransactionEnvelopeAllocations(tx).map(line => nameOf(source.envelopes, line.envelopeId)).filter(Boolean),
+      ...(tx.isActualIncome && { isIncome: true }),
+      ...(tx.isTransfer && { isTransfer: true }),
+    })),
+  };
+}
+
+/** Each envelope's balance at the end of a month and what was spent from it that month. */
+export function getEnvelopeBalances(source: LedgerToolSource, input: EnvelopeBalancesInput) {
+  if (!isMonth(input.month)) throw new Error("month must be in yyyy-MM form.");
+  const monthEnd = endOfMonth(parseISO(`${input.month}-01`));
+  const envelopes = input.envelopeIds?.length
+    ? source.envelopes.filter(envelope => input.envelopeIds!.includes(envelope.id))
+    : source.envelopes;
+  return {
+    month: input.month,
+    currency: source.currencySettings.baseCurrency,
+    envelopes: envelopes.map(envelope => ({
+      envelopeId: envelope.id,
+      name: envelope.name,
+      category: envelope.category,
+      balance: toMajorUnits(source.getEnvelopeBalanceAsOfEOM(envelope.id, monthEnd)),
+      spent: toMajorUnits(source.getEnvelopeSpending(envelope.id, monthEnd)),
+    })),
+  };
+}
+
+/**
+ * Money out (transfers excluded) and actual income for each month in a range, and what one envelope spent
+ * when asked. Covers months before the loaded transactions too, from the stored monthly totals.
+ */
+export function getMonthlyTotals(source: LedgerToolSource, input: MonthlyTotalsInput) {
+  if (!isMonth(input.from) || !isMonth(input.to)) throw new Error("from and to must be months in yyyy-MM form.");
+  const first = parseISO(`${input.from}-01`);
+  const monthCount = differenceInCalendarMonths(parseISO(`${input.to}-01`), first) + 1;
+  if (monthCount < 1) throw new Error("to can't be before from.");
+  if (monthCount > MAX_MONTHS) throw new Error(`Ask for at most ${MAX_MONTHS} months at a time.`);
+  const envelopeName = nameOf(source.envelopes, input.envelopeId);
+  if (input.envelopeId && !envelopeName) throw new Error(`There's no envelope with id ${input.envelopeId}.`);
+
+  return {
+    currency: source.currencySettings.baseCurrency,
+    ...(envelopeName && { envelope: envelopeName }),
+    months: Array.from({ length: monthCount }, (_, index) => {
+      const month = addMonths(first, index);
+      return {
+        month: format(month, "yyyy-MM"),
+        outflow: toMajorUnits(source.getMonthlyOutflowTotal(month)),
+        income: toMajorUnits(source.getMonthlyActualIncomeTotal(month)),
+        ...(input.envelopeId && { envelopeSpent: toMajorUnits(source.getEnvelopeSpending(input.envelopeId, month)) }),
+      };
+    }),
+  };
+}
+
+// Checks a tool's input against its schema, naming every field that's wrong
+function parseToolInput<T extends z.ZodTypeAny>(schema: T, input: unknown): z.infer<T> {
+  const parsed = schema.safeParse(input ?? {});
+  if (parsed.success) return parsed.data;
+  const problems = parsed.error.issues.map(issue => `${issue.path.join(".") || "input"}: ${issue.message}`);
+  throw new Error(`Invalid input. ${problems.join("; ")}.`);
+}
+
+/**
+ * Runs a tool the model asked for. A mistake in the request comes back as `{ error }` rather than throwing,
+ * so the model can read it and ask again.
+ */
+export async function runLedgerTool(source: LedgerToolSource, name: string, input: unknown): Promise<unknown> {
+  try {
+    switch (name as LedgerToolName) {
+      case 'findTransactions': return await findTransactions(source, parseToolInput(FindTransactionsInputSchema, input));
+      case 'getEnvelopeBalances': return getEnvelopeBalances(source, parseToolInput(EnvelopeBalancesInputSchema, input));
+      case 'getMonthlyTotals': return getMonthlyTotals(source, parseToolInput(MonthlyTotalsInputSchema, input));
+      default: return { error: `There's no tool called ${name}.` };
+    }
+  } catch (error) {
+    return { error: (error as Error)?.message || "The tool failed." };
+  }
+}
+
+// How answers cite a transaction: its id in double brackets, e.g. "[[abc123]]"
+const CITATION_PATTERN = /\[\[([A-Za-z0-9_-]+)\]\]/g;
+
+/** The ids of the transactions in tool results, the only ones an answer may cite. */
+export function collectToolTransactionIds(outputs: unknown[]): Set<string> {
+  const ids = new Set<string>();
+  outputs.forEach(output => {
+    const transactions = (output as { transactions?: unknown })?.transactions;
+    if (!Array.isArray(transactions)) return;
+    transactions.forEach(tx => {
+      if (typeof tx?.id === 'string') ids.add(tx.id);
+    });
+  });
+  return ids;
+}
+
+/**
+ * An answer's citations, in the order they first appear, and the answer without the ones that don't point at
+ * a transaction a tool returned. Models sometimes cite ids they made up.
+ */
+export function extractCitations(answer: string, knownIds: Set<string>): { answer: string; citations: string[] } {
+  const citations: string[] = [];
+  const cleaned = answer.replace(CITATION_PATTERN, (marker, id: string) => {
+    if (!knownIds.has(id)) return "";
+    if (!citations.includes(id)) citations.push(id);
+    return marker;
+  });
+  return { answer: cleaned.replace(/[ \t]+([.,;:])/g, "$1").replace(/[ \t]{2,}/g, " ").trim(), citations };
+}
+
+/** An answer split into text and citation markers, for showing each citation as a numbered link. */
+export function splitCitations(answer: string): (string | { transactionId: string })[] {
+  const parts: (string | { transactionId: string })[] = [];
+  let last = 0;
+  for (const match of answer.matchAll(CITATION_PATTERN)) {
+    if (match.index! > last) parts.push(answer.slice(last, match.index));
+    parts.push({ transactionId: match[1] });
+    last = match.index! + match[0].length;
+  }
+  if (last < answer.length) parts.push(answer.slice(last));
+  return parts;
+}
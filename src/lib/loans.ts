@@ -0,0 +1,140 @@
+import { addMonths, differenceInCalendarDays, format, isAfter, parseISO } from "date-fns";
+import type { Account, LoanDetails, Money, Transaction } from "@/types";
+import { onDayOfMonth } from "@/lib/recurrence";
+
+export interface AmortizationRow {
+  number: number; // 1-based payment number
+  date: string; // "YYYY-MM-DD"
+  payment: Money;
+  interest: Money;
+  principal: Money;
+  balance: Money; // Owed after the payment
+}
+
+export interface LoanPaymentBreakdown {
+  transaction: Transaction;
+  interest: Money;
+  principal: Money; // Negative when the payment didn't cover the interest
+  balance: Money; // Owed after the payment
+}
+
+export interface LoanPayoffProjection {
+  payoffDate: string; // "YYYY-MM-DD"
+  paymentsRemaining: number;
+  totalInterest: Money;
+}
+
+// Safety cap for projections where the payment barely covers the interest
+const MAX_PROJECTED_PAYMENTS = 1200;
+
+// Amounts are Money, in cents, so rounding to the cent is rounding to a whole number
+const roundCents = (amount: number): Money => Math.round(amount);
+
+function monthlyRate(apr: number): number {
+  return apr / 100 / 12;
+}
+
+/** The fixed monthly payment that pays the loan off over its term. */
+export function getScheduledPayment(loan: Pick<LoanDetails, 'principal' | 'apr' | 'termMonths'>): Money {
+  if (loan.termMonths <= 0) return roundCents(loan.principal);
+  const rate = monthlyRate(loan.apr);
+  if (rate === 0) return roundCents(loan.principal / loan.termMonths);
+  return roundCents(loan.principal * rate / (1 - Math.pow(1 + rate, -loan.termMonths)));
+}
+
+/** Due date of the nth payment (1-based): the payment day of the nth month after the start. */
+export function getLoanPaymentDate(loan: Pick<LoanDetails, 'startDate' | 'paymentDay'>, paymentNumber: number): string {
+  return format(onDayOfMonth(addMonths(parseISO(loan.startDate), paymentNumber), loan.paymentDay), "yyyy-MM-dd");
+}
+
+/** The original schedule: every scheduled payment over the term, with the final one clearing the balance. */
+export function buildAmortizationSchedule(loan: LoanDetails): AmortizationRow[] {
+  const payment = getScheduledPayment(loan);
+  const rate = monthlyRate(loan.apr);
+  const rows: AmortizationRow[] = [];
+  let balance = loan.principal;
+  for (let number = 1; number <= loan.termMonths && balance > 0; number++) {
+    const interest = roundCents(balance * rate);
+    const isLast = number === loan.termMonths || payment >= balance + interest;
+    const amount = isLast ? roundCents(balance + interest) : payment;
+    const principal = roundCents(amount - interest);
+    balance = roundCents(balance - principal);
+    rows.push({ number, date: getLoanPaymentDate(loan, number), payment: amount, interest, principal, balance });
+  }
+  return rows;
+}
+
+/**
+ * Walks a loan account's transactions in date order. Interest accrues daily on the amount owed
+ * and is charged in full whenever a payment (any inflow) arrives, so early, late and extra
+ * payments are all handled. The account's interest charges are outputs of this walk and are ignored.
+ */
+export function getLoanPaymentBreakdowns(account: Account, transactions: Transaction[]): LoanPaymentBreakdown[] {
+  if (!account.loan) return [];
+  const dailyRate = account.loan.apr / 100 / 365;
+  const ledger = transactions
+    .filter(tx => tx.accountId === account.id && !tx.loanPaymentId)
+    .sort((a, b) => a.date.localeCompare(b.date) || (a.createdAt ?? "").localeCompare(b.createdAt ?? ""));
+
+  const breakdowns: LoanPaymentBreakdown[] = [];
+  let owed = -account.initialBalance;
+  let accrued = 0;
+  let accruedThrough = parseISO(account.loan.startDate);
+  ledger.forEach(tx => {
+    const txDate = parseISO(tx.date);
+    if (isAfter(txDate, accruedThrough)) {
+      accrued += Math.max(owed, 0) * dailyRate * differenceInCalendarDays(txDate, accruedThrough);
+      accruedThrough = txDate;
+    }
+    if (tx.type === 'outflow') {
+      owed += tx.amount;
+      return;
+    }
+    const interest = roundCents(accrued);
+    accrued = 0;
+    owed = roundCents(owed + interest - tx.amount);
+    breakdowns.push({ transaction: tx, interest, principal: roundCents(tx.amount - interest), balance: owed });
+  });
+  return breakdowns;
+}
+
+/** The interest charge each payment should carry, keyed by payment transaction id. Zero charges are left out. */
+export function getLoanInterestCharges(account: Account, transactions: Transaction[]): Map<string, Money> {
+  return new Map(
+    getLoanPaymentBreakdowns(account, transactions)
+      .filter(breakdown => breakdown.interest > 0)
+      .map(breakdown => [breakdown.transaction.id, breakdown.interest])
+  );
+}
+
+/** What the borrower usually pays: the average of the last three payments, or the scheduled payment before any. */
+export function getTypicalLoanPayment(loan: LoanDetails, breakdowns: LoanPaymentBreakdown[]): Money {
+  const recent = breakdowns.slice(-3);
+  if (recent.length === 0) return getScheduledPayment(loan);
+  return roundCents(recent.reduce((sum, breakdown) => sum + breakdown.transaction.amount, 0) / recent.length);
+}
+
+/**
+ * Projects when the loan is paid off if the given monthly payment is made on each payment day
+ * from `fromDate` on. Returns null when the payment doesn't cover the monthly interest.
+ */
+export function projectLoanPayoff(loan: LoanDetails, owed: Money, monthlyPayment: Money, fromDate: Date): LoanPayoffProjection | null {
+  if (owed <= 0) return { payoffDate: format(fromDate, "yyyy-MM-dd"), paymentsRemaining: 0, totalInterest: 0 };
+  const rate = monthlyRate(loan.apr);
+  if (monthlyPayment <= roundCents(owed * rate)) return null;
+
+  let dueDate = onDayOfMonth(fromDate, loan.paymentDay);
+  if (!isAfter(dueDate, fromDate)) dueDate = onDayOfMonth(addMonths(fromDate, 1), loan.paymentDay);
+
+  let balance = owed;
+  let totalInterest = 0;
+  let paymentsRemaining = 0;
+  while (balance > 0 && paymentsRemaining < MAX_PROJECTED_PAYMENTS) {
+    const interest = roundCents(balance * rate);
+    totalInterest += interest;
+    balance = roundCents(balance + interest - Math.min(monthlyPayment, balance + interest));
+    paymentsRemaining++;
+    if (balance > 0) dueDate = onDayOfMonth(addMonths(dueDate, 1), loan.paymentDay);
+  }
+  return { payoffDate: format(dueDate, "yyyy-MM-dd"), paymentsRemaining, totalInterest: roundCents(totalInterest) };
+}
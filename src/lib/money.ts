@@ -0,0 +1,65 @@
+import type { Money } from "@/types";
+
+// Amounts are kept to two decimal places in every currency
+const MINOR_UNITS_PER_UNIT = 100;
+
+/**
+ * An amount in whole currency units, e.g. 12.34, in minor units, rounded half away from zero. The
+ * decimal point is moved in the number's text rather than by multiplying, so 1.005 becomes 101, not 100.
+ */
+export function toMoney(amount: number): Money {
+  if (!Number.isFinite(amount)) return 0;
+  const [mantissa, exponent = "0"] = String(Math.abs(amount)).split("e");
+  const minorUnits = Math.round(Number(`${mantissa}e${Number(exponent) + 2}`));
+  return amount < 0 && minorUnits !== 0 ? -minorUnits : minorUnits;
+}
+
+/** An amount in whole currency units, for inputs, charts and formatting. */
+export function toMajorUnits(money: Money): number {
+  return money / MINOR_UNITS_PER_UNIT;
+}
+
+/** Parses an amount as typed or stored in whole currency units, e.g. "12.5". Undefined when it isn't a number. */
+export function parseMoney(value: unknown): Money | undefined {
+  if (value === "" || value === null || value === undefined) return undefined;
+  const amount = Number(String(value).trim());
+  return Number.isFinite(amount) ? toMoney(amount) : undefined;
+}
+
+/** An amount as an input shows it, e.g. "12.5"; blank when there is none. */
+export function formatMoneyInput(money: Money | null | undefined): string {
+  return money === null || money === undefined || isNaN(money) ? "" : String(toMajorUnits(money));
+}
+
+/** Scales an amount, e.g. by an exchange or interest rate, to the nearest minor unit. */
+export function multiplyMoney(money: Money, factor: number): Money {
+  const product = Math.round(money * factor);
+  return product === 0 ? 0 : product; // No negative zero
+}
+
+/** A stored amount, or zero when it's missing or not a number. */
+export function readMoney(value: unknown): Money {
+  return (typeof value === 'number' && Number.isFinite(value)) ? Math.round(value) : 0;
+}
+
+/**
+ * The fields of a document saved with amounts in whole currency units, converted to minor units. `fields`
+ * names the amounts: top-level ones, or ones inside an object or an array of objects such as
+ * "loan.principal" or "splits.amount". Fields that are missing or aren't numbers are left out.
+ */
+export function toMinorUnitFields(data: Record<string, unknown>, fields: string[]): Record<string, unknown> {
+  const convert = (value: unknown, path: string[]): unknown => {
+    if (path.length === 0) return typeof value === 'number' ? toMoney(value) : value;
+    if (Array.isArray(value)) return value.map(item => convert(item, path));
+    if (!value || typeof value !== 'object') return value;
+    const [key, ...rest] = path;
+    return key in value ? { ...value, [key]: convert((value as Record<string, unknown>)[key], rest) } : value;
+  };
+  const converted: Record<string, unknown> = {};
+  fields.forEach(field => {
+    const [key, ...rest] = field.split(".");
+    if (rest.length === 0 ? typeof data[key] !== 'number' : (data[key] === undefined || data[key] === null)) return;
+    converted[key] = convert(converted[key] ?? data[key], rest);
+  });
+  return converted;
+}
@@ -0,0 +1,102 @@
+import { readFileSync } from "fs";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import { initializeTestEnvironment, type RulesTestEnvironment } from "@firebase/rules-unit-testing";
+import { collection, disableNetwork, doc, enableNetwork, getDoc, getDocFromCache, getDocs, query, setDoc, updateDoc, where, type DocumentData, type Firestore } from "firebase/firestore";
+import { buildHistoryEntries, type HistorySource } from "@/lib/history";
+import { followPendingWrite } from "@/lib/pending-writes";
+import type { HistoryEntry, PendingWrite } from "@/types";
+
+// Set by `firebase emulators:exec`, which `npm run test:emulator` runs these under; skipped otherwise
+const EMULATOR_HOST = process.env.FIRESTORE_EMULATOR_HOST;
+
+const TRANSACTION_PATH = "users/alice/transactions/cash-lunch";
+const PHONE: HistorySource = { deviceId: "phone", deviceName: "Safari on iOS", sessionId: "phone-session" };
+const LAPTOP: HistorySource = { deviceId: "laptop", deviceName: "Chrome on macOS", sessionId: "laptop-session" };
+
+// Saves a change and its history entries together, as the app's commits do
+async function saveWithHistory(db: Firestore, source: HistorySource, data: DocumentData, before: DocumentData | null) {
+  const createdAt = new Date().toISOString();
+  const written = before ? updateDoc(doc(db, TRANSACTION_PATH), data) : setDoc(doc(db, TRANSACTION_PATH), data);
+  const entries = buildHistoryEntries("Edit Transaction", [{ path: TRANSACTION_PATH, before, after: { ...before, ...data } }], source, createdAt);
+  const recorded = Promise.all(entries.map(entry => setDoc(doc(collection(db, "users/alice/history")), entry)));
+  return Promise.all([written, recorded]);
+}
+
+describe.skipIf(!EMULATOR_HOST)("offline writes against the Firestore emulator", () => {
+  let testEnv: RulesTestEnvironment;
+  // Each is a separate client signed in as alice, like two of her devices. The test contexts hand out the
+  // compat type, which the modular functions take as well.
+  const signInDevice = () => testEnv.authenticatedContext("alice").firestore() as unknown as Firestore;
+
+  beforeAll(async () => {
+    const [host, port] = EMULATOR_HOST!.split(":");
+    testEnv = await initializeTestEnvironment({
+      projectId: "demo-allobudget",
+      firestore: { host, port: Number(port), rules: readFileSync("firestore.rules", "utf8") },
+    });
+  });
+  afterEach(() => testEnv.clearFirestore());
+  afterAll(() => testEnv.cleanup());
+
+  it("saves a change locally while offline and sends it once back online", async () => {
+    const phone = signInDevice();
+    const laptop = signInDevice();
+
+    await disableNetwork(phone);
+    let isCommitted = false;
+    const committed = setDoc(doc(phone, TRANSACTION_PATH), { amount: 1250, type: "outflow" }).then(() => { isCommitted = true; });
+
+    const cached = await getDocFromCache(doc(phone, TRANSACTION_PATH));
+    expect(cached.data()).toEqual({ amount: 1250, type: "outflow" });
+    expect(cached.metadata.hasPendingWrites).toBe(true);
+    expect(isCommitted).toBe(false);
+    expect((await getDoc(doc(laptop, TRANSACTION_PATH))).exists()).toBe(false);
+
+    await enableNetwork(phone);
+    await committed;
+    expect((await getDoc(doc(laptop, TRANSACTION_PATH))).data()).toEqual({ amount: 1250, type: "outflow" });
+  });
+
+  it("marks a change saved offline over another device's change as a conflict", async () => {
+    const phone = signInDevice();
+    const laptop = signInDevice();
+    const original = { amount: 1250, type: "outflow" };
+    await saveWithHistory(laptop, LAPTOP, original, null);
+    await getDoc(doc(phone, TRANSACTION_PATH)); // The phone has the original cached
+    const offlineSince = new Date().toISOString();
+
+    await disableNetwork(phone);
+    let writes: PendingWrite[] = [];
+    const followed = followPendingWrite({
+      id: "phone-edit", label: "Edit Transaction", paths: [TRANSACTION_PATH], queuedAt: new Date().toISOString(), offlineSince,
+      committed: saveWithHistory(phone, PHONE, { amount: 1500 }, original).then(() => {}),
+    }, {
+      setPendingWrites: update => { writes = update(writes); },
+      getDocumentHistory: async documentId => (await getDocs(query(collection(phone, "users/alice/history"), where("documentId", "==", documentId))))
+        .docs.map(entry => ({ id: entry.id, ...entry.data() } as HistoryEntry)),
+      sessionId: PHONE.sessionId,
+    });
+    expect(writes).toEqual([expect.objectContaining({ status: "pending" })]);
+    await saveWithHistory(laptop, LAPTOP, { amount: 1300 }, original);
+    await enableNetwork(phone);
+    await followed;
+
+    // The phone's change was saved last, over the laptop's
+    expect((await getDoc(doc(laptop, TRANSACTION_PATH))).data()).toEqual({ amount: 1500, type: "outflow" });
+    expect(writes).toHaveLength(1);
+    expect(writes[0].status).toBe("conflict");
+    expect(writes[0].conflicts).toHaveLength(1);
+    expect(writes[0].conflicts![0]).toMatchObject({ deviceName: "Chrome on macOS", before: original, after: { amount: 1300, type: "outflow" } });
+  });
+
+  it("rejects a change the rules don't allow once it reaches the server", async () => {
+    const phone = signInDevice();
+
+    await disableNetwork(phone);
+    const committed = setDoc(doc(phone, "users/bob/transactions/not-mine"), { amount: 100 });
+    expect((await getDocFromCache(doc(phone, "users/bob/transactions/not-mine"))).exists()).toBe(true);
+
+    await enableNetwork(phone);
+    await expect(committed).rejects.toMatchObject({ code: "permission-denied" });
+  });
+});
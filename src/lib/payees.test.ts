@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { DUPLICATE_PAYEE_THRESHOLD, findDuplicatePayees, getPayeeSimilarity, normalizePayeeName, resolvePayee } from "@/lib/payees";
+import type { Payee, PayeeAlias } from "@/types";
+
+const payee = (id: string, name: string, aliases?: PayeeAlias[]): Payee =>
+  ({ id, userId: "alice", name, createdAt: "2026-01-01T00:00:00.000Z", ...(aliases && { aliases }) });
+
+describe("normalizePayeeName", () => {
+  it.each([
+    ["STARBUCKS", "starbucks"],
+    ["Trader Joe's", "trader joe s"],
+    ["  Whole   Foods  ", "whole foods"],
+    ["SQ *BLUE BOTTLE", "sq blue bottle"],
+    ["Amazon.com", "amazon"],
+    ["STARBUCKS #10423", "starbucks"],
+    ["SHELL OIL 57444", "shell oil"],
+    ["AMZN Mktp US*2K4", "amzn mktp us"],
+    ["McDonald's F12345", "mcdonald s"],
+    ["7-Eleven", "7 eleven"],
+    ["Route 66 Diner", "route 66 diner"],
+    ["#10423", ""],
+  ])("reads %s as %s", (name, normalized) => {
+    expect(normalizePayeeName(name)).toBe(normalized);
+  });
+});
+
+describe("resolvePayee", () => {
+  const payees = [
+    payee("starbucks", "Starbucks"),
+    payee("amazon", "Amazon", [{ match: "contains", pattern: "AMZN" }, { match: "exact", pattern: "Amazon.com" }]),
+    payee("amazon-prime", "Amazon Prime", [{ match: "contains", pattern: "AMZN Prime" }]),
+    payee("coffee", "Local Coffee", [{ match: "regex", pattern: "^SQ \\*" }]),
+  ];
+
+  it.each([
+    ["STARBUCKS #10423", "starbucks"],
+    ["starbucks", "starbucks"],
+    ["AMAZON.COM", "amazon"],
+    ["AMZN Mktp US*2K4", "amazon"],
+    ["AMZN Prime*1A2B", "amazon-prime"],
+    ["SQ *BLUE BOTTLE", "coffee"],
+  ])("finds the payee %s stands for", (text, id) => {
+    expect(resolvePayee(text, payees)?.id).toBe(id);
+  });
+
+  it.each([["Starbucks Reserve"], ["Blue Bottle SQ *"], ["#10423"], [""]])("finds nothing for %s", text => {
+    expect(resolvePayee(text, payees)).toBeUndefined();
+  });
+
+  it("prefers a payee's name to another payee's alias", () => {
+    const withAlias = [payee("aliased", "Coffee Shop", [{ match: "contains", pattern: "Starbucks" }]), payee("starbucks", "Starbucks")];
+    expect(resolvePayee("Starbucks", withAlias)?.id).toBe("starbucks");
+  });
+});
+
+describe("findDuplicatePayees", () => {
+  it.each([
+    ["Starbucks", "STARBUCKS #10423"],
+    ["Shell", "Shell Oil 4410"],
+    ["Walmart", "Wal-Mart Supercenter"],
+    ["AMZN Mktp US*2K4", "Amazon.com"],
+    ["Trader Joe's", "Trader Joes"],
+  ])("suggests %s and %s", (a, b) => {
+    expect(getPayeeSimilarity(a, b)).toBeGreaterThanOrEqual(DUPLICATE_PAYEE_THRESHOLD);
+    expect(findDuplicatePayees([payee("a", a), payee("b", b)])).toHaveLength(1);
+  });
+
+  it.each([
+    ["Trader Joe's", "Trader Vic's"],
+    ["Target", "Tarjeta"],
+    ["Costco", "Cost Plus"],
+    ["Safeway", "Subway"],
+    ["Apple", "Applebee's"],
+    ["Home Depot", "Home Goods"],
+    ["Chase", "Chevron"],
+    ["7-Eleven", "Eleven Madison"],
+  ])("doesn't suggest %s and %s", (a, b) => {
+    expect(getPayeeSimilarity(a, b)).toBeLessThan(DUPLICATE_PAYEE_THRESHOLD);
+    expect(findDuplicatePayees([payee("a", a), payee("b", b)])).toEqual([]);
+  });
+
+  it("lists the most alike pairs first", () => {
+    const suggestions = findDuplicatePayees([payee("shell", "Shell"), payee("walmart", "Walmart"), payee("wal-mart", "Wal-Mart"), payee("shell-oil", "Shell Oil 4410")]);
+    expect(suggestions.map(suggestion => suggestion.payees.map(p => p.id))).toEqual([["walmart", "wal-mart"], ["shell", "shell-oil"]]);
+  });
+
+  it("takes a stricter threshold", () => {
+    expect(findDuplicatePayees([payee("a", "Walmart"), payee("b", "Wal-Mart Supercenter")], 0.85)).toEqual([]);
+  });
+});
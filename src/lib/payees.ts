@@ -0,0 +1,163 @@
+import type { Payee, PayeeAlias, PayeeAliasMatch } from "@/types";
+
+export const payeeAliasMatches: readonly PayeeAliasMatch[] = ['exact', 'contains', 'regex'];
+
+export const payeeAliasMatchLabels: Record<PayeeAliasMatch, string> = {
+  exact: "Is",
+  contains: "Contains",
+  regex: "Matches regex",
+};
+
+// Pairs at least this similar are suggested as duplicates
+export const DUPLICATE_PAYEE_THRESHOLD = 0.75;
+
+/**
+ * A payee name reduced to what tells payees apart: lowercase letters and digits, with web domains, card
+ * processor separators and reference codes such as "2K4" or "#10423" dropped. "AMZN Mktp US*2K4" becomes
+ * "amzn mktp us" and "Amazon.com" becomes "amazon".
+ */
+export function normalizePayeeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\.(com|net|org|co|io)\b/g, " ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .split(" ")
+    // Reference codes mix letters and digits, or are long numbers; short numbers like the 7 in 7-Eleven stay
+    .filter(token => token && !(/\d/.test(token) && /[a-z]/.test(token)) && !/^\d{3,}$/.test(token))
+    .join(" ");
+}
+
+const compileRegex = (pattern: string): RegExp | null => {
+  try {
+    return new RegExp(pattern, "i");
+  } catch {
+    return null;
+  }
+};
+
+export function isValidAliasPattern(alias: PayeeAlias): boolean {
+  if (alias.pattern.trim() === "") return false;
+  return alias.match === 'regex' ? compileRegex(alias.pattern) !== null : normalizePayeeName(alias.pattern) !== "";
+}
+
+/** Whether an alias matches a payee name as typed or imported. */
+export function aliasMatches(alias: PayeeAlias, text: string): boolean {
+  if (alias.match === 'regex') return compileRegex(alias.pattern)?.test(text) ?? false;
+  const pattern = normalizePayeeName(alias.pattern);
+  const normalized = normalizePayeeName(text);
+  if (!pattern || !normalized) return false;
+  return alias.match === 'exact' ? normalized === pattern : normalized.includes(pattern);
+}
+
+/**
+ * The payee raw text stands for. A payee whose name or exact alias matches wins, then the longest matching
+ * "contains" alias, then the first matching regex. Undefined when nothing matches.
+ */
+export function resolvePayee<T extends Pick<Payee, 'name' | 'aliases'>>(text: string, payees: T[]): T | undefined {
+  const normalized = normalizePayeeName(text);
+  if (!normalized) return undefined;
+  const byName = payees.find(payee => normalizePayeeName(payee.name) === normalized)
+    ?? payees.find(payee => payee.aliases?.some(alias => alias.match === 'exact' && aliasMatches(alias, text)));
+  if (byName) return byName;
+
+  let best: { payee: T; length: number } | undefined;
+  payees.forEach(payee => payee.aliases?.forEach(alias => {
+    if (alias.match !== 'contains' || !aliasMatches(alias, text)) return;
+    const length = normalizePayeeName(alias.pattern).length;
+    if (!best || length > best.length) best = { payee, length };
+  }));
+  if (best) return best.payee;
+
+  return payees.find(payee => payee.aliases?.some(alias => alias.match === 'regex' && aliasMatches(alias, text)));
+}
+
+/** Aliases as stored, without malformed entries. */
+export function sanitizeAliases(value: unknown): PayeeAlias[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const aliases = value
+    .filter((alias): alias is PayeeAlias => !!alias && typeof alias.pattern === 'string' && payeeAliasMatches.includes(alias.match))
+    .map(alias => ({ match: alias.match, pattern: alias.pattern.trim() }))
+    .filter(isValidAliasPattern);
+  return aliases.length > 0 ? aliases : undefined;
+}
+
+const aliasKey = (alias: PayeeAlias) => `${alias.match}:${alias.match === 'regex' ? alias.pattern : normalizePayeeName(alias.pattern)}`;
+
+/**
+ * The aliases a payee keeps after another is merged into it: its own, the other payee's name as an exact
+ * alias, and the other payee's aliases, without repeats.
+ */
+export function mergePayeeAliases(target: Payee, source: Payee): PayeeAlias[] {
+  const targetName = normalizePayeeName(target.name);
+  const seen = new Set<string>();
+  return [...(target.aliases ?? []), { match: 'exact' as const, pattern: source.name }, ...(source.aliases ?? [])].filter(alias => {
+    const key = aliasKey(alias);
+    if (seen.has(key) || (alias.match === 'exact' && normalizePayeeName(alias.pattern) === targetName)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// Letter pairs, for the Dice coefficient
+const getBigrams = (text: string): Map<string, number> => {
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const bigram = text.slice(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1);
+  }
+  return bigrams;
+};
+
+const diceCoefficient = (a: string, b: string): number => {
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+  const first = getBigrams(a);
+  let shared = 0;
+  getBigrams(b).forEach((count, bigram) => { shared += Math.min(count, first.get(bigram) ?? 0); });
+  return (2 * shared) / (a.length - 1 + b.length - 1);
+};
+
+// A word without its vowels after the first letter, so abbreviations like "amzn" line up with "amazon"
+const getSkeleton = (word: string) => word.charAt(0) + word.slice(1).replace(/[aeiou]/g, "");
+
+/**
+ * How alike two payee names are, from 0 to 1: their letter pairs in common, raised when one name starts with
+ * the other ("Shell" and "Shell Oil 4410", "Walmart" and "Wal-Mart Supercenter") or their first words
+ * abbreviate alike ("AMZN Mktp" and "Amazon.com").
+ */
+export function getPayeeSimilarity(a: string, b: string): number {
+  const first = normalizePayeeName(a);
+  const second = normalizePayeeName(b);
+  if (!first || !second) return 0;
+  if (first === second) return 1;
+  const [shorter, longer] = first.length <= second.length ? [first, second] : [second, first];
+  const [compactShorter, compactLonger] = [shorter.replace(/ /g, ""), longer.replace(/ /g, "")];
+  let similarity = diceCoefficient(compactShorter, compactLonger);
+
+  if (shorter.length >= 4 && longer.startsWith(`${shorter} `)) similarity = Math.max(similarity, 0.9);
+  // Spelled with and without a space or hyphen, as "Wal-Mart" and "Walmart" are
+  else if (compactShorter.length >= 6 && compactLonger.startsWith(compactShorter)) similarity = Math.max(similarity, 0.8);
+
+  // Only when the first words differ, as "Trader Joe's" and "Trader Vic's" share theirs but are different shops
+  const [firstWord, secondWord] = [first.split(" ")[0], second.split(" ")[0]];
+  const firstSkeleton = getSkeleton(firstWord);
+  if (firstWord !== secondWord && firstSkeleton.length >= 3 && firstSkeleton === getSkeleton(secondWord)) similarity = Math.max(similarity, 0.8);
+  return similarity;
+}
+
+export interface DuplicatePayeeSuggestion {
+  payees: [Payee, Payee];
+  similarity: number;
+}
+
+/** Pairs of payees that look like the same one, most alike first. */
+export function findDuplicatePayees(payees: Payee[], threshold = DUPLICATE_PAYEE_THRESHOLD): DuplicatePayeeSuggestion[] {
+  const suggestions: DuplicatePayeeSuggestion[] = [];
+  for (let i = 0; i < payees.length; i++) {
+    for (let j = i + 1; j < payees.length; j++) {
+      const similarity = getPayeeSimilarity(payees[i].name, payees[j].name);
+      if (similarity >= threshold) suggestions.push({ payees: [payees[i], payees[j]], similarity });
+    }
+  }
+  return suggestions.sort((a, b) => b.similarity - a.similarity);
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it, vi } from "vitest";
+import { followPendingWrite, removeDismissedWrite, type TrackedCommit } from "@/lib/pending-writes";
+import type { HistoryEntry, PendingWrite } from "@/types";
+
+const TRANSACTION_PATH = "budgets/family/transactions/cash-lunch";
+const OFFLINE_SINCE = "2026-03-01T09:00:00.000Z";
+
+function historyEntry(overrides: Partial<HistoryEntry>): HistoryEntry {
+  return {
+    id: "entry", changeId: "change", label: "Edit transaction", collection: "transactions", documentId: "cash-lunch",
+    action: "update", before: { amount: 1000 }, after: { amount: 1250 }, createdAt: "2026-03-01T10:00:00.000Z",
+    deviceId: "laptop", deviceName: "Chrome on macOS", sessionId: "laptop-session",
+    ...overrides,
+  };
+}
+
+// Follows a commit with the pending list kept in a plain array, and history looked up from `history`
+function follow(commit: Partial<TrackedCommit>, history: HistoryEntry[] | Error = []) {
+  let writes: PendingWrite[] = [];
+  const getDocumentHistory = vi.fn(async (documentId: string) => {
+    if (history instanceof Error) throw history;
+    return history.filter(entry => entry.documentId === documentId);
+  });
+  const settled = followPendingWrite({
+    id: "write", label: "Edit transaction", paths: [TRANSACTION_PATH], queuedAt: "2026-03-01T11:00:00.000Z",
+    offlineSince: null, committed: Promise.resolve(), ...commit,
+  }, { setPendingWrites: update => { writes = update(writes); }, getDocumentHistory, sessionId: "phone-session" });
+  return { settled, getDocumentHistory, writes: () => writes };
+}
+
+describe("followPendingWrite", () => {
+  it("lists a change as pending until the server confirms it", async () => {
+    let confirm!: () => void;
+    const { settled, writes } = follow({ committed: new Promise(resolve => { confirm = resolve; }) });
+    expect(writes()).toEqual([expect.objectContaining({ id: "write", status: "pending", documentCount: 1 })]);
+    confirm();
+    await settled;
+    expect(writes()).toEqual([]);
+  });
+
+  it("doesn't look for conflicts when the change was saved online", async () => {
+    const { settled, getDocumentHistory, writes } = follow({}, [historyEntry({})]);
+    await settled;
+    expect(getDocumentHistory).not.toHaveBeenCalled();
+    expect(writes()).toEqual([]);
+  });
+
+  it("keeps a change saved offline over another device's change as a conflict", async () => {
+    const laptopEdit = historyEntry({ id: "laptop-edit" });
+    const { settled, writes } = follow({ offlineSince: OFFLINE_SINCE }, [
+      laptopEdit,
+      historyEntry({ id: "own-edit", sessionId: "phone-session" }),
+      historyEntry({ id: "before-offline", createdAt: "2026-03-01T08:00:00.000Z" }),
+      historyEntry({ id: "same-id-elsewhere", collection: "payees" }),
+    ]);
+    await settled;
+    expect(writes()).toEqual([expect.objectContaining({ id: "write", status: "conflict", conflicts: [laptopEdit] })]);
+  });
+
+  it("drops a change saved offline that nothing else touched", async () => {
+    const { settled, writes } = follow({ offlineSince: OFFLINE_SINCE }, [historyEntry({ sessionId: "phone-session" })]);
+    await settled;
+    expect(writes()).toEqual([]);
+  });
+
+  it("drops the change when the history can't be checked", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const { settled, writes } = follow({ offlineSince: OFFLINE_SINCE }, new Error("Offline again"));
+    await settled;
+    expect(writes()).toEqual([]);
+  });
+
+  it("keeps a change the server rejected as failed", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const { settled, writes } = follow({ committed: Promise.reject(new Error("Missing or insufficient permissions.")) });
+    await settled;
+    expect(writes()).toEqual([expect.objectContaining({ status: "failed", error: "Missing or insufficient permissions." })]);
+  });
+});
+
+describe("removeDismissedWrite", () => {
+  const write = (id: string, status: PendingWrite["status"]): PendingWrite =>
+    ({ id, label: "Edit transaction", queuedAt: "2026-03-01T11:00:00.000Z", documentCount: 1, status });
+
+  it("clears failed and conflicting changes but not ones still waiting", () => {
+    const writes = [write("failed", "failed"), write("conflict", "conflict"), write("pending", "pending")];
+    expect(removeDismissedWrite(writes, "failed").map(w => w.id)).toEqual(["conflict", "pending"]);
+    expect(removeDismissedWrite(writes, "conflict").map(w => w.id)).toEqual(["failed", "pending"]);
+    expect(removeDismissedWrite(writes, "pending")).toEqual(writes);
+  });
+});
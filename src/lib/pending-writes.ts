@@ -0,0 +1,75 @@
+import { findConflictingEntries } from "@/lib/history";
+import type { HistoryEntry, PendingWrite } from "@/types";
+
+type PendingWritesUpdate = (update: (writes: PendingWrite[]) => PendingWrite[]) => void;
+
+// What following a commit needs from the app
+export interface PendingWriteContext {
+  setPendingWrites: PendingWritesUpdate;
+  getDocumentHistory: (documentId: string) => Promise<HistoryEntry[]>;
+  sessionId: string;
+}
+
+// One commit to follow. `offlineSince` is when this device last heard from the server, or null when it's online.
+export interface TrackedCommit {
+  id: string;
+  label: string;
+  paths: string[];
+  queuedAt: string;
+  offlineSince: string | null;
+  committed: Promise<void>;
+}
+
+/**
+ * The changes other devices made to the written documents while this one was offline. History entries
+ * are looked up by document id, so entries for a document of the same id in another collection are left out.
+ */
+export async function findWriteConflicts(
+  paths: string[],
+  offlineSince: string,
+  sessionId: string,
+  getDocumentHistory: (documentId: string) => Promise<HistoryEntry[]>
+): Promise<HistoryEntry[]> {
+  const histories = await Promise.all(paths.map(path => getDocumentHistory(path.split('/').pop()!)));
+  return histories.flatMap((entries, index) =>
+    findConflictingEntries(entries.filter(entry => paths[index].endsWith(`/${entry.collection}/${entry.documentId}`)), sessionId, offlineSince));
+}
+
+/**
+ * Lists a commit as pending until the server confirms it. Offline, Firestore applies the write to the local
+ * cache right away and sends it once it reconnects, so the change is shown as waiting in the meantime. A
+ * confirmed change leaves the list, unless it was saved offline over changes from other devices, when it
+ * stays as a conflict. A rejected one stays as failed. Resolves once the commit has settled.
+ */
+export async function followPendingWrite(write: TrackedCommit, { setPendingWrites, getDocumentHistory, sessionId }: PendingWriteContext): Promise<void> {
+  const { id, label, paths, queuedAt, offlineSince, committed } = write;
+  const update = (changes: Partial<PendingWrite>) => setPendingWrites(prev => prev.map(pending => pending.id === id ? { ...pending, ...changes } : pending));
+  const remove = () => setPendingWrites(prev => prev.filter(pending => pending.id !== id));
+  setPendingWrites(prev => [...prev, { id, label, queuedAt, documentCount: paths.length, status: 'pending' }]);
+
+  try {
+    await committed;
+  } catch (error) {
+    // Firestore rolls the change back locally and the listeners put the server copy back on screen
+    console.error(`Error saving "${label}":`, error);
+    update({ status: 'failed', error: (error as Error)?.message || "The server rejected the change." });
+    return;
+  }
+  if (!offlineSince) {
+    remove();
+    return;
+  }
+  try {
+    const conflicts = await findWriteConflicts(paths, offlineSince, sessionId, getDocumentHistory);
+    if (conflicts.length > 0) update({ status: 'conflict', conflicts });
+    else remove();
+  } catch (error) {
+    console.error("Error checking for conflicting changes:", error);
+    remove();
+  }
+}
+
+// Clears a failed or conflicting change the user has seen. One still waiting on the server stays listed.
+export function removeDismissedWrite(writes: PendingWrite[], id: string): PendingWrite[] {
+  return writes.filter(write => write.id !== id || write.status === 'pending');
+}
@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import { parseQuickEntry } from "@/lib/quick-entry";
+import type { QuickEntryContext } from "@/types";
+
+// A Monday
+const TODAY = "2026-10-19";
+
+const CONTEXT: QuickEntryContext = {
+  today: TODAY,
+  accounts: [
+    { id: "chk", name: "Chase Checking" },
+    { id: "joint", name: "Joint Checking" },
+    { id: "sav", name: "Savings" },
+    { id: "visa", name: "Visa Card" },
+  ],
+  payees: [
+    { id: "sb", name: "Starbucks", aliases: [{ match: "contains", pattern: "SBUX" }] },
+    { id: "acme", name: "Acme Corp" },
+    { id: "tj", name: "Trader Joe's" },
+  ],
+  envelopes: [
+    { id: "coffee", name: "Coffee", category: "Food" },
+    { id: "dining", name: "Dining Out", category: "Food" },
+    { id: "groceries", name: "Groceries", category: "Food" },
+  ],
+};
+
+const parse = (text: string) => parseQuickEntry(text, CONTEXT);
+
+describe("parseQuickEntry", () => {
+  describe("amounts", () => {
+    it.each([
+      ["rent 1,234.50", 123450],
+      ["coffee 4.75", 475],
+      ["book $5", 500],
+      ["tip 5$", 500],
+      ["gift 20.5", 2050],
+    ])("reads %s", (text, amount) => {
+      expect(parse(text)).toMatchObject({ amount, type: "outflow" });
+    });
+
+    it("takes a leading + as money in and - as money out", () => {
+      expect(parse("refund +20")).toMatchObject({ amount: 2000, type: "inflow" });
+      expect(parse("refund -20")).toMatchObject({ amount: 2000, type: "outflow" });
+    });
+
+    it("leaves the amount out when there isn't one, or it's zero", () => {
+      expect(parse("coffee at starbucks")).not.toHaveProperty("amount");
+      expect(parse("coffee 0")).not.toHaveProperty("amount");
+    });
+  });
+
+  describe("dates", () => {
+    it.each([
+      ["coffee 4 today", "2026-10-19"],
+      ["coffee 4 yesterday", "2026-10-18"],
+      ["coffee 4 3 days ago", "2026-10-16"],
+      ["coffee 4 wednesday", "2026-10-14"],
+      ["coffee 4 on friday", "2026-10-16"],
+      ["coffee 4 last friday", "2026-10-16"],
+      ["coffee 4 monday", "2026-10-19"],
+      ["coffee 4 last monday", "2026-10-12"],
+      ["coffee 4 3/14", "2026-03-14"],
+      ["coffee 4 3/14/25", "2025-03-14"],
+      ["coffee 4 12/31/2024", "2024-12-31"],
+      ["coffee 4 2024-02-29", "2024-02-29"],
+    ])("reads %s", (text, date) => {
+      expect(parse(text)).toMatchObject({ date, amount: 400, description: "coffee" });
+    });
+
+    it("defaults to today", () => {
+      expect(parse("coffee 4").date).toBe(TODAY);
+    });
+
+    it("doesn't read abbreviated weekdays, which are often names", () => {
+      expect(parse("bread 6 at Sun Bakery")).toMatchObject({ date: TODAY, payeeName: "Sun Bakery" });
+    });
+  });
+
+  describe("accounts", () => {
+    it("matches the whole name, longest first", () => {
+      expect(parse("coffee 4 joint checking").accountId).toBe("joint");
+      expect(parse("coffee 4 with Chase Checking").accountId).toBe("chk");
+    });
+
+    it("matches one word of a name after a marker", () => {
+      expect(parse("coffee 4 from savings").accountId).toBe("sav");
+      expect(parse("coffee 4 on visa")).toMatchObject({ accountId: "visa", description: "coffee" });
+      expect(parse("coffee 4 from checking").accountId).toBe("chk");
+    });
+
+    it("leaves the account out when none is named", () => {
+      expect(parse("coffee 4 from the office")).not.toHaveProperty("accountId");
+    });
+  });
+
+  describe("payees", () => {
+    it("resolves known payees by name and alias", () => {
+      expect(parse("coffee 4.75 starbucks")).toMatchObject({ payeeId: "sb", envelopeId: "coffee", description: "coffee" });
+      expect(parse("latte 5 at SBUX 1234")).toMatchObject({ payeeId: "sb" });
+      expect(parse("salary +2,500 from Acme Corp to savings")).toMatchObject({
+        payeeId: "acme", accountId: "sav", type: "inflow", amount: 250000, isActualIncome: true,
+      });
+    });
+
+    it("keeps a payee that doesn't exist yet by name", () => {
+      expect(parse("lunch 12.50 at Tacos El Rey for work 10/3")).toMatchObject({
+        payeeName: "Tacos El Rey", date: "2026-10-03", description: "lunch for work",
+      });
+      expect(parse("paid Alex 40 for dinner last friday")).toMatchObject({
+        payeeName: "Alex", amount: 4000, date: "2026-10-16", type: "outflow", description: "for dinner",
+      });
+    });
+
+    it("takes the words after the amount as the payee when there are words before it", () => {
+      expect(parse("snacks 3 corner shop")).toMatchObject({ payeeName: "corner shop", description: "snacks" });
+    });
+  });
+
+  describe("envelopes and direction", () => {
+    it("files under an envelope named in the text, keeping the words in the description", () => {
+      expect(parse("groceries 54.20 at Trader Joe's")).toMatchObject({ envelopeId: "groceries", payeeId: "tj", description: "groceries" });
+      expect(parse("dining out 30")).toMatchObject({ envelopeId: "dining", description: "dining out" });
+    });
+
+    it("reads refunds as money in that isn't income", () => {
+      const draft = parse("refund 12 from Trader Joe's");
+      expect(draft).toMatchObject({ type: "inflow", payeeId: "tj" });
+      expect(draft).not.toHaveProperty("isActualIncome");
+    });
+
+    it("doesn't file income under an envelope", () => {
+      expect(parse("coffee bonus +50")).toMatchObject({ type: "inflow", isActualIncome: true });
+      expect(parse("coffee bonus +50")).not.toHaveProperty("envelopeId");
+    });
+  });
+});
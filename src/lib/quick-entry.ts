@@ -0,0 +1,240 @@
+import { format, isValid, parse, parseISO, subDays } from "date-fns";
+import { toMoney } from "@/lib/money";
+import { resolvePayee } from "@/lib/payees";
+import type { QuickEntryContext, QuickEntryDraft } from "@/types";
+
+// Same limit as the transaction schema
+const MAX_DESCRIPTION_LENGTH = 200;
+
+// Longest run of words tried as a payee or envelope name
+const MAX_NAME_WORDS = 4;
+
+const AMOUNT_PATTERN = /^([+-])?[$€£]?(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d{1,2}))?[$€£]?$/;
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+// Words that only say which way the money went; they're dropped from the description
+const INFLOW_VERBS = new Set(["received", "receive", "got", "earned", "deposited"]);
+const OUTFLOW_VERBS = new Set(["spent", "spend", "paid", "pay", "bought", "buy"]);
+// Words that say which way the money went and also describe it, so they stay
+const INFLOW_WORDS = new Set(["refund", "refunded", "reimbursement", "reimbursed", "deposit", "cashback"]);
+const INCOME_WORDS = new Set(["income", "salary", "paycheck", "payroll", "wages", "bonus"]);
+
+const ACCOUNT_MARKERS = new Set(["from", "with", "on", "using", "via", "in", "into", "to"]);
+const PAYEE_MARKERS = new Set(["at", "to", "from", "@", "paid", "pay"]);
+// Words that end a payee name after a marker: "at Blue Bottle for lunch"
+const PAYEE_STOPS = new Set([...ACCOUNT_MARKERS, ...PAYEE_MARKERS, "for"]);
+const DATE_MARKERS = new Set(["on", "last"]);
+
+interface Token {
+  text: string; // As typed, for the description and new payee names
+  word: string; // Lowercase, without surrounding punctuation
+  used: boolean;
+}
+
+const normalizeName = (name: string): string => name.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+const toWord = (text: string): string => text.toLowerCase().replace(/^[^a-z0-9@$€£+-]+|[^a-z0-9$€£]+$/g, "");
+
+/** Index of the first unused token at or after `from` that equals the phrase word for word, or -1. */
+const findPhrase = (tokens: Token[], phrase: string[], from = 0): number => {
+  if (phrase.length === 0) return -1;
+  for (let start = from; start + phrase.length <= tokens.length; start++) {
+    if (phrase.every((word, offset) => !tokens[start + offset].used && tokens[start + offset].word === word)) return start;
+  }
+  return -1;
+};
+
+const consume = (tokens: Token[], start: number, count: number) => {
+  for (let index = start; index < start + count; index++) tokens[index].used = true;
+};
+
+// Consumes the marker just before a matched phrase, e.g. the "from" in "from checking"
+const consumeMarker = (tokens: Token[], index: number, markers: Set<string>) => {
+  const previous = tokens[index - 1];
+  if (previous && !previous.used && markers.has(previous.word)) previous.used = true;
+};
+
+/** Runs of unused tokens between used ones, as [start, end) index pairs. */
+const unusedRuns = (tokens: Token[]): [number, number][] => {
+  const runs: [number, number][] = [];
+  tokens.forEach((token, index) => {
+    if (token.used) return;
+    const last = runs[runs.length - 1];
+    if (last && last[1] === index) last[1] = index + 1;
+    else runs.push([index, index + 1]);
+  });
+  return runs;
+};
+
+const joinText = (tokens: Token[]): string => tokens.map(token => token.text).join(" ").replace(/^[,;:]+|[,;:]+$/g, "").trim();
+
+function takeDate(tokens: Token[], today: Date): string | undefined {
+  const at = (date: Date) => format(date, "yyyy-MM-dd");
+  for (let index = 0; index < tokens.length; index++) {
+    const token = tokens[index];
+    if (token.used) continue;
+    if (token.word === "today" || token.word === "yesterday") {
+      token.used = true;
+      consumeMarker(tokens, index, DATE_MARKERS);
+      return at(token.word === "today" ? today : subDays(today, 1));
+    }
+    // "3 days ago"
+    const next = tokens[index + 1];
+    const afterNext = tokens[index + 2];
+    if (/^\d{1,3}$/.test(token.word) && next?.word.startsWith("day") && afterNext?.word === "ago") {
+      consume(tokens, index, 3);
+      return at(subDays(today, Number(token.word)));
+    }
+    // "monday" is the latest Monday up to today; "last monday" is the one before today
+    const weekday = WEEKDAYS.indexOf(token.word);
+    if (weekday >= 0) {
+      const isLast = tokens[index - 1]?.word === "last";
+      const back = (today.getDay() - weekday + 7) % 7 || (isLast ? 7 : 0);
+      token.used = true;
+      consumeMarker(tokens, index, DATE_MARKERS);
+      return at(subDays(today, back));
+    }
+    // 2024-03-14, 3/14/2024, 3/14/24 or 3/14 in the current year
+    let date: Date | undefined;
+    if (/^\d{4}-\d{2}-\d{2}$/.test(token.word)) date = parseISO(token.word);
+    else if (/^\d{1,2}\/\d{1,2}\/\d{4}$/.test(token.word)) date = parse(token.word, "M/d/yyyy", today);
+    else if (/^\d{1,2}\/\d{1,2}\/\d{2}$/.test(token.word)) date = parse(token.word, "M/d/yy", today);
+    else if (/^\d{1,2}\/\d{1,2}$/.test(token.word)) date = parse(token.word, "M/d", today);
+    if (date && isValid(date)) {
+      token.used = true;
+      consumeMarker(tokens, index, DATE_MARKERS);
+      return at(date);
+    }
+  }
+  return undefined;
+}
+
+function takeAmount(tokens: Token[]): { amount: number; sign?: string; index: number } | undefined {
+  for (let index = 0; index < tokens.length; index++) {
+    const token = tokens[index];
+    const match = token.used ? null : AMOUNT_PATTERN.exec(token.text.replace(/[,;:]$/, ""));
+    if (!match) continue;
+    token.used = true;
+    const [, sign, whole, fraction = "0"] = match;
+    return { amount: toMoney(Number(`${whole.replace(/,/g, "")}.${fraction}`)), sign, index };
+  }
+  return undefined;
+}
+
+function takeAccount(tokens: Token[], accounts: QuickEntryContext['accounts']): string | undefined {
+  // The whole name anywhere, longest names first so "Joint Checking" beats "Checking"
+  const byLength = [...accounts]
+    .map(account => ({ id: account.id, words: normalizeName(account.name).split(" ").filter(Boolean) }))
+    .sort((a, b) => b.words.length - a.words.length);
+  for (const account of byLength) {
+    const index = findPhrase(tokens, account.words);
+    if (index < 0) continue;
+    consume(tokens, index, account.words.length);
+    consumeMarker(tokens, index, ACCOUNT_MARKERS);
+    return account.id;
+  }
+  // One word of a name after a marker, e.g. "from checking" for "Chase Checking"; the first account when several have it
+  for (let index = 1; index < tokens.length; index++) {
+    const token = tokens[index];
+    if (token.used || token.word.length < 4 || !ACCOUNT_MARKERS.has(tokens[index - 1].word) || tokens[index - 1].used) continue;
+    const account = accounts.find(candidate => normalizeName(candidate.name).split(" ").includes(token.word));
+    if (!account) continue;
+    token.used = true;
+    consumeMarker(tokens, index, ACCOUNT_MARKERS);
+    return account.id;
+  }
+  return undefined;
+}
+
+function takePayee(tokens: Token[], payees: QuickEntryContext['payees'], amountIndex?: number): Pick<QuickEntryDraft, 'payeeId' | 'payeeName'> {
+  // After a marker: "at Blue Bottle", "paid Alex"
+  for (let index = 0; index < tokens.length - 1; index++) {
+    if (tokens[index].used || !PAYEE_MARKERS.has(tokens[index].word)) continue;
+    let end = index + 1;
+    while (end < tokens.length && !tokens[end].used && !PAYEE_STOPS.has(tokens[end].word)) end++;
+    if (end === index + 1) continue;
+    // Longest known payee at the start of the phrase, else the whole phrase as a new one
+    for (let length = Math.min(end - index - 1, MAX_NAME_WORDS); length > 0; length--) {
+      const payee = resolvePayee(joinText(tokens.slice(index + 1, index + 1 + length)), payees);
+      if (payee) {
+        consume(tokens, index, length + 1);
+        return { payeeId: payee.id };
+      }
+    }
+    const payeeName = joinText(tokens.slice(index + 1, end));
+    consume(tokens, index, end - index);
+    return { payeeName };
+  }
+
+  // A known payee anywhere, longest runs of words first
+  for (let length = MAX_NAME_WORDS; length > 0; length--) {
+    for (const [start, end] of unusedRuns(tokens)) {
+      for (let index = start; index + length <= end; index++) {
+        const payee = resolvePayee(joinText(tokens.slice(index, index + length)), payees);
+        if (!payee) continue;
+        consume(tokens, index, length);
+        return { payeeId: payee.id };
+      }
+    }
+  }
+
+  // "coffee 4.75 starbucks": with words on both sides of the amount, what follows it names the payee
+  const runs = unusedRuns(tokens);
+  const after = amountIndex !== undefined ? runs.find(([start]) => start > amountIndex) : undefined;
+  if (runs.length > 1 && after) {
+    consume(tokens, after[0], after[1] - after[0]);
+    return { payeeName: joinText(tokens.slice(after[0], after[1])) };
+  }
+  return {};
+}
+
+function findEnvelope(tokens: Token[], envelopes: QuickEntryContext['envelopes']): string | undefined {
+  const byLength = [...envelopes]
+    .map(envelope => ({ id: envelope.id, words: normalizeName(envelope.name).split(" ").filter(Boolean) }))
+    .sort((a, b) => b.words.length - a.words.length);
+  // Envelope words stay in the description: "coffee" is both the envelope and what was bought
+  return byLength.find(envelope => findPhrase(tokens, envelope.words) >= 0)?.id;
+}
+
+/**
+ * Reads a transaction from a line of text such as "coffee 4.75 starbucks yesterday from checking", without a
+ * model. The first number is the amount, with a leading + for money in; dates can be "today", "yesterday",
+ * "3 days ago", a weekday or a date like 3/14. Account, payee and envelope names are matched against the
+ * context, payees through their aliases too; "at X" or "to X" names a payee that may not exist yet. Words
+ * like "refund" or "salary" make it an inflow. Whatever is left over is the description.
+ */
+export function parseQuickEntry(text: string, context: QuickEntryContext): QuickEntryDraft {
+  const tokens: Token[] = text.trim().split(/\s+/).filter(Boolean).map(part => ({ text: part, word: toWord(part), used: false }));
+  const today = parseISO(context.today);
+
+  const date = takeDate(tokens, today) ?? context.today;
+  const amount = takeAmount(tokens);
+  const accountId = takeAccount(tokens, context.accounts);
+
+  const isIncome = tokens.some(token => !token.used && INCOME_WORDS.has(token.word));
+  let type: QuickEntryDraft['type'] = 'outflow';
+  if (amount?.sign === "+" || isIncome || tokens.some(token => !token.used && (INFLOW_VERBS.has(token.word) || INFLOW_WORDS.has(token.word)))) {
+    type = 'inflow';
+  }
+  if (amount?.sign === "-") type = 'outflow';
+
+  const payee = takePayee(tokens, context.payees, amount?.index);
+  tokens.forEach(token => {
+    if (INFLOW_VERBS.has(token.word) || OUTFLOW_VERBS.has(token.word)) token.used = true;
+  });
+  const isActualIncome = type === 'inflow' && isIncome;
+  const envelopeId = isActualIncome ? undefined : findEnvelope(tokens, context.envelopes);
+  const description = joinText(tokens.filter(token => !token.used)).slice(0, MAX_DESCRIPTION_LENGTH);
+
+  return {
+    type,
+    date,
+    ...(amount && amount.amount > 0 && { amount: amount.amount }),
+    ...(accountId && { accountId }),
+    ...payee,
+    ...(envelopeId && { envelopeId }),
+    ...(isActualIncome && { isActualIncome }),
+    ...(description && { description }),
+  };
+}
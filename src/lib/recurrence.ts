@@ -0,0 +1,106 @@
+import { addDays, addMonths, addYears, format, getDaysInMonth, parseISO, setDate, startOfMonth } from "date-fns";
+import type { RecurrenceFrequency, RecurringTransaction, TransactionFormData } from "@/types";
+
+type RecurrenceRule = Pick<RecurringTransaction, 'frequency' | 'startDate' | 'dayOfMonth' | 'intervalMonths'>;
+
+export const recurrenceFrequencyOptions: { value: RecurrenceFrequency; label: string }[] = [
+  { value: "weekly", label: "Weekly" },
+  { value: "biweekly", label: "Every 2 weeks" },
+  { value: "monthly", label: "Monthly" },
+  { value: "everyNMonths", label: "Every N months" },
+  { value: "yearly", label: "Yearly" },
+];
+
+// Safety cap on how many occurrences are listed or caught up for one rule in one go
+const MAX_OCCURRENCES = 500;
+
+const toDateString = (date: Date) => format(date, "yyyy-MM-dd");
+
+// Day N of the given month, or the month's last day when it is shorter (day 31 in April is the 30th).
+export function onDayOfMonth(month: Date, day: number): Date {
+  const first = startOfMonth(month);
+  return setDate(first, Math.min(day, getDaysInMonth(first)));
+}
+
+function isMonthBased(rule: RecurrenceRule): boolean {
+  return rule.frequency === 'monthly' || rule.frequency === 'everyNMonths';
+}
+
+function ruleDayOfMonth(rule: RecurrenceRule): number {
+  return rule.dayOfMonth || parseISO(rule.startDate).getDate();
+}
+
+export function describeRecurrence(rule: RecurrenceRule): string {
+  switch (rule.frequency) {
+    case 'weekly': return `Weekly on ${format(parseISO(rule.startDate), "EEEE")}`;
+    case 'biweekly': return `Every 2 weeks on ${format(parseISO(rule.startDate), "EEEE")}`;
+    case 'yearly': return `Yearly on ${format(parseISO(rule.startDate), "MMMM d")}`;
+    case 'monthly': return `Monthly on day ${ruleDayOfMonth(rule)}`;
+    case 'everyNMonths': return `Every ${rule.intervalMonths || 1} months on day ${ruleDayOfMonth(rule)}`;
+  }
+}
+
+/**
+ * The first occurrence on or after the start date. Weekly, biweekly and yearly
+ * rules fall on the start date itself; month-based rules on their day of month.
+ */
+export function getFirstOccurrenceDate(rule: RecurrenceRule): string {
+  if (!isMonthBased(rule)) return rule.startDate;
+  const start = parseISO(rule.startDate);
+  const candidate = onDayOfMonth(start, ruleDayOfMonth(rule));
+  return toDateString(candidate < start ? onDayOfMonth(addMonths(start, 1), ruleDayOfMonth(rule)) : candidate);
+}
+
+export function getNextOccurrenceDate(rule: RecurrenceRule, occurrenceDate: string): string {
+  const current = parseISO(occurrenceDate);
+  switch (rule.frequency) {
+    case 'weekly':
+      return toDateString(addDays(current, 7));
+    case 'biweekly':
+      return toDateString(addDays(current, 14));
+    case 'yearly': {
+      // Count from the start date so a Feb 29 rule lands on the 29th again in leap years
+      const start = parseISO(rule.startDate);
+      return toDateString(addYears(start, current.getFullYear() - start.getFullYear() + 1));
+    }
+    case 'monthly':
+    case 'everyNMonths': {
+      const step = rule.frequency === 'monthly' ? 1 : Math.max(1, rule.intervalMonths || 1);
+      return toDateString(onDayOfMonth(addMonths(startOfMonth(current), step), ruleDayOfMonth(rule)));
+    }
+  }
+}
+
+export function isRecurrenceFinished(rule: Pick<RecurringTransaction, 'endDate' | 'nextDueDate'>): boolean {
+  return !!rule.endDate && rule.nextDueDate > rule.endDate;
+}
+
+/**
+ * Occurrences from the rule's next due date up to and including `through`
+ * ("YYYY-MM-DD"), stopping at the rule's end date.
+ */
+export function getOccurrencesThrough(rule: RecurringTransaction, through: string, limit = MAX_OCCURRENCES): string[] {
+  const dates: string[] = [];
+  let next = rule.nextDueDate;
+  while (next <= through && (!rule.endDate || next <= rule.endDate) && dates.length < limit) {
+    dates.push(next);
+    next = getNextOccurrenceDate(rule, next);
+  }
+  return dates;
+}
+
+// The transaction a rule creates for one occurrence.
+export function buildRecurringOccurrence(rule: RecurringTransaction, date: string): TransactionFormData {
+  const isActualIncome = rule.type === 'inflow' ? !!rule.isActualIncome : false;
+  return {
+    accountId: rule.accountId,
+    payeeId: rule.payeeId,
+    envelopeId: isActualIncome ? null : (rule.envelopeId || null),
+    amount: rule.amount,
+    type: rule.type,
+    description: rule.description,
+    date,
+    isTransfer: false,
+    isActualIncome,
+  };
+}
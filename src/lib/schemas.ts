@@ -1,5 +1,8 @@
 import { z } from 'zod';
 import { parseISO, isValid } from 'date-fns'; // Import date-fns functions
+import { toMajorUnits } from '@/lib/money';
+import { isValidAliasPattern } from '@/lib/payees';
+import { isValidRulePattern } from '@/lib/transaction-rules';
 
 // Define standard account types
 export const accountTypes = [
@@ -12,24 +15,72 @@ export const accountTypes = [
   "Other"
 ] as const; // Use 'as const' for literal types
 
+// Account types that hold debt rather than money; their balances are normally negative
+export const liabilityAccountTypes: readonly (typeof accountTypes[number])[] = ["Credit Card", "Loan"];
+
+const isBlank = (val: unknown) => val === "" || val === null || val === undefined;
+
+// Amounts arrive in minor units (see Money), from MoneyInput on the forms and from the importers
+const money = (requiredMessage = "Enter an amount.") =>
+  z.number({ required_error: requiredMessage, invalid_type_error: requiredMessage }).int("Amounts can't have fractions of a cent.");
+
+// Loan terms as entered on the account form. The principal is the account's amount owed.
+export const loanDetailsSchema = z.object({
+  apr: z.preprocess(
+    (val) => isBlank(val) ? undefined : Number(String(val)),
+    z.number({ required_error: "APR is required." }).min(0, "APR cannot be negative.").max(100, "APR must be 100% or less.")
+  ),
+  termMonths: z.preprocess(
+    (val) => isBlank(val) ? undefined : Number(String(val)),
+    z.number({ required_error: "Term is required." }).int("Term must be whole months.").min(1, "Term must be at least 1 month.").max(600, "Term must be 50 years or less.")
+  ),
+  paymentDay: z.preprocess(
+    (val) => isBlank(val) ? undefined : Number(String(val)),
+    z.number({ required_error: "Payment day is required." }).int().min(1, "Day must be between 1 and 31.").max(31, "Day must be between 1 and 31.")
+  ),
+  startDate: z.string({ required_error: "Start date is required." }).refine(val => /^\d{4}-\d{2}-\d{2}$/.test(val) && isValid(parseISO(val)), {
+    message: "Invalid date format. Expected YYYY-MM-DD.",
+  }),
+  interestEnvelopeId: z.string().optional(),
+});
+
 export const accountSchema = z.object({
   name: z.string().min(1, "Account name is required.").max(100, "Name too long."),
   initialBalance: z.preprocess(
-    (val) => Number(String(val)), // Convert to number
-    z.number().min(0, "Initial balance cannot be negative.") // Updated message for clarity
+    (val) => isBlank(val) ? 0 : val, // An empty balance is zero
+    money()
   ),
   type: z.enum(accountTypes).optional(),
+  currency: z.string().length(3, "Choose a currency.").optional(),
+  creditLimit: z.preprocess(
+    (val) => isBlank(val) ? undefined : val,
+    money().min(0, "Credit limit cannot be negative.").optional()
+  ),
+  // Leaving every loan field empty means the loan's terms aren't tracked
+  loan: z.preprocess(
+    (val) => (val && typeof val === 'object' && Object.values(val).some(field => !isBlank(field))) ? val : undefined,
+    loanDetailsSchema.optional()
+  ),
+}).superRefine((data, ctx) => {
+  // Liability balances are negative when money is owed, and positive only when a card is overpaid
+  if (!(data.type && liabilityAccountTypes.includes(data.type)) && data.initialBalance < 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Initial balance cannot be negative.",
+      path: ['initialBalance'],
+    });
+  }
 });
 
 export const envelopeSchema = z.object({
   name: z.string().min(1, "Envelope name is required.").max(100, "Name too long."),
   budgetAmount: z.preprocess(
-    (val) => Number(String(val)), // Convert to number
-    z.number().min(0, "Budget amount cannot be negative.")
+    (val) => isBlank(val) ? 0 : val, // An empty budget is zero
+    money().min(0, "Budget amount cannot be negative.")
   ),
   estimatedAmount: z.preprocess(
-    (val) => (val === "" || val === null || val === undefined) ? undefined : Number(String(val)),
-    z.number().min(0, "Estimated amount cannot be negative.").optional()
+    (val) => isBlank(val) ? undefined : val,
+    money().min(0, "Estimated amount cannot be negative.").optional()
   ),
   category: z.string().min(1, "Category is required.").max(100, "Category name is too long."),
   dueDate: z.preprocess(
@@ -38,14 +89,17 @@ export const envelopeSchema = z.object({
   ),
 });
 
+export const transactionSplitSchema = z.object({
+  envelopeId: z.string().min(1, "Envelope is required."),
+  amount: money().positive("Amount must be positive."),
+  memo: z.string().max(100, "Memo too long.").optional(),
+});
+
 export const transactionSchema = z.object({
   accountId: z.string().min(1, "Account is required."),
   envelopeId: z.string().optional().nullable().transform(val => val === "" ? null : val),
   payeeId: z.string().min(1, "Payee is required."),
-  amount: z.preprocess(
-    (val) => Number(String(val)),
-    z.number().positive("Amount must be positive.")
-  ),
+  amount: money().positive("Amount must be positive."),
   type: z.enum(['inflow', 'outflow'], { required_error: "Transaction type is required." }), // Changed
   description: z.string().max(200, "Description too long.").optional(),
   date: z.string().refine((dateString) => {
@@ -57,8 +111,29 @@ export const transactionSchema = z.object({
   }),
   isTransfer: z.boolean().optional(),
   isActualIncome: z.boolean().optional(), // New field
+  splits: z.array(transactionSplitSchema).optional(),
+  // Units of the base currency per unit of the account's currency; only for accounts in another currency
+  exchangeRate: z.preprocess(
+    (val) => isBlank(val) ? undefined : Number(String(val)),
+    z.number().positive("Exchange rate must be positive.").optional()
+  ),
+  originalAmount: z.preprocess(
+    (val) => isBlank(val) ? undefined : val,
+    money().positive("Original amount must be positive.").optional()
+  ),
+  originalCurrency: z.string().length(3, "Choose a currency.").optional(),
 }).superRefine((data, ctx) => {
-  if (data.type === 'outflow' && (!data.envelopeId || data.envelopeId.trim() === "")) { // Changed to 'outflow'
+  const hasSplits = !!data.splits && data.splits.length > 0;
+
+  if ((data.originalAmount === undefined) !== (data.originalCurrency === undefined)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Enter both the original amount and its currency.",
+      path: [data.originalAmount === undefined ? 'originalAmount' : 'originalCurrency'],
+    });
+  }
+
+  if (data.type === 'outflow' && !hasSplits && (!data.envelopeId || data.envelopeId.trim() === "")) { // Changed to 'outflow'
     ctx.addIssue({
       code: z.ZodIssueCode.custom,
       message: "Envelope is required for outflow transactions.", // Changed message
@@ -67,28 +142,57 @@ export const transactionSchema = z.object({
   }
   
   // Also require an envelope for inflows that are not actual income
-  if (data.type === 'inflow' && data.isActualIncome === false && (!data.envelopeId || data.envelopeId.trim() === "")) {
+  if (data.type === 'inflow' && data.isActualIncome === false && !hasSplits && (!data.envelopeId || data.envelopeId.trim() === "")) {
     ctx.addIssue({
       code: z.ZodIssueCode.custom,
       message: "Envelope is required for inflows that aren't marked as actual income.",
       path: ['envelopeId'],
     });
   }
+
+  if (hasSplits) {
+    if (data.splits!.length < 2) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "A split needs at least two lines.",
+        path: ['splits'],
+      });
+    }
+    const splitTotal = data.splits!.reduce((sum, line) => sum + line.amount, 0);
+    if (splitTotal !== data.amount) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Split lines add up to ${toMajorUnits(splitTotal).toFixed(2)} but the transaction amount is ${toMajorUnits(data.amount).toFixed(2)}.`,
+        path: ['splits'],
+      });
+    }
+  }
 });
 
 
+export const payeeAliasSchema = z.object({
+  match: z.enum(['exact', 'contains', 'regex']),
+  pattern: z.string().trim().min(1, "Enter a name or pattern.").max(200, "Pattern too long."),
+}).superRefine((data, ctx) => {
+  if (data.pattern && !isValidAliasPattern(data)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: data.match === 'regex' ? "This isn't a valid regular expression." : "Include at least one letter or number.",
+      path: ["pattern"],
+    });
+  }
+});
+
 export const payeeSchema = z.object({
   name: z.string().min(1, "Payee name is required.").max(100, "Name too long."),
   category: z.string().max(100, "Category too long.").optional(),
+  aliases: z.array(payeeAliasSchema).max(50, "Too many aliases.").optional(),
 });
 
 export const transferEnvelopeFundsSchema = z.object({
   fromEnvelopeId: z.string().min(1, "Source envelope is required."),
   toEnvelopeId: z.string().min(1, "Destination envelope is required."),
-  amount: z.preprocess(
-    (val) => Number(String(val)),
-    z.number().positive("Amount must be positive.")
-  ),
+  amount: money().positive("Amount must be positive."),
   accountId: z.string().min(1, "Account for transactions is required."),
   date: z.string().refine((dateString) => {
     if (!/^\d{4}-\d{2}-\d{2}$/.test(dateString)) return false;
@@ -112,10 +216,7 @@ export const transferEnvelopeFundsSchema = z.object({
 export const transferAccountFundsSchema = z.object({
     fromAccountId: z.string().min(1, "Source account is required."),
     toAccountId: z.string().min(1, "Destination account is required."),
-    amount: z.preprocess(
-        (val) => Number(String(val)),
-        z.number().positive("Amount must be positive.")
-    ),
+    amount: money().positive("Amount must be positive."),
     date: z.string().refine((dateString) => {
         if (!/^\d{4}-\d{2}-\d{2}$/.test(dateString)) return false;
         const date = parseISO(dateString);
@@ -133,3 +234,128 @@ export const transferAccountFundsSchema = z.object({
         });
     }
 });
+
+export const recurrenceFrequencies = ['weekly', 'biweekly', 'monthly', 'yearly', 'everyNMonths'] as const;
+
+export const recurringTransactionSchema = z.object({
+  accountId: z.string().min(1, "Account is required."),
+  payeeId: z.string().min(1, "Payee is required."),
+  envelopeId: z.string().optional().nullable().transform(val => val === "" ? null : val),
+  amount: money().positive("Amount must be positive."),
+  type: z.enum(['inflow', 'outflow'], { required_error: "Transaction type is required." }),
+  description: z.string().max(200, "Description too long.").optional(),
+  isActualIncome: z.boolean().optional(),
+  frequency: z.enum(recurrenceFrequencies, { required_error: "Frequency is required." }),
+  dayOfMonth: z.preprocess(
+    (val) => (val === "" || val === null || val === undefined) ? undefined : Number(String(val)),
+    z.number().int().min(1).max(31, "Day must be between 1 and 31.").optional()
+  ),
+  intervalMonths: z.preprocess(
+    (val) => (val === "" || val === null || val === undefined) ? undefined : Number(String(val)),
+    z.number().int().min(2, "Use Monthly for every month.").max(24, "Interval can be at most 24 months.").optional()
+  ),
+  startDate: z.string().refine((dateString) => {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(dateString)) return false;
+    return isValid(parseISO(dateString));
+  }, {
+    message: "Invalid date format. Please use YYYY-MM-DD.",
+  }),
+  endDate: z.string().optional().refine((dateString) => {
+    if (!dateString) return true;
+    return /^\d{4}-\d{2}-\d{2}$/.test(dateString) && isValid(parseISO(dateString));
+  }, {
+    message: "Invalid date format. Please use YYYY-MM-DD.",
+  }),
+  autoPost: z.boolean(),
+}).superRefine((data, ctx) => {
+  if (data.type === 'outflow' && (!data.envelopeId || data.envelopeId.trim() === "")) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Envelope is required for outflow transactions.",
+      path: ['envelopeId'],
+    });
+  }
+  if (data.frequency === 'everyNMonths' && !data.intervalMonths) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Enter how many months between occurrences.",
+      path: ['intervalMonths'],
+    });
+  }
+  if (data.endDate && data.endDate < data.startDate) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "End date cannot be before the start date.",
+      path: ['endDate'],
+    });
+  }
+});
+
+// Blank fields are conditions and actions the rule doesn't have; the description is only checked when a pattern is given
+export const transactionRuleSchema = z.object({
+  name: z.string().trim().min(1, "Rule name is required.").max(100, "Name too long."),
+  enabled: z.boolean(),
+  conditions: z.object({
+    payeeId: z.string().optional(),
+    description: z.object({
+      match: z.enum(['contains', 'regex']),
+      pattern: z.string().trim().max(200, "Pattern too long."),
+    }),
+    type: z.enum(['inflow', 'outflow']).optional(),
+    minAmount: z.preprocess(
+      (val) => isBlank(val) ? undefined : val,
+      money().min(0, "Amount cannot be negative.").optional()
+    ),
+    maxAmount: z.preprocess(
+      (val) => isBlank(val) ? undefined : val,
+      money().min(0, "Amount cannot be negative.").optional()
+    ),
+    accountId: z.string().optional(),
+  }),
+  actions: z.object({
+    envelopeId: z.string().optional(),
+    payeeId: z.string().optional(),
+    markAsIncome: z.boolean(),
+    memo: z.string().trim().max(100, "Memo too long.").optional(),
+  }),
+}).superRefine((data, ctx) => {
+  const { conditions, actions } = data;
+  if (conditions.description.pattern && !isValidRulePattern(conditions.description)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "This isn't a valid regular expression.",
+      path: ['conditions', 'description', 'pattern'],
+    });
+  }
+  const hasCondition = !!conditions.payeeId || !!conditions.description.pattern || !!conditions.type || !!conditions.accountId
+    || conditions.minAmount !== undefined || conditions.maxAmount !== undefined;
+  if (!hasCondition) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Add at least one condition.", path: ['conditions'] });
+  }
+  if (conditions.minAmount !== undefined && conditions.maxAmount !== undefined && conditions.maxAmount < conditions.minAmount) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Maximum can't be less than the minimum.",
+      path: ['conditions', 'maxAmount'],
+    });
+  }
+  if (!actions.envelopeId && !actions.payeeId && !actions.markAsIncome && !actions.memo) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Add at least one action.", path: ['actions'] });
+  }
+  if (actions.markAsIncome && conditions.type === 'outflow') {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Only inflows can be marked as income.",
+      path: ['actions', 'markAsIncome'],
+    });
+  }
+});
+
+export const sharedBudgetSchema = z.object({
+  name: z.string().trim().min(1, "Budget name is required.").max(60, "Budget name is too long."),
+});
+
+export const budgetInviteSchema = z.object({
+  email: z.string().trim().min(1, "Email is required.").email("Enter a valid email address."),
+  role: z.enum(['editor', 'viewer']),
+});
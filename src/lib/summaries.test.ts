@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { buildSummaryContext, diffSummaries, withLoadedTransactions } from "@/lib/summaries";
+import type { UndoDocument } from "@/lib/undo";
+import type { Transaction } from "@/types";
+
+const PATH = "budgets/family/transactions";
+
+const rent: Transaction = {
+  id: "rent", userId: "alice", accountId: "checking", envelopeId: "housing", payeeId: "landlord", amount: 120000,
+  type: "outflow", description: undefined, date: "2025-01-01T00:00:00.000Z", createdAt: "2025-01-01T00:00:00.000Z",
+  isTransfer: false, isActualIncome: false,
+};
+
+describe("withLoadedTransactions", () => {
+  const getLoaded = (path: string) => path === `${PATH}/rent` ? rent : undefined;
+
+  it("fills in a loaded transaction the cache didn't have, as it's stored", () => {
+    const [document] = withLoadedTransactions([{ path: `${PATH}/rent`, data: null }], getLoaded);
+    expect(document.data).toEqual({
+      userId: "alice", accountId: "checking", envelopeId: "housing", payeeId: "landlord", amount: 120000, type: "outflow",
+      date: "2025-01-01T00:00:00.000Z", createdAt: "2025-01-01T00:00:00.000Z", isTransfer: false, isActualIncome: false,
+    });
+  });
+
+  it("keeps what was read, and leaves documents nothing loaded as missing", () => {
+    const cached = { path: `${PATH}/rent`, data: { amount: 125000 } };
+    const added = { path: `${PATH}/new`, data: null };
+    expect(withLoadedTransactions([cached, added], getLoaded)).toEqual([cached, added]);
+  });
+});
+
+describe("an edit to a transaction outside the loaded window", () => {
+  // Reconciling an old transaction offline: the cache doesn't have it, but the unreconciled list loaded it
+  it("changes the summaries by the edit alone", () => {
+    const uncached: UndoDocument = { path: `${PATH}/rent`, data: null };
+    const [{ data: before }] = withLoadedTransactions([uncached], () => rent);
+    const after = { ...before!, status: "reconciled" };
+    const delta = diffSummaries([{ id: "rent", ...before! } as Transaction], [{ id: "rent", ...after } as Transaction], buildSummaryContext([]))
+      .get("2025-01")!;
+    expect(delta.transactionCount).toBe(0);
+    expect(delta.accounts.checking).toEqual({ transactionCount: 0, balance: 0, clearedBalance: -120000 });
+    expect(delta.outflow).toEqual({ checking: 0 });
+  });
+});
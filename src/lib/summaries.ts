@@ -0,0 +1,171 @@
+import { increment, type DocumentData, type FieldValue } from "firebase/firestore";
+import type { Account, CurrencySettings, Envelope, Money, RateAmounts, Transaction, TransactionMonthSummary } from "@/types";
+import { getLedgerRate } from "@/lib/currency";
+import { multiplyMoney } from "@/lib/money";
+import { getSignedAmount, getTransactionEnvelopeAllocations, getTransactionStatus } from "@/lib/transactions";
+
+// Bumped whenever the summary layout changes, so stored summaries are rebuilt from the transactions.
+// 2: amounts in minor units.
+// 3: amounts without a stored rate kept by account rather than currency, so they follow a change of currency.
+export const TRANSACTION_SUMMARIES_VERSION = 3;
+
+// Rate key for amounts already converted at the rate stored on the transaction
+const LEDGER_RATE_KEY = 'ledger';
+
+// What a summary needs to know about the rest of the budget to file a transaction
+export interface SummaryContext {
+  getPaymentEnvelopeId: (accountId: string) => string | undefined;
+}
+
+export function buildSummaryContext(envelopes: Envelope[]): SummaryContext {
+  return {
+    getPaymentEnvelopeId: accountId => envelopes.find(env => env.linkedAccountId === accountId)?.id,
+  };
+}
+
+// Each account's currency, by account id; what summary amounts kept by account are converted from
+export type AccountCurrencies = Record<string, string>;
+
+export function getAccountCurrencies(accounts: Account[], settings: CurrencySettings): AccountCurrencies {
+  return Object.fromEntries(accounts.map(acc => [acc.id, acc.currency || settings.ledgerCurrency]));
+}
+
+// Where transactions without a readable date are filed; it sorts before every real month
+export const UNDATED_MONTH = '0000-00';
+
+/** The month a transaction is summarized under, "YYYY-MM", as written in its date. */
+export function getTransactionMonth(transaction: Pick<Transaction, 'date'>): string {
+  const month = (transaction.date ?? "").slice(0, 7);
+  return /^\d{4}-\d{2}$/.test(month) ? month : UNDATED_MONTH;
+}
+
+/** Envelopes a transaction is filed under, stored on the document so they can be queried. */
+export function getTransactionEnvelopeIds(transaction: Transaction): string[] {
+  return Array.from(new Set(getTransactionEnvelopeAllocations(transaction).map(allocation => allocation.envelopeId))).sort();
+}
+
+export function createMonthSummary(month: string): TransactionMonthSummary {
+  return { id: month, transactionCount: 0, accounts: {}, envelopes: {}, cardPayments: {}, income: {}, outflow: {} };
+}
+
+function addRateAmount(amounts: RateAmounts, key: string, amount: Money) {
+  if (amount === 0 || isNaN(amount)) return;
+  amounts[key] = (amounts[key] ?? 0) + amount;
+}
+
+/**
+ * Adds a transaction to its month's summary, or takes it out again with a sign of -1. Mirrors the
+ * balance selectors: account balances in the account's currency, everything else kept by account so it
+ * can be converted to the base currency from the account's current currency at today's rates, as the
+ * selectors do. Amounts converted at a transaction's own rate are rounded to the cent one by one, like
+ * getTransactionBaseAmount.
+ */
+export function addTransactionToSummary(summary: TransactionMonthSummary, tx: Transaction, context: SummaryContext, sign: 1 | -1) {
+  const rateKey = tx.exchangeRate !== undefined ? LEDGER_RATE_KEY : tx.accountId;
+  const inRateKey = (amount: Money) => sign * (tx.exchangeRate !== undefined ? multiplyMoney(amount, tx.exchangeRate) : amount);
+  const amount = (typeof tx.amount === 'number' && !isNaN(tx.amount)) ? tx.amount : 0;
+
+  summary.transactionCount += sign;
+
+  const account = summary.accounts[tx.accountId] ??= { transactionCount: 0, balance: 0, clearedBalance: 0 };
+  account.transactionCount += sign;
+  account.balance += sign * getSignedAmount(tx);
+  if (getTransactionStatus(tx) !== 'uncleared') account.clearedBalance += sign * getSignedAmount(tx);
+
+  getTransactionEnvelopeAllocations(tx).forEach(allocation => {
+    const envelope = summary.envelopes[allocation.envelopeId] ??= { spent: {}, inflows: {} };
+    addRateAmount(tx.type === 'outflow' ? envelope.spent : envelope.inflows, rateKey, inRateKey(allocation.amount));
+  });
+
+  // Same rules as getCardPaymentActivity, filed by the card account
+  const paymentEnvelopeId = context.getPaymentEnvelopeId(tx.accountId);
+  const card = summary.cardPayments[tx.accountId] ??= { moneyIn: {}, moneyOut: {} };
+  if (tx.isTransfer) {
+    if (tx.type === 'inflow') addRateAmount(card.moneyOut, rateKey, inRateKey(amount));
+  } else {
+    const categorized = getTransactionEnvelopeAllocations(tx)
+      .filter(allocation => allocation.envelopeId !== paymentEnvelopeId)
+      .reduce((sum, allocation) => sum + allocation.amount, 0);
+    addRateAmount(tx.type === 'outflow' ? card.moneyIn : card.moneyOut, rateKey, inRateKey(categorized));
+  }
+
+  if (!tx.isTransfer) {
+    if (tx.type === 'inflow' && tx.isActualIncome) addRateAmount(summary.income, rateKey, inRateKey(amount));
+    if (tx.type === 'outflow') addRateAmount(summary.outflow, rateKey, inRateKey(amount));
+  }
+}
+
+/** Month summaries of the given transactions, keyed by month. */
+export function summarizeTransactions(transactions: Transaction[], context: SummaryContext): Map<string, TransactionMonthSummary> {
+  const summaries = new Map<string, TransactionMonthSummary>();
+  transactions.forEach(tx => {
+    const month = getTransactionMonth(tx);
+    if (!summaries.has(month)) summaries.set(month, createMonthSummary(month));
+    addTransactionToSummary(summaries.get(month)!, tx, context, 1);
+  });
+  return summaries;
+}
+
+/** How each month's summary changes when the `before` versions of some transactions become `after`. */
+export function diffSummaries(before: Transaction[], after: Transaction[], context: SummaryContext): Map<string, TransactionMonthSummary> {
+  const deltas = new Map<string, TransactionMonthSummary>();
+  const apply = (tx: Transaction, sign: 1 | -1) => {
+    const month = getTransactionMonth(tx);
+    if (!deltas.has(month)) deltas.set(month, createMonthSummary(month));
+    addTransactionToSummary(deltas.get(month)!, tx, context, sign);
+  };
+  before.forEach(tx => apply(tx, -1));
+  after.forEach(tx => apply(tx, 1));
+  return deltas;
+}
+
+/**
+ * Fills in the transactions that read as missing before a write with the copies already loaded. Offline, the
+ * cache only has what's been listened to, so a stored transaction outside the loaded window reads as missing,
+ * and an edit to it would count as a new transaction. Every transaction the app edits has been loaded.
+ */
+export function withLoadedTransactions<T extends { path: string; data: DocumentData | null }>(
+  documents: T[],
+  getLoaded: (path: string) => Transaction | undefined
+): T[] {
+  return documents.map(document => {
+    const loaded = document.data ? undefined : getLoaded(document.path);
+    if (!loaded) return document;
+    // Stored as it would be read back; fields left out are missing rather than undefined
+    const { id, ...data } = loaded;
+    return { ...document, data: Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined)) };
+  });
+}
+
+type IncrementData = { [key: string]: FieldValue | IncrementData };
+
+/**
+ * Turns a summary delta into fields for a merging set, incrementing every number that changed.
+ * Increments add up in any order, so devices changing the same month don't overwrite each other.
+ * Returns null when nothing changed.
+ */
+export function toIncrementData(delta: TransactionMonthSummary): IncrementData | null {
+  const convert = (value: unknown): FieldValue | IncrementData | null => {
+    // Amounts are whole cents, so an edit that changes nothing nets out to exactly zero
+    if (typeof value === 'number') return value === 0 ? null : increment(value);
+    if (!value || typeof value !== 'object') return null;
+    const fields: IncrementData = {};
+    Object.entries(value).forEach(([key, child]) => {
+      const converted = convert(child);
+      if (converted) fields[key] = converted;
+    });
+    return Object.keys(fields).length > 0 ? fields : null;
+  };
+  // The month id is a string, so it's left out with everything else that isn't a number
+  return convert(delta) as IncrementData | null;
+}
+
+/** Converts per-rate amounts to the base currency at the accounts' currencies and current rates, rounded to the cent. */
+export function rateAmountsToBase(amounts: RateAmounts | undefined, settings: CurrencySettings, accountCurrencies: AccountCurrencies): Money {
+  if (!amounts) return 0;
+  const baseRate = getLedgerRate(settings, settings.baseCurrency) ?? 1;
+  const inLedger = Object.entries(amounts).reduce((sum, [key, amount]) => sum + (key === LEDGER_RATE_KEY
+    ? amount
+    : amount * (getLedgerRate(settings, accountCurrencies[key] || settings.ledgerCurrency) ?? 1)), 0);
+  return Math.round(inLedger / baseRate);
+}
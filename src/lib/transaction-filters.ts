@@ -0,0 +1,120 @@
+import { endOfMonth, format, isValid, parseISO, startOfMonth } from "date-fns";
+import type { Envelope, Payee, Transaction, TransactionFilters, TransactionStatus } from "@/types";
+import { getTransactionEnvelopeAllocations, getTransactionStatus } from "@/lib/transactions";
+import { formatMoneyInput, parseMoney } from "@/lib/money";
+
+// Query string keys for each filter, kept short so deep links stay readable
+const PARAM_KEYS = {
+  query: 'q',
+  from: 'from',
+  to: 'to',
+  accountId: 'account',
+  envelopeId: 'envelope',
+  category: 'category',
+  payeeId: 'payee',
+  type: 'type',
+  minAmount: 'min',
+  maxAmount: 'max',
+  transfers: 'transfers',
+  income: 'income',
+  status: 'status',
+} as const satisfies Record<keyof TransactionFilters, string>;
+
+const transactionStatuses: TransactionStatus[] = ['uncleared', 'cleared', 'reconciled'];
+
+const isDateString = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value) && isValid(parseISO(value));
+
+function pick<T extends string>(value: string | null, options: readonly T[]): T | undefined {
+  return options.includes(value as T) ? value as T : undefined;
+}
+
+/** Reads filters from a query string, dropping anything malformed. */
+export function parseTransactionFilters(params: { get(key: string): string | null }): TransactionFilters {
+  const get = (key: keyof TransactionFilters) => params.get(PARAM_KEYS[key])?.trim() || null;
+  const filters: TransactionFilters = {
+    query: get('query') ?? undefined,
+    from: get('from') && isDateString(get('from')!) ? get('from')! : undefined,
+    to: get('to') && isDateString(get('to')!) ? get('to')! : undefined,
+    accountId: get('accountId') ?? undefined,
+    envelopeId: get('envelopeId') ?? undefined,
+    category: get('category') ?? undefined,
+    payeeId: get('payeeId') ?? undefined,
+    type: pick(get('type'), ['inflow', 'outflow'] as const),
+    minAmount: parseMoney(get('minAmount')),
+    maxAmount: parseMoney(get('maxAmount')),
+    transfers: pick(get('transfers'), ['only', 'exclude'] as const),
+    income: pick(get('income'), ['only', 'exclude'] as const),
+    status: pick(get('status'), transactionStatuses),
+  };
+  return Object.fromEntries(Object.entries(filters).filter(([, value]) => value !== undefined)) as TransactionFilters;
+}
+
+/** The query string for a set of filters, without the leading "?". Empty when nothing is filtered. */
+export function serializeTransactionFilters(filters: TransactionFilters): string {
+  const params = new URLSearchParams();
+  (Object.keys(PARAM_KEYS) as (keyof TransactionFilters)[]).forEach(key => {
+    const value = filters[key];
+    if (value === undefined || value === "") return;
+    // Amounts are linked in whole units, as they're typed
+    params.set(PARAM_KEYS[key], key === 'minAmount' || key === 'maxAmount' ? formatMoneyInput(value as number) : String(value));
+  });
+  return params.toString();
+}
+
+/** Link to the All Transactions page with the given filters applied. */
+export function getTransactionsHref(filters: TransactionFilters): string {
+  const query = serializeTransactionFilters(filters);
+  return query ? `/dashboard/transactions?${query}` : "/dashboard/transactions";
+}
+
+/** Filters covering a whole calendar month, for deep links from monthly figures. */
+export function getMonthDateFilters(month: Date): Pick<TransactionFilters, 'from' | 'to'> {
+  return {
+    from: format(startOfMonth(month), "yyyy-MM-dd"),
+    to: format(endOfMonth(month), "yyyy-MM-dd"),
+  };
+}
+
+export function countActiveFilters(filters: TransactionFilters): number {
+  return Object.values(filters).filter(value => value !== undefined && value !== "").length;
+}
+
+/**
+ * Applies every set filter. Envelope and category match split lines too, and the amount
+ * range is on the transaction's own amount, in its account's currency.
+ */
+export function filterTransactions(
+  transactions: Transaction[],
+  filters: TransactionFilters,
+  lookups: { payees: Payee[]; envelopes: Envelope[] },
+): Transaction[] {
+  const query = filters.query?.toLowerCase();
+  const payeeNames = new Map(lookups.payees.map(payee => [payee.id, payee.name.toLowerCase()]));
+  const envelopeCategories = new Map(lookups.envelopes.map(envelope => [envelope.id, envelope.category]));
+
+  return transactions.filter(tx => {
+    const parsedDate = parseISO(tx.date);
+    const txDate = isValid(parsedDate) ? format(parsedDate, "yyyy-MM-dd") : "";
+    if (filters.from && txDate < filters.from) return false;
+    if (filters.to && txDate > filters.to) return false;
+    if (filters.accountId && tx.accountId !== filters.accountId) return false;
+    if (filters.payeeId && tx.payeeId !== filters.payeeId) return false;
+    if (filters.type && tx.type !== filters.type) return false;
+    if (filters.minAmount !== undefined && tx.amount < filters.minAmount) return false;
+    if (filters.maxAmount !== undefined && tx.amount > filters.maxAmount) return false;
+    if (filters.transfers && !!tx.isTransfer !== (filters.transfers === 'only')) return false;
+    if (filters.income && !!tx.isActualIncome !== (filters.income === 'only')) return false;
+    if (filters.status && getTransactionStatus(tx) !== filters.status) return false;
+
+    if (filters.envelopeId || filters.category) {
+      const envelopeIds = getTransactionEnvelopeAllocations(tx).map(allocation => allocation.envelopeId);
+      if (filters.envelopeId && !envelopeIds.includes(filters.envelopeId)) return false;
+      if (filters.category && !envelopeIds.some(id => envelopeCategories.get(id) === filters.category)) return false;
+    }
+    if (query) {
+      const haystack = `${tx.description ?? ""} ${payeeNames.get(tx.payeeId) ?? ""}`.toLowerCase();
+      if (!haystack.includes(query)) return false;
+    }
+    return true;
+  });
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import { replaceRuleReference, runTransactionRules, type TransactionRuleSubject } from "@/lib/transaction-rules";
+import type { TransactionRule, TransactionRuleActions, TransactionRuleConditions } from "@/types";
+
+let nextRuleIndex = 0;
+function rule(conditions: TransactionRuleConditions, actions: TransactionRuleActions, overrides: Partial<TransactionRule> = {}): TransactionRule {
+  const orderIndex = nextRuleIndex++;
+  return {
+    id: `rule-${orderIndex}`, userId: "alice", name: `Rule ${orderIndex}`, conditions, actions, enabled: true, orderIndex,
+    createdAt: "2026-01-01T00:00:00.000Z", ...overrides,
+  };
+}
+
+const coffee: TransactionRuleSubject = { accountId: "checking", payeeId: "starbucks", amount: 475, type: "outflow", description: "SBUX #1234" };
+
+describe("runTransactionRules", () => {
+  it("files a transaction with the first matching rule", () => {
+    const rules = [
+      rule({ payeeId: "acme" }, { envelopeId: "office" }),
+      rule({ payeeId: "starbucks" }, { envelopeId: "coffee" }, { id: "coffee-rule" }),
+      rule({ description: { match: "contains", pattern: "sbux" } }, { envelopeId: "dining" }),
+    ];
+    expect(runTransactionRules(coffee, rules)).toEqual({ changes: { envelopeId: "coffee" }, ruleIds: ["coffee-rule"] });
+  });
+
+  it("lets later rules match on what earlier ones changed", () => {
+    const rules = [
+      rule({ description: { match: "regex", pattern: "^SBUX" } }, { payeeId: "coffee-shop" }),
+      rule({ payeeId: "coffee-shop" }, { envelopeId: "coffee" }),
+    ];
+    expect(runTransactionRules({ ...coffee, payeeId: "" }, rules).changes).toEqual({ payeeId: "coffee-shop", envelopeId: "coffee" });
+  });
+
+  it("skips disabled rules", () => {
+    const rules = [rule({ payeeId: "starbucks" }, { envelopeId: "dining" }, { enabled: false }), rule({ payeeId: "starbucks" }, { envelopeId: "coffee" })];
+    expect(runTransactionRules(coffee, rules).changes).toEqual({ envelopeId: "coffee" });
+  });
+
+  it.each<[string, Partial<TransactionRuleSubject>, object]>([
+    ["an envelope", { envelopeId: "groceries" }, {}],
+    ["income", { type: "inflow", isActualIncome: true }, {}],
+    ["only a payee", {}, { envelopeId: "coffee" }],
+  ])("only fills in what's missing, for a transaction with %s", (_, filed, changes) => {
+    const rules = [rule({ accountId: "checking" }, { envelopeId: "coffee", payeeId: "coffee-shop" })];
+    expect(runTransactionRules({ ...coffee, ...filed }, rules).changes).toEqual(changes);
+  });
+
+  it("replaces what's already set when told to overwrite", () => {
+    const rules = [rule({ payeeId: "starbucks" }, { envelopeId: "coffee", payeeId: "coffee-shop" })];
+    const subject = { ...coffee, envelopeId: "groceries" };
+    expect(runTransactionRules(subject, rules).changes).toEqual({});
+    expect(runTransactionRules(subject, rules, true).changes).toEqual({ envelopeId: "coffee", payeeId: "coffee-shop" });
+  });
+
+  it("marks inflows as income instead of filing them, and leaves outflows alone", () => {
+    const rules = [rule({ payeeId: "acme" }, { markAsIncome: true })];
+    const paycheck: TransactionRuleSubject = { accountId: "checking", payeeId: "acme", amount: 250000, type: "inflow" };
+    expect(runTransactionRules(paycheck, rules).changes).toEqual({ isActualIncome: true });
+    expect(runTransactionRules({ ...paycheck, type: "outflow" }, rules).changes).toEqual({});
+  });
+
+  it.each<[string, Partial<TransactionRuleSubject>]>([
+    ["transfers", { isTransfer: true }],
+    ["loan interest charges", { loanPaymentId: "payment" }],
+  ])("never changes %s", (_, kind) => {
+    const rules = [rule({ payeeId: "starbucks" }, { envelopeId: "coffee", memo: "Treat" })];
+    expect(runTransactionRules({ ...coffee, ...kind }, rules)).toEqual({ changes: {}, ruleIds: [] });
+  });
+
+  it("keeps the envelopes of a split transaction, but still adds memos", () => {
+    const rules = [rule({ payeeId: "starbucks" }, { envelopeId: "coffee", memo: "Treat" })];
+    const split = { ...coffee, splits: [{ envelopeId: "coffee", amount: 275 }, { envelopeId: "groceries", amount: 200 }] };
+    expect(runTransactionRules(split, rules, true).changes).toEqual({ description: "SBUX #1234 · Treat" });
+  });
+
+  it("adds each memo once", () => {
+    const rules = [rule({ payeeId: "starbucks" }, { memo: "Treat" }), rule({ accountId: "checking" }, { memo: "treat" })];
+    const { changes, ruleIds } = runTransactionRules(coffee, rules);
+    expect(changes).toEqual({ description: "SBUX #1234 · Treat" });
+    expect(ruleIds).toEqual([rules[0].id]);
+    // Running the rules again over the result changes nothing
+    expect(runTransactionRules({ ...coffee, ...changes }, rules).changes).toEqual({});
+  });
+
+  it("uses the memo as the description when there's none", () => {
+    const rules = [rule({ payeeId: "starbucks" }, { memo: "Treat" })];
+    expect(runTransactionRules({ ...coffee, description: undefined }, rules).changes).toEqual({ description: "Treat" });
+  });
+});
+
+describe("replaceRuleReference", () => {
+  const coffeeRule = rule({ payeeId: "starbucks", accountId: "checking" }, { envelopeId: "coffee", payeeId: "starbucks" });
+
+  it("moves references to the payee that replaces a merged one", () => {
+    expect(replaceRuleReference(coffeeRule, "payeeId", "starbucks", "coffee-shop")).toEqual({
+      ...coffeeRule,
+      conditions: { payeeId: "coffee-shop", accountId: "checking" },
+      actions: { envelopeId: "coffee", payeeId: "coffee-shop" },
+    });
+  });
+
+  it("drops a rule that only applied to a deleted payee or account", () => {
+    expect(replaceRuleReference(coffeeRule, "payeeId", "starbucks")).toBeNull();
+    expect(replaceRuleReference(coffeeRule, "accountId", "checking")).toBeNull();
+  });
+
+  it("drops a deleted envelope from the actions, and the rule once it has nothing left to do", () => {
+    const withMemo = rule({ payeeId: "starbucks" }, { envelopeId: "coffee", memo: "Treat" });
+    expect(replaceRuleReference(withMemo, "envelopeId", "coffee")).toEqual({ ...withMemo, actions: { memo: "Treat" } });
+    const envelopeOnly = rule({ payeeId: "starbucks" }, { envelopeId: "coffee" });
+    expect(replaceRuleReference(envelopeOnly, "envelopeId", "coffee")).toBeNull();
+  });
+
+  it("returns a rule that doesn't refer to it as is", () => {
+    expect(replaceRuleReference(coffeeRule, "envelopeId", "groceries")).toBe(coffeeRule);
+  });
+});
@@ -0,0 +1,208 @@
+import type {
+  Transaction,
+  TransactionRule,
+  TransactionRuleActions,
+  TransactionRuleChanges,
+  TransactionRuleConditions,
+  TransactionRuleTextMatch,
+} from "@/types";
+
+export const transactionRuleTextMatches: readonly TransactionRuleTextMatch[] = ['contains', 'regex'];
+
+export const transactionRuleTextMatchLabels: Record<TransactionRuleTextMatch, string> = {
+  contains: "Contains",
+  regex: "Matches regex",
+};
+
+// Same limit as the transaction schema; a memo that would run past it isn't added
+const MAX_DESCRIPTION_LENGTH = 200;
+
+// What rules look at and change: a stored transaction, or one about to be created or imported
+export type TransactionRuleSubject = Pick<Transaction, 'accountId' | 'payeeId' | 'amount' | 'type'>
+  & Partial<Pick<Transaction, 'description' | 'splits' | 'isTransfer' | 'isActualIncome' | 'loanPaymentId'>>
+  & { envelopeId?: string | null };
+
+const compileRegex = (pattern: string): RegExp | null => {
+  try {
+    return new RegExp(pattern, "i");
+  } catch {
+    return null;
+  }
+};
+
+export function isValidRulePattern(description: NonNullable<TransactionRuleConditions['description']>): boolean {
+  if (description.pattern.trim() === "") return false;
+  return description.match === 'regex' ? compileRegex(description.pattern) !== null : true;
+}
+
+const textMatches = (description: NonNullable<TransactionRuleConditions['description']>, text: string): boolean =>
+  description.match === 'regex'
+    ? compileRegex(description.pattern)?.test(text) ?? false
+    : text.toLowerCase().includes(description.pattern.trim().toLowerCase());
+
+export function hasRuleConditions(conditions: TransactionRuleConditions): boolean {
+  return !!conditions.payeeId || !!conditions.description || !!conditions.type || !!conditions.accountId
+    || conditions.minAmount !== undefined || conditions.maxAmount !== undefined;
+}
+
+export function hasRuleActions(actions: TransactionRuleActions): boolean {
+  return !!actions.envelopeId || !!actions.payeeId || !!actions.markAsIncome || !!actions.memo;
+}
+
+/** Whether a transaction meets every condition. A rule without conditions matches nothing. */
+export function transactionRuleMatches(conditions: TransactionRuleConditions, subject: TransactionRuleSubject): boolean {
+  if (!hasRuleConditions(conditions)) return false;
+  if (conditions.payeeId && subject.payeeId !== conditions.payeeId) return false;
+  if (conditions.accountId && subject.accountId !== conditions.accountId) return false;
+  if (conditions.type && subject.type !== conditions.type) return false;
+  if (conditions.minAmount !== undefined && subject.amount < conditions.minAmount) return false;
+  if (conditions.maxAmount !== undefined && subject.amount > conditions.maxAmount) return false;
+  if (conditions.description && !textMatches(conditions.description, subject.description ?? "")) return false;
+  return true;
+}
+
+const withMemo = (description: string | undefined, memo: string): string | undefined => {
+  const trimmed = memo.trim();
+  if (!trimmed) return description;
+  if (!description?.trim()) return trimmed;
+  // Running the rules again doesn't add the memo twice
+  if (description.toLowerCase().includes(trimmed.toLowerCase())) return description;
+  const combined = `${description} · ${trimmed}`;
+  return combined.length > MAX_DESCRIPTION_LENGTH ? description : combined;
+};
+
+/**
+ * Runs the enabled rules over a transaction, in order, and returns what they change. Conditions see the changes
+ * earlier rules made, and the first rule to set the envelope (or mark as income) or the payee wins that field.
+ * By default rules only fill in what the transaction doesn't have: an envelope when it has none and isn't income,
+ * a payee when it has none. With overwrite they replace those too. Memos are added whenever a rule matches.
+ * Transfers, interest charges and split envelopes are never changed.
+ */
+export function runTransactionRules(
+  subject: TransactionRuleSubject,
+  rules: TransactionRule[],
+  overwrite = false,
+): { changes: TransactionRuleChanges; ruleIds: string[] } {
+  const ruleIds: string[] = [];
+  if (subject.isTransfer || subject.loanPaymentId) return { changes: {}, ruleIds };
+
+  const current = { ...subject };
+  let envelopeClaimed = false;
+  let payeeClaimed = false;
+  for (const rule of rules) {
+    if (!rule.enabled || !transactionRuleMatches(rule.conditions, current)) continue;
+    const { actions } = rule;
+    const before = { ...current };
+
+    const hasSplits = !!current.splits && current.splits.length > 0;
+    const isFiled = !!current.envelopeId || !!current.isActualIncome || hasSplits;
+    const setsIncome = !!actions.markAsIncome && current.type === 'inflow';
+    if (!envelopeClaimed && !hasSplits && (overwrite || !isFiled) && (setsIncome || actions.envelopeId)) {
+      envelopeClaimed = true;
+      if (setsIncome) {
+        current.isActualIncome = true;
+        current.envelopeId = null;
+      } else {
+        current.isActualIncome = false;
+        current.envelopeId = actions.envelopeId;
+      }
+    }
+    if (!payeeClaimed && actions.payeeId && (overwrite || !current.payeeId)) {
+      payeeClaimed = true;
+      current.payeeId = actions.payeeId;
+    }
+    if (actions.memo) current.description = withMemo(current.description, actions.memo);
+
+    if (current.envelopeId !== before.envelopeId || current.isActualIncome !== before.isActualIncome
+      || current.payeeId !== before.payeeId || current.description !== before.description) {
+      ruleIds.push(rule.id);
+    }
+  }
+
+  const changes: TransactionRuleChanges = {};
+  if ((current.envelopeId || null) !== (subject.envelopeId || null)) changes.envelopeId = current.envelopeId || null;
+  if (!!current.isActualIncome !== !!subject.isActualIncome) changes.isActualIncome = !!current.isActualIncome;
+  if (current.payeeId !== subject.payeeId) changes.payeeId = current.payeeId;
+  if (current.description !== subject.description) changes.description = current.description;
+  return { changes, ruleIds };
+}
+
+/** The transaction data with the rules' changes applied. */
+export function applyTransactionRuleChanges<T extends TransactionRuleSubject>(data: T, changes: TransactionRuleChanges): T {
+  return {
+    ...data,
+    ...('envelopeId' in changes && { envelopeId: changes.envelopeId ?? undefined }),
+    ...(changes.isActualIncome !== undefined && { isActualIncome: changes.isActualIncome }),
+    ...(changes.payeeId !== undefined && { payeeId: changes.payeeId }),
+    ...(changes.description !== undefined && { description: changes.description }),
+  };
+}
+
+/**
+ * The rule with its references to a payee, envelope or account moved to another one, or dropped when there's
+ * none to move to. Null when the rule is left with nothing to do: it only applied to what's gone, or setting it
+ * was its only action. A rule that doesn't refer to it comes back as is.
+ */
+export function replaceRuleReference(
+  rule: TransactionRule,
+  field: 'payeeId' | 'envelopeId' | 'accountId',
+  fromId: string,
+  toId?: string,
+): TransactionRule | null {
+  const conditions = { ...rule.conditions };
+  const actions = { ...rule.actions };
+  let changed = false;
+  if ((field === 'payeeId' || field === 'accountId') && conditions[field] === fromId) {
+    if (!toId) return null;
+    conditions[field] = toId;
+    changed = true;
+  }
+  if ((field === 'payeeId' || field === 'envelopeId') && actions[field] === fromId) {
+    if (toId) actions[field] = toId;
+    else delete actions[field];
+    changed = true;
+  }
+  if (!changed) return rule;
+  return hasRuleActions(actions) ? { ...rule, conditions, actions } : null;
+}
+
+const nonEmptyString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() !== "" ? value : undefined;
+
+const finiteNumber = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+/** Conditions as stored, without malformed fields. */
+export function sanitizeRuleConditions(value: unknown): TransactionRuleConditions {
+  const data = (value && typeof value === 'object' ? value : {}) as { [key: string]: any };
+  const conditions: TransactionRuleConditions = {};
+  const payeeId = nonEmptyString(data.payeeId);
+  if (payeeId) conditions.payeeId = payeeId;
+  const accountId = nonEmptyString(data.accountId);
+  if (accountId) conditions.accountId = accountId;
+  if (data.type === 'inflow' || data.type === 'outflow') conditions.type = data.type;
+  const minAmount = finiteNumber(data.minAmount);
+  if (minAmount !== undefined) conditions.minAmount = minAmount;
+  const maxAmount = finiteNumber(data.maxAmount);
+  if (maxAmount !== undefined) conditions.maxAmount = maxAmount;
+  const description = data.description;
+  if (description && typeof description.pattern === 'string' && transactionRuleTextMatches.includes(description.match)
+    && isValidRulePattern(description)) {
+    conditions.description = { match: description.match, pattern: description.pattern };
+  }
+  return conditions;
+}
+
+/** Actions as stored, without malformed fields. */
+export function sanitizeRuleActions(value: unknown): TransactionRuleActions {
+  const data = (value && typeof value === 'object' ? value : {}) as { [key: string]: any };
+  const actions: TransactionRuleActions = {};
+  const envelopeId = nonEmptyString(data.envelopeId);
+  if (envelopeId) actions.envelopeId = envelopeId;
+  const payeeId = nonEmptyString(data.payeeId);
+  if (payeeId) actions.payeeId = payeeId;
+  if (data.markAsIncome === true) actions.markAsIncome = true;
+  const memo = nonEmptyString(data.memo);
+  if (memo) actions.memo = memo.trim();
+  return actions;
+}
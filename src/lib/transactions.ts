@@ -0,0 +1,63 @@
+import type { Money, Transaction, TransactionSplit, TransactionStatus } from "@/types";
+
+export interface EnvelopeAllocation {
+  envelopeId: string;
+  amount: Money;
+}
+
+const safeAmount = (amount: unknown): Money =>
+  (typeof amount === 'number' && !isNaN(amount)) ? amount : 0;
+
+export function hasSplits(transaction: Pick<Transaction, 'splits'>): boolean {
+  return !!transaction.splits && transaction.splits.length > 0;
+}
+
+/**
+ * Lists how much of a transaction lands in each envelope: the split lines when the
+ * transaction is split, otherwise its full amount against its single envelope.
+ */
+export function getTransactionEnvelopeAllocations(transaction: Transaction): EnvelopeAllocation[] {
+  if (hasSplits(transaction)) {
+    return transaction.splits!
+      .filter((line): line is TransactionSplit & { envelopeId: string } => !!line.envelopeId)
+      .map(line => ({ envelopeId: line.envelopeId, amount: safeAmount(line.amount) }));
+  }
+  return transaction.envelopeId ? [{ envelopeId: transaction.envelopeId, amount: safeAmount(transaction.amount) }] : [];
+}
+
+export function getTransactionAmountForEnvelope(transaction: Transaction, envelopeId: string): Money {
+  return getTransactionEnvelopeAllocations(transaction)
+    .filter(allocation => allocation.envelopeId === envelopeId)
+    .reduce((sum, allocation) => sum + allocation.amount, 0);
+}
+
+export function transactionTouchesEnvelope(transaction: Transaction, envelopeId: string): boolean {
+  return getTransactionEnvelopeAllocations(transaction).some(allocation => allocation.envelopeId === envelopeId);
+}
+
+// Cleans split lines for storage: numeric amounts, no empty memos, no empty envelope ids.
+export function sanitizeSplits(splits: TransactionSplit[] | undefined | null): TransactionSplit[] {
+  if (!Array.isArray(splits)) return [];
+  return splits.map(line => {
+    const cleaned: TransactionSplit = { amount: Number(line.amount) || 0 };
+    if (line.envelopeId && line.envelopeId.trim() !== "") cleaned.envelopeId = line.envelopeId;
+    if (line.memo && line.memo.trim() !== "") cleaned.memo = line.memo.trim();
+    return cleaned;
+  });
+}
+
+export function getTransactionStatus(transaction: Pick<Transaction, 'status'>): TransactionStatus {
+  return transaction.status || 'uncleared';
+}
+
+// The transaction's effect on its account balance: inflows add, outflows subtract.
+export function getSignedAmount(transaction: Pick<Transaction, 'amount' | 'type'>): Money {
+  const amount = safeAmount(transaction.amount);
+  return transaction.type === 'inflow' ? amount : -amount;
+}
+
+// The other leg of a linked transfer pair, if it is loaded.
+export function findTransferCounterpart(transaction: Transaction, transactions: Transaction[]): Transaction | undefined {
+  if (!transaction.transferId) return undefined;
+  return transactions.find(tx => tx.transferId === transaction.transferId && tx.id !== transaction.id);
+}
@@ -0,0 +1,141 @@
+import { doc, getDoc, getDocFromCache, deleteField, FieldValue, FirestoreError, type DocumentData, type SetOptions, type WriteBatch } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+
+export const MAX_UNDO_ENTRIES = 50;
+
+// A document as it was, or null when it didn't exist
+export interface UndoDocument {
+  path: string;
+  data: DocumentData | null;
+}
+
+// Restoring every document of an entry reverses one user action
+export interface UndoEntry {
+  label: string;
+  documents: UndoDocument[];
+}
+
+// One queued write as it was passed to the batch
+interface TrackedWrite {
+  path: string;
+  type: 'set' | 'update' | 'delete';
+  data?: DocumentData;
+  options?: SetOptions;
+}
+
+const trackedWrites = new WeakMap<WriteBatch, TrackedWrite[]>();
+
+/**
+ * Wraps a batch so it remembers every write it queues. The wrapper is still a `WriteBatch`, so it can
+ * be handed to any helper that queues writes.
+ */
+export function trackBatch(batch: WriteBatch): WriteBatch {
+  const writes: TrackedWrite[] = [];
+  const tracked = new Proxy(batch, {
+    get(target, property) {
+      const value = Reflect.get(target, property, target);
+      if (property !== 'set' && property !== 'update' && property !== 'delete') {
+        return typeof value === 'function' ? value.bind(target) : value;
+      }
+      return (ref: { path: string }, ...args: unknown[]) => {
+        writes.push({ path: ref.path, type: property, data: args[0] as DocumentData | undefined, options: args[1] as SetOptions | undefined });
+        (value as (...callArgs: unknown[]) => WriteBatch).call(target, ref, ...args);
+        return tracked;
+      };
+    },
+  });
+  trackedWrites.set(tracked, writes);
+  return tracked;
+}
+
+export function getTrackedPaths(batch: WriteBatch): string[] {
+  return Array.from(new Set((trackedWrites.get(batch) ?? []).map(write => write.path)));
+}
+
+const isDeleteField = (value: unknown) => value instanceof FieldValue && value.isEqual(deleteField());
+
+// Sets a field, following dotted paths into maps as update() does
+function applyField(data: DocumentData, fieldPath: string, value: unknown, dotted: boolean) {
+  const segments = dotted ? fieldPath.split('.') : [fieldPath];
+  let target = data;
+  segments.slice(0, -1).forEach(segment => {
+    target[segment] = target[segment] && typeof target[segment] === 'object' ? { ...target[segment] } : {};
+    target = target[segment];
+  });
+  const last = segments[segments.length - 1];
+  if (isDeleteField(value)) delete target[last];
+  else target[last] = value;
+}
+
+function mergeData(existing: DocumentData, data: DocumentData): DocumentData {
+  const merged: DocumentData = { ...existing };
+  Object.entries(data).forEach(([key, value]) => {
+    const isMap = value && typeof value === 'object' && !Array.isArray(value) && Object.getPrototypeOf(value) === Object.prototype;
+    if (isMap && merged[key] && typeof merged[key] === 'object') merged[key] = mergeData(merged[key], value);
+    else applyField(merged, key, value, false);
+  });
+  return merged;
+}
+
+/**
+ * Works out what the documents will hold once the batch commits, from what they hold now. Sentinels
+ * other than deleteField() are left in place, so fields set from the server, like timestamps, aren't final.
+ */
+export function predictDocuments(batch: WriteBatch, current: UndoDocument[]): UndoDocument[] {
+  const documents = new Map(current.map(document => [document.path, document.data]));
+  (trackedWrites.get(batch) ?? []).forEach(({ path, type, data, options }) => {
+    const existing = documents.get(path) ?? null;
+    if (type === 'delete') {
+      documents.set(path, null);
+    } else if (type === 'update') {
+      const updated: DocumentData = { ...(existing ?? {}) };
+      Object.entries(data ?? {}).forEach(([fieldPath, value]) => applyField(updated, fieldPath, value, true));
+      documents.set(path, updated);
+    } else if (options && ((options as { merge?: boolean }).merge || 'mergeFields' in options)) {
+      documents.set(path, mergeData(existing ?? {}, data ?? {}));
+    } else {
+      documents.set(path, { ...(data ?? {}) });
+    }
+  });
+  return current.map(document => ({ path: document.path, data: documents.get(document.path) ?? null }));
+}
+
+// The listeners keep every budget collection in the local cache, including writes still waiting to sync,
+// so the cache is read first. A document the cache doesn't know is only looked up on the server while
+// online; offline, it can't exist yet.
+async function readDocument(path: string): Promise<DocumentData | null> {
+  const ref = doc(db, path);
+  try {
+    const cached = await getDocFromCache(ref);
+    return cached.exists() ? cached.data() : null;
+  } catch {
+    // Not cached
+  }
+  try {
+    const snapshot = await getDoc(ref);
+    return snapshot.exists() ? snapshot.data() : null;
+  } catch (error) {
+    if (error instanceof FirestoreError && error.code === 'unavailable') return null;
+    throw error;
+  }
+}
+
+/** Reads the current state of each document, so it can be put back later. Works offline. */
+export async function readDocuments(paths: string[]): Promise<UndoDocument[]> {
+  const documents = await Promise.all(paths.map(readDocument));
+  return documents.map((data, index) => ({ path: paths[index], data }));
+}
+
+/** Queues writes that put every document back exactly as recorded. */
+export function queueRestore(batch: WriteBatch, documents: UndoDocument[]) {
+  documents.forEach(({ path, data }) => {
+    if (data) batch.set(doc(db, path), data);
+    else batch.delete(doc(db, path));
+  });
+}
+
+/** Folds a later entry into an earlier one, keeping the earliest recorded state of each document. */
+export function mergeUndoEntries(entry: UndoEntry, later: UndoEntry): UndoEntry {
+  const known = new Set(entry.documents.map(document => document.path));
+  return { label: entry.label, documents: [...entry.documents, ...later.documents.filter(document => !known.has(document.path))] };
+}
@@ -1,40 +1,94 @@
 
+// An amount in integer minor units, e.g. 1234 for $12.34, so adding amounts up is exact. Every currency
+// is kept to two decimal places. See lib/money for converting to and from what's typed and shown.
+export type Money = number;
+
 export interface Account {
   id: string;
   userId: string;
   name: string;
-  initialBalance: number;
+  initialBalance: Money;
   type?: string;
+  currency?: string; // ISO 4217 code; missing means the ledger currency
   createdAt: string;
+  lastReconciledDate?: string; // "YYYY-MM-DD" of the last statement reconciled
+  lastReconciledBalance?: Money;
+  creditLimit?: Money; // Credit cards only
+  loan?: LoanDetails; // Loans only
+}
+
+export interface LoanDetails {
+  principal: Money; // Amount owed on startDate
+  apr: number; // Annual percentage rate, e.g. 6.5 for 6.5%
+  termMonths: number;
+  paymentDay: number; // Day of the month payments are due (1-31)
+  startDate: string; // "YYYY-MM-DD"
+  interestEnvelopeId?: string; // Envelope the interest charges are categorized to
 }
 
 export interface Envelope {
   id: string;
   userId: string;
   name: string;
-  budgetAmount: number; // Default monthly target funding
-  estimatedAmount?: number | undefined;
+  budgetAmount: Money; // Default monthly target funding
+  estimatedAmount?: Money | undefined;
   category: string;
   dueDate?: number;
   orderIndex: number;
   createdAt: string;
+  linkedAccountId?: string; // Set on a credit card's payment envelope
 }
 
 export type TransactionType = 'inflow' | 'outflow'; // Changed from 'income' | 'expense'
 
+// Whether the bank has the transaction yet; 'reconciled' ones are locked to a finished statement
+export type TransactionStatus = 'uncleared' | 'cleared' | 'reconciled';
+
+// One line of a transaction split across several envelopes
+export interface TransactionSplit {
+  envelopeId?: string; // Unset if the envelope has since been deleted
+  amount: Money;
+  memo?: string;
+}
+
 export interface Transaction {
   id:string;
   userId: string;
   accountId: string;
   envelopeId?: string;
   payeeId: string;
-  amount: number;
+  amount: Money;
   type: TransactionType;
   description?: string;
   date: string; // ISO string date
   createdAt: string;
   isTransfer?: boolean;
   isActualIncome?: boolean; // New field
+  importId?: string; // Set when the transaction came from a bank file import
+  splits?: TransactionSplit[]; // When present, replaces envelopeId; lines sum to amount
+  envelopeIds?: string[]; // Every envelope it or its split lines are filed under, stored so envelope pages can query it
+  status?: TransactionStatus; // Missing means 'uncleared'
+  transferId?: string; // Shared by both legs of an account or envelope transfer
+  loanPaymentId?: string; // Set on a loan's interest charge, pointing at the payment it belongs to
+  exchangeRate?: number; // Value of one unit of the account's currency in the ledger currency when entered
+  originalAmount?: Money; // What was charged in a currency other than the account's
+  originalCurrency?: string;
+  createdBy?: TransactionAuthor; // Missing on transactions added before budgets could be shared
+}
+
+// Who added a transaction. The name is kept as it was then, so it still reads right after they leave.
+export interface TransactionAuthor {
+  uid: string;
+  name: string;
+}
+
+// How an alias is compared with a payee name as typed or imported. Exact and contains ignore case, spacing and
+// punctuation; a regex is matched against the raw text, ignoring case.
+export type PayeeAliasMatch = 'exact' | 'contains' | 'regex';
+
+export interface PayeeAlias {
+  match: PayeeAliasMatch;
+  pattern: string;
 }
 
 export interface Payee {
@@ -42,6 +96,7 @@ export interface Payee {
   userId: string;
   name: string;
   category?: string;
+  aliases?: PayeeAlias[]; // Other names that resolve to this payee, e.g. "AMZN Mktp" for Amazon
   createdAt: string;
 }
 
@@ -51,23 +106,26 @@ export interface MonthlyEnvelopeBudget {
   userId: string;
   envelopeId: string;
   month: string; // Format "YYYY-MM"
-  allocatedAmount: number;
+  allocatedAmount: Money;
   createdAt: string; // ISO string
   updatedAt: string; // ISO string
 }
 
 export interface AccountFormData {
   name: string;
-  initialBalance: number;
+  initialBalance: Money; // Negative for money owed on liability accounts
   type?: string;
+  currency?: string;
+  creditLimit?: Money;
+  loan?: LoanDetails;
 }
 
 export type AccountWithId = Partial<AccountFormData> & { id: string };
 
 export interface EnvelopeFormData {
   name: string;
-  budgetAmount: number; // Default monthly target
-  estimatedAmount?: number | undefined;
+  budgetAmount: Money; // Default monthly target
+  estimatedAmount?: Money | undefined;
   category: string;
   dueDate?: number;
 }
@@ -76,19 +134,210 @@ export interface TransactionFormData {
   accountId: string;
   envelopeId?: string | null;
   payeeId: string;
-  amount: number;
+  amount: Money;
   type: TransactionType;
   description?: string;
   date: string;
   isTransfer?: boolean;
   isActualIncome?: boolean; // New field
+  splits?: TransactionSplit[];
+  status?: TransactionStatus;
+  exchangeRate?: number; // In ledger-currency units, see Transaction
+  originalAmount?: Money;
+  originalCurrency?: string;
 }
 
 export type TransactionWithId = Partial<TransactionFormData> & { id: string };
 
+// A transaction parsed from a bank file, ready for review before it is committed.
+// payeeId may be empty, in which case payeeName is used to find or create the payee.
+export interface TransactionImportDraft extends TransactionFormData {
+  payeeName: string;
+  importId?: string;
+}
+
+// A transaction read from a line of quick-entry text, for review in the add form. Only what the text said is
+// set; payeeName is kept when it doesn't resolve to an existing payee.
+export interface QuickEntryDraft extends Partial<Omit<TransactionFormData, 'splits' | 'isTransfer' | 'status'>> {
+  payeeName?: string;
+}
+
+// The records quick-entry text is resolved against. today is the user's local date, yyyy-MM-dd.
+export interface QuickEntryContext {
+  today: string;
+  accounts: Pick<Account, 'id' | 'name'>[];
+  payees: Pick<Payee, 'id' | 'name' | 'aliases'>[];
+  envelopes: Pick<Envelope, 'id' | 'name' | 'category'>[];
+}
+
+// One parsed row of an import file: either a draft or the reason it couldn't be read.
+export interface ImportRowResult {
+  rowNumber: number; // 1-based position in the file, for display
+  draft?: TransactionImportDraft;
+  error?: string;
+}
+
+export type CsvAmountMode = 'signed' | 'debitCredit';
+
+export type CsvDateFormat = 'yyyy-MM-dd' | 'M/d/yyyy' | 'd/M/yyyy' | 'd.M.yyyy';
+
+// Column indexes into the parsed CSV rows. Optional columns use -1 when unmapped.
+export interface CsvColumnMapping {
+  hasHeaderRow: boolean;
+  dateColumn: number;
+  dateFormat: CsvDateFormat;
+  amountMode: CsvAmountMode;
+  amountColumn: number; // Used when amountMode is 'signed'
+  debitColumn: number; // Used when amountMode is 'debitCredit'
+  creditColumn: number; // Used when amountMode is 'debitCredit'
+  descriptionColumn: number;
+  payeeColumn: number;
+}
+
+export interface ReconcileAccountData {
+  accountId: string;
+  statementDate: string; // "YYYY-MM-DD"
+  statementBalance: Money;
+  transactionIds: string[]; // Cleared transactions to lock as reconciled
+  adjustmentAmount?: Money; // Signed amount of an adjustment transaction to add, if any
+}
+
+// One change applied to many transactions at once; transactions a change doesn't fit are left alone
+export interface BulkTransactionChanges {
+  envelopeId?: string;
+  payeeId?: string;
+  accountId?: string;
+  date?: string; // "YYYY-MM-DD"
+  status?: Exclude<TransactionStatus, 'reconciled'>;
+  isActualIncome?: boolean;
+}
+
+// What becomes of the transactions that use an account or payee being deleted: moved to another one, or
+// deleted along with it
+export type OrphanedTransactions = { action: 'reassign'; targetId: string } | { action: 'delete' };
+
+// Narrows a transaction list; every field is optional and unset fields match everything
+export interface TransactionFilters {
+  query?: string; // Matched against description and payee name
+  from?: string; // "YYYY-MM-DD", inclusive
+  to?: string; // "YYYY-MM-DD", inclusive
+  accountId?: string;
+  envelopeId?: string;
+  category?: string;
+  payeeId?: string;
+  type?: TransactionType;
+  minAmount?: Money;
+  maxAmount?: Money;
+  transfers?: 'only' | 'exclude';
+  income?: 'only' | 'exclude';
+  status?: TransactionStatus;
+}
+
+export type RecurrenceFrequency = 'weekly' | 'biweekly' | 'monthly' | 'yearly' | 'everyNMonths';
+
+// A rule that creates the same transaction on a schedule (rent, salary, subscriptions).
+export interface RecurringTransaction {
+  id: string;
+  userId: string;
+  accountId: string;
+  payeeId: string;
+  envelopeId?: string;
+  amount: Money;
+  type: TransactionType;
+  description?: string;
+  isActualIncome?: boolean;
+  frequency: RecurrenceFrequency;
+  dayOfMonth?: number; // For 'monthly' and 'everyNMonths'; clamped to the last day of short months
+  intervalMonths?: number; // For 'everyNMonths'
+  startDate: string; // "YYYY-MM-DD"
+  endDate?: string; // "YYYY-MM-DD", inclusive
+  nextDueDate: string; // "YYYY-MM-DD", the earliest occurrence not yet posted or skipped
+  autoPost: boolean; // Post on the due date without asking
+  createdAt: string; // ISO string
+  updatedAt?: string; // ISO string
+}
+
+export interface RecurringTransactionFormData {
+  accountId: string;
+  payeeId: string;
+  envelopeId?: string | null;
+  amount: Money;
+  type: TransactionType;
+  description?: string;
+  isActualIncome?: boolean;
+  frequency: RecurrenceFrequency;
+  dayOfMonth?: number;
+  intervalMonths?: number;
+  startDate: string;
+  endDate?: string;
+  autoPost: boolean;
+}
+
+export type RecurringTransactionWithId = RecurringTransactionFormData & { id: string };
+
+// How a rule's description text is compared: contains ignores case; a regex is matched ignoring case
+export type TransactionRuleTextMatch = 'contains' | 'regex';
+
+// What a transaction must look like for a rule to apply; unset fields match everything, and a rule needs at least one
+export interface TransactionRuleConditions {
+  payeeId?: string;
+  description?: { match: TransactionRuleTextMatch; pattern: string };
+  type?: TransactionType;
+  minAmount?: Money; // Inclusive, in the account's currency
+  maxAmount?: Money;
+  accountId?: string;
+}
+
+// What a rule does to a transaction it matches; a rule needs at least one
+export interface TransactionRuleActions {
+  envelopeId?: string;
+  payeeId?: string;
+  markAsIncome?: boolean; // Inflows only
+  memo?: string; // Added to the end of the description
+}
+
+// A user-defined rule that files transactions as they're created or imported. Rules run in order, and the first
+// one to set a field wins it.
+export interface TransactionRule {
+  id: string;
+  userId: string;
+  name: string;
+  conditions: TransactionRuleConditions;
+  actions: TransactionRuleActions;
+  enabled: boolean;
+  orderIndex: number;
+  createdAt: string; // ISO string
+  updatedAt?: string; // ISO string
+}
+
+export interface TransactionRuleFormData {
+  name: string;
+  conditions: TransactionRuleConditions;
+  actions: TransactionRuleActions;
+  enabled: boolean;
+}
+
+export type TransactionRuleWithId = TransactionRuleFormData & { id: string };
+
+// The fields rules changed on a transaction; envelopeId is null when marking it as income took its envelope away
+export interface TransactionRuleChanges {
+  envelopeId?: string | null;
+  isActualIncome?: boolean;
+  payeeId?: string;
+  description?: string;
+}
+
+// One transaction a run of the rules would change, as previewed before anything is saved
+export interface TransactionRuleMatch {
+  transaction: Transaction;
+  changes: TransactionRuleChanges;
+  ruleIds: string[]; // The rules that changed something, in the order they ran
+}
+
 export interface PayeeFormData {
   name: string;
   category?: string;
+  aliases?: PayeeAlias[];
 }
 
 export type PayeeWithId = PayeeFormData & { id: string };
@@ -96,7 +345,7 @@ export type PayeeWithId = PayeeFormData & { id: string };
 export interface TransferEnvelopeFundsFormData {
   fromEnvelopeId: string;
   toEnvelopeId: string;
-  amount: number;
+  amount: Money;
   accountId: string;
   date: string;
   description?: string;
@@ -105,24 +354,136 @@ export interface TransferEnvelopeFundsFormData {
 export interface TransferAccountFundsFormData {
     fromAccountId: string;
     toAccountId: string;
-    amount: number;
+    amount: Money;
     date: string;
     description?: string;
 }
 
+export interface CurrencySettings {
+  baseCurrency: string; // Totals, envelopes and reports are shown in this currency
+  ledgerCurrency: string; // Stored rates are quoted in it; follows the base currency until the first rates are saved
+  exchangeRates: Record<string, number>; // Value of one unit of each currency in the ledger currency
+}
+
+export type HistoryAction = 'create' | 'update' | 'delete';
+
+// One document's change, appended to the history collection whenever the app writes it
+export interface HistoryEntry {
+  id: string;
+  changeId: string; // Shared by every document written by the same user action
+  label: string; // The action, e.g. "Edit transaction" or "Undo: Delete envelope"
+  collection: string; // e.g. "transactions"
+  documentId: string;
+  action: HistoryAction;
+  before: Record<string, any> | null;
+  after: Record<string, any> | null;
+  createdAt: string; // ISO string
+  deviceId: string;
+  deviceName: string; // Browser and platform, e.g. "Chrome on macOS"
+  sessionId: string; // Changes with every page load
+}
+
+// Amounts converted to the ledger currency at the rate stored on each transaction under 'ledger', and
+// amounts of transactions without a stored rate under their account's id, converted from its currency when read
+export type RateAmounts = Record<string, Money>;
+
+// Running totals of one month's transactions, kept up to date with every transaction write so balances
+// don't need months that aren't loaded
+export interface TransactionMonthSummary {
+  id: string; // "YYYY-MM"
+  transactionCount: number;
+  accounts: Record<string, { transactionCount: number; balance: Money; clearedBalance: Money }>; // In the account's currency
+  envelopes: Record<string, { spent: RateAmounts; inflows: RateAmounts }>;
+  cardPayments: Record<string, { moneyIn: RateAmounts; moneyOut: RateAmounts }>; // By card account
+  income: RateAmounts; // Actual income, as in getMonthlyActualIncomeTotal
+  outflow: RateAmounts; // Non-transfer outflows, as in getMonthlyOutflowTotal
+}
+
+// One envelope's month in the envelope ledger, in the base currency
+export interface EnvelopeMonthBalance {
+  month: string; // "YYYY-MM"
+  allocated: Money;
+  spent: Money;
+  inflows: Money;
+  closingBalance: Money; // Everything allocated and received since the envelope was created, less spending
+}
+
+// Which transactions a page lists and queries for, optionally only those dated in one month ("YYYY-MM")
+export type TransactionScope = ({ accountId: string } | { envelopeId: string } | { payeeId: string }) & { month?: string };
+
+
+export type PendingWriteStatus = 'pending' | 'failed' | 'conflict';
+
+// A saved change that Firestore hasn't confirmed yet, or one that needs the user's attention once it was
+export interface PendingWrite {
+  id: string;
+  label: string; // The action, e.g. "Add transaction"
+  queuedAt: string; // ISO string
+  documentCount: number;
+  status: PendingWriteStatus;
+  error?: string; // Why the server rejected it; the change is rolled back locally
+  conflicts?: HistoryEntry[]; // Changes from other devices that this one was saved over
+}
+
+// Where the live data stands against Firestore: still loading, up to date, writing local changes,
+// working from the offline cache, or a listener failed
+export type SyncStatus = 'connecting' | 'synced' | 'saving' | 'offline' | 'error';
+
+// What a member can do in a budget: the owner also manages who's in it, and a viewer can only look
+export type BudgetRole = 'owner' | 'editor' | 'viewer';
+
+export interface BudgetMember {
+  role: BudgetRole;
+  name: string; // Display name, or the email address without one
+  email: string;
+  joinedAt: string; // ISO string
+}
+
+// A budget several people use, stored at budgets/{id} with the same collections as a personal budget
+export interface SharedBudget {
+  id: string;
+  name: string;
+  ownerId: string;
+  members: Record<string, BudgetMember>; // By user id
+  memberIds: string[]; // The members' ids again, so the budgets a user is in can be queried
+  createdAt: string; // ISO string
+}
+
+// An invitation to a shared budget, stored under it by the invitee's lowercased email address
+export interface BudgetInvite {
+  id: string; // The email address
+  budgetId: string;
+  budgetName: string;
+  email: string;
+  role: Exclude<BudgetRole, 'owner'>;
+  invitedBy: string; // The owner's name
+  createdAt: string; // ISO string
+}
+
 export interface AppContextType {
   accounts: Account[];
   envelopes: Envelope[];
-  transactions: Transaction[];
+  transactions: Transaction[]; // The loaded window, newest first, plus whatever scoped pages have loaded
   payees: Payee[];
   categories: string[];
   orderedCategories: string[];
   lastModified: string | null;
+
+  transactionSummaries: TransactionMonthSummary[]; // Every month with transactions, oldest first
+  transactionWindowStart: string | null; // "YYYY-MM-DD" the loaded window starts at, null once everything is loaded
+  olderTransactionCount: number; // Transactions dated before the loaded window
+  isLoadingOlderTransactions: boolean;
+  loadOlderTransactions: () => void; // Moves the window back a few months at a time
+  // Listens to the newest `count` transactions in a scope; returns the unsubscribe function
+  watchTransactions: (scope: TransactionScope, count: number, onChange: (transactions: Transaction[]) => void) => () => void;
+  // Listens to an account's transactions that aren't reconciled, however old; returns the unsubscribe function
+  watchUnreconciledTransactions: (accountId: string, onChange: (transactions: Transaction[]) => void) => () => void;
+  getTransactionsInRange: (from: string, to: string) => Promise<Transaction[]>; // Dates inclusive, newest first; reaches before the loaded window
   
   monthlyEnvelopeBudgets: MonthlyEnvelopeBudget[];
   currentViewMonth: Date;
   setCurrentViewMonth: (updater: (date: Date) => Date) => void;
-  setMonthlyAllocation: (envelopeId: string, month: string, amount: number) => Promise<void>;
+  setMonthlyAllocation: (envelopeId: string, month: string, amount: Money) => Promise<void>;
 
   addAccount: (accountData: AccountFormData) => void;
   updateAccount: (accountData: AccountWithId) => void;
@@ -139,21 +500,86 @@ export interface AppContextType {
   deleteEnvelope: (envelopeId: string) => Promise<void>;
   transferBetweenEnvelopes: (data: TransferEnvelopeFundsFormData) => void;
   transferBetweenAccounts: (data: TransferAccountFundsFormData) => void;
+  importTransactions: (drafts: TransactionImportDraft[]) => Promise<number>; // How many were saved; rows imported before are skipped
+
+  recurringTransactions: RecurringTransaction[];
+  addRecurringTransaction: (data: RecurringTransactionFormData) => Promise<void>;
+  updateRecurringTransaction: (data: RecurringTransactionWithId) => Promise<void>;
+  deleteRecurringTransaction: (recurringTransactionId: string) => Promise<void>;
+  postRecurringTransaction: (recurringTransactionId: string) => Promise<void>; // Posts the next due occurrence
+  skipRecurringTransaction: (recurringTransactionId: string) => Promise<void>; // Skips the next due occurrence
+  setTransactionStatus: (transactionIds: string[], status: TransactionStatus) => Promise<void>;
+  reconcileAccount: (data: ReconcileAccountData) => Promise<void>;
+  bulkUpdateTransactions: (transactionIds: string[], changes: BulkTransactionChanges) => Promise<number>;
+  bulkDeleteTransactions: (transactionIds: string[]) => Promise<number>;
+  countTransactions: (scope: TransactionScope) => Promise<number>; // Stored transactions, loaded or not
+  // Deleting and merging resolve with the number of transactions moved or deleted
+  deleteAccount: (accountId: string, orphans: OrphanedTransactions) => Promise<number>;
+  deletePayee: (payeeId: string, orphans: OrphanedTransactions) => Promise<number>;
+  mergePayees: (sourcePayeeId: string, targetPayeeId: string) => Promise<number>; // Moves everything to the target, then deletes the source
+
+  transactionRules: TransactionRule[]; // In the order they run
+  addTransactionRule: (data: TransactionRuleFormData) => Promise<void>; // Added last
+  updateTransactionRule: (data: TransactionRuleWithId) => Promise<void>;
+  deleteTransactionRule: (ruleId: string) => Promise<void>;
+  reorderTransactionRules: (orderedRuleIds: string[]) => Promise<void>;
+  // What the enabled rules would change on the stored transactions dated from..to ("YYYY-MM-DD", inclusive).
+  // With overwrite, envelopes and payees already set are replaced rather than only filled in.
+  previewTransactionRules: (from: string, to: string, overwrite: boolean) => Promise<TransactionRuleMatch[]>;
+  applyTransactionRuleMatches: (matches: TransactionRuleMatch[]) => Promise<number>; // Saves a preview; resolves with the number changed
+
+  // Undo and redo resolve with the label of the change they reversed, or null when there was nothing to do
+  undo: () => Promise<string | null>;
+  redo: () => Promise<string | null>;
+  undoLabel: string | null; // Label of the change undo would reverse
+  redoLabel: string | null;
+  getDocumentHistory: (documentId: string) => Promise<HistoryEntry[]>; // Newest first
+
+  currencySettings: CurrencySettings;
+  updateCurrencySettings: (baseCurrency: string, ratesToBase: Record<string, number>) => Promise<void>; // Rates are units of base per unit
+  getAccountCurrency: (accountId: string) => string;
+  getTransactionBaseAmount: (transaction: Transaction) => Money; // Amount converted at the transaction's stored rate
   
-  getAccountBalance: (accountId: string) => number;
+  getAccountBalance: (accountId: string) => Money; // In the account's own currency
+  getAccountBaseBalance: (accountId: string) => Money; // Converted to the base currency at today's rate
+  getAccountClearedBalance: (accountId: string) => Money; // Opening balance plus cleared and reconciled transactions
   getAccountById: (accountId: string) => Account | undefined;
   getEnvelopeById: (envelopeId: string) => Envelope | undefined;
   
-  getEnvelopeSpending: (envelopeId: string, forMonth: Date) => number;
-  getEnvelopeBalanceAsOfEOM: (envelopeId: string, asOfEOM: Date) => number;
-  getMonthlyAllocation: (envelopeId: string, forMonth: Date) => number;
-  getEffectiveMonthlyBudgetWithRollover: (envelopeId: string, forMonth: Date) => number; 
-
-  getMonthlyActualIncomeTotal: (forMonth: Date) => number; // Renamed
-  getMonthlyOutflowTotal: (forMonth: Date) => number; // Renamed
-  getTotalMonthlyBudgeted: (forMonth: Date) => number; 
-  getYtdActualIncomeTotal: () => number; // Renamed
+  getEnvelopeSpending: (envelopeId: string, forMonth: Date) => Money;
+  getEnvelopeBalanceAsOfEOM: (envelopeId: string, asOfEOM: Date) => Money;
+  getMonthlyAllocation: (envelopeId: string, forMonth: Date) => Money;
+  getEffectiveMonthlyBudgetWithRollover: (envelopeId: string, forMonth: Date) => Money; 
+
+  getMonthlyActualIncomeTotal: (forMonth: Date) => Money; // Renamed
+  getMonthlyOutflowTotal: (forMonth: Date) => Money; // Renamed
+  getTotalMonthlyBudgeted: (forMonth: Date) => Money; 
+  getYtdActualIncomeTotal: () => Money; // Renamed
   
   getPayeeTransactions: (payeeId: string) => Transaction[]; 
+  resolvePayeeName: (text: string) => Payee | undefined; // The payee a typed or imported name stands for, by name or alias
   isLoading: boolean;
+  moneyMigrationError: string | null; // Why the amounts couldn't be converted to minor units; the budget is view-only until they are
+  retryMoneyMigration: () => Promise<void>;
+  syncStatus: SyncStatus;
+  pendingWrites: PendingWrite[];
+  dismissPendingWrite: (id: string) => void;
+  isNetworkEnabled: boolean;
+  setNetworkEnabled: (enabled: boolean) => Promise<void>;
+
+  // The personal budget is always there, with id null; shared budgets are the ones the user is a member of
+  sharedBudgets: SharedBudget[];
+  activeBudgetId: string | null;
+  budgetRole: BudgetRole; // The user's role in the active budget
+  canEditBudget: boolean; // False for viewers, whose changes are refused
+  switchBudget: (budgetId: string | null) => void;
+  createSharedBudget: (name: string) => Promise<string>; // Resolves with the new budget's id
+  receivedBudgetInvites: BudgetInvite[];
+  sentBudgetInvites: BudgetInvite[]; // Open invites to the active budget, for its owner
+  inviteBudgetMember: (email: string, role: Exclude<BudgetRole, 'owner'>) => Promise<void>;
+  cancelBudgetInvite: (inviteId: string) => Promise<void>;
+  acceptBudgetInvite: (invite: BudgetInvite) => Promise<void>; // Also switches to the budget
+  declineBudgetInvite: (invite: BudgetInvite) => Promise<void>;
+  setBudgetMemberRole: (userId: string, role: Exclude<BudgetRole, 'owner'>) => Promise<void>;
+  removeBudgetMember: (userId: string) => Promise<void>; // Removing yourself leaves the budget
 }